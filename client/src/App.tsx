@@ -3,6 +3,10 @@ import { Switch, Route } from "wouter";
 import { Toaster } from "@/components/ui/toaster";
 import NotFound from "@/pages/not-found";
 import Dashboard from "@/pages/dashboard";
+import Heatmap from "@/pages/heatmap";
+import MoversAnalytics from "@/pages/movers";
+import SignalReplayPage from "@/pages/signals";
+import Optimizer from "@/pages/optimizer";
 
 const queryClient = new QueryClient();
 
@@ -10,6 +14,10 @@ function Router() {
   return (
     <Switch>
       <Route path="/" component={Dashboard} />
+      <Route path="/heatmap" component={Heatmap} />
+      <Route path="/movers" component={MoversAnalytics} />
+      <Route path="/signals/:symbol" component={SignalReplayPage} />
+      <Route path="/optimizer" component={Optimizer} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -1,91 +1,241 @@
 import { useEffect, useRef, useState } from 'react';
+import {
+  PROTOCOL_VERSION,
+  applyPriceDelta,
+  decodeServerMessage,
+  type ClientMessage,
+  type MarketMover,
+  type MarketMoversUpdateMessage,
+  type PriceUpdateMessage,
+  type ServerHelloMessage
+} from '@shared/protocol';
 
-export interface PriceUpdate {
-  type: 'price_update';
-  symbol: string;
-  price: number;
-  change: number;
-  changePercent: number;
-  volume: number;
-  timestamp: number;
-}
-
-export interface MarketMover {
-  symbol: string;
-  name: string;
-  price: number;
-  change: string;
-  changePercent: number;
-}
-
-export interface MarketMoversUpdate {
-  type: 'market_movers_update';
-  gainers: MarketMover[];
-  losers: MarketMover[];
-  timestamp: number;
-}
+export type PriceUpdate = PriceUpdateMessage;
+export type MarketMoversUpdate = MarketMoversUpdateMessage;
+export type { MarketMover };
+
+// While on the SSE fallback, the WebSocket is retried after 5s, 10s, 20s, ... up to every 5 minutes
+const WS_PROBE_BASE_DELAY_MS = 5000;
+const WS_PROBE_MAX_DELAY_MS = 5 * 60 * 1000;
+
+const symbolKey = (symbols: string[]) => symbols.map(symbol => symbol.toUpperCase()).sort().join(',');
 
 export const useWebSocket = (url: string, symbols: string[] = []) => {
   const [isConnected, setIsConnected] = useState(false);
   const [priceUpdates, setPriceUpdates] = useState<PriceUpdate[]>([]);
+  const [latestPrices, setLatestPrices] = useState<Record<string, PriceUpdate>>({});
   const [marketMovers, setMarketMovers] = useState<{ gainers: MarketMover[], losers: MarketMover[], timestamp: number } | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [serverHello, setServerHello] = useState<ServerHelloMessage | null>(null);
   const ws = useRef<WebSocket | null>(null);
   const reconnectTimeout = useRef<NodeJS.Timeout | null>(null);
   const reconnectAttempts = useRef(0);
   const maxReconnectAttempts = 5;
+  const probeAttempts = useRef(0);
   const subscribedSymbols = useRef<string[]>([]);
+  const requestCounter = useRef(0);
+  const latestPricesRef = useRef<Record<string, PriceUpdate>>({}); // baselines for price_delta frames
+  const [transport, setTransport] = useState<'websocket' | 'sse' | null>(null);
+  const eventSource = useRef<EventSource | null>(null);
+  const eventSourceSymbols = useRef('');
+  const wasOpen = useRef(false);
+  const symbolsRef = useRef(symbols);
+  symbolsRef.current = symbols;
+
+  const send = (message: ClientMessage) => {
+    if (ws.current && ws.current.readyState === WebSocket.OPEN) {
+      ws.current.send(JSON.stringify(message));
+      return true;
+    }
+    return false;
+  };
+
+  const nextRequestId = () => `req-${++requestCounter.current}`;
+
+  const recordPrices = (updates: PriceUpdate[]) => {
+    updates.forEach(update => {
+      latestPricesRef.current[update.symbol] = update;
+    });
+    setPriceUpdates(prev => [...prev, ...updates].slice(-10)); // Keep last 10 updates
+    setLatestPrices({ ...latestPricesRef.current });
+  };
+
+  // Handle a frame from either transport; SSE carries the same payloads as the WebSocket
+  const handleFrame = (raw: string) => {
+    try {
+      // Frames that do not match the shared protocol schemas are dropped
+      const result = decodeServerMessage(raw);
+      if (!result.success) {
+        console.error(`Invalid stream message (${result.code}):`, result.error);
+        return;
+      }
+
+      const data = result.message;
+      if (data.type === 'hello') {
+        setServerHello(data);
+      } else if (data.type === 'ack') {
+        // The server reports the full subscription after every request
+        subscribedSymbols.current = data.symbols;
+      } else if (data.type === 'error') {
+        console.warn(`WebSocket server error (${data.code}):`, data.message);
+        setError(data.message);
+      } else if (data.type === 'price_update') {
+        recordPrices([data]);
+      } else if (data.type === 'price_delta') {
+        // Deltas only carry changed fields (null for cleared ones); without a baseline, wait for the next keyframe
+        const base = latestPricesRef.current[data.symbol];
+        if (base) {
+          recordPrices([applyPriceDelta(base, data)]);
+        }
+      } else if (data.type === 'snapshot') {
+        // Seed state from the server's cache right after subscribing
+        if (data.prices.length > 0) {
+          recordPrices(data.prices);
+        }
+        if (data.movers) {
+          setMarketMovers({
+            gainers: data.movers.gainers,
+            losers: data.movers.losers,
+            timestamp: data.movers.timestamp
+          });
+        }
+      } else if (data.type === 'market_movers_update') {
+        setMarketMovers({
+          gainers: data.gainers,
+          losers: data.losers,
+          timestamp: data.timestamp
+        });
+      }
+    } catch (err) {
+      console.error('Error parsing stream message:', err);
+    }
+  };
+
+  const streamUrl = () => {
+    const target = new URL(url);
+    target.protocol = target.protocol === 'wss:' ? 'https:' : 'http:';
+    target.pathname = '/api/stream';
+    target.search = `?symbols=${encodeURIComponent(symbolsRef.current.join(','))}`;
+    return target.toString();
+  };
+
+  const closeEventSource = () => {
+    if (eventSource.current) {
+      eventSource.current.close();
+      eventSource.current = null;
+    }
+  };
+
+  // Server-Sent Events fallback for networks that block WebSocket upgrades
+  const connectEventSource = () => {
+    closeEventSource();
+    latestPricesRef.current = {};
+    eventSourceSymbols.current = symbolKey(symbolsRef.current);
+    setTransport('sse');
+
+    const source = new EventSource(streamUrl());
+    eventSource.current = source;
+
+    source.onopen = () => {
+      console.log('Event stream connected');
+      setIsConnected(true);
+      setError(null);
+    };
+
+    source.onmessage = (event) => handleFrame(event.data);
+
+    // EventSource reconnects on its own
+    source.onerror = () => {
+      setIsConnected(false);
+      setError('Event stream connection error');
+    };
+  };
+
+  // Try the WebSocket again later; the event stream keeps running until a handshake succeeds
+  const scheduleWebSocketProbe = () => {
+    const delay = Math.min(WS_PROBE_BASE_DELAY_MS * 2 ** probeAttempts.current, WS_PROBE_MAX_DELAY_MS);
+    probeAttempts.current++;
+    reconnectTimeout.current = setTimeout(() => {
+      connect();
+    }, delay);
+  };
+
+  const fallBackToEventSource = () => {
+    connectEventSource();
+    probeAttempts.current = 0;
+    scheduleWebSocketProbe();
+  };
 
   const connect = () => {
+    if (reconnectTimeout.current) {
+      clearTimeout(reconnectTimeout.current);
+      reconnectTimeout.current = null;
+    }
+
     try {
       ws.current = new WebSocket(url);
+      wasOpen.current = false;
 
       ws.current.onopen = () => {
+        if (eventSource.current) {
+          console.log('WebSocket available again, leaving Server-Sent Events');
+          closeEventSource();
+        }
         console.log('WebSocket connected');
+        wasOpen.current = true;
+        probeAttempts.current = 0;
+        setTransport('websocket');
         setIsConnected(true);
         setError(null);
         reconnectAttempts.current = 0;
         subscribedSymbols.current = []; // Clear on new connection
+        latestPricesRef.current = {}; // Delta baselines don't survive a reconnect
+
+        // Opt into incremental subscriptions, acks and typed errors
+        send({ type: 'hello', protocolVersion: PROTOCOL_VERSION, requestId: nextRequestId() });
 
         // Subscribe to symbols
-        if (symbols.length > 0) {
-          subscribe(symbols);
+        if (symbolsRef.current.length > 0) {
+          subscribe(symbolsRef.current);
         }
       };
 
-      ws.current.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          if (data.type === 'price_update') {
-            setPriceUpdates(prev => [...prev.slice(-9), data]); // Keep last 10 updates
-          } else if (data.type === 'market_movers_update') {
-            setMarketMovers({
-              gainers: data.gainers,
-              losers: data.losers,
-              timestamp: data.timestamp
-            });
-          }
-        } catch (err) {
-          console.error('Error parsing WebSocket message:', err);
-        }
-      };
+      ws.current.onmessage = (event) => handleFrame(event.data);
 
       ws.current.onclose = (event) => {
+        // A probe that failed while streaming over SSE: stay on the event stream
+        if (eventSource.current && !wasOpen.current) {
+          if (event.code !== 1000) scheduleWebSocketProbe();
+          return;
+        }
+
         console.log('WebSocket disconnected:', event.code, event.reason);
         setIsConnected(false);
+        if (event.code === 1000) return;
+
+        // A socket that never opened usually means a proxy stripped the upgrade; stream over SSE and probe now and then
+        if (!wasOpen.current && reconnectAttempts.current === 0) {
+          console.log('WebSocket unavailable, falling back to Server-Sent Events');
+          fallBackToEventSource();
+          return;
+        }
 
         // Attempt to reconnect if not a normal closure
-        if (event.code !== 1000 && reconnectAttempts.current < maxReconnectAttempts) {
+        if (reconnectAttempts.current < maxReconnectAttempts) {
           reconnectAttempts.current++;
           console.log(`Attempting to reconnect (${reconnectAttempts.current}/${maxReconnectAttempts})...`);
 
           reconnectTimeout.current = setTimeout(() => {
             connect();
           }, 2000 * reconnectAttempts.current); // Exponential backoff
+        } else {
+          console.log('WebSocket reconnects exhausted, falling back to Server-Sent Events');
+          fallBackToEventSource();
         }
       };
 
       ws.current.onerror = (error) => {
+        if (eventSource.current) return; // a failed probe; onclose schedules the next one
         console.error('WebSocket error:', error);
         setError('WebSocket connection error');
       };
@@ -105,30 +255,39 @@ export const useWebSocket = (url: string, symbols: string[] = []) => {
       ws.current.close(1000, 'Client disconnecting');
       ws.current = null;
     }
+    closeEventSource();
+    setTransport(null);
     setIsConnected(false);
     subscribedSymbols.current = []; // Clear subscribed symbols on disconnect
   };
 
+  // Bring the server-side subscription in line with newSymbols using incremental requests
   const subscribe = (newSymbols: string[]) => {
-    // Check if symbols have actually changed
-    const sortedNew = [...newSymbols].sort();
-    const sortedCurrent = [...subscribedSymbols.current].sort();
-    const hasChanged = JSON.stringify(sortedNew) !== JSON.stringify(sortedCurrent);
+    const wanted = Array.from(new Set(newSymbols.map(symbol => symbol.toUpperCase())));
+    const added = wanted.filter(symbol => !subscribedSymbols.current.includes(symbol));
+    const removed = subscribedSymbols.current.filter(symbol => !wanted.includes(symbol));
 
-    if (!hasChanged) {
+    if (added.length === 0 && removed.length === 0) {
       return; // No change, don't send subscribe message
     }
 
+    if (added.length > 0) {
+      // Only changed fields are streamed; the hook rebuilds full updates from them
+      send({ type: 'subscribe', symbols: added, mode: 'delta', requestId: nextRequestId() });
+    }
+    if (removed.length > 0) {
+      send({ type: 'unsubscribe', symbols: removed, requestId: nextRequestId() });
+    }
     if (ws.current && ws.current.readyState === WebSocket.OPEN) {
-      ws.current.send(JSON.stringify({
-        type: 'subscribe',
-        symbols: newSymbols
-      }));
-      subscribedSymbols.current = [...newSymbols];
-      console.log('Subscribed to symbols:', newSymbols);
+      subscribedSymbols.current = wanted;
+      console.log('Subscribed to symbols:', wanted);
     }
   };
 
+  const unsubscribe = (symbols: string[]) => {
+    subscribe(subscribedSymbols.current.filter(symbol => !symbols.map(s => s.toUpperCase()).includes(symbol)));
+  };
+
   useEffect(() => {
     connect();
 
@@ -139,6 +298,13 @@ export const useWebSocket = (url: string, symbols: string[] = []) => {
 
   // Update subscription when symbols change
   useEffect(() => {
+    if (transport === 'sse') {
+      // SSE streams have a fixed symbol list, so a changed list reopens the stream
+      if (symbolKey(symbols) !== eventSourceSymbols.current) {
+        connectEventSource();
+      }
+      return;
+    }
     if (isConnected && symbols.length > 0) {
       subscribe(symbols);
     }
@@ -147,9 +313,13 @@ export const useWebSocket = (url: string, symbols: string[] = []) => {
   return {
     isConnected,
     priceUpdates,
+    latestPrices,
     marketMovers,
     error,
+    serverHello,
+    transport,
     subscribe,
+    unsubscribe,
     disconnect,
     reconnect: connect
   };
@@ -1,3 +1,5 @@
+import type { MarketHeatmap } from "@shared/heatmap";
+
 // API utilities for Yahoo Finance integration
 export interface StockQuote {
   symbol: string;
@@ -6,6 +8,16 @@ export interface StockQuote {
   change: string;
   vol: string;
   currency?: string;
+  sector?: string;
+}
+
+export interface StockProfile {
+  symbol: string;
+  name: string;
+  sector: string;
+  industry: string;
+  country: string;
+  exchange: string;
 }
 
 export interface HistoricalData {
@@ -29,6 +41,425 @@ export const fetchStockQuote = async (symbol: string) => {
   return response.json();
 };
 
+// Fetch company profile (sector, industry, exchange)
+export const fetchStockProfile = async (symbol: string): Promise<StockProfile> => {
+  const response = await fetch(`/api/stocks/${symbol}/profile`);
+  if (!response.ok) throw new Error('Failed to fetch stock profile');
+  return response.json();
+};
+
+// Intraday statistics of a symbol's current session
+export interface SessionStats {
+  symbol: string;
+  sessionDate: string;
+  open: number | null;
+  vwap: number | null;
+  sessionVolume: number;
+  averageVolumeAtTime: number | null;
+  relativeVolume: number | null;
+  openingRange: { high: number; low: number; complete: boolean } | null;
+  gapPercent: number | null;
+  updatedAt: string;
+}
+
+// Fetch session statistics (VWAP, relative volume, opening range, gap); null before the session opens
+export const fetchSessionStats = async (symbol: string): Promise<SessionStats | null> => {
+  const response = await fetch(`/api/stocks/${symbol}/session-stats`);
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error('Failed to fetch session statistics');
+  return response.json();
+};
+
+// Lookback periods of the indicator panel
+export interface IndicatorPeriods {
+  rsi: number;
+  ema: number;
+  bollinger: number;
+  bollingerStdDev: number;
+  atr: number;
+}
+
+// Latest RSI, MACD, EMA, Bollinger Bands and ATR volatility of a symbol
+export interface IndicatorSnapshot {
+  symbol: string;
+  interval: string;
+  bars: number;
+  asOf: string;
+  price: number;
+  rsi: { period: number; value: number };
+  macd: { macd: number; signal: number; histogram: number };
+  ema: { period: number; value: number };
+  bollinger: { period: number; stdDev: number; upper: number; middle: number; lower: number; percentB: number | null };
+  atr: { period: number; value: number; percent: number; percentile: number };
+}
+
+// Fetch technical indicators computed over historical bars of `interval`
+export const fetchIndicators = async (symbol: string, periods: IndicatorPeriods, interval: string = '1d'): Promise<IndicatorSnapshot> => {
+  const params = new URLSearchParams({
+    interval,
+    rsi: String(periods.rsi),
+    ema: String(periods.ema),
+    bb: String(periods.bollinger),
+    bbStdDev: String(periods.bollingerStdDev),
+    atr: String(periods.atr),
+  });
+  const response = await fetch(`/api/stocks/${symbol}/indicators?${params}`);
+  if (!response.ok) throw new Error('Failed to fetch indicators');
+  return response.json();
+};
+
+// A numeric strategy parameter with its range
+export interface StrategyParameter {
+  name: string;
+  label: string;
+  description: string;
+  type: 'integer' | 'number';
+  default: number;
+  min: number;
+  max: number;
+  step?: number;
+}
+
+// A registered trading strategy
+export interface StrategyInfo {
+  id: string;
+  name: string;
+  description: string;
+  parameters: StrategyParameter[];
+  lookback: number;
+}
+
+export interface TradingSignal {
+  symbol: string;
+  action: 'BUY' | 'SELL' | 'HOLD';
+  confidence: number;
+  reason: string;
+}
+
+export interface SignalRequest {
+  symbol: string;
+  price: number;
+  volume: number;
+  historicalPrices: number[];
+  sentimentScore?: number;
+  params?: Record<string, number>;
+}
+
+// Fetch registered strategies and their parameter schemas
+export const fetchStrategies = async (): Promise<StrategyInfo[]> => {
+  const response = await fetch('/api/strategies');
+  if (!response.ok) throw new Error('Failed to fetch strategies');
+  return response.json();
+};
+
+// Generate a signal with a strategy
+export const generateSignal = async (strategyId: string, request: SignalRequest): Promise<TradingSignal> => {
+  const response = await fetch(`/api/strategies/${strategyId}/signal`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  if (!response.ok) throw new Error('Failed to generate signal');
+  return response.json();
+};
+
+// A strategy signal on a historical bar and the return over the following `horizon` bars
+export interface ReplayedSignal {
+  date: string;
+  price: number;
+  action: 'BUY' | 'SELL' | 'HOLD';
+  confidence: number;
+  reason: string;
+  forwardReturnPercent: number | null;
+  hit: boolean | null;
+}
+
+export interface ConfidenceBucketStats {
+  min: number;
+  max: number;
+  signals: number;
+  hits: number;
+  hitRatePercent: number | null;
+  avgForwardReturnPercent: number | null;
+}
+
+export interface SignalReplay {
+  symbol: string;
+  strategy: string;
+  params: Record<string, number>;
+  interval: string;
+  horizon: number;
+  signals: ReplayedSignal[];
+  buckets: ConfidenceBucketStats[];
+  summary: { buy: number; sell: number; hold: number; hitRatePercent: number | null };
+}
+
+// Replay a strategy over a symbol's history
+export const fetchSignalReplay = async (symbol: string, strategy: string, interval: string = '1d', horizon: number = 5): Promise<SignalReplay> => {
+  const params = new URLSearchParams({ strategy, interval, horizon: String(horizon) });
+  const response = await fetch(`/api/stocks/${symbol}/signals?${params}`);
+  if (!response.ok) throw new Error('Failed to replay signals');
+  return response.json();
+};
+
+export interface BacktestMetrics {
+  finalEquity: number;
+  totalReturnPercent: number;
+  cagrPercent: number | null;
+  sharpe: number | null;
+  sortino: number | null;
+  maxDrawdownPercent: number;
+  winRatePercent: number | null;
+  trades: number;
+  exposurePercent: number;
+}
+
+export type OptimizationObjective = 'sharpe' | 'sortino' | 'totalReturnPercent' | 'cagrPercent';
+
+// Values to search for a parameter: an explicit list or a stepped range
+export type ParameterRange = number[] | { min: number; max: number; step?: number };
+
+export interface OptimizationRequest {
+  strategy: string;
+  symbols: string[];
+  source?: 'provider' | 'clickhouse';
+  interval?: string;
+  from?: string;
+  to?: string;
+  method?: 'grid' | 'random';
+  samples?: number;
+  space: Record<string, ParameterRange>;
+  params?: Record<string, number>;
+  folds?: number;
+  inSampleRatio?: number;
+  objective?: OptimizationObjective;
+}
+
+export interface OptimizationCombination {
+  params: Record<string, number>;
+  inSampleScore: number | null;
+  outOfSampleScore: number | null;
+  inSample: BacktestMetrics | null;
+  outOfSample: BacktestMetrics | null;
+}
+
+export interface OptimizationFold {
+  index: number;
+  inSample: { from: string; to: string };
+  outOfSample: { from: string; to: string };
+  bestParams: Record<string, number> | null;
+  inSampleScore: number | null;
+  outOfSampleScore: number | null;
+  outOfSampleMetrics: BacktestMetrics | null;
+}
+
+export interface OptimizationResult {
+  id: string;
+  strategy: string;
+  symbols: string[];
+  interval: string;
+  from: string;
+  to: string;
+  method: 'grid' | 'random';
+  objective: OptimizationObjective;
+  folds: number;
+  inSampleRatio: number;
+  space: Record<string, number[]>;
+  bestParams: Record<string, number> | null;
+  inSampleScore: number | null;
+  outOfSampleScore: number | null;
+  outOfSampleMetrics: BacktestMetrics | null;
+  foldResults: OptimizationFold[];
+  combinations: OptimizationCombination[];
+  createdAt: string;
+  durationMs: number;
+}
+
+export interface OptimizationSummary {
+  id: string;
+  strategy: string;
+  symbols: string[];
+  interval: string;
+  from: string;
+  to: string;
+  method: string;
+  objective: OptimizationObjective;
+  bestParams: Record<string, number>;
+  inSampleScore: number | null;
+  outOfSampleScore: number | null;
+  createdAt: string;
+}
+
+// Run a walk-forward optimization; the error carries the server's reason, e.g. a grid that is too large
+export const runOptimization = async (request: OptimizationRequest): Promise<OptimizationResult> => {
+  const response = await fetch('/api/optimizations', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || 'Failed to run optimization');
+  }
+  return response.json();
+};
+
+// Fetch stored optimization runs, newest first
+export const fetchOptimizations = async (strategy?: string, limit: number = 50): Promise<OptimizationSummary[]> => {
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (strategy) params.set('strategy', strategy);
+  const response = await fetch(`/api/optimizations?${params}`);
+  if (!response.ok) throw new Error('Failed to fetch optimizations');
+  return response.json();
+};
+
+// Fetch the full result of a stored optimization run
+export const fetchOptimization = async (id: string): Promise<OptimizationResult> => {
+  const response = await fetch(`/api/optimizations/${id}`);
+  if (!response.ok) throw new Error('Failed to fetch optimization');
+  return response.json();
+};
+
+export interface PaperPosition {
+  symbol: string;
+  quantity: number; // negative for shorts
+  avgPrice: number;
+  lastPrice: number;
+  marketValue: number;
+  unrealizedPnl: number;
+  unrealizedPnlPercent: number;
+  realizedPnl: number;
+  openedAt: string;
+}
+
+export interface PaperAccount {
+  initialCash: number;
+  cash: number;
+  marketValue: number;
+  equity: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  totalReturnPercent: number;
+  commissions: number;
+  positions: PaperPosition[];
+  openOrders: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PaperOrder {
+  id: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  type: 'market' | 'limit';
+  quantity: number;
+  limitPrice: number | null;
+  status: 'open' | 'filled' | 'cancelled' | 'rejected';
+  reason: string | null;
+  rejectReason: string | null;
+  fillId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PaperFill {
+  id: string;
+  orderId: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  quotePrice: number;
+  slippageBps: number;
+  commission: number;
+  realizedPnl: number;
+  timestamp: string;
+}
+
+export interface PaperOrderRequest {
+  symbol: string;
+  side: 'buy' | 'sell';
+  type?: 'market' | 'limit';
+  quantity: number;
+  limitPrice?: number;
+  reason?: string;
+}
+
+// Fetch the paper trading account, marked to the latest quotes
+export const fetchPaperAccount = async (): Promise<PaperAccount> => {
+  const response = await fetch('/api/paper/account');
+  if (!response.ok) throw new Error('Failed to fetch paper trading account');
+  return response.json();
+};
+
+// Fetch recent paper trading fills, newest first
+export const fetchPaperFills = async (limit: number = 50): Promise<PaperFill[]> => {
+  const response = await fetch(`/api/paper/fills?limit=${limit}`);
+  if (!response.ok) throw new Error('Failed to fetch paper trading fills');
+  return response.json();
+};
+
+// Place a paper order; the error carries the server's reason, e.g. insufficient cash
+export const placePaperOrder = async (request: PaperOrderRequest): Promise<PaperOrder> => {
+  const response = await fetch('/api/paper/orders', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || 'Failed to place paper order');
+  }
+  return response.json();
+};
+
+export interface PaperBotDecision {
+  id: number;
+  symbol: string;
+  action: 'BUY' | 'SELL' | 'HOLD';
+  confidence: number;
+  reason: string;
+  riskPercent: number | null; // share of equity a BUY was sized to
+  order: string | null; // the paper order placed for the signal, or why none was
+  timestamp: string;
+}
+
+export interface PaperBotStatus {
+  enabled: boolean;
+  strategy: string;
+  params: Record<string, number>;
+  intervalMs: number;
+  minConfidence: number;
+  decisions: PaperBotDecision[]; // newest first
+}
+
+export interface PaperBotSettings {
+  enabled?: boolean;
+  strategy?: string;
+  params?: Record<string, number>;
+}
+
+// Fetch the server's paper trading bot: its strategy, parameters and recent signals
+export const fetchPaperBot = async (): Promise<PaperBotStatus> => {
+  const response = await fetch('/api/paper/bot');
+  if (!response.ok) throw new Error('Failed to fetch paper trading bot');
+  return response.json();
+};
+
+// Pause or resume the paper trading bot, or switch its strategy or parameters
+export const configurePaperBot = async (settings: PaperBotSettings): Promise<PaperBotStatus> => {
+  const response = await fetch('/api/paper/bot', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(settings),
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || 'Failed to configure paper trading bot');
+  }
+  return response.json();
+};
+
 // Fetch historical data
 export const fetchHistoricalData = async (symbol: string, days: number = 30) => {
   const endDate = new Date();
@@ -52,6 +483,28 @@ export const fetchHistoricalData = async (symbol: string, days: number = 30) =>
   }));
 };
 
+// Fetch OHLCV bars stored from our own price stream
+export const fetchBars = async (symbol: string, interval: '1m' | '5m' | '1h' | '1d' = '5m', days: number = 1): Promise<ChartDataPoint[]> => {
+  const to = new Date();
+  const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+
+  const response = await fetch(
+    `/api/stocks/${symbol}/bars?interval=${interval}&from=${from.toISOString()}&to=${to.toISOString()}`
+  );
+  if (!response.ok) throw new Error('Failed to fetch bars');
+  const data: HistoricalData[] = await response.json();
+
+  // Convert to chart format
+  return data.map(bar => ({
+    time: new Date(bar.date).toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: false
+    }),
+    price: bar.close
+  }));
+};
+
 // Fetch market movers
 export const fetchMarketMovers = async (type: 'gainers' | 'losers', count: number = 20): Promise<StockQuote[]> => {
   const response = await fetch(`/api/market/movers/${type}?count=${count}`);
@@ -71,4 +524,32 @@ export const fetchMarketSummary = async () => {
   const response = await fetch('/api/market/summary');
   if (!response.ok) throw new Error('Failed to fetch market summary');
   return response.json();
+};
+
+// Fetch the sector > industry > symbol heatmap of the latest quotes
+export const fetchMarketHeatmap = async (hours: number = 24): Promise<MarketHeatmap> => {
+  const response = await fetch(`/api/market/heatmap?hours=${hours}`);
+  if (!response.ok) throw new Error('Failed to fetch market heatmap');
+  return response.json();
+};
+
+// How a symbol fared on a movers list; dates arrive as ISO strings
+export interface MoverStats {
+  symbol: string;
+  name: string;
+  appearances: number;
+  snapshots: number;
+  avgRank: number;
+  bestRank: number;
+  avgChangePercent: number;
+  firstSeen: string;
+  lastSeen: string;
+  listedSeconds: number;
+}
+
+// Fetch which symbols appeared most often on a movers list over the last `days`
+export const fetchMoversAnalytics = async (type: 'gainers' | 'losers', days: number = 7, limit: number = 50): Promise<MoverStats[]> => {
+  const response = await fetch(`/api/market/movers/analytics?type=${type}&days=${days}&limit=${limit}`);
+  if (!response.ok) throw new Error('Failed to fetch movers analytics');
+  return response.json();
 };
\ No newline at end of file
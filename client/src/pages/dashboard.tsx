@@ -1,9 +1,13 @@
-import { useEffect, useState, useRef } from "react";
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Slider } from "@/components/ui/slider";
 import {
   TrendingUp,
   TrendingDown,
@@ -16,12 +20,31 @@ import {
   Search,
   ShieldCheck,
   BrainCircuit,
-  RefreshCw
+  RefreshCw,
+  LayoutGrid,
+  History,
+  SlidersHorizontal,
+  Crosshair,
+  FlaskConical
 } from "lucide-react";
 import { Area, AreaChart, ResponsiveContainer, Tooltip, XAxis, YAxis, CartesianGrid } from "recharts";
 import { motion, AnimatePresence } from "framer-motion";
-import { fetchStockQuote, fetchHistoricalData, fetchMarketMovers, type StockQuote } from "@/lib/api";
+import { fetchStockQuote, fetchStockProfile, fetchSessionStats, fetchIndicators, fetchStrategies, fetchHistoricalData, fetchBars, fetchMarketMovers, fetchPaperAccount, fetchPaperFills, fetchPaperBot, configurePaperBot, type StockQuote, type StockProfile, type SessionStats, type IndicatorPeriods, type IndicatorSnapshot, type StrategyInfo, type PaperAccount, type PaperFill, type PaperBotStatus, type PaperBotSettings } from "@/lib/api";
 import { useWebSocket, type PriceUpdate, type MarketMover } from "@/hooks/use-websocket";
+import { formatChangePercent } from "@shared/protocol";
+
+const DEFAULT_INDICATOR_PERIODS: IndicatorPeriods = { rsi: 14, ema: 20, bollinger: 20, bollingerStdDev: 2, atr: 14 };
+
+const INDICATOR_INTERVALS = [
+  { value: "5m", label: "5 MIN" },
+  { value: "15m", label: "15 MIN" },
+  { value: "1d", label: "DAILY" },
+  { value: "1wk", label: "WEEKLY" },
+];
+
+// Where the current ATR sits in its own history
+const volatilityLabel = (percentile: number) =>
+  percentile >= 95 ? "Extreme" : percentile >= 75 ? "High" : percentile >= 25 ? "Normal" : "Low";
 
 // Mock Data Generators
 const generateStockData = (basePrice: number) => {
@@ -84,25 +107,6 @@ const TOP_LOSERS = [
   { symbol: "CVX", name: "Chevron", price: 148.90, change: "-0.8%", vol: "7M", currency: "USD" },
 ];
 
-interface PredictionLog {
-  id: number;
-  symbol: string;
-  action: "BUY" | "SELL" | "HOLD";
-  confidence: number;
-  time: string;
-  reason: string;
-  simulatedProfit: number; // Potential profit on $10
-}
-
-interface Transaction {
-  id: number;
-  symbol: string;
-  action: "BUY" | "SELL";
-  amount: number;
-  profit: number;
-  time: string;
-}
-
 interface Stock {
   symbol: string;
   name: string;
@@ -110,38 +114,81 @@ interface Stock {
   change: string;
   vol: string;
   currency?: string;
+  sector?: string;
 }
 
+const ALL_SECTORS = "all";
+
 export default function Dashboard() {
-  const [logs, setLogs] = useState<PredictionLog[]>([]);
   const [selectedStock, setSelectedStock] = useState<StockQuote | null>(null);
   const [chartData, setChartData] = useState<any[]>([]);
-  const [balance, setBalance] = useState(100);
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [account, setAccount] = useState<PaperAccount | null>(null);
+  const [fills, setFills] = useState<PaperFill[]>([]);
+  const [bot, setBot] = useState<PaperBotStatus | null>(null);
   const [aiStrategy, setAiStrategy] = useState("neuro-scalp");
+  const [strategies, setStrategies] = useState<StrategyInfo[]>([]);
+  const [strategyParams, setStrategyParams] = useState<Record<string, Record<string, number>>>({});
   const [topGainers, setTopGainers] = useState<StockQuote[]>([]);
   const [topLosers, setTopLosers] = useState<StockQuote[]>([]);
+  const [sectorFilter, setSectorFilter] = useState(ALL_SECTORS);
+  const [profile, setProfile] = useState<StockProfile | null>(null);
+  const [sessionStats, setSessionStats] = useState<SessionStats | null>(null);
+  const [indicatorPeriods, setIndicatorPeriods] = useState<IndicatorPeriods>(DEFAULT_INDICATOR_PERIODS);
+  const [indicatorInterval, setIndicatorInterval] = useState("1d");
+  const [indicators, setIndicators] = useState<IndicatorSnapshot | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
 
   // WebSocket connection for real-time updates
-  const { isConnected, priceUpdates, marketMovers, error: wsError } = useWebSocket('ws://localhost:3001', [
+  const { isConnected, priceUpdates, latestPrices, marketMovers, error: wsError } = useWebSocket('ws://localhost:3001', [
     'AAPL', 'GOOGL', 'MSFT', 'TSLA', 'NVDA', 'AMZN', 'META', 'NFLX', 'GOOG'
   ]);
 
-  // Use ref to keep track of current balance inside interval closure
-  const balanceRef = useRef(balance);
-  const aiStrategyRef = useRef(aiStrategy);
-
-  // Sync ref with state
+  // Load the registered strategies, starting every parameter at its default
   useEffect(() => {
-    balanceRef.current = balance;
-  }, [balance]);
+    fetchStrategies()
+      .then((loaded) => {
+        setStrategies(loaded);
+        setStrategyParams(Object.fromEntries(loaded.map((strategy) => [
+          strategy.id,
+          Object.fromEntries(strategy.parameters.map((parameter) => [parameter.name, parameter.default]))
+        ])));
+        setAiStrategy((current) => loaded.some((strategy) => strategy.id === current) ? current : loaded[0]?.id ?? current);
+      })
+      .catch((err) => console.error('Error loading strategies:', err));
+  }, []);
 
+  // Show the strategy and parameters the server's bot trades with, whenever they change there
+  const botParamsKey = bot ? JSON.stringify(bot.params) : null;
   useEffect(() => {
-    aiStrategyRef.current = aiStrategy;
-  }, [aiStrategy]);
+    if (!bot) return;
+    setAiStrategy(bot.strategy);
+    setStrategyParams((prev) => ({ ...prev, [bot.strategy]: bot.params }));
+  }, [bot?.strategy, botParamsKey]);
+
+  const activeStrategy = strategies.find((strategy) => strategy.id === aiStrategy);
+  const setStrategyParam = (name: string, value: number) => {
+    setStrategyParams((prev) => ({ ...prev, [aiStrategy]: { ...prev[aiStrategy], [name]: value } }));
+  };
+
+  const configureBot = (settings: PaperBotSettings) => {
+    configurePaperBot(settings)
+      .then(setBot)
+      .catch((err) => {
+        // e.g. a fast EMA at or above the slow one; go back to what the bot trades with
+        console.error('Error configuring paper trading bot:', err);
+        if (bot) {
+          setAiStrategy(bot.strategy);
+          setStrategyParams((prev) => ({ ...prev, [bot.strategy]: bot.params }));
+        }
+      });
+  };
+
+  const selectStrategy = (strategy: string) => {
+    setAiStrategy(strategy);
+    configureBot({ strategy, params: strategyParams[strategy] });
+  };
 
   // Load initial market data
   useEffect(() => {
@@ -195,59 +242,47 @@ export default function Dashboard() {
         name: mover.name,
         price: mover.price,
         change: mover.change,
-        vol: 'N/A', // Volume not included in market movers data
-        currency: 'USD'
+        vol: `${(mover.volume / 1000000).toFixed(1)}M`,
+        currency: mover.currency,
+        sector: mover.sector
       })));
       setTopLosers(marketMovers.losers.map(mover => ({
         symbol: mover.symbol,
         name: mover.name,
         price: mover.price,
         change: mover.change,
-        vol: 'N/A', // Volume not included in market movers data
-        currency: 'USD'
+        vol: `${(mover.volume / 1000000).toFixed(1)}M`,
+        currency: mover.currency,
+        sector: mover.sector
       })));
     }
   }, [marketMovers]);
 
-  // Handle real-time price updates from WebSocket
+  // Handle real-time price updates from WebSocket (including the snapshot sent on subscribe)
   useEffect(() => {
-    if (priceUpdates.length > 0) {
-      const latestUpdate = priceUpdates[priceUpdates.length - 1];
-
-      // Update gainers list
-      setTopGainers(prev => prev.map(stock =>
-        stock.symbol === latestUpdate.symbol
-          ? {
-              ...stock,
-              price: latestUpdate.price,
-              change: `${latestUpdate.changePercent >= 0 ? '+' : ''}${(latestUpdate.changePercent * 100).toFixed(2)}%`
-            }
-          : stock
-      ));
-
-      // Update losers list
-      setTopLosers(prev => prev.map(stock =>
-        stock.symbol === latestUpdate.symbol
-          ? {
-              ...stock,
-              price: latestUpdate.price,
-              change: `${latestUpdate.changePercent >= 0 ? '+' : ''}${(latestUpdate.changePercent * 100).toFixed(2)}%`
-            }
-          : stock
-      ));
-
-      // Update selected stock if it's the one being updated
-      if (selectedStock && selectedStock.symbol === latestUpdate.symbol) {
-        setSelectedStock(prev => prev ? {
-          ...prev,
-          price: latestUpdate.price,
-          change: `${latestUpdate.changePercent >= 0 ? '+' : ''}${(latestUpdate.changePercent * 100).toFixed(2)}%`
-        } : null);
+    const applyLatest = (stock: StockQuote): StockQuote => {
+      const update = latestPrices[stock.symbol];
+      // Keep the same object when nothing changed so effects keyed on the stock don't re-run
+      if (!update || (update.price === stock.price && formatChangePercent(update.changePercent) === stock.change)) {
+        return stock;
       }
+      return { ...stock, price: update.price, change: formatChangePercent(update.changePercent) };
+    };
+
+    if (Object.keys(latestPrices).length > 0) {
+      // Update gainers and losers lists
+      setTopGainers(prev => prev.map(applyLatest));
+      setTopLosers(prev => prev.map(applyLatest));
+
+      // Update selected stock if it has a newer price
+      setSelectedStock(prev => prev ? applyLatest(prev) : null);
+    }
 
-      console.log(`Real-time update: ${latestUpdate.symbol} $${latestUpdate.price.toFixed(2)} (${(latestUpdate.changePercent * 100).toFixed(2)}%)`);
+    if (priceUpdates.length > 0) {
+      const latestUpdate = priceUpdates[priceUpdates.length - 1];
+      console.log(`Real-time update: ${latestUpdate.symbol} $${latestUpdate.price.toFixed(2)} (${formatChangePercent(latestUpdate.changePercent)})`);
     }
-  }, [priceUpdates]);
+  }, [latestPrices]);
 
   // Function to refresh market data
   const refreshMarketData = async () => {
@@ -270,13 +305,89 @@ export default function Dashboard() {
     }
   };
 
+  // Load the company profile when a different stock is selected
+  const selectedSymbol = selectedStock?.symbol;
+  useEffect(() => {
+    setProfile(null);
+    if (!selectedSymbol) return;
+
+    let cancelled = false;
+    fetchStockProfile(selectedSymbol)
+      .then((loaded) => {
+        if (!cancelled) setProfile(loaded);
+      })
+      .catch((err) => console.error('Error loading stock profile:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedSymbol]);
+
+  // Session statistics of the selected stock; refreshed from REST for symbols that are not streamed
+  useEffect(() => {
+    setSessionStats(null);
+    if (!selectedSymbol) return;
+
+    let cancelled = false;
+    const loadSessionStats = () => {
+      fetchSessionStats(selectedSymbol)
+        .then((loaded) => {
+          if (!cancelled) setSessionStats(loaded);
+        })
+        .catch((err) => console.error('Error loading session statistics:', err));
+    };
+    loadSessionStats();
+    const interval = setInterval(loadSessionStats, 60000);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [selectedSymbol]);
+
+  // Indicators of the selected stock over historical bars
+  useEffect(() => {
+    setIndicators(null);
+    if (!selectedSymbol) return;
+
+    let cancelled = false;
+    const loadIndicators = () => {
+      fetchIndicators(selectedSymbol, indicatorPeriods, indicatorInterval)
+        .then((loaded) => {
+          if (!cancelled) setIndicators(loaded);
+        })
+        .catch((err) => console.error('Error loading indicators:', err));
+    };
+    loadIndicators();
+    const interval = setInterval(loadIndicators, 60000);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [selectedSymbol, indicatorPeriods, indicatorInterval]);
+
+  // Live frames carry the same statistics for streamed symbols
+  const livePrice = selectedSymbol ? latestPrices[selectedSymbol] : undefined;
+  const vwap = livePrice?.vwap ?? sessionStats?.vwap ?? null;
+  const relativeVolume = livePrice?.relativeVolume ?? sessionStats?.relativeVolume ?? null;
+  const gapPercent = livePrice?.gapPercent ?? sessionStats?.gapPercent ?? null;
+  const openingRangeHigh = livePrice?.openingRangeHigh ?? sessionStats?.openingRange?.high ?? null;
+  const openingRangeLow = livePrice?.openingRangeLow ?? sessionStats?.openingRange?.low ?? null;
+  const lastPrice = livePrice?.price ?? selectedStock?.price ?? 0;
+
+  // Sectors present in the movers lists, for the sector filter
+  const sectors = Array.from(new Set([...topGainers, ...topLosers].map(stock => stock.sector).filter((sector): sector is string => !!sector))).sort();
+  const inSector = (stock: StockQuote) => sectorFilter === ALL_SECTORS || stock.sector === sectorFilter;
+
   // Update chart when stock changes
   useEffect(() => {
     const loadChartData = async () => {
       if (!selectedStock) return;
 
       try {
-        const historicalData = await fetchHistoricalData(selectedStock.symbol, 1); // 1 day of 5-minute data
+        // Prefer bars stored from our own stream, then ask the market data provider
+        const storedBars = await fetchBars(selectedStock.symbol, '5m', 1).catch(() => []);
+        const historicalData = storedBars.length > 0
+          ? storedBars
+          : await fetchHistoricalData(selectedStock.symbol, 1); // 1 day of 5-minute data
         if (historicalData.length > 0) {
           setChartData(historicalData);
         } else {
@@ -311,146 +422,23 @@ export default function Dashboard() {
     loadChartData();
   }, [selectedStock]);
 
-  // Simulate Bot Activity with Advanced AI
-  useEffect(() => {
-    const interval = setInterval(async () => {
-      if (topGainers.length === 0 && topLosers.length === 0) return;
-
-      const stockPool = Math.random() > 0.5 ? topGainers : topLosers;
-      const randomStock = stockPool[Math.floor(Math.random() * stockPool.length)];
-
-      try {
-        // Get real market data for AI analysis
-        const historicalData = await fetchHistoricalData(randomStock.symbol, 1); // 1 day of data
-        const currentPrice = randomStock.price;
-        const historicalPrices = historicalData.map((d: any) => d.price);
-
-        // Generate AI signal using advanced strategies via API
-        const response = await fetch('/api/ai/signal', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            symbol: randomStock.symbol,
-            price: currentPrice,
-            volume: parseInt(randomStock.vol.replace('M', '')) * 1000000,
-            historicalPrices,
-            strategy: aiStrategyRef.current,
-            sentimentScore: (Math.random() - 0.5) * 2 // Mock sentiment score
-          })
-        });
-
-        if (!response.ok) {
-          throw new Error('Failed to generate AI signal');
-        }
-
-        const signal = await response.json();
-        const { action, confidence, reason } = signal;
-
-        // Calculate simulated profit based on confidence and action
-        let profitPercent = (Math.random() * 7 - 2) / 100;
-
-        if (action === "SELL") profitPercent = profitPercent * -1;
-        if (action === "HOLD") profitPercent = 0;
-
-        // RISK MANAGEMENT: Dynamic based on confidence
-        let riskPercent = 0.01;
-        if (confidence > 90) riskPercent = 0.025;
-        else if (confidence > 80) riskPercent = 0.015;
-
-        const currentBalance = balanceRef.current;
-        const investment = currentBalance * riskPercent;
-        const simulatedProfit = investment * profitPercent;
-
-        const newLog: PredictionLog = {
-          id: Date.now(),
-          symbol: randomStock.symbol,
-          action: action as any,
-          confidence,
-          time: new Date().toLocaleTimeString(),
-          reason,
-          simulatedProfit
-        };
-
-        setLogs(prev => [newLog, ...prev].slice(0, 50));
-
-        // AUTO-TRADE LOGIC: If confidence > 75%, execute trade
-        if (confidence > 75 && action !== "HOLD") {
-          setBalance(prev => prev + simulatedProfit);
-          const newTransaction: Transaction = {
-            id: Date.now(),
-            symbol: randomStock.symbol,
-            action: action as "BUY" | "SELL",
-            amount: investment,
-            profit: simulatedProfit,
-            time: new Date().toLocaleTimeString()
-          };
-          setTransactions(prev => [newTransaction, ...prev].slice(0, 50));
-        }
-      } catch (error) {
-        console.error('AI signal generation error:', error);
-        // Fallback to simple random logic
-        const strategy = aiStrategyRef.current;
-        let action = "HOLD";
-        let confidence = 0;
-        let reason = "";
-
-        if (strategy === "neuro-scalp") {
-          action = Math.random() > 0.6 ? "BUY" : (Math.random() > 0.5 ? "SELL" : "HOLD");
-          confidence = Math.floor(Math.random() * 20) + 75;
-          reason = "Fallback: Micro-structure analysis";
-        } else if (strategy === "deep-momentum") {
-          action = Math.random() > 0.7 ? "BUY" : (Math.random() > 0.6 ? "SELL" : "HOLD");
-          confidence = Math.floor(Math.random() * 15) + 84;
-          reason = "Fallback: Trend momentum analysis";
-        } else if (strategy === "sentiment-flow") {
-          action = Math.random() > 0.6 ? "BUY" : (Math.random() > 0.5 ? "SELL" : "HOLD");
-          confidence = Math.floor(Math.random() * 25) + 70;
-          reason = "Fallback: Sentiment flow analysis";
-        }
-
-        let profitPercent = (Math.random() * 7 - 2) / 100;
-        if (action === "SELL") profitPercent = profitPercent * -1;
-        if (action === "HOLD") profitPercent = 0;
-
-        let riskPercent = 0.01;
-        if (confidence > 90) riskPercent = 0.025;
-        else if (confidence > 80) riskPercent = 0.015;
-
-        const currentBalance = balanceRef.current;
-        const investment = currentBalance * riskPercent;
-        const simulatedProfit = investment * profitPercent;
-
-        const newLog: PredictionLog = {
-          id: Date.now(),
-          symbol: randomStock.symbol,
-          action: action as any,
-          confidence,
-          time: new Date().toLocaleTimeString(),
-          reason,
-          simulatedProfit
-        };
-
-        setLogs(prev => [newLog, ...prev].slice(0, 50));
-
-        if (confidence > 75 && action !== "HOLD") {
-          setBalance(prev => prev + simulatedProfit);
-          const newTransaction: Transaction = {
-            id: Date.now(),
-            symbol: randomStock.symbol,
-            action: action as "BUY" | "SELL",
-            amount: investment,
-            profit: simulatedProfit,
-            time: new Date().toLocaleTimeString()
-          };
-          setTransactions(prev => [newTransaction, ...prev].slice(0, 50));
-        }
-      }
-    }, 3000); // New prediction every 3 seconds
+  // Paper trading account, fills and the bot's signals, kept by the server and marked to market on its quote stream
+  const loadPaperAccount = async () => {
+    try {
+      const [latestAccount, latestFills, latestBot] = await Promise.all([fetchPaperAccount(), fetchPaperFills(50), fetchPaperBot()]);
+      setAccount(latestAccount);
+      setFills(latestFills);
+      setBot(latestBot);
+    } catch (err) {
+      console.error('Error loading paper trading account:', err);
+    }
+  };
 
+  useEffect(() => {
+    loadPaperAccount();
+    const interval = setInterval(loadPaperAccount, 5000);
     return () => clearInterval(interval);
-  }, [topGainers, topLosers]);
+  }, []);
 
   // Simulate live chart movement (only if using generated data)
   useEffect(() => {
@@ -507,6 +495,18 @@ export default function Dashboard() {
           </Badge>
         </div>
         <div className="flex items-center gap-6 text-sm font-rajdhani font-medium text-muted-foreground">
+          <Link href="/heatmap" className="flex items-center gap-2 hover:text-primary">
+            <LayoutGrid className="w-4 h-4 text-primary" />
+            <span>Heatmap</span>
+          </Link>
+          <Link href="/movers" className="flex items-center gap-2 hover:text-primary">
+            <History className="w-4 h-4 text-primary" />
+            <span>Movers History</span>
+          </Link>
+          <Link href="/optimizer" className="flex items-center gap-2 hover:text-primary">
+            <FlaskConical className="w-4 h-4 text-primary" />
+            <span>Optimizer</span>
+          </Link>
           <div className="flex items-center gap-2">
             <Clock className="w-4 h-4 text-primary" />
             <span>Market: <span className="text-white">OPEN</span></span>
@@ -517,11 +517,16 @@ export default function Dashboard() {
           </div>
           <div className="flex items-center gap-2">
             <Zap className="w-4 h-4 text-yellow-500" />
-            <span>Balance: <span className="text-white font-mono text-lg">${balance.toFixed(2)}</span></span>
+            <span>Equity: <span className="text-white font-mono text-lg">{account ? `$${account.equity.toFixed(2)}` : '--'}</span></span>
+            {account && (
+              <span className={`font-mono text-xs ${account.totalReturnPercent >= 0 ? 'text-primary' : 'text-destructive'}`}>
+                {formatChangePercent(account.totalReturnPercent)}
+              </span>
+            )}
           </div>
           <div className="flex items-center gap-2">
             <Activity className="w-4 h-4 text-green-500" />
-            <span>Bot Status: <span className="text-green-400 animate-pulse">ACTIVE</span></span>
+            <span>Bot Status: {bot?.enabled === false ? <span className="text-yellow-400">PAUSED</span> : <span className="text-green-400 animate-pulse">ACTIVE</span>}</span>
           </div>
           <div className="flex items-center gap-2">
             <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500 animate-pulse' : 'bg-red-500'}`} />
@@ -553,13 +558,28 @@ export default function Dashboard() {
                 {refreshing ? 'REFRESHING...' : 'UPDATE MARKET DATA'}
               </Button>
             </div>
+
+            {/* Sector Filter */}
+            <div className="mb-4">
+              <Select value={sectorFilter} onValueChange={setSectorFilter}>
+                <SelectTrigger className="w-full bg-black/40 border-white/10 h-8 text-xs font-mono">
+                  <SelectValue placeholder="All Sectors" />
+                </SelectTrigger>
+                <SelectContent className="bg-black/90 border-white/10 text-white">
+                  <SelectItem value={ALL_SECTORS}>ALL SECTORS</SelectItem>
+                  {sectors.map((sector) => (
+                    <SelectItem key={sector} value={sector}>{sector.toUpperCase()}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             
             <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar">
               <TabsContent value="gainers" className="mt-0 space-y-2">
                 {loading ? (
                   <div className="text-center text-muted-foreground py-4">Loading market data...</div>
                 ) : (
-                  topGainers.map((stock) => (
+                  topGainers.filter(inSector).map((stock) => (
                     <StockCard 
                       key={stock.symbol} 
                       stock={stock} 
@@ -574,7 +594,7 @@ export default function Dashboard() {
                 {loading ? (
                   <div className="text-center text-muted-foreground py-4">Loading market data...</div>
                 ) : (
-                  topLosers.map((stock) => (
+                  topLosers.filter(inSector).map((stock) => (
                     <StockCard 
                       key={stock.symbol} 
                       stock={stock} 
@@ -606,12 +626,19 @@ export default function Dashboard() {
                 </CardTitle>
                 <p className="text-muted-foreground text-xs font-rajdhani uppercase tracking-widest mt-1">
                   {selectedStock?.name || 'Loading...'} // VOL: {selectedStock?.vol || 'N/A'}
+                  {profile?.sector && ` // ${profile.sector}`}
+                  {profile?.exchange && ` // ${profile.exchange}`}
                 </p>
               </div>
               {selectedStock && (
-                <Badge variant="outline" className={`font-mono text-lg px-4 py-1 ${selectedStock.change.startsWith('+') ? 'border-primary text-primary bg-primary/10' : 'border-destructive text-destructive bg-destructive/10'}`}>
-                  {selectedStock.change}
-                </Badge>
+                <div className="flex items-center gap-3">
+                  <Link href={`/signals/${selectedStock.symbol}`} className="flex items-center gap-1 text-xs font-orbitron text-muted-foreground hover:text-primary">
+                    <Crosshair className="w-4 h-4" /> SIGNALS
+                  </Link>
+                  <Badge variant="outline" className={`font-mono text-lg px-4 py-1 ${selectedStock.change.startsWith('+') ? 'border-primary text-primary bg-primary/10' : 'border-destructive text-destructive bg-destructive/10'}`}>
+                    {selectedStock.change}
+                  </Badge>
+                </div>
               )}
             </CardHeader>
             <CardContent className="h-[calc(100%-80px)] w-full">
@@ -643,11 +670,77 @@ export default function Dashboard() {
             </CardContent>
           </Card>
 
+          {/* Session Stats Grid */}
+          <div className="grid grid-cols-4 gap-4 h-24">
+             <StatCard
+               title="VWAP"
+               value={vwap !== null ? `$${vwap.toFixed(2)}` : 'N/A'}
+               status={vwap === null ? 'neutral' : lastPrice >= vwap ? 'positive' : 'negative'}
+             />
+             <StatCard
+               title="REL VOLUME"
+               value={relativeVolume !== null ? `${relativeVolume.toFixed(2)}x` : 'N/A'}
+               status={relativeVolume !== null && relativeVolume >= 2 ? 'warning' : 'neutral'}
+             />
+             <StatCard
+               title="GAP"
+               value={gapPercent !== null ? formatChangePercent(gapPercent) : 'N/A'}
+               status={gapPercent === null ? 'neutral' : gapPercent >= 0 ? 'positive' : 'negative'}
+             />
+             <StatCard
+               title="OPENING RANGE"
+               value={openingRangeHigh !== null && openingRangeLow !== null ? `${openingRangeLow.toFixed(2)}-${openingRangeHigh.toFixed(2)}` : 'N/A'}
+               status={openingRangeHigh === null || openingRangeLow === null ? 'neutral' : lastPrice > openingRangeHigh ? 'positive' : lastPrice < openingRangeLow ? 'negative' : 'neutral'}
+             />
+          </div>
+
           {/* Quick Stats Grid */}
-          <div className="grid grid-cols-3 gap-4 h-32">
-             <StatCard title="RSI (14)" value="68.4" status="neutral" />
-             <StatCard title="MACD" value="+0.45" status="positive" />
-             <StatCard title="VOLATILITY" value="High" status="warning" />
+          <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] text-muted-foreground font-orbitron tracking-widest">
+                INDICATORS {indicators ? `// ${indicators.bars} BARS` : ''}
+              </span>
+              <div className="flex items-center gap-2">
+                <Select value={indicatorInterval} onValueChange={setIndicatorInterval}>
+                  <SelectTrigger className="w-24 bg-black/40 border-white/10 h-7 text-xs font-mono">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-black/90 border-white/10 text-white">
+                    {INDICATOR_INTERVALS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <IndicatorSettings periods={indicatorPeriods} onApply={setIndicatorPeriods} />
+              </div>
+            </div>
+            <div className="grid grid-cols-5 gap-4 h-32">
+               <StatCard
+                 title={`RSI (${indicatorPeriods.rsi})`}
+                 value={indicators ? indicators.rsi.value.toFixed(1) : 'N/A'}
+                 status={indicators && (indicators.rsi.value >= 70 || indicators.rsi.value <= 30) ? 'warning' : 'neutral'}
+               />
+               <StatCard
+                 title="MACD"
+                 value={indicators ? `${indicators.macd.macd >= 0 ? '+' : ''}${indicators.macd.macd.toFixed(2)}` : 'N/A'}
+                 status={!indicators ? 'neutral' : indicators.macd.histogram >= 0 ? 'positive' : 'negative'}
+               />
+               <StatCard
+                 title={`EMA (${indicatorPeriods.ema})`}
+                 value={indicators ? `$${indicators.ema.value.toFixed(2)}` : 'N/A'}
+                 status={!indicators ? 'neutral' : indicators.price >= indicators.ema.value ? 'positive' : 'negative'}
+               />
+               <StatCard
+                 title={`BOLLINGER %B (${indicatorPeriods.bollinger})`}
+                 value={indicators?.bollinger.percentB != null ? indicators.bollinger.percentB.toFixed(2) : 'N/A'}
+                 status={indicators?.bollinger.percentB != null && (indicators.bollinger.percentB > 1 || indicators.bollinger.percentB < 0) ? 'warning' : 'neutral'}
+               />
+               <StatCard
+                 title={`VOLATILITY (ATR ${indicatorPeriods.atr})`}
+                 value={indicators ? `${volatilityLabel(indicators.atr.percentile)} P${Math.round(indicators.atr.percentile)}` : 'N/A'}
+                 status={indicators && indicators.atr.percentile >= 75 ? 'warning' : 'neutral'}
+               />
+            </div>
           </div>
         </section>
 
@@ -660,18 +753,50 @@ export default function Dashboard() {
               <h3 className="font-orbitron text-sm text-white tracking-widest flex items-center gap-2">
                 <BrainCircuit className="w-4 h-4 text-secondary" /> AI STRATEGY
               </h3>
-              <Badge variant="outline" className="text-[10px] h-4 border-secondary/50 text-secondary bg-secondary/10">ACTIVE</Badge>
+              <Badge
+                variant="outline"
+                className={`text-[10px] h-4 cursor-pointer ${bot?.enabled === false ? 'border-yellow-500/50 text-yellow-400 bg-yellow-500/10' : 'border-secondary/50 text-secondary bg-secondary/10'}`}
+                title={bot?.enabled === false ? 'Resume trading signals' : 'Pause trading signals'}
+                onClick={() => bot && configureBot({ enabled: !bot.enabled })}
+              >
+                {bot?.enabled === false ? 'PAUSED' : 'ACTIVE'}
+              </Badge>
             </div>
-            <Select value={aiStrategy} onValueChange={setAiStrategy}>
+            <Select value={aiStrategy} onValueChange={selectStrategy}>
               <SelectTrigger className="w-full bg-black/40 border-white/10 h-8 text-xs font-mono">
                 <SelectValue placeholder="Select Strategy" />
               </SelectTrigger>
               <SelectContent className="bg-black/90 border-white/10 text-white">
-                <SelectItem value="neuro-scalp">NEURO-SCALP (High Freq)</SelectItem>
-                <SelectItem value="deep-momentum">DEEP-MOMENTUM (Trend)</SelectItem>
-                <SelectItem value="sentiment-flow">SENTIMENT-FLOW (News)</SelectItem>
+                {strategies.map((strategy) => (
+                  <SelectItem key={strategy.id} value={strategy.id}>{strategy.name.toUpperCase()}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
+            {activeStrategy && (
+              <>
+                <p className="text-[10px] text-muted-foreground font-rajdhani leading-tight">{activeStrategy.description}</p>
+                {activeStrategy.parameters.map((parameter) => {
+                  const value = strategyParams[activeStrategy.id]?.[parameter.name] ?? parameter.default;
+                  const toParameterValue = (next: number) => parameter.type === 'integer' ? Math.round(next) : Number(next.toFixed(4));
+                  return (
+                    <div key={parameter.name} className="flex flex-col gap-1" title={parameter.description}>
+                      <div className="flex justify-between text-[10px] font-mono">
+                        <span className="text-muted-foreground uppercase">{parameter.label}</span>
+                        <span className="text-white">{value}</span>
+                      </div>
+                      <Slider
+                        value={[value]}
+                        min={parameter.min}
+                        max={parameter.max}
+                        step={parameter.step ?? (parameter.type === 'integer' ? 1 : 0.1)}
+                        onValueChange={([next]) => setStrategyParam(parameter.name, toParameterValue(next))}
+                        onValueCommit={([next]) => configureBot({ strategy: activeStrategy.id, params: { ...strategyParams[activeStrategy.id], [parameter.name]: toParameterValue(next) } })}
+                      />
+                    </div>
+                  );
+                })}
+              </>
+            )}
           </div>
 
           {/* Live Signals Panel (Top Half) */}
@@ -680,11 +805,11 @@ export default function Dashboard() {
               <h3 className="font-orbitron text-sm text-primary tracking-widest flex items-center gap-2">
                 <Activity className="w-4 h-4" /> LIVE SIGNALS
               </h3>
-              <span className="text-[10px] text-muted-foreground font-mono animate-pulse">SCANNING...</span>
+              <span className="text-[10px] text-muted-foreground font-mono animate-pulse">{bot?.enabled === false ? 'PAUSED' : 'SCANNING...'}</span>
             </div>
             <div className="flex-1 overflow-y-auto p-2 space-y-2 custom-scrollbar">
               <AnimatePresence initial={false}>
-                {logs.map((log) => (
+                {(bot?.decisions ?? []).map((log) => (
                   <motion.div
                     key={log.id}
                     initial={{ opacity: 0, x: 20 }}
@@ -694,7 +819,7 @@ export default function Dashboard() {
                   >
                     <div className="flex justify-between items-start mb-1">
                       <span className="font-bold text-white font-mono">{log.symbol}</span>
-                      <span className="text-[10px] text-muted-foreground">{log.time}</span>
+                      <span className="text-[10px] text-muted-foreground">{new Date(log.timestamp).toLocaleTimeString()}</span>
                     </div>
                     <div className="flex items-center justify-between">
                       <Badge 
@@ -712,14 +837,14 @@ export default function Dashboard() {
                       </span>
                     </div>
                     
-                    {/* Simulated Profit Section */}
-                    {log.action !== 'HOLD' && (
-                      <div className="mt-2 p-2 bg-black/40 rounded border border-white/5 flex justify-between items-center">
-                        <span className="text-[10px] text-muted-foreground font-mono">
-                          Risk {(log.confidence > 90 ? 2.5 : log.confidence > 80 ? 1.5 : 1.0)}%:
+                    {/* Paper Order Section */}
+                    {log.order && (
+                      <div className="mt-2 p-2 bg-black/40 rounded border border-white/5 flex justify-between items-center gap-2">
+                        <span className="text-[10px] text-muted-foreground font-mono whitespace-nowrap">
+                          {log.riskPercent !== null ? `Risk ${log.riskPercent}%:` : 'Close:'}
                         </span>
-                        <span className={`text-xs font-bold font-mono ${log.simulatedProfit >= 0 ? 'text-primary' : 'text-destructive'}`}>
-                          {log.simulatedProfit >= 0 ? '+' : ''}${log.simulatedProfit.toFixed(2)}
+                        <span className={`text-xs font-bold font-mono text-right ${log.order.startsWith('REJECTED') ? 'text-destructive' : 'text-primary'}`}>
+                          {log.order}
                         </span>
                       </div>
                     )}
@@ -743,36 +868,52 @@ export default function Dashboard() {
             </div>
             <div className="flex-1 overflow-y-auto p-2 space-y-2 custom-scrollbar">
               <AnimatePresence initial={false}>
-                {transactions.map((tx) => (
+                {account && account.positions.length > 0 && (
+                  <div className="p-2 rounded border border-white/5 bg-black/40 space-y-1">
+                    {account.positions.map((position) => (
+                      <div key={position.symbol} className="flex justify-between items-center text-[10px] font-mono">
+                        <span className="text-white">{position.symbol} <span className="text-muted-foreground">{position.quantity} @ ${position.avgPrice.toFixed(2)}</span></span>
+                        <span className={position.unrealizedPnl >= 0 ? 'text-primary' : 'text-destructive'}>
+                          {position.unrealizedPnl >= 0 ? '+' : ''}${position.unrealizedPnl.toFixed(2)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {fills.map((fill) => (
                   <motion.div
-                    key={tx.id}
+                    key={fill.id}
                     initial={{ opacity: 0, y: 10 }}
                     animate={{ opacity: 1, y: 0 }}
                     className="p-2 rounded border border-white/5 bg-white/5 flex justify-between items-center"
                   >
                     <div>
                       <div className="flex items-center gap-2">
-                        <span className="font-bold text-white font-mono text-sm">{tx.symbol}</span>
+                        <span className="font-bold text-white font-mono text-sm">{fill.symbol}</span>
                         <Badge 
                           variant="outline" 
                           className={`text-[10px] h-4 px-1 border-0 ${
-                            tx.action === 'BUY' ? 'bg-primary/20 text-primary' : 'bg-destructive/20 text-destructive'
+                            fill.side === 'buy' ? 'bg-primary/20 text-primary' : 'bg-destructive/20 text-destructive'
                           }`}
                         >
-                          {tx.action}
+                          {fill.side.toUpperCase()}
                         </Badge>
                       </div>
-                      <span className="text-[10px] text-muted-foreground font-mono">{tx.time}</span>
+                      <span className="text-[10px] text-muted-foreground font-mono">{new Date(fill.timestamp).toLocaleTimeString()}</span>
                     </div>
                     <div className="text-right">
-                      <div className={`text-sm font-bold font-mono ${tx.profit >= 0 ? 'text-primary' : 'text-destructive'}`}>
-                        {tx.profit >= 0 ? '+' : ''}${tx.profit.toFixed(2)}
-                      </div>
-                      <span className="text-[10px] text-muted-foreground font-mono">BAL: ${(balance + tx.profit).toFixed(2)}</span>
+                      <div className="text-sm font-mono text-white">{fill.quantity} @ ${fill.price.toFixed(2)}</div>
+                      {fill.realizedPnl !== 0 ? (
+                        <span className={`text-[10px] font-bold font-mono ${fill.realizedPnl >= 0 ? 'text-primary' : 'text-destructive'}`}>
+                          P&L: {fill.realizedPnl >= 0 ? '+' : ''}${fill.realizedPnl.toFixed(2)}
+                        </span>
+                      ) : (
+                        <span className="text-[10px] text-muted-foreground font-mono">SLIP: {fill.slippageBps.toFixed(1)} BPS</span>
+                      )}
                     </div>
                   </motion.div>
                 ))}
-                {transactions.length === 0 && (
+                {fills.length === 0 && (
                   <div className="text-center text-muted-foreground text-xs py-4 font-mono opacity-50">
                     WAITING FOR HIGH CONFIDENCE SIGNALS...
                   </div>
@@ -818,6 +959,75 @@ function StockCard({ stock, isSelected, onClick, type }: { stock: Stock, isSelec
   )
 }
 
+// Edit indicator periods; applied together so every keystroke does not refetch
+function IndicatorSettings({ periods, onApply }: { periods: IndicatorPeriods, onApply: (periods: IndicatorPeriods) => void }) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<Record<keyof IndicatorPeriods, string>>({
+    rsi: '', ema: '', bollinger: '', bollingerStdDev: '', atr: ''
+  });
+
+  useEffect(() => {
+    if (open) {
+      setDraft({
+        rsi: String(periods.rsi),
+        ema: String(periods.ema),
+        bollinger: String(periods.bollinger),
+        bollingerStdDev: String(periods.bollingerStdDev),
+        atr: String(periods.atr)
+      });
+    }
+  }, [open, periods]);
+
+  const fields: { key: keyof IndicatorPeriods, label: string }[] = [
+    { key: 'rsi', label: 'RSI PERIOD' },
+    { key: 'ema', label: 'EMA PERIOD' },
+    { key: 'bollinger', label: 'BOLLINGER PERIOD' },
+    { key: 'bollingerStdDev', label: 'BOLLINGER STD DEV' },
+    { key: 'atr', label: 'ATR PERIOD' }
+  ];
+
+  const parsed: IndicatorPeriods = {
+    rsi: parseInt(draft.rsi, 10),
+    ema: parseInt(draft.ema, 10),
+    bollinger: parseInt(draft.bollinger, 10),
+    bollingerStdDev: parseFloat(draft.bollingerStdDev),
+    atr: parseInt(draft.atr, 10)
+  };
+  const valid = [parsed.rsi, parsed.ema, parsed.bollinger, parsed.atr].every(period => period >= 2 && period <= 200)
+    && parsed.bollingerStdDev > 0 && parsed.bollingerStdDev <= 5;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-7 bg-black/20 border-white/10 hover:bg-primary/10 hover:border-primary/50 text-white">
+          <SlidersHorizontal className="w-3 h-3" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 bg-black/90 border-white/10 text-white space-y-2">
+        {fields.map(({ key, label }) => (
+          <div key={key} className="flex items-center justify-between gap-2">
+            <span className="text-[10px] text-muted-foreground font-orbitron tracking-widest">{label}</span>
+            <Input
+              type="number"
+              value={draft[key]}
+              onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+              className="w-20 h-7 bg-black/40 border-white/10 text-xs font-mono"
+            />
+          </div>
+        ))}
+        <Button
+          size="sm"
+          disabled={!valid}
+          onClick={() => { onApply(parsed); setOpen(false); }}
+          className="w-full bg-primary/20 border border-primary/50 text-primary hover:bg-primary/30 font-orbitron text-xs"
+        >
+          APPLY
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
 function StatCard({ title, value, status }: { title: string, value: string, status: 'positive' | 'negative' | 'neutral' | 'warning' }) {
   const getColor = () => {
     switch(status) {
@@ -0,0 +1,226 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, ChevronRight, Cpu, LayoutGrid, RefreshCw } from "lucide-react";
+import { ResponsiveContainer, Treemap } from "recharts";
+import { fetchMarketHeatmap } from "@/lib/api";
+import { useWebSocket } from "@/hooks/use-websocket";
+import { buildHeatmap, flattenHeatmap, type HeatmapSymbol } from "@shared/heatmap";
+import { formatChangePercent } from "@shared/protocol";
+
+// The server caps symbols per connection; the largest companies are the ones worth streaming
+const MAX_LIVE_SYMBOLS = 100;
+
+// Change percent at which a tile reaches full color
+const FULL_COLOR_PERCENT = 3;
+
+interface Tile {
+  name: string;
+  size: number;
+  changePercent: number;
+  label: string;
+}
+
+// Green for gains, red for losses, grey when flat
+function tileColor(changePercent: number): string {
+  const intensity = Math.min(1, Math.abs(changePercent) / FULL_COLOR_PERCENT);
+  if (intensity < 0.02) return "rgb(55, 55, 65)";
+  const [r, g, b] = changePercent > 0 ? [34, 197, 94] : [239, 68, 68];
+  const mix = (channel: number) => Math.round(55 + (channel - 55) * intensity);
+  return `rgb(${mix(r)}, ${mix(g)}, ${mix(b)})`;
+}
+
+function formatMarketCap(value: number): string {
+  if (value >= 1e12) return `$${(value / 1e12).toFixed(2)}T`;
+  if (value >= 1e9) return `$${(value / 1e9).toFixed(1)}B`;
+  if (value >= 1e6) return `$${(value / 1e6).toFixed(1)}M`;
+  return `$${value.toFixed(0)}`;
+}
+
+// Treemap cell; recharts passes the node's data alongside its layout
+function HeatmapTile(props: any) {
+  const { x, y, width, height, name, changePercent, label } = props;
+  if (width <= 0 || height <= 0 || changePercent === undefined) return null;
+
+  const showName = width > 40 && height > 20;
+  const showChange = width > 50 && height > 38;
+
+  return (
+    <g className="cursor-pointer">
+      <rect x={x} y={y} width={width} height={height} fill={tileColor(changePercent)} stroke="rgba(0, 0, 0, 0.6)" strokeWidth={2} />
+      {showName && (
+        <text x={x + width / 2} y={y + height / 2 - (showChange ? 6 : 0)} textAnchor="middle" dominantBaseline="middle" fill="#fff" fontSize={Math.min(16, width / 8)} fontFamily="monospace">
+          {label || name}
+        </text>
+      )}
+      {showChange && (
+        <text x={x + width / 2} y={y + height / 2 + 12} textAnchor="middle" dominantBaseline="middle" fill="rgba(255, 255, 255, 0.8)" fontSize={12} fontFamily="monospace">
+          {formatChangePercent(changePercent)}
+        </text>
+      )}
+    </g>
+  );
+}
+
+export default function Heatmap() {
+  const [symbols, setSymbols] = useState<HeatmapSymbol[]>([]);
+  const [sector, setSector] = useState<string | null>(null);
+  const [industry, setIndustry] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Stream the largest companies of the heatmap; the key only changes when that set does
+  const liveKey = [...symbols].sort((a, b) => b.marketCap - a.marketCap).slice(0, MAX_LIVE_SYMBOLS).map(tile => tile.symbol).sort().join(",");
+  const liveSymbols = useMemo(() => liveKey ? liveKey.split(",") : [], [liveKey]);
+  const { isConnected, latestPrices } = useWebSocket('ws://localhost:3001', liveSymbols);
+
+  const loadHeatmap = async () => {
+    setLoading(true);
+    try {
+      const heatmap = await fetchMarketHeatmap();
+      setSymbols(flattenHeatmap(heatmap.sectors));
+      setError(null);
+    } catch (err) {
+      console.error('Error loading heatmap:', err);
+      setError('Failed to load market heatmap');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadHeatmap();
+  }, []);
+
+  // Apply live prices; market cap moves with the price
+  useEffect(() => {
+    setSymbols(prev => {
+      let changed = false;
+      const next = prev.map(tile => {
+        const latest = latestPrices[tile.symbol];
+        if (!latest || (latest.price === tile.price && latest.changePercent === tile.changePercent)) return tile;
+        changed = true;
+        return {
+          ...tile,
+          price: latest.price,
+          changePercent: latest.changePercent,
+          volume: latest.volume,
+          marketCap: tile.price > 0 ? tile.marketCap * (latest.price / tile.price) : tile.marketCap
+        };
+      });
+      return changed ? next : prev;
+    });
+  }, [latestPrices]);
+
+  const sectors = useMemo(() => buildHeatmap(symbols), [symbols]);
+  const currentSector = sectors.find(candidate => candidate.name === sector);
+  const currentIndustry = currentSector?.industries.find(candidate => candidate.name === industry);
+
+  // Tiles of the current drill-down level
+  const tiles: Tile[] = currentIndustry
+    ? currentIndustry.symbols.map(tile => ({ name: tile.symbol, size: tile.marketCap, changePercent: tile.changePercent, label: tile.symbol }))
+    : currentSector
+      ? currentSector.industries.map(group => ({ name: group.name, size: group.marketCap, changePercent: group.changePercent, label: group.name }))
+      : sectors.map(group => ({ name: group.name, size: group.marketCap, changePercent: group.changePercent, label: group.name }));
+  const level = currentIndustry || currentSector;
+
+  const drillDown = (node: any) => {
+    if (!node?.name) return;
+    if (!currentSector) {
+      setSector(node.name);
+    } else if (!currentIndustry) {
+      setIndustry(node.name);
+    }
+  };
+
+  const goTo = (nextSector: string | null, nextIndustry: string | null) => {
+    setSector(nextSector);
+    setIndustry(nextIndustry);
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground flex flex-col">
+      {/* Header */}
+      <header className="border-b border-white/10 bg-black/40 backdrop-blur-md h-16 flex items-center px-6 justify-between sticky top-0 z-50">
+        <div className="flex items-center gap-2">
+          <Cpu className="w-6 h-6 text-primary animate-pulse" />
+          <h1 className="text-xl font-bold tracking-widest text-primary font-orbitron">QUANTUM<span className="text-white">TRADE</span></h1>
+          <Badge variant="outline" className="ml-4 border-primary/50 text-primary bg-primary/10 font-mono text-xs">
+            MARKET HEATMAP
+          </Badge>
+        </div>
+        <div className="flex items-center gap-6 text-sm font-rajdhani font-medium text-muted-foreground">
+          <Link href="/" className="flex items-center gap-2 hover:text-primary">
+            <ArrowLeft className="w-4 h-4" />
+            <span>Dashboard</span>
+          </Link>
+          <div className="flex items-center gap-2">
+            <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500 animate-pulse' : 'bg-red-500'}`} />
+            <span>Live Data: <span className={isConnected ? 'text-green-400' : 'text-red-400'}>{isConnected ? 'CONNECTED' : 'DISCONNECTED'}</span></span>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 p-6">
+        <Card className="bg-black/40 border-white/10 backdrop-blur-sm h-[calc(100vh-7rem)] flex flex-col">
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <div>
+              <CardTitle className="font-orbitron tracking-wider text-white flex items-center gap-2 text-lg">
+                <LayoutGrid className="w-5 h-5 text-primary" />
+                <button className="hover:text-primary" onClick={() => goTo(null, null)}>MARKET</button>
+                {currentSector && (
+                  <>
+                    <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                    <button className="hover:text-primary uppercase" onClick={() => goTo(currentSector.name, null)}>{currentSector.name}</button>
+                  </>
+                )}
+                {currentIndustry && (
+                  <>
+                    <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                    <span className="uppercase">{currentIndustry.name}</span>
+                  </>
+                )}
+              </CardTitle>
+              <p className="text-muted-foreground text-xs font-rajdhani uppercase tracking-widest mt-1">
+                {level
+                  ? `${level.symbolCount} symbols // ${formatMarketCap(level.marketCap)} // ${formatChangePercent(level.changePercent)}`
+                  : `${symbols.length} symbols // ${sectors.length} sectors // size: market cap, color: change`}
+              </p>
+            </div>
+            <Button
+              onClick={loadHeatmap}
+              disabled={loading}
+              variant="outline"
+              size="sm"
+              className="bg-black/20 border-white/10 hover:bg-primary/10 hover:border-primary/50 text-white font-orbitron text-xs"
+            >
+              <RefreshCw className={`w-3 h-3 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              {loading ? 'LOADING...' : 'RELOAD'}
+            </Button>
+          </CardHeader>
+          <CardContent className="flex-1">
+            {error ? (
+              <div className="text-center text-destructive py-4">{error}</div>
+            ) : tiles.length === 0 ? (
+              <div className="text-center text-muted-foreground py-4">{loading ? 'Loading market data...' : 'No quotes available yet'}</div>
+            ) : (
+              <ResponsiveContainer width="100%" height="100%">
+                <Treemap
+                  data={tiles}
+                  dataKey="size"
+                  nameKey="name"
+                  aspectRatio={4 / 3}
+                  isAnimationActive={false}
+                  content={<HeatmapTile />}
+                  onClick={drillDown}
+                />
+              </ResponsiveContainer>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, ArrowUpDown, Cpu, History, RefreshCw } from "lucide-react";
+import { fetchMoversAnalytics, type MoverStats } from "@/lib/api";
+import { formatChangePercent } from "@shared/protocol";
+
+type SortKey = "appearances" | "avgRank" | "bestRank" | "avgChangePercent" | "firstSeen" | "listedSeconds";
+
+// Lower is better for ranks, so they sort ascending; everything else descending
+const ASCENDING_KEYS: SortKey[] = ["avgRank", "bestRank", "firstSeen"];
+
+const PERIODS = [
+  { days: 1, label: "24 HOURS" },
+  { days: 7, label: "7 DAYS" },
+  { days: 30, label: "30 DAYS" },
+];
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', hour12: false });
+}
+
+function compareStats(a: MoverStats, b: MoverStats, key: SortKey): number {
+  const value = (stats: MoverStats) => key === "firstSeen" ? new Date(stats.firstSeen).getTime() : stats[key];
+  const direction = ASCENDING_KEYS.includes(key) ? 1 : -1;
+  return (value(a) - value(b)) * direction;
+}
+
+function SortableHead({ label, sortBy, active, onSort }: { label: string, sortBy: SortKey, active: boolean, onSort: (key: SortKey) => void }) {
+  return (
+    <TableHead className="font-orbitron text-xs">
+      <button className={`inline-flex items-center gap-1 hover:text-primary ${active ? 'text-primary' : ''}`} onClick={() => onSort(sortBy)}>
+        {label}
+        <ArrowUpDown className="w-3 h-3" />
+      </button>
+    </TableHead>
+  );
+}
+
+export default function MoversAnalytics() {
+  const [type, setType] = useState<'gainers' | 'losers'>('gainers');
+  const [days, setDays] = useState(7);
+  const [stats, setStats] = useState<MoverStats[]>([]);
+  const [sortKey, setSortKey] = useState<SortKey>("appearances");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStats = async () => {
+    setLoading(true);
+    try {
+      setStats(await fetchMoversAnalytics(type, days, 100));
+      setError(null);
+    } catch (err) {
+      console.error('Error loading movers analytics:', err);
+      setStats([]);
+      setError('Movers history is unavailable (is ClickHouse running?)');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStats();
+  }, [type, days]);
+
+  const sorted = [...stats].sort((a, b) => compareStats(a, b, sortKey));
+
+  return (
+    <div className="min-h-screen bg-background text-foreground flex flex-col">
+      {/* Header */}
+      <header className="border-b border-white/10 bg-black/40 backdrop-blur-md h-16 flex items-center px-6 justify-between sticky top-0 z-50">
+        <div className="flex items-center gap-2">
+          <Cpu className="w-6 h-6 text-primary animate-pulse" />
+          <h1 className="text-xl font-bold tracking-widest text-primary font-orbitron">QUANTUM<span className="text-white">TRADE</span></h1>
+          <Badge variant="outline" className="ml-4 border-primary/50 text-primary bg-primary/10 font-mono text-xs">
+            MOVERS ANALYTICS
+          </Badge>
+        </div>
+        <div className="flex items-center gap-6 text-sm font-rajdhani font-medium text-muted-foreground">
+          <Link href="/" className="flex items-center gap-2 hover:text-primary">
+            <ArrowLeft className="w-4 h-4" />
+            <span>Dashboard</span>
+          </Link>
+        </div>
+      </header>
+
+      <main className="flex-1 p-6">
+        <Card className="bg-black/40 border-white/10 backdrop-blur-sm">
+          <CardHeader className="flex flex-row items-center justify-between gap-4 pb-4">
+            <div>
+              <CardTitle className="font-orbitron tracking-wider text-white flex items-center gap-2 text-lg">
+                <History className="w-5 h-5 text-primary" />
+                RECURRING MOVERS
+              </CardTitle>
+              <p className="text-muted-foreground text-xs font-rajdhani uppercase tracking-widest mt-1">
+                {stats.length > 0
+                  ? `${stats.length} symbols // ${stats[0].snapshots} snapshots`
+                  : 'How often and how long symbols stayed on the movers lists'}
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <Tabs value={type} onValueChange={(value) => setType(value as 'gainers' | 'losers')}>
+                <TabsList className="grid grid-cols-2 bg-black/20 border border-white/10 rounded-none">
+                  <TabsTrigger value="gainers" className="rounded-none data-[state=active]:bg-primary/20 data-[state=active]:text-primary font-orbitron text-xs">GAINERS</TabsTrigger>
+                  <TabsTrigger value="losers" className="rounded-none data-[state=active]:bg-destructive/20 data-[state=active]:text-destructive font-orbitron text-xs">LOSERS</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              <Select value={String(days)} onValueChange={(value) => setDays(parseInt(value, 10))}>
+                <SelectTrigger className="w-32 bg-black/40 border-white/10 h-9 text-xs font-mono">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-black/90 border-white/10 text-white">
+                  {PERIODS.map((period) => (
+                    <SelectItem key={period.days} value={String(period.days)}>{period.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={loadStats}
+                disabled={loading}
+                variant="outline"
+                size="sm"
+                className="bg-black/20 border-white/10 hover:bg-primary/10 hover:border-primary/50 text-white font-orbitron text-xs"
+              >
+                <RefreshCw className={`w-3 h-3 ${loading ? 'animate-spin' : ''}`} />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {error ? (
+              <div className="text-center text-destructive py-4">{error}</div>
+            ) : sorted.length === 0 ? (
+              <div className="text-center text-muted-foreground py-4">{loading ? 'Loading movers history...' : 'No movers recorded in this period'}</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-white/10">
+                    <TableHead className="font-orbitron text-xs">SYMBOL</TableHead>
+                    <SortableHead label="APPEARANCES" sortBy="appearances" active={sortKey === "appearances"} onSort={setSortKey} />
+                    <SortableHead label="AVG RANK" sortBy="avgRank" active={sortKey === "avgRank"} onSort={setSortKey} />
+                    <SortableHead label="BEST" sortBy="bestRank" active={sortKey === "bestRank"} onSort={setSortKey} />
+                    <SortableHead label="AVG CHANGE" sortBy="avgChangePercent" active={sortKey === "avgChangePercent"} onSort={setSortKey} />
+                    <SortableHead label="TIME LISTED" sortBy="listedSeconds" active={sortKey === "listedSeconds"} onSort={setSortKey} />
+                    <SortableHead label="FIRST SEEN" sortBy="firstSeen" active={sortKey === "firstSeen"} onSort={setSortKey} />
+                    <TableHead className="font-orbitron text-xs">LAST SEEN</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sorted.map((row) => (
+                    <TableRow key={row.symbol} className="border-white/5 font-mono text-sm">
+                      <TableCell>
+                        <div className="font-bold text-white">{row.symbol}</div>
+                        <div className="text-xs text-muted-foreground font-rajdhani">{row.name}</div>
+                      </TableCell>
+                      <TableCell>
+                        {row.appearances}
+                        <span className="text-muted-foreground text-xs ml-2">
+                          ({((row.appearances / Math.max(1, row.snapshots)) * 100).toFixed(0)}%)
+                        </span>
+                      </TableCell>
+                      <TableCell>{row.avgRank.toFixed(1)}</TableCell>
+                      <TableCell>#{row.bestRank}</TableCell>
+                      <TableCell className={row.avgChangePercent >= 0 ? 'text-primary' : 'text-destructive'}>
+                        {formatChangePercent(row.avgChangePercent)}
+                      </TableCell>
+                      <TableCell>{formatDuration(row.listedSeconds)}</TableCell>
+                      <TableCell className="text-muted-foreground">{formatTime(row.firstSeen)}</TableCell>
+                      <TableCell className="text-muted-foreground">{formatTime(row.lastSeen)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,548 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, ArrowUpDown, Cpu, FlaskConical, Play, RefreshCw } from "lucide-react";
+import {
+  fetchStrategies,
+  fetchOptimizations,
+  fetchOptimization,
+  runOptimization,
+  type StrategyInfo,
+  type StrategyParameter,
+  type OptimizationObjective,
+  type OptimizationResult,
+  type OptimizationSummary,
+  type OptimizationCombination,
+  type ParameterRange,
+} from "@/lib/api";
+import { formatChangePercent } from "@shared/protocol";
+
+const INTERVALS = [
+  { value: "5m", label: "5 MIN" },
+  { value: "15m", label: "15 MIN" },
+  { value: "1d", label: "DAILY" },
+  { value: "1wk", label: "WEEKLY" },
+];
+
+const OBJECTIVES: { value: OptimizationObjective, label: string }[] = [
+  { value: "sharpe", label: "SHARPE" },
+  { value: "sortino", label: "SORTINO" },
+  { value: "totalReturnPercent", label: "TOTAL RETURN" },
+  { value: "cagrPercent", label: "CAGR" },
+];
+
+const FOLDS = [1, 2, 3, 4, 5];
+const IN_SAMPLE_RATIOS = [0.6, 0.7, 0.8];
+
+// Values a parameter range starts at when it is first varied
+const DEFAULT_RANGE_STEPS = 10;
+
+interface RangeDraft {
+  vary: boolean;
+  min: string;
+  max: string;
+  step: string;
+}
+
+type SortKey = "inSampleScore" | "outOfSampleScore" | "outOfSampleReturn" | "outOfSampleDrawdown" | "outOfSampleTrades" | `param:${string}`;
+
+function defaultRange(parameter: StrategyParameter, vary: boolean): RangeDraft {
+  const span = parameter.max - parameter.min;
+  const step = parameter.step ?? (parameter.type === "integer" ? Math.max(1, Math.round(span / DEFAULT_RANGE_STEPS)) : span / DEFAULT_RANGE_STEPS);
+  return { vary, min: String(parameter.min), max: String(parameter.max), step: String(step) };
+}
+
+function formatScore(value: number | null | undefined): string {
+  return value === null || value === undefined ? "n/a" : value.toFixed(2);
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { year: '2-digit', month: 'short', day: 'numeric' });
+}
+
+function formatParams(params: Record<string, number> | null): string {
+  return params ? Object.entries(params).map(([name, value]) => `${name}=${value}`).join(" ") : "n/a";
+}
+
+function sortValue(row: OptimizationCombination, key: SortKey): number | null {
+  if (key.startsWith("param:")) return row.params[key.slice(6)] ?? null;
+  switch (key) {
+    case "inSampleScore": return row.inSampleScore;
+    case "outOfSampleScore": return row.outOfSampleScore;
+    case "outOfSampleReturn": return row.outOfSample?.totalReturnPercent ?? null;
+    case "outOfSampleDrawdown": return row.outOfSample?.maxDrawdownPercent ?? null;
+    case "outOfSampleTrades": return row.outOfSample?.trades ?? null;
+  }
+  return null;
+}
+
+// Green for good scores, red for bad, relative to the largest absolute score on the map
+function scoreColor(score: number | null, scale: number): string {
+  if (score === null) return "rgb(30, 30, 36)";
+  const intensity = scale > 0 ? Math.min(1, Math.abs(score) / scale) : 0;
+  if (intensity < 0.02) return "rgb(55, 55, 65)";
+  const [r, g, b] = score > 0 ? [34, 197, 94] : [239, 68, 68];
+  const mix = (channel: number) => Math.round(55 + (channel - 55) * intensity);
+  return `rgb(${mix(r)}, ${mix(g)}, ${mix(b)})`;
+}
+
+function SortableHead({ label, sortBy, active, onSort }: { label: string, sortBy: SortKey, active: boolean, onSort: (key: SortKey) => void }) {
+  return (
+    <TableHead className="font-orbitron text-xs">
+      <button className={`inline-flex items-center gap-1 hover:text-primary ${active ? 'text-primary' : ''}`} onClick={() => onSort(sortBy)}>
+        {label}
+        <ArrowUpDown className="w-3 h-3" />
+      </button>
+    </TableHead>
+  );
+}
+
+// Best score of each pair of values of two parameters, over every value of the others
+function ParameterHeatmap({ result }: { result: OptimizationResult }) {
+  const varied = Object.keys(result.space).filter((name) => result.space[name].length > 1);
+  const [xParam, setXParam] = useState(varied[0] || "");
+  const [yParam, setYParam] = useState(varied[1] || "");
+  const [sample, setSample] = useState<"inSample" | "outOfSample">("outOfSample");
+
+  useEffect(() => {
+    setXParam(varied[0] || "");
+    setYParam(varied[1] || "");
+  }, [result.id]);
+
+  if (varied.length < 2) {
+    return <div className="text-center text-muted-foreground py-4">Vary at least two parameters to map them</div>;
+  }
+
+  const xValues = result.space[xParam] || [];
+  const yValues = result.space[yParam] || [];
+  const cells = new Map<string, number | null>();
+  for (const combination of result.combinations) {
+    const key = `${combination.params[xParam]}|${combination.params[yParam]}`;
+    const score = sample === "inSample" ? combination.inSampleScore : combination.outOfSampleScore;
+    const current = cells.get(key);
+    if (current === undefined || (score !== null && (current === null || score > current))) cells.set(key, score);
+  }
+  const scale = Math.max(0, ...Array.from(cells.values()).map((score) => Math.abs(score ?? 0)));
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center gap-3 text-xs font-mono">
+        <span className="text-muted-foreground">X</span>
+        <Select value={xParam} onValueChange={setXParam}>
+          <SelectTrigger className="w-36 bg-black/40 border-white/10 h-8 text-xs font-mono"><SelectValue /></SelectTrigger>
+          <SelectContent className="bg-black/90 border-white/10 text-white">
+            {varied.filter((name) => name !== yParam).map((name) => <SelectItem key={name} value={name}>{name}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <span className="text-muted-foreground">Y</span>
+        <Select value={yParam} onValueChange={setYParam}>
+          <SelectTrigger className="w-36 bg-black/40 border-white/10 h-8 text-xs font-mono"><SelectValue /></SelectTrigger>
+          <SelectContent className="bg-black/90 border-white/10 text-white">
+            {varied.filter((name) => name !== xParam).map((name) => <SelectItem key={name} value={name}>{name}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Select value={sample} onValueChange={(value) => setSample(value as "inSample" | "outOfSample")}>
+          <SelectTrigger className="w-40 bg-black/40 border-white/10 h-8 text-xs font-mono"><SelectValue /></SelectTrigger>
+          <SelectContent className="bg-black/90 border-white/10 text-white">
+            <SelectItem value="outOfSample">OUT OF SAMPLE</SelectItem>
+            <SelectItem value="inSample">IN SAMPLE</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="overflow-x-auto custom-scrollbar">
+        <div className="grid gap-px text-[10px] font-mono" style={{ gridTemplateColumns: `auto repeat(${xValues.length}, minmax(36px, 1fr))` }}>
+          <div className="text-muted-foreground px-1">{yParam} \ {xParam}</div>
+          {xValues.map((x) => <div key={x} className="text-center text-muted-foreground">{x}</div>)}
+          {[...yValues].reverse().map((y) => (
+            <div key={y} className="contents">
+              <div className="text-muted-foreground px-1 text-right">{y}</div>
+              {xValues.map((x) => {
+                const score = cells.get(`${x}|${y}`);
+                return (
+                  <div
+                    key={x}
+                    title={`${xParam}=${x} ${yParam}=${y}: ${formatScore(score)}`}
+                    className="h-8 flex items-center justify-center text-white/90"
+                    style={{ backgroundColor: scoreColor(score ?? null, scale) }}
+                  >
+                    {score === undefined ? "" : formatScore(score)}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function Optimizer() {
+  const [strategies, setStrategies] = useState<StrategyInfo[]>([]);
+  const [strategy, setStrategy] = useState("neuro-scalp");
+  const [symbols, setSymbols] = useState("AAPL, MSFT");
+  const [barInterval, setBarInterval] = useState("1d");
+  const [method, setMethod] = useState<"grid" | "random">("grid");
+  const [samples, setSamples] = useState("50");
+  const [folds, setFolds] = useState(3);
+  const [inSampleRatio, setInSampleRatio] = useState(0.7);
+  const [objective, setObjective] = useState<OptimizationObjective>("sharpe");
+  const [ranges, setRanges] = useState<Record<string, RangeDraft>>({});
+  const [result, setResult] = useState<OptimizationResult | null>(null);
+  const [saved, setSaved] = useState<OptimizationSummary[]>([]);
+  const [sortKey, setSortKey] = useState<SortKey>("inSampleScore");
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [savedError, setSavedError] = useState<string | null>(null);
+
+  const strategyInfo = strategies.find((option) => option.id === strategy);
+
+  useEffect(() => {
+    fetchStrategies()
+      .then(setStrategies)
+      .catch((err) => console.error('Error loading strategies:', err));
+  }, []);
+
+  // Start each strategy with its first two parameters varied over their whole range
+  useEffect(() => {
+    if (!strategyInfo) return;
+    setRanges(Object.fromEntries(strategyInfo.parameters.map((parameter, i) => [parameter.name, defaultRange(parameter, i < 2)])));
+  }, [strategyInfo]);
+
+  const loadSaved = async () => {
+    try {
+      setSaved(await fetchOptimizations(undefined, 25));
+      setSavedError(null);
+    } catch (err) {
+      console.error('Error loading optimizations:', err);
+      setSavedError('Stored optimizations are unavailable');
+    }
+  };
+
+  useEffect(() => {
+    loadSaved();
+  }, []);
+
+  const updateRange = (name: string, update: Partial<RangeDraft>) => {
+    setRanges((current) => ({ ...current, [name]: { ...current[name], ...update } }));
+  };
+
+  const handleRun = async () => {
+    const space: Record<string, ParameterRange> = {};
+    for (const [name, range] of Object.entries(ranges)) {
+      if (!range.vary) continue;
+      space[name] = { min: parseFloat(range.min), max: parseFloat(range.max), step: parseFloat(range.step) || undefined };
+    }
+
+    setRunning(true);
+    try {
+      setResult(await runOptimization({
+        strategy,
+        symbols: symbols.split(",").map((symbol) => symbol.trim()).filter(Boolean),
+        interval: barInterval,
+        method,
+        samples: parseInt(samples, 10) || 50,
+        space,
+        folds,
+        inSampleRatio,
+        objective,
+      }));
+      setError(null);
+      loadSaved();
+    } catch (err: any) {
+      console.error('Error running optimization:', err);
+      setError(err.message);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleOpen = async (id: string) => {
+    try {
+      setResult(await fetchOptimization(id));
+      setError(null);
+    } catch (err) {
+      console.error('Error loading optimization:', err);
+      setError('Could not load this optimization');
+    }
+  };
+
+  const paramNames = result ? Object.keys(result.space) : [];
+  const sorted = useMemo(() => [...(result?.combinations || [])].sort((a, b) => {
+    const first = sortValue(a, sortKey);
+    const second = sortValue(b, sortKey);
+    if (first === null || second === null) return first === null ? (second === null ? 0 : 1) : -1;
+    return sortKey === "outOfSampleDrawdown" ? first - second : second - first;
+  }), [result, sortKey]);
+
+  return (
+    <div className="min-h-screen bg-background text-foreground flex flex-col">
+      {/* Header */}
+      <header className="border-b border-white/10 bg-black/40 backdrop-blur-md h-16 flex items-center px-6 justify-between sticky top-0 z-50">
+        <div className="flex items-center gap-2">
+          <Cpu className="w-6 h-6 text-primary animate-pulse" />
+          <h1 className="text-xl font-bold tracking-widest text-primary font-orbitron">QUANTUM<span className="text-white">TRADE</span></h1>
+          <Badge variant="outline" className="ml-4 border-primary/50 text-primary bg-primary/10 font-mono text-xs">
+            OPTIMIZER
+          </Badge>
+        </div>
+        <div className="flex items-center gap-6 text-sm font-rajdhani font-medium text-muted-foreground">
+          <Link href="/" className="flex items-center gap-2 hover:text-primary">
+            <ArrowLeft className="w-4 h-4" />
+            <span>Dashboard</span>
+          </Link>
+        </div>
+      </header>
+
+      <main className="flex-1 p-6 grid grid-cols-12 gap-6">
+        <div className="col-span-4 flex flex-col gap-6">
+          <Card className="bg-black/40 border-white/10 backdrop-blur-sm">
+            <CardHeader className="pb-2">
+              <CardTitle className="font-orbitron tracking-wider text-white flex items-center gap-2 text-lg">
+                <FlaskConical className="w-5 h-5 text-primary" /> SEARCH
+              </CardTitle>
+              <p className="text-muted-foreground text-xs font-rajdhani uppercase tracking-widest">
+                Walk-forward: fit in sample, score out of sample
+              </p>
+            </CardHeader>
+            <CardContent className="flex flex-col gap-3 text-xs font-mono">
+              <Select value={strategy} onValueChange={setStrategy}>
+                <SelectTrigger className="bg-black/40 border-white/10 h-9 text-xs font-mono"><SelectValue /></SelectTrigger>
+                <SelectContent className="bg-black/90 border-white/10 text-white">
+                  {strategies.map((option) => <SelectItem key={option.id} value={option.id}>{option.name.toUpperCase()}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Input value={symbols} onChange={(e) => setSymbols(e.target.value)} placeholder="AAPL, MSFT" className="bg-black/40 border-white/10 h-9 text-xs font-mono" />
+              <div className="grid grid-cols-2 gap-3">
+                <Select value={barInterval} onValueChange={setBarInterval}>
+                  <SelectTrigger className="bg-black/40 border-white/10 h-9 text-xs font-mono"><SelectValue /></SelectTrigger>
+                  <SelectContent className="bg-black/90 border-white/10 text-white">
+                    {INTERVALS.map((option) => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Select value={objective} onValueChange={(value) => setObjective(value as OptimizationObjective)}>
+                  <SelectTrigger className="bg-black/40 border-white/10 h-9 text-xs font-mono"><SelectValue /></SelectTrigger>
+                  <SelectContent className="bg-black/90 border-white/10 text-white">
+                    {OBJECTIVES.map((option) => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Select value={String(folds)} onValueChange={(value) => setFolds(parseInt(value, 10))}>
+                  <SelectTrigger className="bg-black/40 border-white/10 h-9 text-xs font-mono"><SelectValue /></SelectTrigger>
+                  <SelectContent className="bg-black/90 border-white/10 text-white">
+                    {FOLDS.map((count) => <SelectItem key={count} value={String(count)}>{count} FOLD{count > 1 ? 'S' : ''}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Select value={String(inSampleRatio)} onValueChange={(value) => setInSampleRatio(parseFloat(value))}>
+                  <SelectTrigger className="bg-black/40 border-white/10 h-9 text-xs font-mono"><SelectValue /></SelectTrigger>
+                  <SelectContent className="bg-black/90 border-white/10 text-white">
+                    {IN_SAMPLE_RATIOS.map((ratio) => <SelectItem key={ratio} value={String(ratio)}>{ratio * 100}% IN SAMPLE</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Select value={method} onValueChange={(value) => setMethod(value as "grid" | "random")}>
+                  <SelectTrigger className="bg-black/40 border-white/10 h-9 text-xs font-mono"><SelectValue /></SelectTrigger>
+                  <SelectContent className="bg-black/90 border-white/10 text-white">
+                    <SelectItem value="grid">GRID</SelectItem>
+                    <SelectItem value="random">RANDOM</SelectItem>
+                  </SelectContent>
+                </Select>
+                {method === "random" && (
+                  <Input value={samples} onChange={(e) => setSamples(e.target.value)} placeholder="Samples" className="bg-black/40 border-white/10 h-9 text-xs font-mono" />
+                )}
+              </div>
+
+              <div className="border-t border-white/10 pt-3 flex flex-col gap-2">
+                {strategyInfo?.parameters.map((parameter) => {
+                  const range = ranges[parameter.name];
+                  if (!range) return null;
+                  return (
+                    <div key={parameter.name} className="flex flex-col gap-1">
+                      <div className="flex items-center justify-between">
+                        <span className="text-muted-foreground" title={parameter.description}>{parameter.label.toUpperCase()}</span>
+                        <Switch checked={range.vary} onCheckedChange={(vary) => updateRange(parameter.name, { vary })} />
+                      </div>
+                      {range.vary ? (
+                        <div className="grid grid-cols-3 gap-2">
+                          <Input value={range.min} onChange={(e) => updateRange(parameter.name, { min: e.target.value })} title="Min" className="bg-black/40 border-white/10 h-7 text-xs font-mono" />
+                          <Input value={range.max} onChange={(e) => updateRange(parameter.name, { max: e.target.value })} title="Max" className="bg-black/40 border-white/10 h-7 text-xs font-mono" />
+                          <Input value={range.step} onChange={(e) => updateRange(parameter.name, { step: e.target.value })} title="Step" className="bg-black/40 border-white/10 h-7 text-xs font-mono" />
+                        </div>
+                      ) : (
+                        <span className="text-white/60">fixed at {parameter.default}</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <Button
+                onClick={handleRun}
+                disabled={running}
+                className="bg-primary/20 border border-primary/50 text-primary hover:bg-primary/30 font-orbitron text-xs"
+              >
+                {running ? <RefreshCw className="w-3 h-3 mr-2 animate-spin" /> : <Play className="w-3 h-3 mr-2" />}
+                {running ? 'OPTIMIZING...' : 'RUN OPTIMIZATION'}
+              </Button>
+              {error && <div className="text-destructive font-rajdhani text-sm">{error}</div>}
+            </CardContent>
+          </Card>
+
+          <Card className="bg-black/40 border-white/10 backdrop-blur-sm">
+            <CardHeader className="pb-2 flex flex-row items-center justify-between">
+              <CardTitle className="font-orbitron tracking-wider text-white text-sm">SAVED RUNS</CardTitle>
+              <Button onClick={loadSaved} variant="outline" size="sm" className="bg-black/20 border-white/10 hover:bg-primary/10 hover:border-primary/50 text-white h-7">
+                <RefreshCw className="w-3 h-3" />
+              </Button>
+            </CardHeader>
+            <CardContent className="max-h-96 overflow-y-auto custom-scrollbar">
+              {savedError ? (
+                <div className="text-center text-muted-foreground py-4">{savedError}</div>
+              ) : saved.length === 0 ? (
+                <div className="text-center text-muted-foreground py-4">No optimizations stored yet</div>
+              ) : (
+                <Table>
+                  <TableBody>
+                    {saved.map((run) => (
+                      <TableRow key={run.id} onClick={() => handleOpen(run.id)} className={`border-white/5 text-xs cursor-pointer hover:bg-white/5 ${result?.id === run.id ? 'bg-primary/10' : ''}`}>
+                        <TableCell className="font-mono">
+                          <div className="text-white">{run.strategy} // {run.symbols.join(", ")}</div>
+                          <div className="text-muted-foreground">{formatParams(run.bestParams)}</div>
+                        </TableCell>
+                        <TableCell className="font-mono text-right whitespace-nowrap">
+                          <div>OOS {formatScore(run.outOfSampleScore)}</div>
+                          <div className="text-muted-foreground">{formatDate(run.createdAt)}</div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="col-span-8 flex flex-col gap-6">
+          {!result ? (
+            <Card className="bg-black/40 border-white/10 backdrop-blur-sm">
+              <CardContent className="text-center text-muted-foreground py-12">
+                {running ? 'Running walk-forward backtests...' : 'Run an optimization or open a saved one'}
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <Card className="bg-black/40 border-white/10 backdrop-blur-sm">
+                <CardHeader className="pb-2">
+                  <CardTitle className="font-orbitron tracking-wider text-white text-lg">
+                    {result.strategy.toUpperCase()} // {result.symbols.join(", ")}
+                  </CardTitle>
+                  <p className="text-muted-foreground text-xs font-rajdhani uppercase tracking-widest">
+                    {result.combinations.length} combinations // {result.method} // {result.folds} folds // {result.interval} bars {formatDate(result.from)} to {formatDate(result.to)} // {(result.durationMs / 1000).toFixed(1)}s
+                  </p>
+                </CardHeader>
+                <CardContent className="flex flex-col gap-4">
+                  <div className="grid grid-cols-4 gap-4 font-mono">
+                    <div>
+                      <div className="text-muted-foreground text-xs">BEST PARAMETERS</div>
+                      <div className="text-white text-sm">{formatParams(result.bestParams)}</div>
+                    </div>
+                    <div>
+                      <div className="text-muted-foreground text-xs">IN SAMPLE {result.objective.toUpperCase()}</div>
+                      <div className="text-white text-lg">{formatScore(result.inSampleScore)}</div>
+                    </div>
+                    <div>
+                      <div className="text-muted-foreground text-xs">WALK-FORWARD {result.objective.toUpperCase()}</div>
+                      <div className={`text-lg ${(result.outOfSampleScore ?? 0) >= 0 ? 'text-primary' : 'text-destructive'}`}>{formatScore(result.outOfSampleScore)}</div>
+                    </div>
+                    <div>
+                      <div className="text-muted-foreground text-xs">OUT OF SAMPLE RETURN</div>
+                      <div className="text-white text-lg">
+                        {result.outOfSampleMetrics ? formatChangePercent(result.outOfSampleMetrics.totalReturnPercent) : 'n/a'}
+                      </div>
+                    </div>
+                  </div>
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="border-white/10">
+                        <TableHead className="font-orbitron text-xs">FOLD</TableHead>
+                        <TableHead className="font-orbitron text-xs">IN SAMPLE</TableHead>
+                        <TableHead className="font-orbitron text-xs">OUT OF SAMPLE</TableHead>
+                        <TableHead className="font-orbitron text-xs">FITTED PARAMETERS</TableHead>
+                        <TableHead className="font-orbitron text-xs">IS</TableHead>
+                        <TableHead className="font-orbitron text-xs">OOS</TableHead>
+                        <TableHead className="font-orbitron text-xs">OOS RETURN</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.foldResults.map((fold) => (
+                        <TableRow key={fold.index} className="border-white/5 font-mono text-xs">
+                          <TableCell>#{fold.index + 1}</TableCell>
+                          <TableCell className="text-muted-foreground whitespace-nowrap">{formatDate(fold.inSample.from)} - {formatDate(fold.inSample.to)}</TableCell>
+                          <TableCell className="text-muted-foreground whitespace-nowrap">{formatDate(fold.outOfSample.from)} - {formatDate(fold.outOfSample.to)}</TableCell>
+                          <TableCell>{formatParams(fold.bestParams)}</TableCell>
+                          <TableCell>{formatScore(fold.inSampleScore)}</TableCell>
+                          <TableCell className={(fold.outOfSampleScore ?? 0) >= 0 ? 'text-primary' : 'text-destructive'}>{formatScore(fold.outOfSampleScore)}</TableCell>
+                          <TableCell>{fold.outOfSampleMetrics ? formatChangePercent(fold.outOfSampleMetrics.totalReturnPercent) : 'n/a'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              <Card className="bg-black/40 border-white/10 backdrop-blur-sm">
+                <CardHeader className="pb-2">
+                  <CardTitle className="font-orbitron tracking-wider text-white text-sm">PARAMETER HEATMAP</CardTitle>
+                  <p className="text-muted-foreground text-xs font-rajdhani uppercase tracking-widest">
+                    Best {result.objective} of each pair, over every value of the other parameters
+                  </p>
+                </CardHeader>
+                <CardContent>
+                  <ParameterHeatmap result={result} />
+                </CardContent>
+              </Card>
+
+              <Card className="bg-black/40 border-white/10 backdrop-blur-sm">
+                <CardHeader className="pb-2">
+                  <CardTitle className="font-orbitron tracking-wider text-white text-sm">COMBINATIONS</CardTitle>
+                </CardHeader>
+                <CardContent className="max-h-[480px] overflow-y-auto custom-scrollbar">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="border-white/10">
+                        {paramNames.map((name) => (
+                          <SortableHead key={name} label={name.toUpperCase()} sortBy={`param:${name}`} active={sortKey === `param:${name}`} onSort={setSortKey} />
+                        ))}
+                        <SortableHead label="IS SCORE" sortBy="inSampleScore" active={sortKey === "inSampleScore"} onSort={setSortKey} />
+                        <SortableHead label="OOS SCORE" sortBy="outOfSampleScore" active={sortKey === "outOfSampleScore"} onSort={setSortKey} />
+                        <SortableHead label="OOS RETURN" sortBy="outOfSampleReturn" active={sortKey === "outOfSampleReturn"} onSort={setSortKey} />
+                        <SortableHead label="OOS DRAWDOWN" sortBy="outOfSampleDrawdown" active={sortKey === "outOfSampleDrawdown"} onSort={setSortKey} />
+                        <SortableHead label="OOS TRADES" sortBy="outOfSampleTrades" active={sortKey === "outOfSampleTrades"} onSort={setSortKey} />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {sorted.map((row) => (
+                        <TableRow key={JSON.stringify(row.params)} className="border-white/5 font-mono text-xs">
+                          {paramNames.map((name) => <TableCell key={name}>{row.params[name]}</TableCell>)}
+                          <TableCell>{formatScore(row.inSampleScore)}</TableCell>
+                          <TableCell className={(row.outOfSampleScore ?? 0) >= 0 ? 'text-primary' : 'text-destructive'}>{formatScore(row.outOfSampleScore)}</TableCell>
+                          <TableCell>{row.outOfSample ? formatChangePercent(row.outOfSample.totalReturnPercent) : 'n/a'}</TableCell>
+                          <TableCell className="text-muted-foreground">{row.outOfSample ? `${row.outOfSample.maxDrawdownPercent.toFixed(2)}%` : 'n/a'}</TableCell>
+                          <TableCell className="text-muted-foreground">{row.outOfSample ? row.outOfSample.trades : 'n/a'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Crosshair, Cpu, RefreshCw } from "lucide-react";
+import { CartesianGrid, ComposedChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { fetchSignalReplay, fetchStrategies, type ReplayedSignal, type SignalReplay, type StrategyInfo } from "@/lib/api";
+import { formatChangePercent } from "@shared/protocol";
+
+const INTERVALS = [
+  { value: "5m", label: "5 MIN" },
+  { value: "15m", label: "15 MIN" },
+  { value: "1d", label: "DAILY" },
+  { value: "1wk", label: "WEEKLY" },
+];
+
+const HORIZONS = [1, 5, 10, 20];
+
+// Most recent BUY/SELL signals listed under the chart
+const RECENT_SIGNALS = 25;
+
+interface ChartPoint {
+  time: string;
+  price: number;
+  buy: number | null;
+  sell: number | null;
+  signal: ReplayedSignal;
+}
+
+function formatBarTime(iso: string, interval: string): string {
+  const date = new Date(iso);
+  return interval.endsWith("m")
+    ? date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', hour12: false })
+    : date.toLocaleDateString('en-US', { year: '2-digit', month: 'short', day: 'numeric' });
+}
+
+// Triangle on the price line: up for BUY, down for SELL; nothing for bars without that signal
+function SignalMarker({ cx, cy, value, direction }: { cx?: number, cy?: number, value?: number | null, direction: "up" | "down" }) {
+  if (value == null || cx == null || cy == null) return <g />;
+  const points = direction === "up"
+    ? `${cx},${cy + 4} ${cx - 6},${cy + 14} ${cx + 6},${cy + 14}`
+    : `${cx},${cy - 4} ${cx - 6},${cy - 14} ${cx + 6},${cy - 14}`;
+  return <polygon points={points} fill={direction === "up" ? "var(--color-primary)" : "var(--color-destructive)"} />;
+}
+
+function SignalTooltip({ active, payload }: { active?: boolean, payload?: { payload: ChartPoint }[] }) {
+  if (!active || !payload?.length) return null;
+  const { time, signal } = payload[0].payload;
+  return (
+    <div className="bg-black border border-white/20 p-2 text-xs font-mono max-w-xs">
+      <div className="text-muted-foreground">{time}</div>
+      <div className="text-white">${signal.price.toFixed(2)}</div>
+      <div className={signal.action === "BUY" ? "text-primary" : signal.action === "SELL" ? "text-destructive" : "text-muted-foreground"}>
+        {signal.action} ({signal.confidence.toFixed(0)}%)
+      </div>
+      <div className="text-muted-foreground font-rajdhani">{signal.reason}</div>
+      {signal.forwardReturnPercent !== null && (
+        <div>Forward: {formatChangePercent(signal.forwardReturnPercent)}</div>
+      )}
+    </div>
+  );
+}
+
+export default function SignalReplayPage() {
+  const { symbol = "" } = useParams<{ symbol: string }>();
+  const [strategies, setStrategies] = useState<StrategyInfo[]>([]);
+  const [strategy, setStrategy] = useState("neuro-scalp");
+  const [barInterval, setBarInterval] = useState("1d");
+  const [horizon, setHorizon] = useState(5);
+  const [replay, setReplay] = useState<SignalReplay | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchStrategies()
+      .then(setStrategies)
+      .catch((err) => console.error('Error loading strategies:', err));
+  }, []);
+
+  const loadReplay = async () => {
+    setLoading(true);
+    try {
+      setReplay(await fetchSignalReplay(symbol, strategy, barInterval, horizon));
+      setError(null);
+    } catch (err) {
+      console.error('Error replaying signals:', err);
+      setReplay(null);
+      setError(`Could not replay ${strategy} over ${symbol.toUpperCase()}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadReplay();
+  }, [symbol, strategy, barInterval, horizon]);
+
+  const chartData: ChartPoint[] = (replay?.signals || []).map((signal) => ({
+    time: formatBarTime(signal.date, barInterval),
+    price: signal.price,
+    buy: signal.action === "BUY" ? signal.price : null,
+    sell: signal.action === "SELL" ? signal.price : null,
+    signal
+  }));
+  const recent = (replay?.signals || []).filter((signal) => signal.action !== "HOLD").slice(-RECENT_SIGNALS).reverse();
+
+  return (
+    <div className="min-h-screen bg-background text-foreground flex flex-col">
+      {/* Header */}
+      <header className="border-b border-white/10 bg-black/40 backdrop-blur-md h-16 flex items-center px-6 justify-between sticky top-0 z-50">
+        <div className="flex items-center gap-2">
+          <Cpu className="w-6 h-6 text-primary animate-pulse" />
+          <h1 className="text-xl font-bold tracking-widest text-primary font-orbitron">QUANTUM<span className="text-white">TRADE</span></h1>
+          <Badge variant="outline" className="ml-4 border-primary/50 text-primary bg-primary/10 font-mono text-xs">
+            SIGNAL REPLAY
+          </Badge>
+        </div>
+        <div className="flex items-center gap-6 text-sm font-rajdhani font-medium text-muted-foreground">
+          <Link href="/" className="flex items-center gap-2 hover:text-primary">
+            <ArrowLeft className="w-4 h-4" />
+            <span>Dashboard</span>
+          </Link>
+        </div>
+      </header>
+
+      <main className="flex-1 p-6 flex flex-col gap-6">
+        <Card className="bg-black/40 border-white/10 backdrop-blur-sm">
+          <CardHeader className="flex flex-row items-center justify-between gap-4 pb-2">
+            <div>
+              <CardTitle className="font-orbitron tracking-wider text-white flex items-center gap-2 text-lg">
+                <Crosshair className="w-5 h-5 text-primary" />
+                {symbol.toUpperCase()} // {strategy.toUpperCase()}
+              </CardTitle>
+              <p className="text-muted-foreground text-xs font-rajdhani uppercase tracking-widest mt-1">
+                {replay
+                  ? `${replay.signals.length} bars // ${replay.summary.buy} buy // ${replay.summary.sell} sell // hit rate ${replay.summary.hitRatePercent !== null ? `${replay.summary.hitRatePercent.toFixed(1)}%` : 'n/a'} over ${replay.horizon} bars`
+                  : 'Where the strategy would have fired'}
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <Select value={strategy} onValueChange={setStrategy}>
+                <SelectTrigger className="w-40 bg-black/40 border-white/10 h-9 text-xs font-mono">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-black/90 border-white/10 text-white">
+                  {strategies.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>{option.name.toUpperCase()}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={barInterval} onValueChange={setBarInterval}>
+                <SelectTrigger className="w-28 bg-black/40 border-white/10 h-9 text-xs font-mono">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-black/90 border-white/10 text-white">
+                  {INTERVALS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={String(horizon)} onValueChange={(value) => setHorizon(parseInt(value, 10))}>
+                <SelectTrigger className="w-32 bg-black/40 border-white/10 h-9 text-xs font-mono">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-black/90 border-white/10 text-white">
+                  {HORIZONS.map((bars) => (
+                    <SelectItem key={bars} value={String(bars)}>{bars} BAR{bars > 1 ? 'S' : ''} AHEAD</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={loadReplay}
+                disabled={loading}
+                variant="outline"
+                size="sm"
+                className="bg-black/20 border-white/10 hover:bg-primary/10 hover:border-primary/50 text-white font-orbitron text-xs"
+              >
+                <RefreshCw className={`w-3 h-3 ${loading ? 'animate-spin' : ''}`} />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="h-[420px]">
+            {error ? (
+              <div className="text-center text-destructive py-4">{error}</div>
+            ) : chartData.length === 0 ? (
+              <div className="text-center text-muted-foreground py-4">{loading ? 'Replaying signals...' : 'No bars to replay'}</div>
+            ) : (
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#333" vertical={false} />
+                  <XAxis dataKey="time" stroke="#666" fontSize={12} tickLine={false} axisLine={false} minTickGap={40} />
+                  <YAxis stroke="#666" fontSize={12} tickLine={false} axisLine={false} domain={['auto', 'auto']} />
+                  <Tooltip content={<SignalTooltip />} />
+                  <Line type="monotone" dataKey="price" stroke="var(--color-primary)" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  <Line dataKey="buy" stroke="none" isAnimationActive={false} activeDot={false} dot={(props: any) => <SignalMarker key={`buy-${props.index}`} {...props} direction="up" />} />
+                  <Line dataKey="sell" stroke="none" isAnimationActive={false} activeDot={false} dot={(props: any) => <SignalMarker key={`sell-${props.index}`} {...props} direction="down" />} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-2 gap-6">
+          <Card className="bg-black/40 border-white/10 backdrop-blur-sm">
+            <CardHeader className="pb-2">
+              <CardTitle className="font-orbitron tracking-wider text-white text-sm">HIT RATE BY CONFIDENCE</CardTitle>
+              <p className="text-muted-foreground text-xs font-rajdhani uppercase tracking-widest">
+                BUY followed by a rise, SELL by a fall, {horizon} bar{horizon > 1 ? 's' : ''} later
+              </p>
+            </CardHeader>
+            <CardContent>
+              {!replay || replay.buckets.length === 0 ? (
+                <div className="text-center text-muted-foreground py-4">No BUY or SELL signals to score</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-white/10">
+                      <TableHead className="font-orbitron text-xs">CONFIDENCE</TableHead>
+                      <TableHead className="font-orbitron text-xs">SIGNALS</TableHead>
+                      <TableHead className="font-orbitron text-xs">HIT RATE</TableHead>
+                      <TableHead className="font-orbitron text-xs">AVG RETURN</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {replay.buckets.map((bucket) => (
+                      <TableRow key={bucket.min} className="border-white/5 font-mono text-sm">
+                        <TableCell>{bucket.min}-{bucket.max}%</TableCell>
+                        <TableCell>{bucket.hits}/{bucket.signals}</TableCell>
+                        <TableCell className={bucket.hitRatePercent !== null && bucket.hitRatePercent >= 50 ? 'text-primary' : 'text-destructive'}>
+                          {bucket.hitRatePercent !== null ? `${bucket.hitRatePercent.toFixed(1)}%` : 'n/a'}
+                        </TableCell>
+                        <TableCell className={(bucket.avgForwardReturnPercent ?? 0) >= 0 ? 'text-primary' : 'text-destructive'}>
+                          {bucket.avgForwardReturnPercent !== null ? formatChangePercent(bucket.avgForwardReturnPercent) : 'n/a'}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="bg-black/40 border-white/10 backdrop-blur-sm">
+            <CardHeader className="pb-2">
+              <CardTitle className="font-orbitron tracking-wider text-white text-sm">RECENT SIGNALS</CardTitle>
+            </CardHeader>
+            <CardContent className="max-h-80 overflow-y-auto custom-scrollbar">
+              {recent.length === 0 ? (
+                <div className="text-center text-muted-foreground py-4">No BUY or SELL signals in this period</div>
+              ) : (
+                <Table>
+                  <TableBody>
+                    {recent.map((signal) => (
+                      <TableRow key={signal.date} className="border-white/5 text-sm">
+                        <TableCell className="font-mono text-muted-foreground whitespace-nowrap">{formatBarTime(signal.date, barInterval)}</TableCell>
+                        <TableCell className={`font-mono ${signal.action === 'BUY' ? 'text-primary' : 'text-destructive'}`}>
+                          {signal.action} {signal.confidence.toFixed(0)}%
+                        </TableCell>
+                        <TableCell className="font-rajdhani text-xs text-muted-foreground">{signal.reason}</TableCell>
+                        <TableCell className={`font-mono ${signal.hit === null ? 'text-muted-foreground' : signal.hit ? 'text-primary' : 'text-destructive'}`}>
+                          {signal.forwardReturnPercent !== null ? formatChangePercent(signal.forwardReturnPercent) : 'pending'}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import "dotenv/config";
+import { readFileSync } from "fs";
+import { basename, extname } from "path";
+import { parseArgs } from "util";
+import { clickhouseClient } from "../server/services/clickhouseClient";
+import { BAR_INTERVALS, type BarInterval } from "../server/services/clickhouse";
+import { getStrategy, listStrategies, resolveStrategyParams } from "../server/services/strategies";
+import { backtestOptionsSchema, loadClickHouseBars, parseCsvBars, runBacktest, type BacktestResult } from "../server/services/backtest";
+
+const USAGE = `Usage: npm run backtest -- --strategy <id> (--symbol <SYMBOL> | --csv <file>) [options]
+
+Bars:
+  --symbol <SYMBOL>        Replay bars stored in ClickHouse
+  --interval <interval>    Bar interval: ${BAR_INTERVALS.join(", ")} (default 1d)
+  --from <date>            Start of the range (default: 365 days before --to)
+  --to <date>              End of the range (default: now)
+  --csv <file>             Replay bars from a CSV file (date,open,high,low,close,volume)
+
+Strategy:
+  --strategy <id>          One of: ${listStrategies().map((strategy) => strategy.id).join(", ")}
+  --param <name=value>     Strategy parameter, repeatable
+
+Simulation:
+  --capital <amount>       Initial capital (default 10000)
+  --commission <amount>    Flat commission per fill (default 0)
+  --commission-bps <bps>   Commission in basis points of the traded notional (default 5)
+  --slippage-bps <bps>     Slippage in basis points (default 5)
+  --position-size <0-1>    Fraction of equity per entry (default 1)
+  --min-confidence <0-100> Ignore signals below this confidence (default 0)
+  --allow-short            SELL signals open shorts
+  --json                   Print the full result as JSON`;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function number(value: string | undefined): number | undefined {
+  return value === undefined ? undefined : parseFloat(value);
+}
+
+function formatMetric(value: number | null, suffix: string = ""): string {
+  return value === null ? "n/a" : `${value.toFixed(2)}${suffix}`;
+}
+
+function printReport(result: BacktestResult) {
+  const { metrics } = result;
+  console.log(`${result.strategy} on ${result.symbol}: ${result.bars} bars, ${result.from.toISOString()} to ${result.to.toISOString()}`);
+  console.log(`Params: ${Object.entries(result.params).map(([name, value]) => `${name}=${value}`).join(" ")}`);
+  console.log(`Signals: ${result.signals.buy} buy, ${result.signals.sell} sell, ${result.signals.hold} hold`);
+  console.log("");
+  console.log(`Final equity    ${metrics.finalEquity.toFixed(2)}`);
+  console.log(`Total return    ${formatMetric(metrics.totalReturnPercent, "%")}`);
+  console.log(`CAGR            ${formatMetric(metrics.cagrPercent, "%")}`);
+  console.log(`Sharpe          ${formatMetric(metrics.sharpe)}`);
+  console.log(`Sortino         ${formatMetric(metrics.sortino)}`);
+  console.log(`Max drawdown    ${formatMetric(metrics.maxDrawdownPercent, "%")}`);
+  console.log(`Win rate        ${formatMetric(metrics.winRatePercent, "%")} of ${metrics.trades} trade(s)`);
+  console.log(`Exposure        ${formatMetric(metrics.exposurePercent, "%")}`);
+
+  if (result.trades.length > 0) {
+    console.log("");
+    for (const trade of result.trades) {
+      console.log(`${trade.side.padEnd(5)}  ${trade.entryDate.toISOString()} @ ${trade.entryPrice.toFixed(2)}  ->  ${trade.exitDate.toISOString()} @ ${trade.exitPrice.toFixed(2)}  ${trade.pnl >= 0 ? "+" : ""}${trade.pnl.toFixed(2)} (${trade.returnPercent.toFixed(2)}%)`);
+    }
+  }
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      strategy: { type: "string" },
+      symbol: { type: "string" },
+      interval: { type: "string", default: "1d" },
+      from: { type: "string" },
+      to: { type: "string" },
+      csv: { type: "string" },
+      param: { type: "string", multiple: true },
+      capital: { type: "string" },
+      commission: { type: "string" },
+      "commission-bps": { type: "string" },
+      "slippage-bps": { type: "string" },
+      "position-size": { type: "string" },
+      "min-confidence": { type: "string" },
+      "allow-short": { type: "boolean", default: false },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  const strategy = values.strategy ? getStrategy(values.strategy) : undefined;
+  if (!strategy || (!values.symbol && !values.csv)) {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const params = Object.fromEntries((values.param || []).map((pair) => {
+    const [name, value] = pair.split("=");
+    return [name, value];
+  }));
+  const resolved = resolveStrategyParams(strategy, params);
+  if ("error" in resolved) {
+    throw new Error(resolved.error);
+  }
+
+  const options = backtestOptionsSchema.safeParse({
+    initialCapital: number(values.capital),
+    commissionPerTrade: number(values.commission),
+    commissionBps: number(values["commission-bps"]),
+    slippageBps: number(values["slippage-bps"]),
+    positionSize: number(values["position-size"]),
+    minConfidence: number(values["min-confidence"]),
+    allowShort: values["allow-short"],
+  });
+  if (!options.success) {
+    throw new Error(`Invalid options: ${options.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join(", ")}`);
+  }
+
+  let bars;
+  if (values.csv) {
+    bars = parseCsvBars(readFileSync(values.csv, "utf8"));
+  } else {
+    if (!BAR_INTERVALS.includes(values.interval as BarInterval)) {
+      throw new Error(`Invalid interval, expected one of: ${BAR_INTERVALS.join(", ")}`);
+    }
+    const to = values.to ? new Date(values.to) : new Date();
+    const from = values.from ? new Date(values.from) : new Date(to.getTime() - 365 * DAY_MS);
+    bars = await loadClickHouseBars(values.symbol!.toUpperCase(), values.interval as BarInterval, from, to);
+  }
+
+  const symbol = values.symbol || basename(values.csv!, extname(values.csv!));
+  const result = runBacktest(strategy, resolved.params, symbol.toUpperCase(), bars, options.data);
+  if (values.json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    printReport(result);
+  }
+}
+
+main()
+  .catch((err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  })
+  .finally(() => clickhouseClient.close());
@@ -0,0 +1,55 @@
+import "dotenv/config";
+import { getMigrationStatus, applyMigrations } from "../server/services/migrations";
+import { clickhouseClient } from "../server/services/clickhouseClient";
+import { CLICKHOUSE_CONFIG } from "../server/config/database";
+
+const USAGE = `Usage: npm run clickhouse:migrate -- <command>
+
+Commands:
+  list      Show every migration and whether it is applied
+  apply     Apply pending migrations
+  dry-run   Print the statements apply would run`;
+
+async function list() {
+  const status = await getMigrationStatus();
+  for (const migration of status) {
+    const appliedAt = migration.appliedAt ? ` (${migration.appliedAt.toISOString()})` : "";
+    console.log(`${String(migration.version).padStart(3, "0")}  ${migration.state.padEnd(8)}  ${migration.name}${appliedAt}`);
+  }
+}
+
+async function apply(dryRun: boolean) {
+  const applied = await applyMigrations({ dryRun });
+  if (applied.length === 0) {
+    console.log("Schema is up to date");
+  } else if (!dryRun) {
+    console.log(`Applied ${applied.length} migration(s)`);
+  }
+}
+
+async function main() {
+  const command = process.argv[2];
+  console.log(`ClickHouse ${CLICKHOUSE_CONFIG.host}:${CLICKHOUSE_CONFIG.port}, database ${CLICKHOUSE_CONFIG.database}`);
+
+  switch (command) {
+    case "list":
+      await list();
+      break;
+    case "apply":
+      await apply(false);
+      break;
+    case "dry-run":
+      await apply(true);
+      break;
+    default:
+      console.error(USAGE);
+      process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => clickhouseClient.close());
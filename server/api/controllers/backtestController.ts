@@ -0,0 +1,70 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { BAR_INTERVALS, type BarInterval } from '../../services/clickhouse';
+import { getStrategy, resolveStrategyParams } from '../../services/strategies';
+import { backtestOptionsSchema, loadClickHouseBars, parseCsvBars, runBacktest, type BacktestBar } from '../../services/backtest';
+
+// How far back ClickHouse bars are replayed when no `from` is given
+const DEFAULT_BACKTEST_DAYS = 365;
+
+const dateString = z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid date');
+
+const backtestRequestSchema = z.object({
+  strategy: z.string(),
+  params: z.record(z.unknown()).optional(),
+  symbol: z.string().min(1).optional(),
+  interval: z.enum(BAR_INTERVALS as [BarInterval, ...BarInterval[]]).default('1d'),
+  from: dateString.optional(),
+  to: dateString.optional(),
+  csv: z.string().optional(), // bars to replay instead of the stored ones
+  options: backtestOptionsSchema.default({}),
+});
+
+// Run a strategy over stored ClickHouse bars of `symbol` (or over posted CSV bars) and report its performance
+export async function runBacktestController(req: Request, res: Response) {
+  const body = backtestRequestSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ error: 'Invalid backtest request', details: body.error.issues });
+  }
+  const request = body.data;
+
+  const strategy = getStrategy(request.strategy);
+  if (!strategy) {
+    return res.status(404).json({ error: `Unknown strategy: ${request.strategy}` });
+  }
+  const resolved = resolveStrategyParams(strategy, request.params);
+  if ('error' in resolved) {
+    return res.status(400).json({ error: resolved.error });
+  }
+  if (!request.csv && !request.symbol) {
+    return res.status(400).json({ error: 'Either symbol (to replay stored bars) or csv is required' });
+  }
+
+  const symbol = (request.symbol || 'CSV').toUpperCase();
+  let bars: BacktestBar[];
+  try {
+    if (request.csv) {
+      bars = parseCsvBars(request.csv);
+    } else {
+      const to = request.to ? new Date(request.to) : new Date();
+      const from = request.from ? new Date(request.from) : new Date(to.getTime() - DEFAULT_BACKTEST_DAYS * 24 * 60 * 60 * 1000);
+      bars = await loadClickHouseBars(symbol, request.interval, from, to);
+    }
+  } catch (error: any) {
+    if (request.csv) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error(`[${new Date().toISOString()}] Error loading backtest bars for ${symbol}:`, error);
+    return res.status(500).json({ error: 'Failed to load bars from ClickHouse' });
+  }
+
+  const lookback = strategy.lookback(resolved.params);
+  if (bars.length < lookback + 2) {
+    return res.status(422).json({ error: `${strategy.id} needs at least ${lookback + 2} bars, got ${bars.length}` });
+  }
+
+  const startedAt = Date.now();
+  const result = runBacktest(strategy, resolved.params, symbol, bars, request.options);
+  console.log(`[${new Date().toISOString()}] Backtested ${strategy.id} on ${symbol} over ${bars.length} bars in ${Date.now() - startedAt}ms: ${result.metrics.totalReturnPercent}%`);
+  res.json(result);
+}
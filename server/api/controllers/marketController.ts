@@ -1,32 +1,55 @@
 import { Request, Response } from 'express';
-import { getMarketMovers } from '../../services/yahooFinance';
-import { getLatestMarketMovers, storeMarketMovers } from '../../services/clickhouse';
+import { getMarketMovers } from '../../services/marketData';
+import { getLatestMarketMovers, getMarketMoversHistory, getMoversAnalytics, storeMarketMovers } from '../../services/clickhouse';
+import { withSectors } from '../../services/metadata';
+import { getMarketHeatmap } from '../../services/heatmap';
+import { BROADCASTER_CONFIG } from '../../config/broadcaster';
+
+// Movers a sector's top `count` are picked from; the stored snapshots only hold the top movers overall
+const SECTOR_MOVERS_POOL = 100;
+
+// Attach sectors and keep only the requested sector (case-insensitive)
+async function filterBySector<T extends { symbol: string }>(movers: T[], sector: string) {
+  const withSector = await withSectors(movers);
+  return withSector.filter(mover => mover.sector?.toLowerCase() === sector.toLowerCase());
+}
 
-// Get market movers (gainers or losers)
+// Get market movers (gainers or losers), optionally for one sector
 export async function getMarketMoversController(req: Request, res: Response) {
   const { type } = req.params; // 'gainers' or 'losers'
   const { count = 20 } = req.query;
+  const sector = typeof req.query.sector === 'string' ? req.query.sector : undefined;
+  const limit = parseInt(count as string);
 
   try {
+    // Filter a wider list before cutting it to `count`, so a sector still gets up to `count` movers
+    if (sector) {
+      const pool = await getMarketMovers(type as 'gainers' | 'losers', Math.max(limit, SECTOR_MOVERS_POOL));
+      const movers = (await filterBySector(pool, sector)).slice(0, limit);
+      console.log(`[${new Date().toISOString()}] Returning ${movers.length} ${type} results in ${sector} (from ${pool.length} movers)`);
+      return res.json(movers);
+    }
+
     // First, try to get data from ClickHouse
-    const cachedMovers = await getLatestMarketMovers(type as 'gainers' | 'losers', parseInt(count as string));
+    const cachedMovers = await getLatestMarketMovers(type as 'gainers' | 'losers', limit);
 
     if (cachedMovers.length > 0) {
       console.log(`[${new Date().toISOString()}] Returning cached ${type} market movers`);
-      return res.json(cachedMovers);
+      return res.json(await withSectors(cachedMovers as { symbol: string }[]));
     }
 
     // If not in cache, fetch from Yahoo Finance
     console.log(`[${new Date().toISOString()}] Fetching ${type} market movers from Yahoo Finance, count: ${count}`);
-    const newMovers = await getMarketMovers(type as 'gainers' | 'losers', parseInt(count as string));
+    const newMovers = await getMarketMovers(type as 'gainers' | 'losers', limit);
 
     // Store in ClickHouse for future requests
     if (newMovers.length > 0) {
       await storeMarketMovers(type as 'gainers' | 'losers', newMovers);
     }
 
-    console.log(`[${new Date().toISOString()}] Returning ${newMovers.length} ${type} results`);
-    res.json(newMovers);
+    const movers = await withSectors(newMovers);
+    console.log(`[${new Date().toISOString()}] Returning ${movers.length} ${type} results`);
+    res.json(movers);
   } catch (error) {
     console.error(`[${new Date().toISOString()}] Error fetching market movers:`, error);
     // Fallback to mock data
@@ -90,14 +113,38 @@ export async function getTrendingSymbolsController(req: Request, res: Response)
   }
 }
 
+// market_movers rows expire after 30 days (see migration 001)
+const MAX_MOVERS_HISTORY_DAYS = 30;
+
+// Validate the shared `type`, `days` and `limit` query parameters of the movers history endpoints
+function parseMoversQuery(req: Request, defaultDays: number, defaultLimit: number) {
+  const type = (req.query.type as string) || 'gainers';
+  const days = parseInt((req.query.days as string) || String(defaultDays), 10);
+  const limit = parseInt((req.query.limit as string) || String(defaultLimit), 10);
+
+  if (type !== 'gainers' && type !== 'losers') {
+    return { error: "Invalid type, expected 'gainers' or 'losers'" };
+  }
+  if (!Number.isInteger(days) || days <= 0 || days > MAX_MOVERS_HISTORY_DAYS) {
+    return { error: `Invalid days, expected 1 to ${MAX_MOVERS_HISTORY_DAYS}` };
+  }
+  if (!Number.isInteger(limit) || limit <= 0) {
+    return { error: 'Invalid limit, expected a positive integer' };
+  }
+  return { type: type as 'gainers' | 'losers', days, limit };
+}
+
 // Get historical market movers from ClickHouse
 export async function getMarketMoversHistoryController(req: Request, res: Response) {
-  try {
-    const { type, limit = 100 } = req.query; // type: 'gainers' or 'losers'
+  const query = parseMoversQuery(req, 1, 100);
+  if ('error' in query) {
+    return res.status(400).json({ error: query.error });
+  }
 
-    console.log(`[${new Date().toISOString()}] Fetching ClickHouse market movers, type: ${type}, limit ${limit}`);
+  try {
+    console.log(`[${new Date().toISOString()}] Fetching ClickHouse market movers, type: ${query.type}, days: ${query.days}, limit ${query.limit}`);
 
-    const history = await getLatestMarketMovers(type as 'gainers' | 'losers', parseInt(limit as string));
+    const history = await getMarketMoversHistory(query.type, query.days, query.limit);
 
     console.log(`[${new Date().toISOString()}] Retrieved ${history.length} market movers records`);
     res.json(history);
@@ -106,3 +153,40 @@ export async function getMarketMoversHistoryController(req: Request, res: Respon
     res.status(500).json({ error: 'Failed to fetch market movers from ClickHouse' });
   }
 }
+
+// Get how often and how long symbols stayed on a movers list over the last `days`
+export async function getMoversAnalyticsController(req: Request, res: Response) {
+  const query = parseMoversQuery(req, 7, 50);
+  if ('error' in query) {
+    return res.status(400).json({ error: query.error });
+  }
+
+  // Allow one missed movers broadcast before a gap stops counting as time on the list
+  const moversIntervalSeconds = (BROADCASTER_CONFIG.tickIntervalMs * BROADCASTER_CONFIG.moversEveryTicks) / 1000;
+
+  try {
+    const stats = await getMoversAnalytics(query.type, query.days, query.limit, Math.ceil(moversIntervalSeconds * 2));
+    console.log(`[${new Date().toISOString()}] Returning movers analytics for ${stats.length} ${query.type} over ${query.days} day(s)`);
+    res.json(stats);
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Error fetching movers analytics:`, error);
+    res.status(500).json({ error: 'Failed to fetch movers analytics from ClickHouse' });
+  }
+}
+
+// Get the sector and industry heatmap of the latest quotes
+export async function getMarketHeatmapController(req: Request, res: Response) {
+  const hours = parseInt((req.query.hours as string) || '24', 10);
+  if (!Number.isInteger(hours) || hours <= 0) {
+    return res.status(400).json({ error: 'Invalid hours, expected a positive integer' });
+  }
+
+  try {
+    const heatmap = await getMarketHeatmap(hours);
+    console.log(`[${new Date().toISOString()}] Returning heatmap with ${heatmap.sectors.length} sector(s)`);
+    res.json(heatmap);
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Error building market heatmap:`, error);
+    res.status(500).json({ error: 'Failed to build market heatmap' });
+  }
+}
@@ -0,0 +1,151 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { BAR_INTERVALS, storeOptimization, listOptimizations, getOptimizationResult, type BarInterval } from '../../services/clickhouse';
+import { getStrategy, resolveStrategyParams } from '../../services/strategies';
+import { backtestOptionsSchema, loadClickHouseBars, loadProviderBars, type BacktestBar } from '../../services/backtest';
+import { INDICATOR_LOOKBACK_MS } from '../../services/indicators';
+import type { Interval } from '../../services/marketData';
+import {
+  OPTIMIZATION_OBJECTIVES,
+  MAX_BACKTESTS,
+  MAX_COMBINATIONS,
+  parameterRangeSchema,
+  expandParameterSpace,
+  runOptimization,
+} from '../../services/optimizer';
+
+// How far back ClickHouse bars are loaded when no `from` is given
+const DEFAULT_OPTIMIZATION_DAYS = 365;
+
+const dateString = z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid date');
+
+const optimizationRequestSchema = z.object({
+  strategy: z.string(),
+  symbols: z.array(z.string().min(1)).min(1).max(10),
+  source: z.enum(['provider', 'clickhouse']).default('provider'), // provider history or stored stream bars
+  interval: z.string().default('1d'),
+  from: dateString.optional(),
+  to: dateString.optional(),
+  method: z.enum(['grid', 'random']).default('grid'),
+  samples: z.number().int().positive().max(MAX_COMBINATIONS).default(50),
+  space: z.record(parameterRangeSchema),
+  params: z.record(z.unknown()).optional(), // fixed values of parameters outside the space
+  folds: z.number().int().min(1).max(10).default(3),
+  inSampleRatio: z.number().min(0.1).max(0.9).default(0.7),
+  objective: z.enum(OPTIMIZATION_OBJECTIVES).default('sharpe'),
+  options: backtestOptionsSchema.default({}),
+});
+
+// Search a strategy's parameter space with walk-forward backtests over one or more symbols, then store the run
+export async function runOptimizationController(req: Request, res: Response) {
+  const body = optimizationRequestSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ error: 'Invalid optimization request', details: body.error.issues });
+  }
+  const request = body.data;
+
+  const strategy = getStrategy(request.strategy);
+  if (!strategy) {
+    return res.status(404).json({ error: `Unknown strategy: ${request.strategy}` });
+  }
+  const base = resolveStrategyParams(strategy, request.params);
+  if ('error' in base) {
+    return res.status(400).json({ error: base.error });
+  }
+
+  const intervals: string[] = request.source === 'clickhouse' ? BAR_INTERVALS : Object.keys(INDICATOR_LOOKBACK_MS);
+  if (!intervals.includes(request.interval)) {
+    return res.status(400).json({ error: `Invalid ${request.source} interval, expected one of: ${intervals.join(', ')}` });
+  }
+
+  const expanded = expandParameterSpace(strategy, request.space, base.params, request.method, request.samples);
+  if ('error' in expanded) {
+    return res.status(400).json({ error: expanded.error });
+  }
+  const symbols = Array.from(new Set(request.symbols.map(symbol => symbol.toUpperCase())));
+  const backtests = expanded.combinations.length * symbols.length * request.folds * 2;
+  if (backtests > MAX_BACKTESTS) {
+    return res.status(400).json({ error: `Optimization needs ${backtests} backtests, the limit is ${MAX_BACKTESTS}; use fewer combinations, symbols or folds` });
+  }
+
+  const to = request.to ? new Date(request.to) : new Date();
+  const lookbackMs = request.source === 'provider'
+    ? INDICATOR_LOOKBACK_MS[request.interval as Interval]!
+    : DEFAULT_OPTIMIZATION_DAYS * 24 * 60 * 60 * 1000;
+  const from = request.from ? new Date(request.from) : new Date(to.getTime() - lookbackMs);
+
+  const barsBySymbol = new Map<string, BacktestBar[]>();
+  try {
+    for (const symbol of symbols) {
+      barsBySymbol.set(symbol, request.source === 'provider'
+        ? await loadProviderBars(symbol, request.interval as Interval, from, to)
+        : await loadClickHouseBars(symbol, request.interval as BarInterval, from, to));
+    }
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Error loading optimization bars for ${symbols.join(', ')}:`, error);
+    return res.status(500).json({ error: `Failed to load bars from the ${request.source === 'provider' ? 'market data provider' : 'ClickHouse'}` });
+  }
+
+  const empty = symbols.filter(symbol => barsBySymbol.get(symbol)!.length === 0);
+  if (empty.length === symbols.length) {
+    return res.status(422).json({ error: `No ${request.interval} bars for ${symbols.join(', ')} in this period` });
+  }
+
+  const result = await runOptimization(strategy, expanded.space, expanded.combinations, barsBySymbol, request.interval, {
+    method: request.method,
+    samples: request.samples,
+    folds: request.folds,
+    inSampleRatio: request.inSampleRatio,
+    objective: request.objective,
+    options: request.options,
+  });
+  console.log(`[${new Date().toISOString()}] Optimized ${strategy.id} on ${symbols.join(', ')}: ${expanded.combinations.length} combinations in ${result.durationMs}ms, out-of-sample ${request.objective} ${result.outOfSampleScore}`);
+
+  try {
+    await storeOptimization({
+      id: result.id,
+      strategy: result.strategy,
+      symbols: result.symbols,
+      interval: result.interval,
+      from: result.from,
+      to: result.to,
+      method: result.method,
+      objective: result.objective,
+      bestParams: result.bestParams || {},
+      inSampleScore: result.inSampleScore,
+      outOfSampleScore: result.outOfSampleScore,
+      createdAt: result.createdAt,
+    }, result);
+  } catch (error) {
+    console.debug(`[${new Date().toISOString()}] Failed to store optimization ${result.id} (non-critical):`, error);
+  }
+
+  res.json(result);
+}
+
+// List stored optimization runs, newest first; ?strategy= filters, ?limit= caps (default 50)
+export async function listOptimizationsController(req: Request, res: Response) {
+  const strategy = req.query.strategy as string | undefined;
+  const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+
+  try {
+    res.json(await listOptimizations(strategy, limit));
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Error listing optimizations:`, error);
+    res.status(500).json({ error: 'Failed to list optimizations' });
+  }
+}
+
+// Full result of a stored optimization run
+export async function getOptimizationController(req: Request, res: Response) {
+  try {
+    const result = await getOptimizationResult(req.params.id);
+    if (!result) {
+      return res.status(404).json({ error: `Unknown optimization: ${req.params.id}` });
+    }
+    res.json(result);
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Error fetching optimization ${req.params.id}:`, error);
+    res.status(500).json({ error: 'Failed to fetch optimization' });
+  }
+}
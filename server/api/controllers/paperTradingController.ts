@@ -0,0 +1,118 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import type { PaperTradingEngine, OrderStatus } from '../../services/paperTrading';
+import type { PaperTradingBot } from '../../services/paperTradingBot';
+
+const ORDER_STATUSES: OrderStatus[] = ['open', 'filled', 'cancelled', 'rejected'];
+
+const orderRequestSchema = z.object({
+  symbol: z.string().min(1),
+  side: z.enum(['buy', 'sell']),
+  type: z.enum(['market', 'limit']).default('market'),
+  quantity: z.number().positive(),
+  limitPrice: z.number().positive().optional(),
+  reason: z.string().max(500).optional(),
+});
+
+const resetRequestSchema = z.object({
+  initialCash: z.number().positive().optional(),
+});
+
+const botSettingsSchema = z.object({
+  enabled: z.boolean().optional(),
+  strategy: z.string().min(1).optional(),
+  params: z.record(z.unknown()).optional(),
+});
+
+function parseLimit(value: unknown): number {
+  return Math.min(parseInt(value as string) || 100, 1000);
+}
+
+// Cash, equity, P&L and positions marked to their last quotes
+export function createGetAccountController(engine: PaperTradingEngine) {
+  return (req: Request, res: Response) => {
+    res.json(engine.getAccount());
+  };
+}
+
+// Start over with a new account
+export function createResetAccountController(engine: PaperTradingEngine) {
+  return (req: Request, res: Response) => {
+    const body = resetRequestSchema.safeParse(req.body || {});
+    if (!body.success) {
+      return res.status(400).json({ error: 'Invalid reset request', details: body.error.issues });
+    }
+    res.json(engine.reset(body.data.initialCash));
+  };
+}
+
+// Orders, newest first; ?status= filters, ?limit= caps (default 100)
+export function createListOrdersController(engine: PaperTradingEngine) {
+  return (req: Request, res: Response) => {
+    const status = req.query.status as OrderStatus | undefined;
+    if (status && !ORDER_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `Invalid status, expected one of: ${ORDER_STATUSES.join(', ')}` });
+    }
+    res.json(engine.getOrders(status, parseLimit(req.query.limit)));
+  };
+}
+
+// Place an order; it fills against the quote stream
+export function createPlaceOrderController(engine: PaperTradingEngine) {
+  return (req: Request, res: Response) => {
+    const body = orderRequestSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({ error: 'Invalid order', details: body.error.issues });
+    }
+
+    const result = engine.placeOrder(body.data);
+    if ('error' in result) {
+      return res.status(422).json({ error: result.error });
+    }
+    res.status(201).json(result.order);
+  };
+}
+
+// Cancel an open order
+export function createCancelOrderController(engine: PaperTradingEngine) {
+  return (req: Request, res: Response) => {
+    const order = engine.getOrder(req.params.id);
+    if (!order) {
+      return res.status(404).json({ error: `Unknown order: ${req.params.id}` });
+    }
+    if (order.status !== 'open') {
+      return res.status(409).json({ error: `Order is already ${order.status}` });
+    }
+    res.json(engine.cancelOrder(order.id));
+  };
+}
+
+// Fills, newest first; ?limit= caps (default 100)
+export function createListFillsController(engine: PaperTradingEngine) {
+  return (req: Request, res: Response) => {
+    res.json(engine.getFills(parseLimit(req.query.limit)));
+  };
+}
+
+// The trading bot's strategy, parameters and recent decisions
+export function createGetBotController(bot: PaperTradingBot) {
+  return (req: Request, res: Response) => {
+    res.json(bot.getStatus());
+  };
+}
+
+// Pause or resume the trading bot, or switch its strategy or parameters
+export function createConfigureBotController(bot: PaperTradingBot) {
+  return (req: Request, res: Response) => {
+    const body = botSettingsSchema.safeParse(req.body || {});
+    if (!body.success) {
+      return res.status(400).json({ error: 'Invalid bot settings', details: body.error.issues });
+    }
+
+    const result = bot.configure(body.data);
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+    res.json(result.status);
+  };
+}
@@ -1,6 +1,25 @@
 import { Request, Response } from 'express';
-import { getStockQuote, getHistoricalData } from '../../services/yahooFinance';
-import { getStockHistory } from '../../services/clickhouse';
+import { getStockQuote, getHistoricalData, searchSymbols, type Interval } from '../../services/marketData';
+import { getStockHistory, getBars, BAR_INTERVALS, type BarInterval } from '../../services/clickhouse';
+import { getCompanyProfile } from '../../services/metadata';
+import { getSessionStats } from '../../services/sessionStats';
+import { getIndicatorSnapshot, DEFAULT_INDICATOR_PERIODS, INDICATOR_LOOKBACK_MS, type IndicatorPeriods } from '../../services/indicators';
+import { getStrategy, listStrategies, resolveStrategyParams } from '../../services/strategies';
+import { getSignalReplay } from '../../services/signalReplay';
+import { parseDurationSeconds } from '../../utils/helpers';
+
+// Upper bound on the points one history request returns
+const MAX_HISTORY_POINTS = 10000;
+
+// Longest indicator period a request may ask for
+const MAX_INDICATOR_PERIOD = 200;
+
+// Longest forward window, in bars, signals are scored over
+const MAX_SIGNAL_HORIZON = 100;
+
+// Strategy parameters of the signal replay are passed as `param.<name>`; other query parameters
+// (cache busters, tracking tags) are ignored
+const STRATEGY_PARAM_PREFIX = 'param.';
 
 // Get stock quote
 export async function getStockQuoteController(req: Request, res: Response) {
@@ -17,6 +36,130 @@ export async function getStockQuoteController(req: Request, res: Response) {
   }
 }
 
+// Get company profile (sector, industry, country, exchange)
+export async function getStockProfileController(req: Request, res: Response) {
+  const { symbol } = req.params;
+
+  try {
+    res.json(await getCompanyProfile(symbol));
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Error fetching profile for ${symbol}:`, error);
+    res.status(500).json({ error: 'Failed to fetch stock profile' });
+  }
+}
+
+// Get intraday session statistics (VWAP, relative volume, opening range, gap)
+export async function getSessionStatsController(req: Request, res: Response) {
+  const { symbol } = req.params;
+
+  try {
+    const stats = await getSessionStats(symbol);
+    if (!stats) {
+      return res.status(404).json({ error: 'The trading session has not opened yet' });
+    }
+    res.json(stats);
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Error computing session statistics for ${symbol}:`, error);
+    res.status(500).json({ error: 'Failed to compute session statistics' });
+  }
+}
+
+// Get RSI, MACD, EMA, Bollinger Bands and the ATR volatility percentile over historical bars;
+// periods come from ?rsi=&ema=&bb=&bbStdDev=&atr= and the bar size from ?interval=
+export async function getIndicatorsController(req: Request, res: Response) {
+  const { symbol } = req.params;
+  const interval = (req.query.interval as string) || '1d';
+
+  const intervals = Object.keys(INDICATOR_LOOKBACK_MS);
+  if (!intervals.includes(interval)) {
+    return res.status(400).json({ error: `Invalid interval, expected one of: ${intervals.join(', ')}` });
+  }
+
+  const periods: IndicatorPeriods = { ...DEFAULT_INDICATOR_PERIODS };
+  const periodParams: [string, keyof IndicatorPeriods][] = [['rsi', 'rsi'], ['ema', 'ema'], ['bb', 'bollinger'], ['atr', 'atr']];
+  for (const [param, key] of periodParams) {
+    if (req.query[param] === undefined) continue;
+    const period = parseInt(req.query[param] as string, 10);
+    if (!Number.isInteger(period) || period < 2 || period > MAX_INDICATOR_PERIOD) {
+      return res.status(400).json({ error: `Invalid ${param} period, expected 2 to ${MAX_INDICATOR_PERIOD}` });
+    }
+    periods[key] = period;
+  }
+  if (req.query.bbStdDev !== undefined) {
+    const stdDev = parseFloat(req.query.bbStdDev as string);
+    if (!(stdDev > 0 && stdDev <= 5)) {
+      return res.status(400).json({ error: 'Invalid bbStdDev, expected a number above 0 and up to 5' });
+    }
+    periods.bollingerStdDev = stdDev;
+  }
+
+  try {
+    const snapshot = await getIndicatorSnapshot(symbol, interval as Interval, periods);
+    if (!snapshot) {
+      return res.status(422).json({ error: `Not enough ${interval} bars for ${symbol.toUpperCase()} to compute these periods` });
+    }
+    res.json(snapshot);
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Error computing indicators for ${symbol}:`, error);
+    res.status(500).json({ error: 'Failed to compute indicators' });
+  }
+}
+
+// Replay a strategy bar by bar over the symbol's history: every signal with its forward return over
+// ?horizon= bars, and hit rates per confidence bucket. Strategy parameters are read from `param.<name>`
+// (e.g. ?param.rsiPeriod=10); bare names such as ?rsiPeriod= are ignored like any other query parameter.
+export async function getSignalReplayController(req: Request, res: Response) {
+  const { symbol } = req.params;
+  const strategyId = (req.query.strategy as string) || listStrategies()[0]?.id;
+  const interval = (req.query.interval as string) || '1d';
+  const horizon = parseInt((req.query.horizon as string) || '5', 10);
+
+  const strategy = getStrategy(strategyId);
+  if (!strategy) {
+    return res.status(404).json({ error: `Unknown strategy: ${strategyId}` });
+  }
+  const intervals = Object.keys(INDICATOR_LOOKBACK_MS);
+  if (!intervals.includes(interval)) {
+    return res.status(400).json({ error: `Invalid interval, expected one of: ${intervals.join(', ')}` });
+  }
+  if (!Number.isInteger(horizon) || horizon < 1 || horizon > MAX_SIGNAL_HORIZON) {
+    return res.status(400).json({ error: `Invalid horizon, expected 1 to ${MAX_SIGNAL_HORIZON} bars` });
+  }
+
+  const paramQuery = Object.fromEntries(Object.entries(req.query)
+    .filter(([name]) => name.startsWith(STRATEGY_PARAM_PREFIX))
+    .map(([name, value]) => [name.slice(STRATEGY_PARAM_PREFIX.length), value]));
+  const resolved = resolveStrategyParams(strategy, paramQuery);
+  if ('error' in resolved) {
+    return res.status(400).json({ error: resolved.error });
+  }
+
+  try {
+    const replay = await getSignalReplay(symbol, strategy, resolved.params, interval as Interval, horizon);
+    if (!replay) {
+      return res.status(422).json({ error: `Not enough ${interval} bars for ${symbol.toUpperCase()} to replay ${strategy.id}` });
+    }
+    res.json(replay);
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Error replaying ${strategy.id} signals for ${symbol}:`, error);
+    res.status(500).json({ error: 'Failed to replay signals' });
+  }
+}
+
+// Search symbols by ticker or company name
+export async function searchSymbolsController(req: Request, res: Response) {
+  const { q = '', count = 10 } = req.query;
+
+  try {
+    console.log(`[${new Date().toISOString()}] Searching symbols for: ${q}`);
+    const results = await searchSymbols(q as string, parseInt(count as string));
+    res.json(results);
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Error searching symbols for ${q}:`, error);
+    res.status(500).json({ error: 'Failed to search symbols' });
+  }
+}
+
 // Get historical data
 export async function getHistoricalDataController(req: Request, res: Response) {
   try {
@@ -66,15 +209,41 @@ export async function getHistoricalDataController(req: Request, res: Response) {
   }
 }
 
-// Get historical stock quotes from ClickHouse
+// Get stored quotes from ClickHouse between `from` and `to` (or for the last `hours`),
+// optionally downsampled into buckets of width `bucket` ('30s', '5m', '1h', '1d' or 'auto')
 export async function getStockHistoryController(req: Request, res: Response) {
-  try {
-    const { symbol } = req.params;
-    const { hours = 24, limit = 1000 } = req.query;
+  const { symbol } = req.params;
+  const { from, to, hours = '24', bucket } = req.query;
+
+  const limit = parseInt((req.query.limit as string) || '1000', 10);
+  if (!Number.isInteger(limit) || limit <= 0 || limit > MAX_HISTORY_POINTS) {
+    return res.status(400).json({ error: `Invalid limit, expected 1 to ${MAX_HISTORY_POINTS}` });
+  }
+
+  const toDate = to ? new Date(to as string) : new Date();
+  const fromDate = from
+    ? new Date(from as string)
+    : new Date(toDate.getTime() - parseFloat(hours as string) * 60 * 60 * 1000);
+  if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime()) || fromDate > toDate) {
+    return res.status(400).json({ error: 'Invalid from/to date or hours' });
+  }
+
+  let bucketSeconds: number | undefined;
+  if (bucket === 'auto') {
+    // Narrowest bucket that fits the whole range into `limit` points
+    bucketSeconds = Math.max(1, Math.ceil((toDate.getTime() - fromDate.getTime()) / 1000 / limit));
+  } else if (bucket) {
+    const parsed = parseDurationSeconds(bucket as string);
+    if (!parsed) {
+      return res.status(400).json({ error: "Invalid bucket, expected a width such as 30s, 5m, 1h, 1d or 'auto'" });
+    }
+    bucketSeconds = parsed;
+  }
 
-    console.log(`[${new Date().toISOString()}] Fetching ClickHouse history for ${symbol}, last ${hours} hours, limit ${limit}`);
+  try {
+    console.log(`[${new Date().toISOString()}] Fetching ClickHouse history for ${symbol} from ${fromDate.toISOString()} to ${toDate.toISOString()}, bucket ${bucketSeconds ? `${bucketSeconds}s` : 'none'}, limit ${limit}`);
 
-    const history = await getStockHistory(symbol, parseInt(hours as string), parseInt(limit as string));
+    const history = await getStockHistory(symbol.toUpperCase(), { from: fromDate, to: toDate, limit, bucketSeconds });
 
     console.log(`[${new Date().toISOString()}] Retrieved ${history.length} historical records for ${symbol}`);
     res.json(history);
@@ -82,4 +251,35 @@ export async function getStockHistoryController(req: Request, res: Response) {
     console.error(`[${new Date().toISOString()}] Error fetching ClickHouse history for ${symbol}:`, error);
     res.status(500).json({ error: 'Failed to fetch historical data from ClickHouse' });
   }
-}
\ No newline at end of file
+}
+
+// Get OHLCV bars built from our own ticks and stored in ClickHouse
+export async function getBarsController(req: Request, res: Response) {
+  const { symbol } = req.params;
+  const { interval = '5m', from, to } = req.query;
+
+  if (!BAR_INTERVALS.includes(interval as BarInterval)) {
+    return res.status(400).json({ error: `Invalid interval, expected one of: ${BAR_INTERVALS.join(', ')}` });
+  }
+
+  const toDate = to ? new Date(to as string) : new Date();
+  const fromDate = from ? new Date(from as string) : new Date(toDate.getTime() - 24 * 60 * 60 * 1000); // 24 hours before `to`
+  if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) {
+    return res.status(400).json({ error: 'Invalid from/to date' });
+  }
+
+  try {
+    const bars = await getBars(symbol.toUpperCase(), interval as BarInterval, fromDate, toDate);
+    res.json(bars.map(bar => ({
+      date: bar.start,
+      open: bar.open,
+      high: bar.high,
+      low: bar.low,
+      close: bar.close,
+      volume: bar.volume
+    })));
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Error fetching ${interval} bars for ${symbol}:`, error);
+    res.status(500).json({ error: 'Failed to fetch bars' });
+  }
+}
@@ -0,0 +1,49 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { getStrategy, listStrategies, defaultStrategyParams, resolveStrategyParams } from '../../services/strategies';
+
+const signalRequestSchema = z.object({
+  symbol: z.string().min(1),
+  price: z.number().positive(),
+  volume: z.number().nonnegative().default(0),
+  historicalPrices: z.array(z.number()),
+  sentimentScore: z.number().min(-1).max(1).optional(),
+  params: z.record(z.unknown()).optional(),
+});
+
+// List registered strategies with their parameter schemas and the history they need at the defaults
+export function listStrategiesController(req: Request, res: Response) {
+  res.json(listStrategies().map(strategy => ({
+    id: strategy.id,
+    name: strategy.name,
+    description: strategy.description,
+    parameters: strategy.parameters,
+    lookback: strategy.lookback(defaultStrategyParams(strategy)),
+  })));
+}
+
+// Generate a trading signal from the posted price history with a strategy and its parameters
+export function generateSignalController(req: Request, res: Response) {
+  const strategy = getStrategy(req.params.id);
+  if (!strategy) {
+    return res.status(404).json({ error: `Unknown strategy: ${req.params.id}` });
+  }
+
+  const body = signalRequestSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ error: 'Invalid signal request', details: body.error.issues });
+  }
+
+  const resolved = resolveStrategyParams(strategy, body.data.params);
+  if ('error' in resolved) {
+    return res.status(400).json({ error: resolved.error });
+  }
+
+  try {
+    const { params, ...marketData } = body.data;
+    res.json(strategy.evaluate({ ...marketData, symbol: marketData.symbol.toUpperCase(), timestamp: Date.now() }, resolved.params));
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Error generating ${strategy.id} signal for ${body.data.symbol}:`, error);
+    res.status(500).json({ error: 'Failed to generate signal' });
+  }
+}
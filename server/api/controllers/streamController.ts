@@ -0,0 +1,21 @@
+import { Request, Response } from 'express';
+import { SseHub } from '../../websocket/sse';
+import { normalizeSymbols, isValidSymbol } from '../../websocket/subscriptions';
+import { WEBSOCKET_CONFIG } from '../../config/websocket';
+
+// Stream price updates and market movers as Server-Sent Events
+export function createStreamController(hub: SseHub) {
+  return (req: Request, res: Response) => {
+    const symbols = normalizeSymbols(String(req.query.symbols || '').split(','));
+
+    const invalid = symbols.filter(symbol => !isValidSymbol(symbol));
+    if (invalid.length > 0) {
+      return res.status(400).json({ error: `Invalid symbol(s): ${invalid.join(', ')}` });
+    }
+    if (symbols.length > WEBSOCKET_CONFIG.maxSymbolsPerConnection) {
+      return res.status(400).json({ error: `At most ${WEBSOCKET_CONFIG.maxSymbolsPerConnection} symbols per stream` });
+    }
+
+    hub.open(res, symbols);
+  };
+}
@@ -0,0 +1,10 @@
+import { Request, Response } from 'express';
+import { clickhouseWriter, isSchemaReady } from '../../services/clickhouse';
+
+// Get ClickHouse write buffer health: buffered, spilled and dropped rows
+export function getStorageStatusController(req: Request, res: Response) {
+  res.json({
+    schemaReady: isSchemaReady(),
+    writer: clickhouseWriter.getStats()
+  });
+}
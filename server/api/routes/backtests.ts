@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { runBacktestController } from '../controllers/backtestController';
+
+const router = Router();
+
+// Run a backtest
+router.post('/', runBacktestController);
+
+export default router;
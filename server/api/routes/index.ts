@@ -1,11 +1,19 @@
 import { Router } from 'express';
 import stockRoutes from './stocks';
 import marketRoutes from './market';
+import systemRoutes from './system';
+import strategyRoutes from './strategies';
+import backtestRoutes from './backtests';
+import optimizationRoutes from './optimizations';
 
 const router = Router();
 
 // Mount sub-routes
 router.use('/stocks', stockRoutes);
 router.use('/market', marketRoutes);
+router.use('/system', systemRoutes);
+router.use('/strategies', strategyRoutes);
+router.use('/backtests', backtestRoutes);
+router.use('/optimizations', optimizationRoutes);
 
 export default router;
\ No newline at end of file
@@ -2,18 +2,28 @@ import { Router } from 'express';
 import {
   getMarketMoversController,
   getTrendingSymbolsController,
-  getMarketMoversHistoryController
+  getMarketMoversHistoryController,
+  getMoversAnalyticsController,
+  getMarketHeatmapController
 } from '../controllers/marketController';
 
 const router = Router();
 
+// The fixed /movers/* paths must be registered before /movers/:type, which would match them too
+
+// Get historical market movers from ClickHouse
+router.get('/movers/history-clickhouse', getMarketMoversHistoryController);
+
+// Get how often and how long symbols stayed on the movers lists
+router.get('/movers/analytics', getMoversAnalyticsController);
+
 // Get market movers (gainers or losers)
-router.get('/movers/:type', getMarketMoversController); // This route should come before the more specific 'history-clickhouse' route
+router.get('/movers/:type', getMarketMoversController);
 
 // Get trending symbols
 router.get('/trending', getTrendingSymbolsController);
 
-// Get historical market movers from ClickHouse
-router.get('/movers/history-clickhouse', getMarketMoversHistoryController);
+// Get sector and industry heatmap
+router.get('/heatmap', getMarketHeatmapController);
 
 export default router;
\ No newline at end of file
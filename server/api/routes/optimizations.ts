@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { runOptimizationController, listOptimizationsController, getOptimizationController } from '../controllers/optimizationController';
+
+const router = Router();
+
+// Run and store an optimization
+router.post('/', runOptimizationController);
+
+// Stored optimizations
+router.get('/', listOptimizationsController);
+router.get('/:id', getOptimizationController);
+
+export default router;
@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import {
+  createGetAccountController,
+  createResetAccountController,
+  createListOrdersController,
+  createPlaceOrderController,
+  createCancelOrderController,
+  createListFillsController,
+  createGetBotController,
+  createConfigureBotController,
+} from '../controllers/paperTradingController';
+import { PaperTradingEngine } from '../../services/paperTrading';
+import { PaperTradingBot } from '../../services/paperTradingBot';
+
+// The paper trading engine is fed by the price broadcaster, so these routes are built around it
+export function createPaperTradingRoutes(engine: PaperTradingEngine, bot: PaperTradingBot) {
+  const router = Router();
+
+  // Account
+  router.get('/account', createGetAccountController(engine));
+  router.post('/account/reset', createResetAccountController(engine));
+
+  // Orders and fills
+  router.get('/orders', createListOrdersController(engine));
+  router.post('/orders', createPlaceOrderController(engine));
+  router.delete('/orders/:id', createCancelOrderController(engine));
+  router.get('/fills', createListFillsController(engine));
+
+  // Trading bot
+  router.get('/bot', createGetBotController(bot));
+  router.put('/bot', createConfigureBotController(bot));
+
+  return router;
+}
@@ -1,18 +1,42 @@
 import { Router } from 'express';
 import {
   getStockQuoteController,
+  getStockProfileController,
+  getSessionStatsController,
+  getIndicatorsController,
+  getSignalReplayController,
+  searchSymbolsController,
   getHistoricalDataController,
-  getStockHistoryController
+  getStockHistoryController,
+  getBarsController
 } from '../controllers/stockController';
 
 const router = Router();
 
+// Search symbols
+router.get('/search', searchSymbolsController);
+
 // Get stock quote
 router.get('/:symbol/quote', getStockQuoteController);
 
+// Get company profile
+router.get('/:symbol/profile', getStockProfileController);
+
+// Get intraday session statistics
+router.get('/:symbol/session-stats', getSessionStatsController);
+
+// Get technical indicators over historical bars
+router.get('/:symbol/indicators', getIndicatorsController);
+
+// Replay strategy signals over historical bars
+router.get('/:symbol/signals', getSignalReplayController);
+
 // Get historical data
 router.get('/:symbol/history', getHistoricalDataController);
 
+// Get stored OHLCV bars from ClickHouse
+router.get('/:symbol/bars', getBarsController);
+
 // Get historical stock quotes from ClickHouse
 router.get('/:symbol/history-clickhouse', getStockHistoryController);
 
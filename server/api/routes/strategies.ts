@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { listStrategiesController, generateSignalController } from '../controllers/strategyController';
+
+const router = Router();
+
+// List strategies and their parameter schemas
+router.get('/', listStrategiesController);
+
+// Generate a signal with a strategy
+router.post('/:id/signal', generateSignalController);
+
+export default router;
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { createStreamController } from '../controllers/streamController';
+import { SseHub } from '../../websocket/sse';
+
+// The SSE hub is created alongside the WebSocket server, so these routes are built around it
+export function createStreamRoutes(hub: SseHub) {
+  const router = Router();
+
+  // Server-Sent Events fallback for the WebSocket price stream
+  router.get('/', createStreamController(hub));
+
+  return router;
+}
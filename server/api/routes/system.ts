@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { getStorageStatusController } from '../controllers/systemController';
+
+const router = Router();
+
+// Get ClickHouse storage status
+router.get('/storage', getStorageStatusController);
+
+export default router;
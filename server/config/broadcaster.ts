@@ -0,0 +1,8 @@
+// Price broadcaster configuration
+export const BROADCASTER_CONFIG = {
+  tickIntervalMs: parseInt(process.env.BROADCAST_INTERVAL_MS || '5000', 10),
+  moversEveryTicks: parseInt(process.env.MOVERS_EVERY_TICKS || '6', 10), // 6 x 5s = 30 seconds
+  quoteBatchSize: parseInt(process.env.QUOTE_BATCH_SIZE || '50', 10), // symbols per quote request
+  quoteConcurrency: parseInt(process.env.QUOTE_CONCURRENCY || '4', 10), // quote requests in flight
+  symbolPollIntervals: process.env.SYMBOL_POLL_INTERVALS || '', // e.g. "AAPL:5000,BRK-B:60000"
+};
@@ -0,0 +1,9 @@
+// Market data provider configuration
+export const MARKET_DATA_CONFIG = {
+  provider: process.env.MARKET_DATA_PROVIDER || 'yahoo', // 'yahoo', 'simulator' or 'replay'
+  simulatorSeed: parseInt(process.env.SIMULATOR_SEED || '42', 10),
+  simulatorTickMs: parseInt(process.env.SIMULATOR_TICK_MS || '5000', 10),
+  recordSession: process.env.MARKET_DATA_RECORD || '', // session file to record responses into
+  replaySession: process.env.REPLAY_SESSION || '',
+  replaySpeed: process.env.REPLAY_SPEED || '1', // '1', '10', ... or 'max'
+};
@@ -0,0 +1,6 @@
+// Company metadata (stock_metadata) sync configuration
+export const METADATA_CONFIG = {
+  syncIntervalMs: parseInt(process.env.METADATA_SYNC_INTERVAL_MS || '60000', 10), // look for new or stale symbols this often
+  maxAgeMs: parseInt(process.env.METADATA_MAX_AGE_MS || String(7 * 24 * 60 * 60 * 1000), 10), // refetch profiles older than this
+  concurrency: parseInt(process.env.METADATA_SYNC_CONCURRENCY || '4', 10), // profile requests in flight
+};
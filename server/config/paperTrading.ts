@@ -0,0 +1,22 @@
+// Server-side paper trading account
+export const PAPER_TRADING_CONFIG = {
+  initialCash: parseFloat(process.env.PAPER_INITIAL_CASH || '100000'), // cash of a new or reset account
+  slippageBps: parseFloat(process.env.PAPER_SLIPPAGE_BPS || '5'), // every fill is this much worse than the quote
+  impactBps: parseFloat(process.env.PAPER_IMPACT_BPS || '10'), // extra slippage per square root of the percent of the day's volume traded
+  commissionPerOrder: parseFloat(process.env.PAPER_COMMISSION_PER_ORDER || '0'),
+  commissionBps: parseFloat(process.env.PAPER_COMMISSION_BPS || '0'), // in basis points of the filled notional
+  allowShort: process.env.PAPER_ALLOW_SHORT === 'true', // sells beyond the held quantity open a short instead of being rejected
+  stateFile: process.env.PAPER_STATE_FILE || 'data/paper-trading.json',
+  maxHistory: parseInt(process.env.PAPER_MAX_HISTORY || '1000', 10), // closed orders and fills kept
+};
+
+// Server-side bot that trades strategy signals on the movers into the paper account
+export const PAPER_BOT_CONFIG = {
+  enabled: process.env.PAPER_BOT_ENABLED !== 'false',
+  strategy: process.env.PAPER_BOT_STRATEGY || 'neuro-scalp', // until changed through PUT /api/paper/bot
+  intervalMs: parseInt(process.env.PAPER_BOT_INTERVAL_MS || '3000', 10), // one mover is evaluated per interval, in turn
+  minConfidence: parseFloat(process.env.PAPER_BOT_MIN_CONFIDENCE || '75'), // signals at or below this are only logged
+  historyDays: 1, // of 5-minute bars fed to the strategy
+  moversRefreshMs: 60 * 1000, // how long movers fetched by the bot itself are reused while no client streams them
+  maxDecisions: 50, // recent signals kept for GET /api/paper/bot
+};
@@ -0,0 +1,8 @@
+// Trading session used by the session statistics (VWAP, relative volume, opening range, gap)
+export const SESSION_CONFIG = {
+  timezone: process.env.SESSION_TIMEZONE || 'America/New_York',
+  openTime: process.env.SESSION_OPEN_TIME || '09:30', // HH:MM in the session timezone; earlier ticks are pre-market
+  openingRangeMinutes: parseInt(process.env.SESSION_OPENING_RANGE_MINUTES || '30', 10),
+  relativeVolumeDays: parseInt(process.env.RELATIVE_VOLUME_DAYS || '20', 10),
+  relativeVolumeRefreshMs: parseInt(process.env.RELATIVE_VOLUME_REFRESH_MS || String(5 * 60 * 1000), 10), // re-query the historical average this often
+};
@@ -0,0 +1,7 @@
+// WebSocket connection configuration
+export const WEBSOCKET_CONFIG = {
+  heartbeatIntervalMs: parseInt(process.env.WS_HEARTBEAT_INTERVAL_MS || '30000', 10), // ping period, a missed pong terminates the client
+  maxBufferedBytes: parseInt(process.env.WS_MAX_BUFFERED_BYTES || '1048576', 10), // above this, updates are coalesced per symbol
+  deltaKeyframeEvery: parseInt(process.env.WS_DELTA_KEYFRAME_EVERY || '12', 10), // full frame every N polls per symbol in delta mode
+  maxSymbolsPerConnection: parseInt(process.env.WS_MAX_SYMBOLS_PER_CONNECTION || '100', 10),
+};
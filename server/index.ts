@@ -7,18 +7,24 @@ import { WebSocketServer } from "ws";
 import apiRoutes from './api/routes';
 import { handleConnection } from './websocket/handlers';
 import { PriceBroadcaster } from './websocket/broadcaster';
+import { SubscriptionRegistry, parsePollIntervals } from './websocket/subscriptions';
+import { HeartbeatMonitor } from './websocket/heartbeat';
+import { LastValueCache } from './websocket/lastValueCache';
+import { SseHub } from './websocket/sse';
+import { createStreamRoutes } from './api/routes/stream';
+import { createPaperTradingRoutes } from './api/routes/paper';
 import { ExtendedWebSocket } from './websocket/types';
 import { requestLogger, errorHandler } from './middleware';
 import { serveStatic } from "./static";
-import { initializeClickHouse, storeStockQuote, storeMarketMovers } from './services/clickhouse';
-import { yahooFinanceInstance } from './services/yahooFinance';
+import { initializeClickHouse, clickhouseWriter } from './services/clickhouse';
+import { getMarketDataProvider } from './services/marketData';
+import { MetadataSyncJob } from './services/metadata';
+import { PaperTradingEngine } from './services/paperTrading';
+import { PaperTradingBot } from './services/paperTradingBot';
+import { BROADCASTER_CONFIG } from './config/broadcaster';
+import { WEBSOCKET_CONFIG } from './config/websocket';
 import { log } from './utils/helpers';
 
-// Extended WebSocket interface with symbols property
-interface ExtendedWebSocket extends WebSocket {
-  symbols?: string[];
-}
-
 const app = express();
 const httpServer = createServer(app);
 
@@ -32,147 +38,25 @@ app.use(requestLogger);
 // WebSocket server for real-time updates
 const wss = new WebSocketServer({ server: httpServer });
 const clients = new Set<ExtendedWebSocket>();
+const subscriptions = new SubscriptionRegistry(
+  BROADCASTER_CONFIG.tickIntervalMs,
+  parsePollIntervals(BROADCASTER_CONFIG.symbolPollIntervals)
+);
+const lastValues = new LastValueCache();
+const sseHub = new SseHub(subscriptions, lastValues); // fallback for clients that cannot upgrade to WebSocket
+const paperTrading = new PaperTradingEngine(subscriptions, lastValues);
+const paperBot = new PaperTradingBot(paperTrading, lastValues);
 let priceBroadcaster: PriceBroadcaster;
 
 // WebSocket connection handling
 wss.on('connection', (ws: ExtendedWebSocket) => {
-  handleConnection(ws, clients);
+  handleConnection(ws, clients, subscriptions, lastValues);
 });
 
-// Broadcast real-time price updates and market movers
-let updateCounter = 0;
-setInterval(async () => {
-  if (clients.size === 0) {
-    console.log(`[${new Date().toISOString()}] No WebSocket clients connected, skipping updates`);
-    return;
-  }
-
-  console.log(`[${new Date().toISOString()}] Broadcasting updates to ${clients.size} client(s)`);
-
-  try {
-    // Get popular symbols for individual price updates (every 5 seconds)
-    const popularSymbols = ['AAPL', 'GOOGL', 'MSFT', 'TSLA', 'NVDA', 'AMZN'];
-    let updateCount = 0;
-
-    // Send individual price updates for popular symbols
-    for (const symbol of popularSymbols) {
-      try {
-        const quote: any = await yahooFinanceInstance.quote(symbol);
-        const update = {
-          type: 'price_update',
-          symbol: quote.symbol,
-          price: quote.regularMarketPrice,
-          change: quote.regularMarketChange,
-          changePercent: quote.regularMarketChangePercent,
-          volume: quote.regularMarketVolume,
-          timestamp: Date.now()
-        };
-
-        // Send to all clients subscribed to this symbol
-        let sentCount = 0;
-        clients.forEach(client => {
-          if (client.readyState === WebSocket.OPEN &&
-              (!client.symbols || client.symbols.includes(symbol))) {
-            client.send(JSON.stringify(update));
-            sentCount++;
-          }
-        });
-
-        updateCount++;
-        console.log(`[${new Date().toISOString()}] Updated ${symbol}: $${quote.regularMarketPrice?.toFixed(2)} (${quote.regularMarketChangePercent?.toFixed(2)}%) - sent to ${sentCount} client(s)`);
-
-        // Store stock quote in ClickHouse (non-blocking)
-        storeStockQuote({
-          symbol: quote.symbol,
-          price: quote.regularMarketPrice || 0,
-          change: quote.regularMarketChange || 0,
-          changePercent: quote.regularMarketChangePercent || 0,
-          volume: quote.regularMarketVolume || 0,
-          marketCap: quote.marketCap || null,
-          peRatio: quote.trailingPE || null,
-          timestamp: new Date()
-        }).catch((storageError: any) => {
-          // Silently fail if ClickHouse is not available
-          console.debug(`[${new Date().toISOString()}] ClickHouse storage failed for ${symbol} (non-critical):`, storageError.message);
-        });
-
-      } catch (error: any) {
-        console.error(`[${new Date().toISOString()}] Error updating ${symbol}:`, error.message);
-      }
-    }
-
-    // Update market movers every 30 seconds (every 6th update)
-    updateCounter++;
-    if (updateCounter >= 6) {
-      updateCounter = 0;
-
-      // Get and broadcast top 20 gainers and losers
-      try {
-        console.log(`[${new Date().toISOString()}] Fetching market movers...`);
-
-        const [gainersData, losersData] = await Promise.all([
-          yahooFinanceInstance.screener({ scrIds: 'day_gainers', count: 20 }),
-          yahooFinanceInstance.screener({ scrIds: 'day_losers', count: 20 })
-        ]);
-
-        const gainers = gainersData?.quotes?.slice(0, 20).map((quote: any) => ({
-          symbol: quote.symbol,
-          name: quote.shortName || quote.longName || '',
-          price: quote.regularMarketPrice || 0,
-          change: quote.regularMarketChangePercent
-            ? `${quote.regularMarketChangePercent >= 0 ? '+' : ''}${(quote.regularMarketChangePercent * 100).toFixed(2)}%`
-            : '0.00%',
-          changePercent: quote.regularMarketChangePercent || 0
-        })) || [];
-
-        const losers = losersData?.quotes?.slice(0, 20).map((quote: any) => ({
-          symbol: quote.symbol,
-          name: quote.shortName || quote.longName || '',
-          price: quote.regularMarketPrice || 0,
-          change: quote.regularMarketChangePercent
-            ? `${quote.regularMarketChangePercent >= 0 ? '+' : ''}${(quote.regularMarketChangePercent * 100).toFixed(2)}%`
-            : '0.00%',
-          changePercent: quote.regularMarketChangePercent || 0
-        })) || [];
-
-        const marketMoversUpdate = {
-          type: 'market_movers_update',
-          gainers: gainers,
-          losers: losers,
-          timestamp: Date.now()
-        };
-
-        // Send market movers to all connected clients
-        let moversSentCount = 0;
-        clients.forEach(client => {
-          if (client.readyState === WebSocket.OPEN) {
-            client.send(JSON.stringify(marketMoversUpdate));
-            moversSentCount++;
-          }
-        });
-
-        console.log(`[${new Date().toISOString()}] Market movers updated: ${gainers.length} gainers, ${losers.length} losers - sent to ${moversSentCount} client(s)`);
-
-        // Store market movers in ClickHouse (non-blocking)
-        Promise.all([
-          storeMarketMovers('gainers', gainers),
-          storeMarketMovers('losers', losers)
-        ]).catch((storageError: any) => {
-          // Silently fail if ClickHouse is not available
-          console.debug(`[${new Date().toISOString()}] ClickHouse storage failed for market movers (non-critical):`, storageError.message);
-        });
-
-      } catch (error: any) {
-        console.error(`[${new Date().toISOString()}] Error fetching market movers:`, error.message);
-      }
-    }
-
-    console.log(`[${new Date().toISOString()}] Update cycle completed: ${updateCount}/${popularSymbols.length} symbols updated`);
-
-  } catch (error) {
-    console.error(`[${new Date().toISOString()}] Error in update broadcast:`, error);
-  }
-}, 5000); // Update every 5 seconds
+// Reap clients that stop answering pings
+const heartbeat = new HeartbeatMonitor(clients, WEBSOCKET_CONFIG.heartbeatIntervalMs);
+heartbeat.start();
+wss.on('close', () => heartbeat.stop());
 
 declare module "http" {
   interface IncomingMessage {
@@ -192,14 +76,37 @@ app.use(express.urlencoded({ extended: false }));
 
 (async () => {
   // Register API routes
+  app.use('/api/stream', createStreamRoutes(sseHub));
+  app.use('/api/paper', createPaperTradingRoutes(paperTrading, paperBot));
   app.use('/api', apiRoutes);
 
   // Error handling middleware
   app.use(errorHandler);
 
+  // Load the paper trading account before quotes start filling its orders
+  try {
+    await paperTrading.start();
+  } catch (error: any) {
+    console.error(`[${new Date().toISOString()}] Failed to start the paper trading account:`, error.message);
+  }
+
   // Initialize price broadcaster
-  priceBroadcaster = new PriceBroadcaster(clients);
+  priceBroadcaster = new PriceBroadcaster(clients, subscriptions, lastValues, sseHub, paperTrading);
   priceBroadcaster.start();
+  sseHub.start();
+
+  // Trade strategy signals on the movers into the paper account; its orders fill on the broadcaster's quotes
+  paperBot.start();
+
+  // Keep company profiles (stock_metadata) of subscribed symbols and current movers up to date
+  const metadataSync = new MetadataSyncJob(() => {
+    const movers = lastValues.getMovers();
+    return [
+      ...subscriptions.getSymbols(),
+      ...(movers ? [...movers.gainers, ...movers.losers].map(mover => mover.symbol) : [])
+    ];
+  });
+  metadataSync.start();
 
   // importantly only setup vite in development and after
   // setting up all the other routes so the catch-all route
@@ -211,6 +118,11 @@ app.use(express.urlencoded({ extended: false }));
     await setupVite(httpServer, app);
   }
 
+  // Buffer ClickHouse writes, spilling to disk while ClickHouse is unavailable
+  clickhouseWriter.start().catch((error) => {
+    console.error(`[${new Date().toISOString()}] ClickHouse write buffer failed to start:`, error.message);
+  });
+
   // Initialize ClickHouse database (non-blocking)
   initializeClickHouse().catch((error) => {
     console.warn(`[${new Date().toISOString()}] ClickHouse initialization failed (server will continue without database):`, error.message);
@@ -230,7 +142,7 @@ app.use(express.urlencoded({ extended: false }));
       log(`[${new Date().toISOString()}] Market Watcher server started on port ${port}`);
       log(`[${new Date().toISOString()}] WebSocket server ready for connections`);
       log(`[${new Date().toISOString()}] Real-time price updates enabled (5-second intervals)`);
-      log(`[${new Date().toISOString()}] Yahoo Finance API integration active`);
+      log(`[${new Date().toISOString()}] Market data provider: ${getMarketDataProvider().name}`);
       log(`[${new Date().toISOString()}] ClickHouse database initialized`);
     },
   );
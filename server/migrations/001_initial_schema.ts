@@ -0,0 +1,60 @@
+import type { ClickHouseMigration } from './index';
+
+// Tables that initializeClickHouse used to create inline
+const migration: ClickHouseMigration = {
+  version: 1,
+  name: 'initial_schema',
+  up: (db) => [
+    // Time-series price data
+    `
+      CREATE TABLE IF NOT EXISTS ${db}.stock_quotes (
+        timestamp DateTime,
+        symbol String,
+        price Float64,
+        change Float64,
+        change_percent Float64,
+        volume UInt64,
+        market_cap UInt64,
+        pe_ratio Float64,
+        day_high Float64,
+        day_low Float64,
+        previous_close Float64,
+        currency String
+      ) ENGINE = MergeTree()
+      PARTITION BY toYYYYMM(timestamp)
+      ORDER BY (symbol, timestamp)
+      TTL timestamp + INTERVAL 1 YEAR
+    `,
+    // Daily gainers/losers
+    `
+      CREATE TABLE IF NOT EXISTS ${db}.market_movers (
+        timestamp DateTime,
+        type String, -- 'gainers' or 'losers'
+        symbol String,
+        name String,
+        price Float64,
+        change_percent Float64,
+        rank UInt32 -- position in the list (1-20)
+      ) ENGINE = MergeTree()
+      PARTITION BY toYYYYMMDD(timestamp)
+      ORDER BY (type, timestamp, rank)
+      TTL timestamp + INTERVAL 30 DAY
+    `,
+    // Static stock info
+    `
+      CREATE TABLE IF NOT EXISTS ${db}.stock_metadata (
+        symbol String,
+        name String,
+        sector String,
+        industry String,
+        country String,
+        exchange String,
+        last_updated DateTime,
+        INDEX symbol_idx symbol TYPE bloom_filter GRANULARITY 1
+      ) ENGINE = ReplacingMergeTree(last_updated)
+      ORDER BY symbol
+    `,
+  ],
+};
+
+export default migration;
@@ -0,0 +1,63 @@
+import type { ClickHouseMigration } from './index';
+
+// 1-minute OHLCV bars built from broadcast ticks, rolled up into 5m, 1h and 1d bars on insert
+function rollup(db: string, table: string, bucket: string): string[] {
+  return [
+    `
+      CREATE TABLE IF NOT EXISTS ${db}.${table} (
+        symbol String,
+        bucket DateTime,
+        open AggregateFunction(argMin, Float64, DateTime),
+        high SimpleAggregateFunction(max, Float64),
+        low SimpleAggregateFunction(min, Float64),
+        close AggregateFunction(argMax, Float64, DateTime),
+        volume SimpleAggregateFunction(sum, UInt64),
+        ticks SimpleAggregateFunction(sum, UInt64)
+      ) ENGINE = AggregatingMergeTree()
+      PARTITION BY toYYYYMM(bucket)
+      ORDER BY (symbol, bucket)
+    `,
+    `
+      CREATE MATERIALIZED VIEW IF NOT EXISTS ${db}.${table}_mv
+      TO ${db}.${table} AS
+      SELECT
+        symbol,
+        ${bucket}(minute) AS bucket,
+        argMinState(open, minute) AS open,
+        max(high) AS high,
+        min(low) AS low,
+        argMaxState(close, minute) AS close,
+        sum(volume) AS volume,
+        sum(toUInt64(ticks)) AS ticks
+      FROM ${db}.ohlcv_1m
+      GROUP BY symbol, bucket
+    `,
+  ];
+}
+
+const migration: ClickHouseMigration = {
+  version: 2,
+  name: 'ohlcv_bars',
+  up: (db) => [
+    `
+      CREATE TABLE IF NOT EXISTS ${db}.ohlcv_1m (
+        symbol String,
+        minute DateTime,
+        open Float64,
+        high Float64,
+        low Float64,
+        close Float64,
+        volume UInt64,
+        ticks UInt32
+      ) ENGINE = MergeTree()
+      PARTITION BY toYYYYMM(minute)
+      ORDER BY (symbol, minute)
+      TTL minute + INTERVAL 1 YEAR
+    `,
+    ...rollup(db, 'ohlcv_5m', 'toStartOfFiveMinutes'),
+    ...rollup(db, 'ohlcv_1h', 'toStartOfHour'),
+    ...rollup(db, 'ohlcv_1d', 'toStartOfDay'),
+  ],
+};
+
+export default migration;
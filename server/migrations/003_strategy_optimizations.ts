@@ -0,0 +1,31 @@
+import type { ClickHouseMigration } from './index';
+
+// Best parameter sets found by the strategy optimizer, with the full run (every combination and
+// walk-forward fold) kept as JSON for browsing
+const migration: ClickHouseMigration = {
+  version: 3,
+  name: 'strategy_optimizations',
+  up: (db) => [
+    `
+      CREATE TABLE IF NOT EXISTS ${db}.strategy_optimizations (
+        id String,
+        strategy String,
+        symbols Array(String),
+        interval String,
+        from_time DateTime,
+        to_time DateTime,
+        method String,
+        objective String,
+        best_params String,
+        in_sample_score Nullable(Float64),
+        out_of_sample_score Nullable(Float64),
+        result String,
+        created_at DateTime
+      ) ENGINE = MergeTree()
+      PARTITION BY toYYYYMM(created_at)
+      ORDER BY (strategy, created_at)
+    `,
+  ],
+};
+
+export default migration;
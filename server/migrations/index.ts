@@ -0,0 +1,18 @@
+import initialSchema from './001_initial_schema';
+import ohlcvBars from './002_ohlcv_bars';
+import strategyOptimizations from './003_strategy_optimizations';
+
+// A versioned ClickHouse schema change. Applied migrations must never be edited;
+// change the schema by adding a new migration with the next version number.
+export interface ClickHouseMigration {
+  version: number;
+  name: string;
+  up: (database: string) => string[]; // statements, run in order
+}
+
+// Every migration, oldest first. Listed explicitly so the bundled server build includes them.
+export const MIGRATIONS: ClickHouseMigration[] = [
+  initialSchema,
+  ohlcvBars,
+  strategyOptimizations,
+];
@@ -1,4 +1,6 @@
 // Advanced AI Trading Strategies
+import { bollinger, ema, lastValue, macd, rsi, sma } from '@shared/indicators';
+
 export interface TradingSignal {
   symbol: string;
   action: 'BUY' | 'SELL' | 'HOLD';
@@ -14,7 +16,7 @@ export interface TradingSignal {
     };
     movingAverages?: {
       sma20: number;
-      sma50: number;
+      sma50?: number; // absent when fewer than 50 prices are given
       ema12: number;
       ema26: number;
     };
@@ -27,54 +29,30 @@ export interface MarketData {
   volume: number;
   historicalPrices: number[];
   timestamp: number;
+  sentimentScore?: number; // -1 (bearish) to 1 (bullish)
 }
 
-// Calculate RSI (Relative Strength Index)
-export function calculateRSI(prices: number[], period: number = 14): number {
-  if (prices.length < period + 1) return 50;
-
-  const gains: number[] = [];
-  const losses: number[] = [];
-
-  for (let i = 1; i < prices.length; i++) {
-    const change = prices[i] - prices[i - 1];
-    gains.push(change > 0 ? change : 0);
-    losses.push(change < 0 ? Math.abs(change) : 0);
-  }
-
-  const avgGain = gains.slice(-period).reduce((sum, gain) => sum + gain, 0) / period;
-  const avgLoss = losses.slice(-period).reduce((sum, loss) => sum + loss, 0) / period;
+// Bars the MACD needs for its signal line (26-period slow EMA, then a 9-period EMA over the MACD)
+export const MACD_LOOKBACK = 26 + 9 - 1;
 
-  if (avgLoss === 0) return 100;
-
-  const rs = avgGain / avgLoss;
-  return 100 - (100 / (1 + rs));
+// Calculate RSI (Relative Strength Index), Wilder-smoothed
+export function calculateRSI(prices: number[], period: number = 14): number {
+  return lastValue(rsi(prices, period)) ?? 50;
 }
 
-// Calculate MACD
+// Calculate MACD (12/26 EMAs with a 9-period signal line)
 export function calculateMACD(prices: number[]): { macd: number; signal: number; histogram: number } {
-  // Simplified MACD calculation
-  const ema12 = calculateEMA(prices, 12);
-  const ema26 = calculateEMA(prices, 26);
-  const macd = ema12 - ema26;
-  const signal = calculateEMA([macd], 9);
-  const histogram = macd - signal;
-
-  return { macd, signal, histogram };
+  const series = macd(prices);
+  const line = lastValue(series.macd) ?? 0;
+  // Until the signal line has enough MACD values, compare against zero
+  const signal = lastValue(series.signal) ?? 0;
+
+  return { macd: line, signal, histogram: line - signal };
 }
 
 // Calculate EMA (Exponential Moving Average)
 export function calculateEMA(prices: number[], period: number): number {
-  if (prices.length < period) return prices[prices.length - 1] || 0;
-
-  const multiplier = 2 / (period + 1);
-  let ema = prices.slice(0, period).reduce((sum, price) => sum + price, 0) / period;
-
-  for (let i = period; i < prices.length; i++) {
-    ema = (prices[i] - ema) * multiplier + ema;
-  }
-
-  return ema;
+  return lastValue(ema(prices, period)) ?? prices[prices.length - 1] ?? 0;
 }
 
 // Calculate Bollinger Bands
@@ -84,40 +62,43 @@ export function calculateBollingerBands(prices: number[], period: number = 20, s
     return { upper: avg, middle: avg, lower: avg };
   }
 
-  const slice = prices.slice(-period);
-  const sma = slice.reduce((sum, price) => sum + price, 0) / period;
-
-  const variance = slice.reduce((sum, price) => sum + Math.pow(price - sma, 2), 0) / period;
-  const std = Math.sqrt(variance);
-
+  const bands = bollinger(prices, period, stdDev);
   return {
-    upper: sma + (stdDev * std),
-    middle: sma,
-    lower: sma - (stdDev * std)
+    upper: lastValue(bands.upper)!,
+    middle: lastValue(bands.middle)!,
+    lower: lastValue(bands.lower)!
   };
 }
 
 // Neuro-Scalp Strategy (High-frequency trading)
-export function neuroScalpStrategy(marketData: MarketData): TradingSignal {
+export interface NeuroScalpParams {
+  rsiPeriod: number;
+  bbPeriod: number;
+  bbStdDev: number;
+  oversold: number;
+  overbought: number;
+}
+
+export function neuroScalpStrategy(marketData: MarketData, params: NeuroScalpParams): TradingSignal {
   const { price, historicalPrices } = marketData;
-  const recentPrices = historicalPrices.slice(-20);
+  const recentPrices = historicalPrices.slice(-Math.max(params.bbPeriod, params.rsiPeriod + 1, MACD_LOOKBACK));
 
-  const rsi = calculateRSI(recentPrices);
+  const rsi = calculateRSI(recentPrices, params.rsiPeriod);
   const macd = calculateMACD(recentPrices);
-  const bb = calculateBollingerBands(recentPrices);
+  const bb = calculateBollingerBands(recentPrices, params.bbPeriod, params.bbStdDev);
 
   let action: 'BUY' | 'SELL' | 'HOLD' = 'HOLD';
   let confidence = 0;
   let reason = '';
 
   // High-frequency scalp conditions
-  if (price < bb.lower && rsi < 30 && macd.histogram > 0) {
+  if (price < bb.lower && rsi < params.oversold && macd.histogram > 0) {
     action = 'BUY';
-    confidence = Math.min(95, 75 + Math.abs(rsi - 30));
+    confidence = Math.min(95, 75 + Math.abs(rsi - params.oversold));
     reason = `Oversold bounce: RSI ${rsi.toFixed(1)}, Price below BB Lower, MACD histogram positive`;
-  } else if (price > bb.upper && rsi > 70 && macd.histogram < 0) {
+  } else if (price > bb.upper && rsi > params.overbought && macd.histogram < 0) {
     action = 'SELL';
-    confidence = Math.min(95, 75 + Math.abs(rsi - 70));
+    confidence = Math.min(95, 75 + Math.abs(rsi - params.overbought));
     reason = `Overbought pullback: RSI ${rsi.toFixed(1)}, Price above BB Upper, MACD histogram negative`;
   } else {
     confidence = 50;
@@ -135,7 +116,7 @@ export function neuroScalpStrategy(marketData: MarketData): TradingSignal {
       bollingerBands: bb,
       movingAverages: {
         sma20: bb.middle,
-        sma50: calculateEMA(recentPrices, 50),
+        sma50: lastValue(sma(historicalPrices, 50)) ?? undefined, // over all prices given; the signal itself only reads the lookback
         ema12: calculateEMA(recentPrices, 12),
         ema26: calculateEMA(recentPrices, 26)
       }
@@ -144,31 +125,37 @@ export function neuroScalpStrategy(marketData: MarketData): TradingSignal {
 }
 
 // Deep Momentum Strategy (Trend following)
-export function deepMomentumStrategy(marketData: MarketData): TradingSignal {
+export interface DeepMomentumParams {
+  fastEma: number;
+  slowEma: number;
+  rsiPeriod: number;
+}
+
+export function deepMomentumStrategy(marketData: MarketData, params: DeepMomentumParams): TradingSignal {
   const { price, historicalPrices } = marketData;
-  const recentPrices = historicalPrices.slice(-50);
+  const recentPrices = historicalPrices.slice(-Math.max(params.slowEma, params.rsiPeriod + 1, MACD_LOOKBACK));
 
-  const ema20 = calculateEMA(recentPrices, 20);
-  const ema50 = calculateEMA(recentPrices, 50);
+  const emaFast = calculateEMA(recentPrices, params.fastEma);
+  const emaSlow = calculateEMA(recentPrices, params.slowEma);
   const macd = calculateMACD(recentPrices);
-  const rsi = calculateRSI(recentPrices);
+  const rsi = calculateRSI(recentPrices, params.rsiPeriod);
 
   let action: 'BUY' | 'SELL' | 'HOLD' = 'HOLD';
   let confidence = 0;
   let reason = '';
 
   // Trend following conditions
-  if (price > ema20 && ema20 > ema50 && macd.macd > macd.signal && rsi > 50) {
+  if (price > emaFast && emaFast > emaSlow && macd.macd > macd.signal && rsi > 50) {
     action = 'BUY';
     confidence = Math.min(99, 84 + (macd.macd - macd.signal) * 10);
-    reason = `Strong uptrend: Price > EMA20 > EMA50, MACD bullish, RSI ${rsi.toFixed(1)}`;
-  } else if (price < ema20 && ema20 < ema50 && macd.macd < macd.signal && rsi < 50) {
+    reason = `Strong uptrend: Price > EMA${params.fastEma} > EMA${params.slowEma}, MACD bullish, RSI ${rsi.toFixed(1)}`;
+  } else if (price < emaFast && emaFast < emaSlow && macd.macd < macd.signal && rsi < 50) {
     action = 'SELL';
     confidence = Math.min(99, 84 + Math.abs(macd.macd - macd.signal) * 10);
-    reason = `Strong downtrend: Price < EMA20 < EMA50, MACD bearish, RSI ${rsi.toFixed(1)}`;
+    reason = `Strong downtrend: Price < EMA${params.fastEma} < EMA${params.slowEma}, MACD bearish, RSI ${rsi.toFixed(1)}`;
   } else {
     confidence = 60;
-    reason = `Awaiting trend confirmation: EMA20: ${ema20.toFixed(2)}, EMA50: ${ema50.toFixed(2)}`;
+    reason = `Awaiting trend confirmation: EMA${params.fastEma}: ${emaFast.toFixed(2)}, EMA${params.slowEma}: ${emaSlow.toFixed(2)}`;
   }
 
   return {
@@ -180,8 +167,8 @@ export function deepMomentumStrategy(marketData: MarketData): TradingSignal {
       rsi,
       macd: macd.macd,
       movingAverages: {
-        sma20: ema20,
-        sma50: ema50,
+        sma20: emaFast,
+        sma50: emaSlow,
         ema12: calculateEMA(recentPrices, 12),
         ema26: calculateEMA(recentPrices, 26)
       }
@@ -190,24 +177,31 @@ export function deepMomentumStrategy(marketData: MarketData): TradingSignal {
 }
 
 // Sentiment Flow Strategy (News and social sentiment)
-export function sentimentFlowStrategy(marketData: MarketData, sentimentScore: number = 0): TradingSignal {
+export interface SentimentFlowParams {
+  threshold: number;
+  rsiPeriod: number;
+  bbPeriod: number;
+}
+
+export function sentimentFlowStrategy(marketData: MarketData, params: SentimentFlowParams): TradingSignal {
   const { price, historicalPrices } = marketData;
-  const recentPrices = historicalPrices.slice(-20);
+  const sentimentScore = marketData.sentimentScore ?? 0;
+  const recentPrices = historicalPrices.slice(-Math.max(params.bbPeriod, params.rsiPeriod + 1, MACD_LOOKBACK));
 
-  const rsi = calculateRSI(recentPrices);
+  const rsi = calculateRSI(recentPrices, params.rsiPeriod);
   const macd = calculateMACD(recentPrices);
-  const bb = calculateBollingerBands(recentPrices);
+  const bb = calculateBollingerBands(recentPrices, params.bbPeriod);
 
   let action: 'BUY' | 'SELL' | 'HOLD' = 'HOLD';
   let confidence = 0;
   let reason = '';
 
   // Sentiment-based conditions
-  if (sentimentScore > 0.7 && price > bb.middle && rsi < 70) {
+  if (sentimentScore > params.threshold && price > bb.middle && rsi < 70) {
     action = 'BUY';
     confidence = Math.min(95, 70 + sentimentScore * 25);
     reason = `Positive sentiment spike (${(sentimentScore * 100).toFixed(0)}%): Bullish momentum`;
-  } else if (sentimentScore < -0.7 && price < bb.middle && rsi > 30) {
+  } else if (sentimentScore < -params.threshold && price < bb.middle && rsi > 30) {
     action = 'SELL';
     confidence = Math.min(95, 70 + Math.abs(sentimentScore) * 25);
     reason = `Negative sentiment spike (${(sentimentScore * 100).toFixed(0)}%): Bearish pressure`;
@@ -228,17 +222,3 @@ export function sentimentFlowStrategy(marketData: MarketData, sentimentScore: nu
     }
   };
 }
-
-// Main strategy selector
-export function generateAISignal(marketData: MarketData, strategy: string, sentimentScore: number = 0): TradingSignal {
-  switch (strategy) {
-    case 'neuro-scalp':
-      return neuroScalpStrategy(marketData);
-    case 'deep-momentum':
-      return deepMomentumStrategy(marketData);
-    case 'sentiment-flow':
-      return sentimentFlowStrategy(marketData, sentimentScore);
-    default:
-      return neuroScalpStrategy(marketData);
-  }
-}
\ No newline at end of file
@@ -0,0 +1,189 @@
+import { describe, expect, it } from 'vitest';
+import { backtestOptionsSchema, computeMetrics, parseCsvBars, runBacktest, type BacktestBar } from './backtest';
+import type { Strategy } from './strategies';
+import type { MarketData, TradingSignal } from './ai-strategies';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365.25 * DAY_MS;
+const START = Date.UTC(2024, 0, 1);
+
+// Daily bars opening at `opens[i]` and closing one above it, so a fill at the open is told apart from the close
+const barsFrom = (opens: number[]): BacktestBar[] => opens.map((open, i) => ({
+  date: new Date(START + i * DAY_MS),
+  open,
+  high: open + 2,
+  low: open - 1,
+  close: open + 1,
+  volume: 1000
+}));
+
+// A strategy reading the last close only, with a BUY or SELL on the bars of `script` and HOLD elsewhere
+function scripted(script: Record<number, 'BUY' | 'SELL'>, seen: MarketData[] = []): Strategy {
+  return {
+    id: 'scripted',
+    name: 'Scripted',
+    description: 'Signals on fixed bars',
+    parameters: [],
+    lookback: () => 1,
+    evaluate: marketData => {
+      seen.push(marketData);
+      const bar = Math.round((marketData.timestamp - START) / DAY_MS);
+      return { action: script[bar] ?? 'HOLD', confidence: 80, reason: `bar ${bar}`, timestamp: marketData.timestamp } as TradingSignal;
+    }
+  };
+}
+
+const frictionless = backtestOptionsSchema.parse({ commissionBps: 0, slippageBps: 0 });
+
+describe('runBacktest', () => {
+  it('fills a signal at the next bar open and never shows the strategy a later bar', () => {
+    const seen: MarketData[] = [];
+    const bars = barsFrom([100, 102, 104, 106, 108, 110]);
+
+    const result = runBacktest(scripted({ 1: 'BUY', 3: 'SELL' }, seen), {}, 'TEST', bars, frictionless);
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0]).toMatchObject({
+      side: 'long',
+      entryDate: bars[2].date,
+      entryPrice: 104,
+      exitDate: bars[4].date,
+      exitPrice: 108,
+      barsHeld: 2,
+      entryReason: 'BUY (80%): bar 1',
+      exitReason: 'SELL (80%): bar 3'
+    });
+    seen.forEach((marketData, i) => {
+      expect(marketData.price).toBe(bars[i].close);
+      expect(marketData.historicalPrices).toEqual([bars[i].close]);
+    });
+    // The last bar has no next open to fill a signal at
+    expect(seen).toHaveLength(bars.length - 1);
+  });
+
+  it('charges slippage and commission on both fills of a long', () => {
+    const bars = barsFrom([100, 100, 100, 100, 110, 110]);
+    const options = backtestOptionsSchema.parse({ slippageBps: 100, commissionBps: 10, commissionPerTrade: 1 });
+
+    const { trades, metrics } = runBacktest(scripted({ 1: 'BUY', 3: 'SELL' }), {}, 'TEST', bars, options);
+
+    // Bought (10000 - 11) / 101 at 100 * 1.01, sold at 110 * 0.99 for a commission of 1 + 0.1% of the notional
+    expect(trades[0]).toMatchObject({ entryPrice: 101, exitPrice: 108.9, quantity: 98.90099 });
+    expect(trades[0].commission).toBeCloseTo(11 + 11.7703, 4);
+    expect(trades[0].pnl).toBeCloseTo(758.5475, 4);
+    expect(metrics.finalEquity).toBe(10_758.55);
+  });
+
+  it('charges slippage and commission on both fills of a short', () => {
+    const bars = barsFrom([100, 100, 100, 100, 90, 90]);
+    const options = backtestOptionsSchema.parse({ slippageBps: 100, commissionBps: 10, commissionPerTrade: 1, allowShort: true });
+
+    const { trades, metrics } = runBacktest(scripted({ 1: 'SELL', 3: 'BUY' }), {}, 'TEST', bars, options);
+
+    // Shorted (10000 - 11) / 99 at 100 * 0.99, covered at 90 * 1.01; the cover opens a long at the same open
+    expect(trades[0]).toMatchObject({ side: 'short', entryPrice: 99, exitPrice: 90.9 });
+    expect(trades[0].pnl).toBeCloseTo(796.1101, 4);
+    expect(trades[1]).toMatchObject({ side: 'long', entryDate: bars[4].date, exitReason: 'End of data' });
+    expect(metrics.trades).toBe(2);
+  });
+
+  it('only closes a long on a SELL when shorting is off', () => {
+    const bars = barsFrom([100, 100, 100, 100, 90, 90]);
+
+    const { trades } = runBacktest(scripted({ 1: 'SELL', 2: 'BUY', 3: 'SELL' }), {}, 'TEST', bars, frictionless);
+
+    expect(trades).toHaveLength(1);
+    expect(trades[0]).toMatchObject({ side: 'long', entryDate: bars[3].date, exitDate: bars[4].date });
+  });
+
+  it('closes a position still open at the end of the data at the last close', () => {
+    const bars = barsFrom([100, 100, 100, 120, 130]);
+    const options = backtestOptionsSchema.parse({ slippageBps: 100, commissionBps: 0 });
+
+    const { trades, equityCurve, metrics } = runBacktest(scripted({ 1: 'BUY' }), {}, 'TEST', bars, options);
+
+    expect(trades).toHaveLength(1);
+    expect(trades[0]).toMatchObject({ exitDate: bars[4].date, exitPrice: 131 * 0.99, exitReason: 'End of data', barsHeld: 2 });
+    const cash = 10_000 / 101 * 131 * 0.99;
+    expect(equityCurve[equityCurve.length - 1].equity).toBe(Math.round(cash * 100) / 100);
+    expect(metrics.finalEquity).toBe(Math.round(cash * 100) / 100);
+  });
+});
+
+describe('computeMetrics', () => {
+  // 100 -> 110 -> 99 -> 121 over exactly one year
+  const curve = [100, 110, 99, 121].map((equity, i) => ({ date: new Date(START + (i * YEAR_MS) / 3), equity }));
+
+  it('measures drawdown, CAGR, Sharpe and Sortino of the equity curve', () => {
+    const metrics = computeMetrics(curve, [], 100, 2);
+
+    expect(metrics.finalEquity).toBe(121);
+    expect(metrics.totalReturnPercent).toBe(21);
+    expect(metrics.cagrPercent).toBe(21);
+    // From the 110 peak down to 99
+    expect(metrics.maxDrawdownPercent).toBe(10);
+    // Returns 10%, -10% and 22.2% at 3 bars a year: mean 0.0741 over a sample std of 0.1627, times sqrt(3)
+    expect(metrics.sharpe).toBeCloseTo(0.7887, 4);
+    // Downside deviation sqrt(0.01 / 3)
+    expect(metrics.sortino).toBeCloseTo(2.2222, 4);
+    expect(metrics.exposurePercent).toBe(50);
+    expect(metrics.winRatePercent).toBeNull();
+  });
+
+  it('annualizes a curve shorter than a year', () => {
+    const quarter = [
+      { date: new Date(START), equity: 100 },
+      { date: new Date(START + YEAR_MS / 4), equity: 110 }
+    ];
+
+    expect(computeMetrics(quarter, [], 100, 0).cagrPercent).toBeCloseTo((1.1 ** 4 - 1) * 100, 4);
+  });
+
+  it('leaves CAGR and Sharpe out when the curve spans no time or never moves', () => {
+    const flat = [{ date: new Date(START), equity: 100 }, { date: new Date(START), equity: 100 }];
+
+    expect(computeMetrics(flat, [], 100, 0)).toMatchObject({ cagrPercent: null, sharpe: null, sortino: null, maxDrawdownPercent: 0 });
+  });
+});
+
+describe('parseCsvBars', () => {
+  const csv = (...rows: string[]) => ['date,open,high,low,close,volume', ...rows].join('\n');
+
+  it('reads unix timestamps in seconds and in milliseconds', () => {
+    const bars = parseCsvBars(csv('1704153600,1,2,0.5,1.5,100', '1704240000000,2,3,1.5,2.5,200'));
+
+    expect(bars.map(bar => bar.date.toISOString())).toEqual(['2024-01-02T00:00:00.000Z', '2024-01-03T00:00:00.000Z']);
+    expect(bars[0]).toMatchObject({ open: 1, high: 2, low: 0.5, close: 1.5, volume: 100 });
+  });
+
+  it('reads YYYYMMDD and ISO dates, sorted by date', () => {
+    const bars = parseCsvBars(csv('20240103,2,3,1.5,2.5,200', '2024-01-02T00:00:00Z,1,2,0.5,1.5,100'));
+
+    expect(bars.map(bar => bar.date.toISOString())).toEqual(['2024-01-02T00:00:00.000Z', '2024-01-03T00:00:00.000Z']);
+  });
+
+  it('accepts other column orders and names, without volume', () => {
+    const bars = parseCsvBars('Timestamp,Close,Low,High,Open\n2024-01-02,1.5,0.5,2,1\r\n');
+
+    expect(bars).toEqual([{ date: new Date('2024-01-02'), open: 1, high: 2, low: 0.5, close: 1.5, volume: 0 }]);
+  });
+
+  it('names the missing columns', () => {
+    expect(() => parseCsvBars('date,open,low\n2024-01-02,1,0.5')).toThrow('CSV header is missing: high, close');
+  });
+
+  it('needs at least one bar', () => {
+    expect(() => parseCsvBars('date,open,high,low,close\n')).toThrow('CSV needs a header row and at least one bar');
+  });
+
+  it.each([
+    ['a price that is not a number', '2024-01-02,1,2,abc,1.5,100'],
+    ['a zero price', '2024-01-02,1,2,0,1.5,100'],
+    ['a missing field', '2024-01-02,1,2,0.5'],
+    ['an unparseable date', 'yesterday,1,2,0.5,1.5,100'],
+    ['a number that is neither YYYYMMDD nor a 10- or 13-digit timestamp', '170415360,1,2,0.5,1.5,100'],
+    ['a YYYYMMDD date that does not exist', '20241340,1,2,0.5,1.5,100']
+  ])('rejects a row with %s', (_, row) => {
+    expect(() => parseCsvBars(csv('2024-01-01,1,2,0.5,1.5,100', row))).toThrow(`Invalid bar on CSV line 3: ${row}`);
+  });
+});
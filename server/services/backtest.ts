@@ -0,0 +1,317 @@
+import { z } from 'zod';
+import { getBars, type BarInterval } from './clickhouse';
+import { getHistoricalData, type Interval } from './marketData';
+import type { Strategy, StrategyParams } from './strategies';
+import type { TradingSignal } from './ai-strategies';
+
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+// A bar replayed through a strategy
+export interface BacktestBar {
+  date: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export const backtestOptionsSchema = z.object({
+  initialCapital: z.number().positive().default(10000),
+  commissionPerTrade: z.number().min(0).default(0), // flat fee per fill
+  commissionBps: z.number().min(0).max(1000).default(5), // fee per fill, in basis points of the traded notional
+  slippageBps: z.number().min(0).max(1000).default(5), // fills are this much worse than the bar's open
+  positionSize: z.number().gt(0).max(1).default(1), // fraction of equity committed to each entry
+  minConfidence: z.number().min(0).max(100).default(0), // signals below this confidence are ignored
+  allowShort: z.boolean().default(false), // SELL opens a short instead of only closing a long
+});
+
+export type BacktestOptions = z.infer<typeof backtestOptionsSchema>;
+
+export interface BacktestTrade {
+  side: 'long' | 'short';
+  entryDate: Date;
+  entryPrice: number; // fill price, after slippage
+  exitDate: Date;
+  exitPrice: number;
+  quantity: number;
+  commission: number; // entry and exit fees
+  pnl: number; // net of commission
+  returnPercent: number; // pnl relative to the entry notional
+  barsHeld: number;
+  entryReason: string;
+  exitReason: string;
+}
+
+export interface BacktestMetrics {
+  finalEquity: number;
+  totalReturnPercent: number;
+  cagrPercent: number | null; // null when the bars span no time
+  sharpe: number | null; // annualized, zero risk-free rate; null without return variance
+  sortino: number | null; // annualized; null without losing bars
+  maxDrawdownPercent: number;
+  winRatePercent: number | null; // null without closed trades
+  trades: number;
+  exposurePercent: number; // share of bars with an open position
+}
+
+export interface BacktestResult {
+  strategy: string;
+  params: StrategyParams;
+  symbol: string;
+  from: Date;
+  to: Date;
+  bars: number;
+  options: BacktestOptions;
+  metrics: BacktestMetrics;
+  signals: { buy: number; sell: number; hold: number };
+  equityCurve: { date: Date; equity: number }[];
+  trades: BacktestTrade[];
+}
+
+interface OpenPosition {
+  quantity: number; // negative for shorts
+  entryDate: Date;
+  entryPrice: number;
+  entryBar: number;
+  entryCommission: number;
+  entryReason: string;
+}
+
+// Position a signal asks for: 1 long, -1 short, 0 flat
+type Target = 1 | -1 | 0;
+
+function round(value: number, decimals: number = 4): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// Load bars stored in ClickHouse (built from the price stream) for a backtest
+export async function loadClickHouseBars(symbol: string, interval: BarInterval, from: Date, to: Date): Promise<BacktestBar[]> {
+  const bars = await getBars(symbol, interval, from, to);
+  return bars.map(bar => ({ date: bar.start, open: bar.open, high: bar.high, low: bar.low, close: bar.close, volume: bar.volume }));
+}
+
+// Load bars from the market data provider's history for a backtest
+export async function loadProviderBars(symbol: string, interval: Interval, from: Date, to: Date): Promise<BacktestBar[]> {
+  const bars = await getHistoricalData(symbol, from, to, interval);
+  return bars
+    .filter(bar => bar.close > 0)
+    .map(bar => ({ date: new Date(bar.date), open: bar.open, high: bar.high, low: bar.low, close: bar.close, volume: bar.volume }));
+}
+
+// Date of a CSV row: a YYYYMMDD day (UTC), a 10-digit unix timestamp in seconds, a 13-digit one in milliseconds,
+// or an ISO string. Other numbers give an invalid date rather than a guess at their unit.
+function parseCsvDate(raw: string): Date {
+  const day = /^(\d{4})(\d{2})(\d{2})$/.exec(raw);
+  if (day) {
+    const [year, month, date] = day.slice(1).map(Number);
+    const parsed = new Date(Date.UTC(year, month - 1, date));
+    return parsed.getUTCMonth() === month - 1 && parsed.getUTCDate() === date ? parsed : new Date(NaN);
+  }
+  if (/^\d{10}(\.\d+)?$/.test(raw)) return new Date(Number(raw) * 1000);
+  if (/^\d{13}$/.test(raw)) return new Date(Number(raw));
+  if (raw === '' || Number.isFinite(Number(raw))) return new Date(NaN);
+  return new Date(raw);
+}
+
+// Parse CSV bars with a header row naming date (or time/timestamp), open, high, low, close and optionally volume.
+// Dates may be ISO strings, YYYYMMDD days or unix timestamps in seconds or milliseconds; throws on malformed rows.
+export function parseCsvBars(csv: string): BacktestBar[] {
+  const lines = csv.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+  if (lines.length < 2) throw new Error('CSV needs a header row and at least one bar');
+
+  const header = lines[0].split(',').map(column => column.trim().toLowerCase());
+  const column = (names: string[]) => header.findIndex(name => names.includes(name));
+  const columns = {
+    date: column(['date', 'time', 'timestamp', 'datetime']),
+    open: column(['open']),
+    high: column(['high']),
+    low: column(['low']),
+    close: column(['close', 'adj close']),
+    volume: column(['volume']),
+  };
+  const missing = (['date', 'open', 'high', 'low', 'close'] as const).filter(name => columns[name] === -1);
+  if (missing.length > 0) throw new Error(`CSV header is missing: ${missing.join(', ')}`);
+
+  const bars = lines.slice(1).map((line, index) => {
+    const fields = line.split(',').map(field => field.trim());
+    const date = parseCsvDate(fields[columns.date] ?? '');
+    const bar = {
+      date,
+      open: parseFloat(fields[columns.open]),
+      high: parseFloat(fields[columns.high]),
+      low: parseFloat(fields[columns.low]),
+      close: parseFloat(fields[columns.close]),
+      volume: columns.volume === -1 ? 0 : parseFloat(fields[columns.volume]) || 0,
+    };
+    if (isNaN(date.getTime()) || ![bar.open, bar.high, bar.low, bar.close].every(value => Number.isFinite(value) && value > 0)) {
+      throw new Error(`Invalid bar on CSV line ${index + 2}: ${line}`);
+    }
+    return bar;
+  });
+
+  return bars.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+// Equity curve statistics
+export function computeMetrics(equityCurve: { date: Date; equity: number }[], trades: BacktestTrade[], initialCapital: number, barsInMarket: number): BacktestMetrics {
+  const finalEquity = equityCurve[equityCurve.length - 1].equity;
+  const years = (equityCurve[equityCurve.length - 1].date.getTime() - equityCurve[0].date.getTime()) / YEAR_MS;
+  // Annualize with the observed bar density, which fits any bar size and trading calendar
+  const periodsPerYear = years > 0 ? (equityCurve.length - 1) / years : 252;
+
+  const returns = equityCurve.slice(1).map((point, i) => point.equity / equityCurve[i].equity - 1);
+  const mean = returns.reduce((sum, value) => sum + value, 0) / Math.max(1, returns.length);
+  const std = Math.sqrt(returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(1, returns.length - 1));
+  const downside = Math.sqrt(returns.reduce((sum, value) => sum + Math.min(value, 0) ** 2, 0) / Math.max(1, returns.length));
+
+  let peak = equityCurve[0].equity;
+  let maxDrawdown = 0;
+  for (const point of equityCurve) {
+    peak = Math.max(peak, point.equity);
+    maxDrawdown = Math.max(maxDrawdown, (peak - point.equity) / peak);
+  }
+
+  const wins = trades.filter(trade => trade.pnl > 0).length;
+
+  return {
+    finalEquity: round(finalEquity, 2),
+    totalReturnPercent: round((finalEquity / initialCapital - 1) * 100),
+    cagrPercent: years > 0 && finalEquity > 0 ? round((Math.pow(finalEquity / initialCapital, 1 / years) - 1) * 100) : null,
+    sharpe: std > 0 ? round((mean / std) * Math.sqrt(periodsPerYear)) : null,
+    sortino: downside > 0 ? round((mean / downside) * Math.sqrt(periodsPerYear)) : null,
+    maxDrawdownPercent: round(maxDrawdown * 100),
+    winRatePercent: trades.length > 0 ? round((wins / trades.length) * 100, 2) : null,
+    trades: trades.length,
+    exposurePercent: round((barsInMarket / equityCurve.length) * 100, 2),
+  };
+}
+
+// Replay bars through a strategy, bar by bar. A signal on a bar's close is filled at the next bar's
+// open (no look-ahead), with slippage and commission; a position still open at the end is closed at the last close.
+// The first `warmupBars` bars are only price history for the strategy: nothing is traded or measured on them.
+export function runBacktest(
+  strategy: Strategy,
+  params: StrategyParams,
+  symbol: string,
+  bars: BacktestBar[],
+  options: BacktestOptions,
+  warmupBars: number = 0
+): BacktestResult {
+  const lookback = strategy.lookback(params);
+  const required = Math.max(lookback, warmupBars) + 2;
+  if (bars.length < required) {
+    throw new Error(`${strategy.id} needs at least ${required} bars, got ${bars.length}`);
+  }
+
+  const slippage = options.slippageBps / 10000;
+  const commissionFor = (notional: number) => options.commissionPerTrade + notional * (options.commissionBps / 10000);
+
+  const closes = bars.map(bar => bar.close);
+  const equityCurve: { date: Date; equity: number }[] = [];
+  const trades: BacktestTrade[] = [];
+  const signals = { buy: 0, sell: 0, hold: 0 };
+  let cash = options.initialCapital;
+  let position: OpenPosition | null = null;
+  let pending: { target: Target; signal: TradingSignal } | null = null;
+  let barsInMarket = 0;
+
+  // Read through closures: the order helpers below reassign `position`
+  const currentDirection = () => position ? Math.sign(position.quantity) : 0;
+  const markToMarket = (price: number) => cash + (position ? position.quantity * price : 0);
+
+  const closePosition = (price: number, date: Date, bar: number, reason: string) => {
+    if (!position) return;
+    const direction = Math.sign(position.quantity);
+    const fill = price * (1 - direction * slippage);
+    const commission = commissionFor(Math.abs(position.quantity) * fill);
+    cash += position.quantity * fill - commission;
+
+    const pnl = (fill - position.entryPrice) * position.quantity - position.entryCommission - commission;
+    trades.push({
+      side: direction > 0 ? 'long' : 'short',
+      entryDate: position.entryDate,
+      entryPrice: round(position.entryPrice),
+      exitDate: date,
+      exitPrice: round(fill),
+      quantity: round(Math.abs(position.quantity), 6),
+      commission: round(position.entryCommission + commission),
+      pnl: round(pnl),
+      returnPercent: round((pnl / (Math.abs(position.quantity) * position.entryPrice)) * 100),
+      barsHeld: bar - position.entryBar,
+      entryReason: position.entryReason,
+      exitReason: reason,
+    });
+    position = null;
+  };
+
+  const openPosition = (direction: 1 | -1, price: number, date: Date, bar: number, reason: string) => {
+    const fill = price * (1 + direction * slippage);
+    const notional = cash * options.positionSize;
+    const commission = commissionFor(notional);
+    const quantity = (notional - commission) / fill;
+    if (quantity <= 0) return;
+
+    cash -= direction * quantity * fill + commission;
+    position = { quantity: direction * quantity, entryDate: date, entryPrice: fill, entryBar: bar, entryCommission: commission, entryReason: reason };
+  };
+
+  for (let i = warmupBars; i < bars.length; i++) {
+    const bar = bars[i];
+
+    // Orders from the previous bar's signal fill at this bar's open
+    if (pending) {
+      const { target, signal } = pending;
+      const reason = `${signal.action} (${signal.confidence.toFixed(0)}%): ${signal.reason}`;
+      if (currentDirection() !== 0 && currentDirection() !== target) {
+        closePosition(bar.open, bar.date, i, reason);
+      }
+      if (target !== 0 && currentDirection() === 0) {
+        openPosition(target, bar.open, bar.date, i, reason);
+      }
+      pending = null;
+    }
+
+    if (currentDirection() !== 0) barsInMarket++;
+    equityCurve.push({ date: bar.date, equity: round(markToMarket(bar.close), 2) });
+
+    // Evaluate on the close once the strategy has its lookback; the last bar has no next open to fill at
+    if (i + 1 < lookback || i === bars.length - 1) continue;
+
+    const signal = strategy.evaluate({
+      symbol,
+      price: bar.close,
+      volume: bar.volume,
+      historicalPrices: closes.slice(i + 1 - lookback, i + 1),
+      timestamp: bar.date.getTime(),
+    }, params);
+    signals[signal.action === 'BUY' ? 'buy' : signal.action === 'SELL' ? 'sell' : 'hold']++;
+
+    if (signal.action === 'HOLD' || signal.confidence < options.minConfidence) continue;
+    const target: Target = signal.action === 'BUY' ? 1 : options.allowShort ? -1 : 0;
+    if (target !== currentDirection()) {
+      pending = { target, signal };
+    }
+  }
+
+  const last = bars[bars.length - 1];
+  if (currentDirection() !== 0) {
+    closePosition(last.close, last.date, bars.length - 1, 'End of data');
+    equityCurve[equityCurve.length - 1].equity = round(cash, 2);
+  }
+
+  return {
+    strategy: strategy.id,
+    params,
+    symbol,
+    from: bars[warmupBars].date,
+    to: last.date,
+    bars: bars.length - warmupBars,
+    options,
+    metrics: computeMetrics(equityCurve, trades, options.initialCapital, barsInMarket),
+    signals,
+    equityCurve,
+    trades,
+  };
+}
@@ -0,0 +1,71 @@
+import { storeBars, type OhlcvBar } from './clickhouse';
+
+const MINUTE_MS = 60 * 1000;
+
+// Builds 1-minute OHLCV bars from broadcast ticks.
+// Quote volume is the cumulative session volume, so a bar's volume is the sum of its increments.
+export class BarAggregator {
+  private open = new Map<string, OhlcvBar>();
+  private lastVolume = new Map<string, number>();
+
+  // Add a tick, returning the previous bar if this tick started a new minute
+  addTick(symbol: string, price: number, cumulativeVolume: number, at: Date = new Date()): OhlcvBar | null {
+    const start = new Date(Math.floor(at.getTime() / MINUTE_MS) * MINUTE_MS);
+    const volume = this.volumeIncrement(symbol, cumulativeVolume);
+
+    const bar = this.open.get(symbol);
+    if (bar && bar.start.getTime() === start.getTime()) {
+      bar.high = Math.max(bar.high, price);
+      bar.low = Math.min(bar.low, price);
+      bar.close = price;
+      bar.volume += volume;
+      bar.ticks++;
+      return null;
+    }
+
+    this.open.set(symbol, { symbol, start, open: price, high: price, low: price, close: price, volume, ticks: 1 });
+    return bar && bar.start < start ? bar : null;
+  }
+
+  // Close every bar whose minute has ended, e.g. for symbols that stopped ticking
+  closeCompleted(now: Date = new Date()): OhlcvBar[] {
+    const currentMinute = Math.floor(now.getTime() / MINUTE_MS) * MINUTE_MS;
+    const completed: OhlcvBar[] = [];
+    this.open.forEach((bar, symbol) => {
+      if (bar.start.getTime() < currentMinute) {
+        completed.push(bar);
+        this.open.delete(symbol);
+      }
+    });
+    return completed;
+  }
+
+  private volumeIncrement(symbol: string, cumulativeVolume: number): number {
+    const last = this.lastVolume.get(symbol);
+    this.lastVolume.set(symbol, cumulativeVolume);
+    if (last === undefined) return 0;
+    // A drop means the session volume was reset for a new trading day
+    return cumulativeVolume >= last ? cumulativeVolume - last : cumulativeVolume;
+  }
+}
+
+const aggregator = new BarAggregator();
+
+function persist(bars: OhlcvBar[]) {
+  storeBars(bars).catch((storageError: any) => {
+    // Silently fail if ClickHouse is not available
+    console.debug(`[${new Date().toISOString()}] ClickHouse storage failed for ${bars.length} bar(s) (non-critical):`, storageError.message);
+  });
+}
+
+// Feed a broadcast tick into the 1-minute bars, storing any bar it completes (non-blocking)
+export function recordTick(symbol: string, price: number, cumulativeVolume: number, at: Date = new Date()) {
+  const completed = aggregator.addTick(symbol, price, cumulativeVolume, at);
+  if (completed) persist([completed]);
+}
+
+// Store bars whose minute has ended without a newer tick (non-blocking)
+export function flushCompletedBars(now: Date = new Date()) {
+  const completed = aggregator.closeCompleted(now);
+  if (completed.length > 0) persist(completed);
+}
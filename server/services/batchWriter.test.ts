@@ -0,0 +1,127 @@
+import { promises as fs } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { BatchWriter } from './batchWriter';
+import { useTempDir } from '../testing/tempDir';
+
+class RejectedError extends Error {}
+
+type Row = Record<string, unknown>;
+
+const tmp = useTempDir('batch-writer-');
+
+// A writer over `insert` whose spill and dead-letter directories live in the test's temp dir
+async function createWriter(insert: (table: string, rows: Row[]) => Promise<void>) {
+  const writer = new BatchWriter(insert, async () => true, error => error instanceof RejectedError, {
+    flushRows: 1000,
+    flushIntervalMs: 60_000,
+    maxBufferRows: 1000,
+    spillDir: tmp.join('spill'),
+    deadLetterDir: tmp.join('dead-letter'),
+    maxSpillBytes: 1024 * 1024
+  });
+  tmp.onCleanup(() => writer.stop().catch(() => undefined));
+  await writer.start();
+  return writer;
+}
+
+async function writeSpillFile(name: string, rows: Row[] | string) {
+  await fs.mkdir(tmp.join('spill'), { recursive: true });
+  const content = typeof rows === 'string' ? rows : rows.map(row => JSON.stringify(row)).join('\n') + '\n';
+  await fs.writeFile(tmp.join('spill', name), content);
+}
+
+const list = (subdir: string) => fs.readdir(tmp.join(subdir)).catch(() => [] as string[]);
+
+describe('BatchWriter replay', () => {
+  it('moves a rejected spill file to the dead-letter directory and replays the rest', async () => {
+    await writeSpillFile('ticks.1000.000000.jsonl', [{ id: 1 }, { id: 2 }]);
+    await writeSpillFile('bad_table.1001.000001.jsonl', [{ id: 3 }]);
+    await writeSpillFile('ticks.1002.000002.jsonl', [{ id: 4 }]);
+
+    const inserted: Row[] = [];
+    const batchWriter = await createWriter(async (table, rows) => {
+      if (table === 'bad_table') throw new RejectedError('Unknown column');
+      inserted.push(...rows);
+    });
+    await batchWriter.flush();
+
+    expect(inserted.map(row => row.id)).toEqual([1, 2, 4]);
+    expect(await list('spill')).toEqual([]);
+    expect(await list('dead-letter')).toEqual(['bad_table.1001.000001.jsonl']);
+    expect(batchWriter.getStats()).toMatchObject({
+      insertedRows: 3,
+      rejectedRows: 1,
+      deadLetterFiles: 1,
+      spilledRows: 0,
+      spillFiles: 0,
+      droppedRows: 0
+    });
+  });
+
+  it('dead-letters a spill file that no longer parses', async () => {
+    await writeSpillFile('ticks.1000.000000.jsonl', '{"id": 1}\n{"id": \n');
+    await writeSpillFile('ticks.1001.000001.jsonl', [{ id: 2 }]);
+
+    const inserted: Row[] = [];
+    const batchWriter = await createWriter(async (_, rows) => {
+      inserted.push(...rows);
+    });
+    await batchWriter.flush();
+
+    expect(inserted).toEqual([{ id: 2 }]);
+    expect(await list('dead-letter')).toEqual(['ticks.1000.000000.jsonl']);
+    expect(batchWriter.getStats()).toMatchObject({ rejectedRows: 2, insertedRows: 1 });
+  });
+
+  it('keeps spill files and new rows queued on connection errors', async () => {
+    await writeSpillFile('ticks.1000.000000.jsonl', [{ id: 1 }]);
+    await writeSpillFile('ticks.1001.000001.jsonl', [{ id: 2 }]);
+
+    let attempts = 0;
+    const batchWriter = await createWriter(async () => {
+      attempts++;
+      throw new Error('connect ECONNREFUSED 127.0.0.1:8123');
+    });
+    batchWriter.write('ticks', [{ id: 3 }]);
+    await batchWriter.flush();
+
+    expect(attempts).toBe(1);
+    expect(await list('spill')).toHaveLength(3);
+    expect(await list('dead-letter')).toEqual([]);
+    expect(batchWriter.getStats()).toMatchObject({
+      spilledRows: 3,
+      spillFiles: 3,
+      rejectedRows: 0,
+      failedFlushes: 1,
+      lastError: 'connect ECONNREFUSED 127.0.0.1:8123'
+    });
+  });
+});
+
+describe('BatchWriter flush', () => {
+  it('dead-letters a rejected batch without holding back the other tables', async () => {
+    const inserted: Record<string, Row[]> = {};
+    const batchWriter = await createWriter(async (table, rows) => {
+      if (table === 'bad_table') throw new RejectedError('Cannot parse input');
+      inserted[table] = rows;
+    });
+    batchWriter.write('bad_table', [{ id: 1 }, { id: 2 }]);
+    batchWriter.write('ticks', [{ id: 3 }]);
+    await batchWriter.flush();
+
+    expect(inserted).toEqual({ ticks: [{ id: 3 }] });
+    const deadLetters = await list('dead-letter');
+    expect(deadLetters).toHaveLength(1);
+    expect(deadLetters[0]).toMatch(/^bad_table\.\d+\.\d{6}\.jsonl$/);
+    expect(await list('spill')).toEqual([]);
+    expect(batchWriter.getStats()).toMatchObject({ insertedRows: 1, rejectedRows: 2, failedFlushes: 0 });
+  });
+
+  it('counts dead letters left by a previous run', async () => {
+    await fs.mkdir(tmp.join('dead-letter'));
+    await fs.writeFile(tmp.join('dead-letter', 'ticks.1000.000000.jsonl'), '{"id":1}\n');
+
+    const batchWriter = await createWriter(async () => undefined);
+    expect(batchWriter.getStats().deadLetterFiles).toBe(1);
+  });
+});
@@ -0,0 +1,279 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface BatchWriterOptions {
+  flushRows: number; // flush as soon as a table buffers this many rows
+  flushIntervalMs: number; // and at least this often
+  maxBufferRows: number; // per table; the oldest rows beyond this are dropped
+  spillDir: string;
+  deadLetterDir: string; // batches the database rejected, kept for inspection
+  maxSpillBytes: number; // batches that would grow the spill queue beyond this are dropped
+}
+
+export interface BatchWriterStats {
+  bufferedRows: number;
+  spilledRows: number;
+  spillFiles: number;
+  insertedRows: number;
+  rejectedRows: number;
+  deadLetterFiles: number;
+  droppedRows: number;
+  failedFlushes: number;
+  lastError: string | null;
+  lastFlushAt: string | null;
+}
+
+type Row = Record<string, unknown>;
+
+// Buffers rows per table and inserts them in batches.
+// While the database is unreachable (or its schema is behind) batches are spilled to JSONL files in
+// `spillDir` and replayed, oldest first, before any new rows once inserts succeed again.
+// Batches the database rejects (`isDataError`) would fail on every retry, so they are moved to
+// `deadLetterDir` instead of blocking the queue.
+export class BatchWriter {
+  private buffers = new Map<string, Row[]>();
+  private options: BatchWriterOptions;
+  private insert: (table: string, rows: Row[]) => Promise<void>;
+  private isReady: () => Promise<boolean>;
+  private isDataError: (error: Error) => boolean;
+  private intervalId: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+  private degraded = false;
+  private spillSequence = 0;
+  private spillBytes = 0;
+  private stats: BatchWriterStats = {
+    bufferedRows: 0,
+    spilledRows: 0,
+    spillFiles: 0,
+    insertedRows: 0,
+    rejectedRows: 0,
+    deadLetterFiles: 0,
+    droppedRows: 0,
+    failedFlushes: 0,
+    lastError: null,
+    lastFlushAt: null
+  };
+
+  constructor(
+    insert: (table: string, rows: Row[]) => Promise<void>,
+    isReady: () => Promise<boolean>,
+    isDataError: (error: Error) => boolean,
+    options: BatchWriterOptions
+  ) {
+    this.insert = insert;
+    this.isReady = isReady;
+    this.isDataError = isDataError;
+    this.options = options;
+  }
+
+  // Pick up batches spilled by a previous run and start the flush timer
+  async start() {
+    await fs.mkdir(this.options.spillDir, { recursive: true });
+    for (const file of await this.spillFiles()) {
+      const content = await fs.readFile(file, 'utf-8');
+      this.stats.spillFiles++;
+      this.stats.spilledRows += content.split('\n').filter(Boolean).length;
+      this.spillBytes += Buffer.byteLength(content);
+    }
+    if (this.stats.spillFiles > 0) {
+      console.log(`[${new Date().toISOString()}] Found ${this.stats.spilledRows} spilled row(s) in ${this.stats.spillFiles} file(s), replaying once ClickHouse is available`);
+    }
+    const deadLetters = await fs.readdir(this.options.deadLetterDir).catch(() => [] as string[]);
+    this.stats.deadLetterFiles = deadLetters.filter(name => name.endsWith('.jsonl')).length;
+
+    this.intervalId = setInterval(() => {
+      this.flush().catch(error => console.error(`[${new Date().toISOString()}] ClickHouse flush failed:`, error));
+    }, this.options.flushIntervalMs);
+  }
+
+  // Stop the timer and flush what is buffered
+  async stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    await this.flush();
+  }
+
+  write(table: string, rows: Row[]) {
+    const buffer = this.buffers.get(table) || [];
+    buffer.push(...rows);
+    this.stats.bufferedRows += rows.length;
+
+    const overflow = buffer.length - this.options.maxBufferRows;
+    if (overflow > 0) {
+      buffer.splice(0, overflow);
+      this.stats.bufferedRows -= overflow;
+      this.drop(overflow, `buffer for ${table} is full`);
+    }
+    this.buffers.set(table, buffer);
+
+    if (buffer.length >= this.options.flushRows) {
+      this.flush().catch(error => console.error(`[${new Date().toISOString()}] ClickHouse flush failed:`, error));
+    }
+  }
+
+  getStats(): BatchWriterStats {
+    return { ...this.stats };
+  }
+
+  // Flush every buffer; concurrent callers share the flush in progress
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.flushAll().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async flushAll() {
+    const batches = Array.from(this.buffers.entries()).filter(([, rows]) => rows.length > 0);
+    if (batches.length === 0 && this.stats.spillFiles === 0) return;
+
+    this.buffers.clear();
+    this.stats.bufferedRows = 0;
+
+    let failure: Error | null = null;
+    try {
+      if (!(await this.isReady())) {
+        failure = new Error('ClickHouse is not available or its schema is behind');
+      }
+    } catch (error: any) {
+      failure = error;
+    }
+
+    // Older spilled rows go in before the new ones
+    if (!failure) {
+      failure = await this.replaySpilled();
+    }
+
+    for (const [table, rows] of batches) {
+      if (!failure) {
+        try {
+          await this.insert(table, rows);
+          this.stats.insertedRows += rows.length;
+          continue;
+        } catch (error: any) {
+          if (this.isDataError(error)) {
+            await this.reject(table, this.serialize(rows), rows.length, error);
+            continue;
+          }
+          failure = error;
+        }
+      }
+      await this.spill(table, rows);
+    }
+
+    if (failure) {
+      this.fail(failure);
+    } else if (this.degraded) {
+      this.degraded = false;
+      console.log(`[${new Date().toISOString()}] ClickHouse writes recovered`);
+    }
+    this.stats.lastFlushAt = new Date().toISOString();
+  }
+
+  // Insert spilled batches oldest first; returns the error if the database failed again.
+  // Files the database rejects (or that no longer parse) go to the dead-letter directory and replay carries on.
+  private async replaySpilled(): Promise<Error | null> {
+    for (const file of await this.spillFiles()) {
+      const table = path.basename(file).split('.')[0];
+      const content = await fs.readFile(file, 'utf-8');
+      const lines = content.split('\n').filter(Boolean);
+
+      let rejection: Error | null = null;
+      try {
+        await this.insert(table, lines.map(line => JSON.parse(line)));
+      } catch (error: any) {
+        if (!(error instanceof SyntaxError) && !this.isDataError(error)) return error;
+        rejection = error;
+      }
+
+      if (rejection) {
+        await this.reject(table, content, lines.length, rejection, path.basename(file));
+      } else {
+        this.stats.insertedRows += lines.length;
+        console.log(`[${new Date().toISOString()}] Replayed ${lines.length} spilled row(s) into ${table}`);
+      }
+      await fs.unlink(file);
+      this.stats.spilledRows -= lines.length;
+      this.stats.spillFiles--;
+      this.spillBytes -= Buffer.byteLength(content);
+    }
+    return null;
+  }
+
+  private serialize(rows: Row[]): string {
+    return rows.map(row => JSON.stringify(row)).join('\n') + '\n';
+  }
+
+  private spillName(table: string): string {
+    // <table>.<time>.<sequence>.jsonl sorts in write order
+    return `${table}.${Date.now()}.${String(this.spillSequence++).padStart(6, '0')}.jsonl`;
+  }
+
+  private async spill(table: string, rows: Row[]) {
+    const content = this.serialize(rows);
+    const bytes = Buffer.byteLength(content);
+    if (this.spillBytes + bytes > this.options.maxSpillBytes) {
+      this.drop(rows.length, `spill queue is full (${this.spillBytes} bytes)`);
+      return;
+    }
+
+    const name = this.spillName(table);
+    try {
+      await fs.mkdir(this.options.spillDir, { recursive: true });
+      await fs.writeFile(path.join(this.options.spillDir, name), content);
+    } catch (error: any) {
+      this.drop(rows.length, `spill failed: ${error.message}`);
+      return;
+    }
+
+    this.spillBytes += bytes;
+    this.stats.spillFiles++;
+    this.stats.spilledRows += rows.length;
+  }
+
+  // Keep a batch the database refused in the dead-letter directory; retrying it would only fail again
+  private async reject(table: string, content: string, count: number, error: Error, name: string = this.spillName(table)) {
+    try {
+      await fs.mkdir(this.options.deadLetterDir, { recursive: true });
+      await fs.writeFile(path.join(this.options.deadLetterDir, name), content);
+    } catch (writeError: any) {
+      this.drop(count, `${table} rejected the batch (${error.message}) and it could not be kept: ${writeError.message}`);
+      return;
+    }
+
+    this.stats.rejectedRows += count;
+    this.stats.deadLetterFiles++;
+    this.stats.lastError = error.message;
+    console.warn(`[${new Date().toISOString()}] ClickHouse rejected ${count} row(s) for ${table}, moved to ${path.join(this.options.deadLetterDir, name)}:`, error.message);
+  }
+
+  private async spillFiles(): Promise<string[]> {
+    const names = await fs.readdir(this.options.spillDir).catch(() => [] as string[]);
+    return names
+      .filter(name => name.endsWith('.jsonl'))
+      .sort((a, b) => {
+        // Order by time and sequence, not by table name
+        const key = (name: string) => name.split('.').slice(1, 3).map(part => part.padStart(16, '0')).join('.');
+        return key(a).localeCompare(key(b));
+      })
+      .map(name => path.join(this.options.spillDir, name));
+  }
+
+  private fail(error: Error) {
+    this.stats.failedFlushes++;
+    this.stats.lastError = error.message;
+    if (!this.degraded) {
+      this.degraded = true;
+      console.warn(`[${new Date().toISOString()}] ClickHouse writes failing, spilling to ${this.options.spillDir}:`, error.message);
+    }
+  }
+
+  private drop(count: number, reason: string) {
+    this.stats.droppedRows += count;
+    console.warn(`[${new Date().toISOString()}] Dropped ${count} ClickHouse row(s): ${reason} (${this.stats.droppedRows} dropped in total)`);
+  }
+}
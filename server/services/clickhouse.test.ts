@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const query = vi.fn();
+
+vi.mock('./clickhouseClient', () => ({
+  clickhouseClient: { query }
+}));
+
+const { getStockHistory } = await import('./clickhouse');
+
+const STOCK_QUOTE_COLUMNS = ['timestamp', 'symbol', 'price', 'change', 'change_percent', 'volume', 'market_cap', 'pe_ratio', 'day_high', 'day_low', 'previous_close', 'currency'];
+
+const row = {
+  time: '1700000000',
+  last_price: 101.5,
+  avg_price: 100.75,
+  high: 102,
+  low: 99.5,
+  last_change: 1.5,
+  last_change_percent: 1.5,
+  last_volume: '1200000',
+  samples: '12'
+};
+
+beforeEach(() => {
+  query.mockReset();
+  query.mockResolvedValue({ json: async () => [row] });
+});
+
+const range = { from: new Date(1_699_990_000_000), to: new Date(1_700_000_000_000), limit: 500 };
+
+describe('getStockHistory', () => {
+  it('never aliases an aggregate to a column name', async () => {
+    await getStockHistory('AAPL', { ...range, bucketSeconds: 300 });
+
+    const sql: string = query.mock.calls[0][0].query;
+    const aliases = Array.from(sql.matchAll(/\b(?:argMax|avg|max|min|sum|count)\([^)]*\)\s+AS\s+(\w+)/g), match => match[1]);
+    expect(aliases).toEqual(['last_price', 'avg_price', 'high', 'low', 'last_change', 'last_change_percent', 'last_volume', 'samples']);
+    aliases.forEach(alias => expect(STOCK_QUOTE_COLUMNS).not.toContain(alias));
+    expect(query.mock.calls[0][0].query_params).toMatchObject({ symbol: 'AAPL', bucket: 300, limit: 500 });
+  });
+
+  it.each([
+    ['bucketed', 300],
+    ['raw', undefined]
+  ])('maps %s rows back to history points', async (_, bucketSeconds) => {
+    const points = await getStockHistory('AAPL', { ...range, bucketSeconds });
+
+    expect(points).toEqual([{
+      timestamp: new Date(1_700_000_000_000),
+      price: 101.5,
+      avgPrice: 100.75,
+      high: 102,
+      low: 99.5,
+      change: 1.5,
+      changePercent: 1.5,
+      volume: 1_200_000,
+      samples: 12
+    }]);
+  });
+
+  it('selects the same columns with and without buckets', async () => {
+    await getStockHistory('AAPL', { ...range, bucketSeconds: 300 });
+    await getStockHistory('AAPL', range);
+
+    const selected = (sql: string) => Array.from(sql.matchAll(/\bAS\s+(\w+)/g), match => match[1]);
+    expect(selected(query.mock.calls[1][0].query)).toEqual(selected(query.mock.calls[0][0].query));
+  });
+});
@@ -1,97 +1,111 @@
-import { createClient } from '@clickhouse/client';
-import { CLICKHOUSE_CONFIG } from '../config/database';
-
-export const clickhouseClient = createClient({
-  url: `http://${CLICKHOUSE_CONFIG.host}:${CLICKHOUSE_CONFIG.port}`,
-  username: CLICKHOUSE_CONFIG.username,
-  password: CLICKHOUSE_CONFIG.password,
-  database: CLICKHOUSE_CONFIG.database,
-  request_timeout: 5000, // 5 second timeout
-  max_open_connections: 10,
-});
-
-// Initialize database and tables
+import { CLICKHOUSE_CONFIG, CLICKHOUSE_WRITER_CONFIG } from '../config/database';
+import { ClickHouseError } from '@clickhouse/client';
+import { clickhouseClient } from './clickhouseClient';
+import { getMigrationStatus, type MigrationStatus } from './migrations';
+import { BatchWriter } from './batchWriter';
+import type { StockProfile } from './marketData';
+import type { HeatmapSymbol } from '@shared/heatmap';
+
+export { clickhouseClient };
+
+export type BarInterval = '1m' | '5m' | '1h' | '1d';
+
+// Rollup tables fed from ohlcv_1m by materialized views (see migration 002)
+const BAR_ROLLUPS: { interval: BarInterval; table: string }[] = [
+  { interval: '5m', table: 'ohlcv_5m' },
+  { interval: '1h', table: 'ohlcv_1h' },
+  { interval: '1d', table: 'ohlcv_1d' },
+];
+
+export const BAR_INTERVALS: BarInterval[] = ['1m', ...BAR_ROLLUPS.map(rollup => rollup.interval)];
+
+// A completed OHLCV bar; `start` is the beginning of the bar's interval
+export interface OhlcvBar {
+  symbol: string;
+  start: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  ticks: number;
+}
+
+// Writes are held back (spilled to disk) until every migration is known to be applied
+let schemaReady = false;
+
+export function isSchemaReady(): boolean {
+  return schemaReady;
+}
+
+// Ping ClickHouse and check the applied migrations; throws if ClickHouse is unreachable
+async function checkSchema(): Promise<MigrationStatus[]> {
+  const ping = await Promise.race([
+    clickhouseClient.ping(),
+    new Promise<never>((_, reject) =>
+      setTimeout(() => reject(new Error('Connection timeout after 5 seconds')), 5000)
+    )
+  ]);
+  if (!ping.success) throw ping.error;
+
+  const status = await getMigrationStatus();
+  schemaReady = status.every(migration => migration.state !== 'pending');
+  return status;
+}
+
+// Server error codes that say nothing about the batch itself: overload, timeouts, network and read-only replicas
+const TRANSIENT_ERROR_CODES = new Set([
+  '159', // TIMEOUT_EXCEEDED
+  '164', // READONLY
+  '202', // TOO_MANY_SIMULTANEOUS_QUERIES
+  '203', // NO_FREE_CONNECTION
+  '209', // SOCKET_TIMEOUT
+  '210', // NETWORK_ERROR
+  '241', // MEMORY_LIMIT_EXCEEDED
+  '242', // TABLE_IS_READ_ONLY
+  '252', // TOO_MANY_PARTS
+  '394', // QUERY_WAS_CANCELLED
+]);
+
+// True when ClickHouse answered and refused the rows (bad values, unknown columns); connection failures
+// and other errors without a server code are worth retrying
+function isRejectedBatch(error: Error): boolean {
+  return error instanceof ClickHouseError && !TRANSIENT_ERROR_CODES.has(error.code);
+}
+
+// Every insert goes through this buffer; see BatchWriter
+export const clickhouseWriter = new BatchWriter(
+  async (table, rows) => {
+    await clickhouseClient.insert({ table: `${CLICKHOUSE_CONFIG.database}.${table}`, values: rows, format: 'JSONEachRow' });
+  },
+  async () => schemaReady || (await checkSchema(), schemaReady),
+  isRejectedBatch,
+  CLICKHOUSE_WRITER_CONFIG
+);
+
+// Connect to ClickHouse and verify the schema is up to date
 export async function initializeClickHouse() {
   try {
     console.log(`[${new Date().toISOString()}] Initializing ClickHouse database at ${CLICKHOUSE_CONFIG.host}:${CLICKHOUSE_CONFIG.port}...`);
 
-    // Test connection first with timeout
-    await Promise.race([
-      clickhouseClient.ping(),
-      new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Connection timeout after 5 seconds')), 5000)
-      )
-    ]);
+    // The schema is managed by migrations (npm run clickhouse:migrate); never write to an outdated one
+    const status = await checkSchema();
     console.log(`[${new Date().toISOString()}] ClickHouse connection successful`);
 
-    // Create database if it doesn't exist
-    await clickhouseClient.exec({
-      query: `CREATE DATABASE IF NOT EXISTS ${CLICKHOUSE_CONFIG.database}`,
-    });
-
-    // Create stock_quotes table for time-series price data
-    await clickhouseClient.exec({
-      query: `
-        CREATE TABLE IF NOT EXISTS ${CLICKHOUSE_CONFIG.database}.stock_quotes (
-          timestamp DateTime,
-          symbol String,
-          price Float64,
-          change Float64,
-          change_percent Float64,
-          volume UInt64,
-          market_cap UInt64,
-          pe_ratio Float64,
-          day_high Float64,
-          day_low Float64,
-          previous_close Float64,
-          currency String
-        ) ENGINE = MergeTree()
-        PARTITION BY toYYYYMM(timestamp)
-        ORDER BY (symbol, timestamp)
-        TTL timestamp + INTERVAL 1 YEAR
-      `,
-    });
-
-    // Create market_movers table for daily gainers/losers
-    await clickhouseClient.exec({
-      query: `
-        CREATE TABLE IF NOT EXISTS ${CLICKHOUSE_CONFIG.database}.market_movers (
-          timestamp DateTime,
-          type String, -- 'gainers' or 'losers'
-          symbol String,
-          name String,
-          price Float64,
-          change_percent Float64,
-          rank UInt32 -- position in the list (1-20)
-        ) ENGINE = MergeTree()
-        PARTITION BY toYYYYMMDD(timestamp)
-        ORDER BY (type, timestamp, rank)
-        TTL timestamp + INTERVAL 30 DAY
-      `,
-    });
-
-    // Create stock_metadata table for static stock info
-    await clickhouseClient.exec({
-      query: `
-        CREATE TABLE IF NOT EXISTS ${CLICKHOUSE_CONFIG.database}.stock_metadata (
-          symbol String,
-          name String,
-          sector String,
-          industry String,
-          country String,
-          exchange String,
-          last_updated DateTime,
-          INDEX symbol_idx symbol TYPE bloom_filter GRANULARITY 1
-        ) ENGINE = ReplacingMergeTree(last_updated)
-        ORDER BY symbol
-      `,
+    status.filter(migration => migration.state === 'modified').forEach(migration => {
+      console.warn(`[${new Date().toISOString()}] ClickHouse migration ${migration.version} (${migration.name}) changed after it was applied`);
     });
+    const pending = status.filter(migration => migration.state === 'pending');
+    if (pending.length > 0) {
+      console.error(`[${new Date().toISOString()}] ClickHouse schema is behind (pending migrations: ${pending.map(migration => migration.version).join(', ')}); writes are spilled to disk until \`npm run clickhouse:migrate -- apply\` is run`);
+      return;
+    }
 
     console.log(`[${new Date().toISOString()}] ClickHouse database initialized successfully`);
   } catch (error: any) {
     const errorMsg = error?.message || String(error);
     if (errorMsg.includes('socket hang up') || errorMsg.includes('ECONNREFUSED') || errorMsg.includes('timeout')) {
-      console.warn(`[${new Date().toISOString()}] ClickHouse is not available at ${CLICKHOUSE_CONFIG.host}:${CLICKHOUSE_CONFIG.port} (server will continue without database storage)`);
+      console.warn(`[${new Date().toISOString()}] ClickHouse is not available at ${CLICKHOUSE_CONFIG.host}:${CLICKHOUSE_CONFIG.port} (writes are spilled to disk until it is)`);
       console.warn(`[${new Date().toISOString()}] To enable ClickHouse: install and start ClickHouse server, or set CLICKHOUSE_HOST environment variable`);
     } else {
       console.warn(`[${new Date().toISOString()}] ClickHouse initialization failed (server will continue without database):`, errorMsg);
@@ -100,81 +114,159 @@ export async function initializeClickHouse() {
   }
 }
 
-// Store stock quote data
+// Queue stock quote data for the next batched insert
 export async function storeStockQuote(quote: any) {
-  try {
-    await clickhouseClient.insert({
-      table: `${CLICKHOUSE_CONFIG.database}.stock_quotes`,
-      values: [{
-        timestamp: new Date(),
-        symbol: quote.symbol,
-        price: quote.price || 0,
-        change: quote.change || 0,
-        change_percent: quote.changePercent || 0,
-        volume: quote.volume || 0,
-        market_cap: quote.marketCap || 0,
-        pe_ratio: quote.peRatio || 0,
-        day_high: 0, // Not provided in current data
-        day_low: 0,  // Not provided in current data
-        previous_close: 0, // Not provided in current data
-        currency: 'USD'
-      }],
-      format: 'JSONEachRow',
-    });
-  } catch (error) {
-    // Silently fail if ClickHouse is not available - don't log errors
-    // The calling code will handle this gracefully
-    return;
-  }
+  clickhouseWriter.write('stock_quotes', [{
+    timestamp: Math.floor((quote.timestamp?.getTime() ?? Date.now()) / 1000), // DateTime as unix seconds
+    symbol: quote.symbol,
+    price: quote.price || 0,
+    change: quote.change || 0,
+    change_percent: quote.changePercent || 0,
+    volume: quote.volume || 0,
+    market_cap: quote.marketCap || 0,
+    pe_ratio: quote.peRatio || 0,
+    day_high: quote.dayHigh || 0,
+    day_low: quote.dayLow || 0,
+    previous_close: quote.previousClose || 0,
+    currency: quote.currency || 'USD'
+  }]);
+}
+
+// Queue completed 1-minute bars; the rollup views derive the coarser intervals
+export async function storeBars(bars: OhlcvBar[]) {
+  clickhouseWriter.write('ohlcv_1m', bars.map(bar => ({
+    symbol: bar.symbol,
+    minute: Math.floor(bar.start.getTime() / 1000),
+    open: bar.open,
+    high: bar.high,
+    low: bar.low,
+    close: bar.close,
+    volume: bar.volume,
+    ticks: bar.ticks
+  })));
 }
 
-// Store market movers data
+// Queue market movers data
 export async function storeMarketMovers(type: 'gainers' | 'losers', movers: any[]) {
-  try {
-    const values = movers.map((mover, index) => ({
-      timestamp: new Date(),
-      type,
-      symbol: mover.symbol,
-      name: mover.name,
-      price: mover.price,
-      change_percent: mover.changePercent,
-      rank: index + 1
-    }));
-
-    await clickhouseClient.insert({
-      table: `${CLICKHOUSE_CONFIG.database}.market_movers`,
-      values,
-      format: 'JSONEachRow',
-    });
+  const timestamp = Math.floor(Date.now() / 1000);
+  clickhouseWriter.write('market_movers', movers.map((mover, index) => ({
+    timestamp,
+    type,
+    symbol: mover.symbol,
+    name: mover.name,
+    price: mover.price,
+    change_percent: mover.changePercent,
+    rank: index + 1
+  })));
+}
 
-    console.log(`[${new Date().toISOString()}] Stored ${movers.length} ${type} in ClickHouse`);
-  } catch (error) {
-    // Silently fail if ClickHouse is not available - don't log errors
-    // The calling code will handle this gracefully
-    return;
-  }
+// Queue company profiles; ReplacingMergeTree keeps the latest row per symbol
+export async function storeStockMetadata(profiles: StockProfile[], updatedAt: Date = new Date()) {
+  const lastUpdated = Math.floor(updatedAt.getTime() / 1000);
+  clickhouseWriter.write('stock_metadata', profiles.map(profile => ({
+    symbol: profile.symbol,
+    name: profile.name,
+    sector: profile.sector,
+    industry: profile.industry,
+    country: profile.country,
+    exchange: profile.exchange,
+    last_updated: lastUpdated
+  })));
 }
 
 // Query functions for retrieving stored data
-export async function getStockHistory(symbol: string, days: number = 30) {
-  try {
-    const result = await clickhouseClient.query({
-      query: `
-        SELECT *
-        FROM ${CLICKHOUSE_CONFIG.database}.stock_quotes
-        WHERE symbol = {symbol:String}
-        AND timestamp >= now() - INTERVAL {days:UInt32} DAY
-        ORDER BY timestamp DESC
-      `,
-      query_params: { symbol, days },
-      format: 'JSONEachRow',
-    });
 
-    return result.json();
-  } catch (error) {
-    console.error(`[${new Date().toISOString()}] Error querying stock history for ${symbol}:`, error);
-    return [];
-  }
+export interface StockHistoryQuery {
+  from: Date;
+  to: Date;
+  limit: number; // most recent points (raw quotes or buckets) returned
+  bucketSeconds?: number; // downsample into buckets of this width; raw quotes when omitted
+}
+
+// A stored quote, or the summary of the quotes in one bucket
+export interface StockHistoryPoint {
+  timestamp: Date; // quote time, or the start of the bucket
+  price: number; // last price in the bucket
+  avgPrice: number;
+  high: number;
+  low: number;
+  change: number;
+  changePercent: number;
+  volume: number;
+  samples: number; // quotes in the bucket
+}
+
+// Stored quotes of a symbol between two dates, oldest first.
+// With a bucket width ClickHouse downsamples them so long ranges come back chart-sized.
+export async function getStockHistory(symbol: string, options: StockHistoryQuery): Promise<StockHistoryPoint[]> {
+  const params = {
+    symbol,
+    from: Math.floor(options.from.getTime() / 1000),
+    to: Math.floor(options.to.getTime() / 1000),
+    limit: options.limit,
+    bucket: options.bucketSeconds || 0,
+  };
+
+  // The latest `limit` points are selected, then put back in time order.
+  // Aggregates must not be aliased to column names: ClickHouse would resolve `price` in avg(price) to argMax(...)
+  const query = options.bucketSeconds
+    ? `
+        SELECT * FROM (
+          SELECT
+            toUnixTimestamp(toStartOfInterval(timestamp, toIntervalSecond({bucket:UInt32}))) AS time,
+            argMax(price, timestamp) AS last_price,
+            avg(price) AS avg_price,
+            max(price) AS high,
+            min(price) AS low,
+            argMax(change, timestamp) AS last_change,
+            argMax(change_percent, timestamp) AS last_change_percent,
+            argMax(volume, timestamp) AS last_volume,
+            count() AS samples
+          FROM ${CLICKHOUSE_CONFIG.database}.stock_quotes
+          WHERE symbol = {symbol:String}
+          AND timestamp >= toDateTime({from:UInt32}) AND timestamp <= toDateTime({to:UInt32})
+          GROUP BY time
+          ORDER BY time DESC
+          LIMIT {limit:UInt32}
+        )
+        ORDER BY time
+      `
+    : `
+        SELECT * FROM (
+          SELECT
+            toUnixTimestamp(timestamp) AS time,
+            price AS last_price,
+            price AS avg_price,
+            price AS high,
+            price AS low,
+            change AS last_change,
+            change_percent AS last_change_percent,
+            volume AS last_volume,
+            1 AS samples
+          FROM ${CLICKHOUSE_CONFIG.database}.stock_quotes
+          WHERE symbol = {symbol:String}
+          AND timestamp >= toDateTime({from:UInt32}) AND timestamp <= toDateTime({to:UInt32})
+          ORDER BY timestamp DESC
+          LIMIT {limit:UInt32}
+        )
+        ORDER BY time
+      `;
+
+  const result = await clickhouseClient.query({ query, query_params: params, format: 'JSONEachRow' });
+  const rows = await result.json<any>();
+
+  // 64-bit integers arrive as strings
+  return rows.map(row => ({
+    timestamp: new Date(Number(row.time) * 1000),
+    price: Number(row.last_price),
+    avgPrice: Number(row.avg_price),
+    high: Number(row.high),
+    low: Number(row.low),
+    change: Number(row.last_change),
+    changePercent: Number(row.last_change_percent),
+    volume: Number(row.last_volume),
+    samples: Number(row.samples)
+  }));
 }
 
 export async function getLatestMarketMovers(type: 'gainers' | 'losers', limit: number = 20) {
@@ -197,4 +289,363 @@ export async function getLatestMarketMovers(type: 'gainers' | 'losers', limit: n
     console.error(`[${new Date().toISOString()}] Error querying market movers (${type}):`, error);
     return [];
   }
-}
\ No newline at end of file
+}
+
+// Every stored movers row of the last `days`, newest snapshot first
+export async function getMarketMoversHistory(type: 'gainers' | 'losers', days: number, limit: number) {
+  const result = await clickhouseClient.query({
+    query: `
+      SELECT *
+      FROM ${CLICKHOUSE_CONFIG.database}.market_movers
+      WHERE type = {type:String}
+      AND timestamp >= now() - INTERVAL {days:UInt32} DAY
+      ORDER BY timestamp DESC, rank ASC
+      LIMIT {limit:UInt32}
+    `,
+    query_params: { type, days, limit },
+    format: 'JSONEachRow',
+  });
+
+  return result.json();
+}
+
+// How a symbol fared on a movers list over a period
+export interface MoverStats {
+  symbol: string;
+  name: string;
+  appearances: number; // snapshots the symbol was listed in
+  snapshots: number; // snapshots taken in the period
+  avgRank: number;
+  bestRank: number;
+  avgChangePercent: number;
+  firstSeen: Date;
+  lastSeen: Date;
+  listedSeconds: number; // time on the list, summed over the snapshots it was in
+}
+
+// Symbols that appeared most often on a movers list in the last `days`.
+// A listed snapshot counts until the next snapshot, but never longer than `maxGapSeconds`,
+// so time the server was down is not counted.
+export async function getMoversAnalytics(
+  type: 'gainers' | 'losers',
+  days: number,
+  limit: number,
+  maxGapSeconds: number
+): Promise<MoverStats[]> {
+  const result = await clickhouseClient.query({
+    query: `
+      WITH snapshots AS (
+        SELECT
+          timestamp,
+          leadInFrame(timestamp) OVER (ORDER BY timestamp ROWS BETWEEN CURRENT ROW AND 1 FOLLOWING) AS next_timestamp
+        FROM (
+          SELECT DISTINCT timestamp
+          FROM ${CLICKHOUSE_CONFIG.database}.market_movers
+          WHERE type = {type:String}
+          AND timestamp >= now() - INTERVAL {days:UInt32} DAY
+        )
+      )
+      SELECT
+        m.symbol AS symbol,
+        argMax(m.name, m.timestamp) AS name,
+        count() AS appearances,
+        (SELECT count() FROM snapshots) AS snapshots,
+        avg(m.rank) AS avg_rank,
+        min(m.rank) AS best_rank,
+        avg(m.change_percent) AS avg_change_percent,
+        toUnixTimestamp(min(m.timestamp)) AS first_seen,
+        toUnixTimestamp(max(m.timestamp)) AS last_seen,
+        sum(if(s.next_timestamp > s.timestamp, least(dateDiff('second', s.timestamp, s.next_timestamp), {maxGap:UInt32}), 0)) AS listed_seconds
+      FROM ${CLICKHOUSE_CONFIG.database}.market_movers AS m
+      INNER JOIN snapshots AS s ON m.timestamp = s.timestamp
+      WHERE m.type = {type:String}
+      AND m.timestamp >= now() - INTERVAL {days:UInt32} DAY
+      GROUP BY m.symbol
+      ORDER BY appearances DESC, avg_rank ASC
+      LIMIT {limit:UInt32}
+    `,
+    query_params: { type, days, limit, maxGap: maxGapSeconds },
+    format: 'JSONEachRow',
+  });
+  const rows = await result.json<any>();
+
+  // 64-bit integers arrive as strings
+  return rows.map(row => ({
+    symbol: row.symbol,
+    name: row.name,
+    appearances: Number(row.appearances),
+    snapshots: Number(row.snapshots),
+    avgRank: Number(row.avg_rank),
+    bestRank: Number(row.best_rank),
+    avgChangePercent: Number(row.avg_change_percent),
+    firstSeen: new Date(Number(row.first_seen) * 1000),
+    lastSeen: new Date(Number(row.last_seen) * 1000),
+    listedSeconds: Number(row.listed_seconds)
+  }));
+}
+
+// Query OHLCV bars for a symbol between two dates, oldest first
+export async function getBars(symbol: string, interval: BarInterval, from: Date, to: Date): Promise<OhlcvBar[]> {
+  const params = {
+    symbol,
+    from: Math.floor(from.getTime() / 1000),
+    to: Math.floor(to.getTime() / 1000),
+  };
+
+  const rollup = BAR_ROLLUPS.find(candidate => candidate.interval === interval);
+  const query = rollup
+    ? `
+        SELECT
+          toUnixTimestamp(bucket) AS start,
+          argMinMerge(open) AS open,
+          max(high) AS high,
+          min(low) AS low,
+          argMaxMerge(close) AS close,
+          sum(volume) AS volume,
+          sum(ticks) AS ticks
+        FROM ${CLICKHOUSE_CONFIG.database}.${rollup.table}
+        WHERE symbol = {symbol:String}
+        AND bucket >= toDateTime({from:UInt32}) AND bucket <= toDateTime({to:UInt32})
+        GROUP BY bucket
+        ORDER BY bucket
+      `
+    : `
+        SELECT toUnixTimestamp(minute) AS start, open, high, low, close, volume, ticks
+        FROM ${CLICKHOUSE_CONFIG.database}.ohlcv_1m
+        WHERE symbol = {symbol:String}
+        AND minute >= toDateTime({from:UInt32}) AND minute <= toDateTime({to:UInt32})
+        ORDER BY minute
+      `;
+
+  const result = await clickhouseClient.query({ query, query_params: params, format: 'JSONEachRow' });
+  const rows = await result.json<any>();
+
+  // 64-bit integers arrive as strings
+  return rows.map(row => ({
+    symbol,
+    start: new Date(Number(row.start) * 1000),
+    open: Number(row.open),
+    high: Number(row.high),
+    low: Number(row.low),
+    close: Number(row.close),
+    volume: Number(row.volume),
+    ticks: Number(row.ticks)
+  }));
+}
+
+// Summary of a stored optimizer run
+export interface OptimizationSummary {
+  id: string;
+  strategy: string;
+  symbols: string[];
+  interval: string;
+  from: Date;
+  to: Date;
+  method: string;
+  objective: string;
+  bestParams: Record<string, number>;
+  inSampleScore: number | null;
+  outOfSampleScore: number | null;
+  createdAt: Date;
+}
+
+// Store an optimizer run: its summary and the full result as JSON
+export async function storeOptimization(summary: OptimizationSummary, result: unknown) {
+  clickhouseWriter.write('strategy_optimizations', [{
+    id: summary.id,
+    strategy: summary.strategy,
+    symbols: summary.symbols,
+    interval: summary.interval,
+    from_time: Math.floor(summary.from.getTime() / 1000),
+    to_time: Math.floor(summary.to.getTime() / 1000),
+    method: summary.method,
+    objective: summary.objective,
+    best_params: JSON.stringify(summary.bestParams),
+    in_sample_score: summary.inSampleScore,
+    out_of_sample_score: summary.outOfSampleScore,
+    result: JSON.stringify(result),
+    created_at: Math.floor(summary.createdAt.getTime() / 1000)
+  }]);
+}
+
+// Most recent optimizer runs, optionally of one strategy
+export async function listOptimizations(strategy: string | undefined, limit: number): Promise<OptimizationSummary[]> {
+  const result = await clickhouseClient.query({
+    query: `
+      SELECT
+        id, strategy, symbols, interval, method, objective, best_params, in_sample_score, out_of_sample_score,
+        toUnixTimestamp(from_time) AS from_time, toUnixTimestamp(to_time) AS to_time, toUnixTimestamp(created_at) AS created_at
+      FROM ${CLICKHOUSE_CONFIG.database}.strategy_optimizations
+      ${strategy ? 'WHERE strategy = {strategy:String}' : ''}
+      ORDER BY created_at DESC
+      LIMIT {limit:UInt32}
+    `,
+    query_params: { strategy: strategy || '', limit },
+    format: 'JSONEachRow',
+  });
+  const rows = await result.json<any>();
+
+  return rows.map(row => ({
+    id: row.id,
+    strategy: row.strategy,
+    symbols: row.symbols,
+    interval: row.interval,
+    from: new Date(Number(row.from_time) * 1000),
+    to: new Date(Number(row.to_time) * 1000),
+    method: row.method,
+    objective: row.objective,
+    bestParams: JSON.parse(row.best_params),
+    inSampleScore: row.in_sample_score === null ? null : Number(row.in_sample_score),
+    outOfSampleScore: row.out_of_sample_score === null ? null : Number(row.out_of_sample_score),
+    createdAt: new Date(Number(row.created_at) * 1000)
+  }));
+}
+
+// Full result of a stored optimizer run, or null if there is none with this id
+export async function getOptimizationResult(id: string): Promise<unknown | null> {
+  const result = await clickhouseClient.query({
+    query: `
+      SELECT result
+      FROM ${CLICKHOUSE_CONFIG.database}.strategy_optimizations
+      WHERE id = {id:String}
+      LIMIT 1
+    `,
+    query_params: { id },
+    format: 'JSONEachRow',
+  });
+  const [row] = await result.json<any>();
+
+  return row ? JSON.parse(row.result) : null;
+}
+
+// Query stored company profiles with the time each was last updated
+export async function getStockMetadata(symbols: string[]): Promise<{ profile: StockProfile; updatedAt: Date }[]> {
+  if (symbols.length === 0) return [];
+
+  const result = await clickhouseClient.query({
+    query: `
+      SELECT symbol, name, sector, industry, country, exchange, toUnixTimestamp(last_updated) AS last_updated
+      FROM ${CLICKHOUSE_CONFIG.database}.stock_metadata FINAL
+      WHERE symbol IN {symbols:Array(String)}
+    `,
+    query_params: { symbols },
+    format: 'JSONEachRow',
+  });
+  const rows = await result.json<any>();
+
+  return rows.map(row => ({
+    profile: {
+      symbol: row.symbol,
+      name: row.name,
+      sector: row.sector,
+      industry: row.industry,
+      country: row.country,
+      exchange: row.exchange
+    },
+    updatedAt: new Date(Number(row.last_updated) * 1000)
+  }));
+}
+
+// Latest stored quote of every symbol quoted in the last `hours`, with its sector and industry
+export async function getLatestQuotesWithMetadata(hours: number): Promise<HeatmapSymbol[]> {
+  const result = await clickhouseClient.query({
+    query: `
+      SELECT
+        q.symbol AS symbol,
+        m.name AS name,
+        m.sector AS sector,
+        m.industry AS industry,
+        q.price AS price,
+        q.change_percent AS change_percent,
+        q.volume AS volume,
+        q.market_cap AS market_cap
+      FROM (
+        SELECT
+          symbol,
+          argMax(price, timestamp) AS price,
+          argMax(change_percent, timestamp) AS change_percent,
+          argMax(volume, timestamp) AS volume,
+          argMax(market_cap, timestamp) AS market_cap
+        FROM ${CLICKHOUSE_CONFIG.database}.stock_quotes
+        WHERE timestamp >= now() - INTERVAL {hours:UInt32} HOUR
+        GROUP BY symbol
+      ) AS q
+      LEFT JOIN (
+        SELECT symbol, name, sector, industry
+        FROM ${CLICKHOUSE_CONFIG.database}.stock_metadata FINAL
+      ) AS m ON q.symbol = m.symbol
+    `,
+    query_params: { hours },
+    format: 'JSONEachRow',
+  });
+  const rows = await result.json<any>();
+
+  // Symbols without metadata come back with empty strings
+  return rows.map(row => ({
+    symbol: row.symbol,
+    name: row.name || row.symbol,
+    sector: row.sector,
+    industry: row.industry,
+    price: Number(row.price),
+    changePercent: Number(row.change_percent),
+    volume: Number(row.volume),
+    marketCap: Number(row.market_cap)
+  }));
+}
+
+// A previous session counts only if it has a stored quote this close to the time of day being compared
+const AVERAGE_VOLUME_TOLERANCE_SECONDS = 15 * 60;
+
+// Trading session the average volume is compared against
+export interface VolumeSession {
+  date: string; // YYYY-MM-DD in `timezone`
+  timezone: string;
+  openSecond: number; // seconds after midnight
+}
+
+// Average cumulative volume `elapsedSeconds` after the open over the last `sessions` session dates before
+// `session.date`. Uses the same cumulative day volume the quotes report, taken from the latest stored quote
+// by that time of day; sessions without one close to it (weekends, holidays, downtime) are left out. Null if none.
+export async function getAverageVolumeAtTime(symbol: string, session: VolumeSession, elapsedSeconds: number, sessions: number): Promise<number | null> {
+  const target = session.openSecond + Math.max(60, Math.floor(elapsedSeconds));
+  // Enough calendar days to hold `sessions` trading days, with room for holidays
+  const lookbackDays = Math.ceil(sessions * 7 / 5) + 10;
+
+  const result = await clickhouseClient.query({
+    query: `
+      SELECT avg(session_volume) AS average, count() AS sessions
+      FROM (
+        SELECT session, argMax(volume, timestamp) AS session_volume, max(second_of_day) AS last_second
+        FROM (
+          SELECT
+            timestamp,
+            volume,
+            toDate(timestamp, {timezone:String}) AS session,
+            toHour(timestamp, {timezone:String}) * 3600 + toMinute(timestamp, {timezone:String}) * 60 + toSecond(timestamp) AS second_of_day
+          FROM ${CLICKHOUSE_CONFIG.database}.stock_quotes
+          WHERE symbol = {symbol:String}
+          AND timestamp >= toDateTime({date:Date}, {timezone:String}) - INTERVAL {lookback:UInt32} DAY
+        )
+        WHERE session < {date:Date} AND second_of_day >= {open:UInt32} AND second_of_day <= {target:UInt32}
+        GROUP BY session
+        HAVING last_second >= {target:UInt32} - {tolerance:UInt32} AND session_volume > 0
+        ORDER BY session DESC
+        LIMIT {sessions:UInt32}
+      )
+    `,
+    query_params: {
+      symbol,
+      timezone: session.timezone,
+      date: session.date,
+      lookback: lookbackDays,
+      open: session.openSecond,
+      target,
+      tolerance: AVERAGE_VOLUME_TOLERANCE_SECONDS,
+      sessions
+    },
+    format: 'JSONEachRow',
+  });
+  const [row] = await result.json<any>();
+
+  return row && Number(row.sessions) > 0 ? Number(row.average) : null;
+}
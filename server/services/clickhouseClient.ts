@@ -0,0 +1,12 @@
+import { createClient } from '@clickhouse/client';
+import { CLICKHOUSE_CONFIG } from '../config/database';
+
+// Shared by the storage/query functions and the migration runner
+export const clickhouseClient = createClient({
+  url: `http://${CLICKHOUSE_CONFIG.host}:${CLICKHOUSE_CONFIG.port}`,
+  username: CLICKHOUSE_CONFIG.username,
+  password: CLICKHOUSE_CONFIG.password,
+  database: CLICKHOUSE_CONFIG.database,
+  request_timeout: 5000, // 5 second timeout
+  max_open_connections: 10,
+});
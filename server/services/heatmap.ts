@@ -0,0 +1,56 @@
+import { buildHeatmap, type HeatmapSymbol, type MarketHeatmap } from '@shared/heatmap';
+import { getLatestQuotesWithMetadata, isSchemaReady } from './clickhouse';
+import { getStockQuotes, getMarketMovers } from './marketData';
+import { getKnownProfiles, withSectors } from './metadata';
+import { BROADCASTER_CONFIG } from '../config/broadcaster';
+import { chunk, mapWithConcurrency } from '../utils/helpers';
+
+// Live quotes of every symbol with a known profile, for when nothing is stored.
+// The current movers are looked up first so a fresh server still has something to show.
+async function getLiveTiles(): Promise<HeatmapSymbol[]> {
+  const [gainers, losers] = await Promise.all([getMarketMovers('gainers', 20), getMarketMovers('losers', 20)]);
+  await withSectors([...gainers, ...losers]);
+
+  const profiles = new Map(getKnownProfiles().map(profile => [profile.symbol, profile]));
+  const batches = chunk(Array.from(profiles.keys()), BROADCASTER_CONFIG.quoteBatchSize);
+  const results = await mapWithConcurrency(batches, BROADCASTER_CONFIG.quoteConcurrency, getStockQuotes);
+
+  return results.flatMap(result => result.status === 'fulfilled' ? result.value : []).map(quote => ({
+    symbol: quote.symbol,
+    name: quote.name,
+    sector: profiles.get(quote.symbol)?.sector || '',
+    industry: profiles.get(quote.symbol)?.industry || '',
+    price: quote.price,
+    changePercent: quote.changePercent,
+    volume: quote.volume,
+    marketCap: quote.marketCap
+  }));
+}
+
+// Sector > industry > symbol heatmap of the latest quotes stored in the last `hours`.
+// While ClickHouse is unavailable it is built from live quotes of the symbols whose profile is known.
+export async function getMarketHeatmap(hours: number): Promise<MarketHeatmap> {
+  let tiles: HeatmapSymbol[] = [];
+
+  if (isSchemaReady()) {
+    try {
+      tiles = await getLatestQuotesWithMetadata(hours);
+    } catch (error: any) {
+      console.warn(`[${new Date().toISOString()}] Heatmap query failed, using live quotes:`, error.message);
+    }
+  }
+
+  if (tiles.length === 0) {
+    tiles = await getLiveTiles();
+  }
+
+  // Profiles synced since the last stock_metadata flush fill in what the join missed
+  const profiles = new Map(getKnownProfiles().map(profile => [profile.symbol, profile]));
+  tiles = tiles.map(tile => ({
+    ...tile,
+    sector: tile.sector || profiles.get(tile.symbol)?.sector || '',
+    industry: tile.industry || profiles.get(tile.symbol)?.industry || ''
+  }));
+
+  return { sectors: buildHeatmap(tiles), timestamp: Date.now() };
+}
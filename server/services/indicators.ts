@@ -0,0 +1,114 @@
+import { calculateRSI, calculateMACD, calculateBollingerBands, calculateEMA } from './ai-strategies';
+import { getHistoricalData, type Interval } from './marketData';
+import { atr } from '@shared/indicators';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Bar intervals indicators can be computed over, with how far back their bars are fetched
+export const INDICATOR_LOOKBACK_MS: Partial<Record<Interval, number>> = {
+  '5m': 5 * DAY_MS,
+  '15m': 14 * DAY_MS,
+  '1d': 365 * DAY_MS,
+  '1wk': 5 * 365 * DAY_MS,
+};
+
+export interface IndicatorPeriods {
+  rsi: number;
+  ema: number;
+  bollinger: number;
+  bollingerStdDev: number;
+  atr: number;
+}
+
+export const DEFAULT_INDICATOR_PERIODS: IndicatorPeriods = {
+  rsi: 14,
+  ema: 20,
+  bollinger: 20,
+  bollingerStdDev: 2,
+  atr: 14,
+};
+
+// MACD uses the classic 12/26 EMAs and a 9-period signal line, which starts once the slow EMA has
+const MACD_BARS = 26 + 9 - 1;
+
+// Latest indicator values of a symbol over its recent bars
+export interface IndicatorSnapshot {
+  symbol: string;
+  interval: Interval;
+  bars: number;
+  asOf: Date; // date of the last bar
+  price: number; // close of the last bar
+  rsi: { period: number; value: number };
+  macd: { macd: number; signal: number; histogram: number };
+  ema: { period: number; value: number };
+  bollinger: { period: number; stdDev: number; upper: number; middle: number; lower: number; percentB: number | null };
+  atr: {
+    period: number;
+    value: number;
+    percent: number; // ATR as a percentage of the close
+    percentile: number; // rank of the current ATR percent among all of the fetched history, 0-100
+  };
+}
+
+function round(value: number, decimals: number = 4): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// Bars needed before every indicator has a full window
+export function requiredBars(periods: IndicatorPeriods): number {
+  return Math.max(periods.rsi + 1, periods.ema, periods.bollinger, periods.atr + 1, MACD_BARS);
+}
+
+// Compute RSI, MACD, EMA, Bollinger Bands and the ATR volatility percentile from historical bars;
+// null when the provider returned fewer bars than the periods need
+export async function getIndicatorSnapshot(
+  symbol: string,
+  interval: Interval = '1d',
+  periods: IndicatorPeriods = DEFAULT_INDICATOR_PERIODS
+): Promise<IndicatorSnapshot | null> {
+  const to = new Date();
+  const from = new Date(to.getTime() - (INDICATOR_LOOKBACK_MS[interval] || INDICATOR_LOOKBACK_MS['1d']!));
+  const bars = (await getHistoricalData(symbol, from, to, interval)).filter(bar => bar.close > 0);
+  if (bars.length < requiredBars(periods)) return null;
+
+  const closes = bars.map(bar => bar.close);
+  const last = bars[bars.length - 1];
+  const macd = calculateMACD(closes);
+  const bands = calculateBollingerBands(closes, periods.bollinger, periods.bollingerStdDev);
+  const bandWidth = bands.upper - bands.lower;
+
+  // ATR relative to price, so volatility compares across price levels
+  const atrSeries = atr(bars, periods.atr);
+  const atrPercents = atrSeries
+    .map((value, i) => value === null ? null : (value / bars[i].close) * 100)
+    .filter((percent): percent is number => percent !== null);
+  const atrValue = atrSeries[atrSeries.length - 1]!;
+  const atrPercent = atrPercents[atrPercents.length - 1];
+  const atMostCurrent = atrPercents.filter(percent => percent <= atrPercent).length;
+
+  return {
+    symbol: symbol.toUpperCase(),
+    interval,
+    bars: bars.length,
+    asOf: last.date,
+    price: last.close,
+    rsi: { period: periods.rsi, value: round(calculateRSI(closes, periods.rsi), 2) },
+    macd: { macd: round(macd.macd), signal: round(macd.signal), histogram: round(macd.histogram) },
+    ema: { period: periods.ema, value: round(calculateEMA(closes, periods.ema)) },
+    bollinger: {
+      period: periods.bollinger,
+      stdDev: periods.bollingerStdDev,
+      upper: round(bands.upper),
+      middle: round(bands.middle),
+      lower: round(bands.lower),
+      percentB: bandWidth > 0 ? round((last.close - bands.lower) / bandWidth) : null,
+    },
+    atr: {
+      period: periods.atr,
+      value: round(atrValue),
+      percent: round(atrPercent),
+      percentile: round((atMostCurrent / atrPercents.length) * 100, 1),
+    },
+  };
+}
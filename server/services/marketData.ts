@@ -0,0 +1,145 @@
+import { MARKET_DATA_CONFIG } from '../config/marketData';
+import { YahooFinanceProvider } from './yahooFinance';
+import { SimulatedMarketProvider } from './simulator';
+import { RecordingProvider, ReplayProvider, parseReplaySpeed } from './replay';
+
+// Stock quote interface
+export interface StockQuote {
+  symbol: string;
+  name: string;
+  price: number;
+  change: number;
+  changePercent: number;
+  volume: number;
+  marketCap: number;
+  peRatio: number;
+  dayHigh: number;
+  dayLow: number;
+  previousClose: number;
+  currency: string;
+}
+
+// Market mover interface
+export interface MarketMover {
+  symbol: string;
+  name: string;
+  price: number;
+  changePercent: number;
+  volume: number;
+  currency: string;
+}
+
+// Historical OHLCV bar
+export interface HistoricalBar {
+  date: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// Symbol search result
+export interface SymbolSearchResult {
+  symbol: string;
+  name: string;
+  exchange: string;
+  type: string;
+}
+
+// Company profile as stored in stock_metadata
+export interface StockProfile {
+  symbol: string;
+  name: string;
+  sector: string;
+  industry: string;
+  country: string;
+  exchange: string;
+}
+
+export type Interval = '1m' | '5m' | '15m' | '1d' | '1wk' | '1mo';
+
+// Source of quotes, screener movers, historical bars, symbol search and company profiles
+export interface MarketDataProvider {
+  readonly name: string;
+  getQuote(symbol: string): Promise<StockQuote>;
+  // Batch quote; symbols without data are left out of the result
+  getQuotes(symbols: string[]): Promise<StockQuote[]>;
+  getMarketMovers(type: 'gainers' | 'losers', count: number): Promise<MarketMover[]>;
+  getHistoricalData(symbol: string, period1: Date, period2: Date, interval: Interval): Promise<HistoricalBar[]>;
+  search(query: string, count: number): Promise<SymbolSearchResult[]>;
+  getProfile(symbol: string): Promise<StockProfile>;
+}
+
+// Create a provider by name ('yahoo', 'simulator' or 'replay')
+export function createMarketDataProvider(name: string): MarketDataProvider {
+  switch (name) {
+    case 'yahoo':
+      return new YahooFinanceProvider();
+    case 'simulator':
+      return new SimulatedMarketProvider({
+        seed: MARKET_DATA_CONFIG.simulatorSeed,
+        tickMs: MARKET_DATA_CONFIG.simulatorTickMs,
+      });
+    case 'replay':
+      if (!MARKET_DATA_CONFIG.replaySession) {
+        throw new Error('REPLAY_SESSION must point to a recorded session file');
+      }
+      return new ReplayProvider(MARKET_DATA_CONFIG.replaySession, parseReplaySpeed(MARKET_DATA_CONFIG.replaySpeed));
+    default:
+      throw new Error(`Unknown market data provider: ${name}`);
+  }
+}
+
+let activeProvider: MarketDataProvider | null = null;
+
+// Get the configured provider, creating it on first use
+export function getMarketDataProvider(): MarketDataProvider {
+  if (!activeProvider) {
+    const provider = createMarketDataProvider(MARKET_DATA_CONFIG.provider);
+    activeProvider = MARKET_DATA_CONFIG.recordSession
+      ? new RecordingProvider(provider, MARKET_DATA_CONFIG.recordSession)
+      : provider;
+  }
+  return activeProvider;
+}
+
+// Replace the active provider
+export function setMarketDataProvider(provider: MarketDataProvider) {
+  activeProvider = provider;
+}
+
+// Get stock quote
+export async function getStockQuote(symbol: string): Promise<StockQuote> {
+  return getMarketDataProvider().getQuote(symbol);
+}
+
+// Get quotes for several symbols in one request
+export async function getStockQuotes(symbols: string[]): Promise<StockQuote[]> {
+  return getMarketDataProvider().getQuotes(symbols);
+}
+
+// Get market movers (gainers or losers)
+export async function getMarketMovers(type: 'gainers' | 'losers', count: number = 20): Promise<MarketMover[]> {
+  return getMarketDataProvider().getMarketMovers(type, count);
+}
+
+// Get historical data
+export async function getHistoricalData(symbol: string, period1?: Date, period2?: Date, interval: Interval = '5m'): Promise<HistoricalBar[]> {
+  return getMarketDataProvider().getHistoricalData(
+    symbol,
+    period1 || new Date(Date.now() - 24 * 60 * 60 * 1000), // 24 hours ago
+    period2 || new Date(),
+    interval
+  );
+}
+
+// Search symbols by ticker or company name
+export async function searchSymbols(query: string, count: number = 10): Promise<SymbolSearchResult[]> {
+  return getMarketDataProvider().search(query, count);
+}
+
+// Get sector, industry, country and exchange of a company
+export async function getStockProfile(symbol: string): Promise<StockProfile> {
+  return getMarketDataProvider().getProfile(symbol);
+}
\ No newline at end of file
@@ -0,0 +1,118 @@
+import { getStockProfile, type StockProfile } from './marketData';
+import { getStockMetadata, storeStockMetadata, isSchemaReady } from './clickhouse';
+import { METADATA_CONFIG } from '../config/metadata';
+import { mapWithConcurrency } from '../utils/helpers';
+
+interface CachedProfile {
+  profile: StockProfile;
+  updatedAt: Date;
+}
+
+// Profiles by symbol; stock_metadata is the durable copy
+const profiles = new Map<string, CachedProfile>();
+
+function isFresh(entry: CachedProfile, now: number = Date.now()): boolean {
+  return now - entry.updatedAt.getTime() < METADATA_CONFIG.maxAgeMs;
+}
+
+// Fill the cache from stock_metadata for symbols it does not hold yet
+async function loadStoredProfiles(symbols: string[]) {
+  const missing = symbols.filter(symbol => !profiles.has(symbol));
+  if (missing.length === 0 || !isSchemaReady()) return;
+
+  try {
+    for (const entry of await getStockMetadata(missing)) {
+      profiles.set(entry.profile.symbol, entry);
+    }
+  } catch (error: any) {
+    console.debug(`[${new Date().toISOString()}] Reading stock_metadata failed (non-critical):`, error.message);
+  }
+}
+
+// Fetch a profile from the data provider and queue it for stock_metadata
+async function refreshProfile(symbol: string): Promise<StockProfile> {
+  const entry = { profile: { ...(await getStockProfile(symbol)), symbol }, updatedAt: new Date() };
+  profiles.set(symbol, entry);
+  storeStockMetadata([entry.profile], entry.updatedAt).catch((storageError: any) => {
+    console.debug(`[${new Date().toISOString()}] ClickHouse storage failed for ${symbol} metadata (non-critical):`, storageError.message);
+  });
+  return entry.profile;
+}
+
+// Company profile from the cache, then stock_metadata, then the data provider.
+// A stale profile is still served when the provider fails.
+export async function getCompanyProfile(symbol: string): Promise<StockProfile> {
+  const key = symbol.toUpperCase();
+  await loadStoredProfiles([key]);
+
+  const cached = profiles.get(key);
+  if (cached && isFresh(cached)) return cached.profile;
+
+  try {
+    return await refreshProfile(key);
+  } catch (error) {
+    if (cached) return cached.profile;
+    throw error;
+  }
+}
+
+// Every profile held in memory (the symbols synced or looked up since startup)
+export function getKnownProfiles(): StockProfile[] {
+  return Array.from(profiles.values()).map(entry => entry.profile);
+}
+
+// Attach sectors to movers, fetching the profiles not known yet
+export async function withSectors<T extends { symbol: string }>(movers: T[]): Promise<(T & { sector?: string })[]> {
+  const symbols = Array.from(new Set(movers.map(mover => mover.symbol.toUpperCase())));
+  await mapWithConcurrency(symbols, METADATA_CONFIG.concurrency, getCompanyProfile);
+  return movers.map(mover => ({ ...mover, sector: profiles.get(mover.symbol.toUpperCase())?.profile.sector || undefined }));
+}
+
+// Keeps the profiles of the symbols in play (subscriptions and movers) fetched and stored
+export class MetadataSyncJob {
+  private getSymbols: () => string[];
+  private intervalId: NodeJS.Timeout | null = null;
+  private syncInProgress: boolean = false;
+
+  constructor(getSymbols: () => string[]) {
+    this.getSymbols = getSymbols;
+  }
+
+  start() {
+    this.sync();
+    this.intervalId = setInterval(() => this.sync(), METADATA_CONFIG.syncIntervalMs);
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  // Fetch profiles that are missing or older than the configured max age
+  async sync() {
+    if (this.syncInProgress) return;
+    this.syncInProgress = true;
+
+    try {
+      const symbols = Array.from(new Set(this.getSymbols().map(symbol => symbol.toUpperCase())));
+      await loadStoredProfiles(symbols);
+
+      const now = Date.now();
+      const due = symbols.filter(symbol => {
+        const entry = profiles.get(symbol);
+        return !entry || !isFresh(entry, now);
+      });
+      if (due.length === 0) return;
+
+      const results = await mapWithConcurrency(due, METADATA_CONFIG.concurrency, refreshProfile);
+      const failed = results.filter(result => result.status === 'rejected').length;
+      console.log(`[${new Date().toISOString()}] Synced ${due.length - failed}/${due.length} company profile(s)`);
+    } catch (error: any) {
+      console.error(`[${new Date().toISOString()}] Company metadata sync failed:`, error.message);
+    } finally {
+      this.syncInProgress = false;
+    }
+  }
+}
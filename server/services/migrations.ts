@@ -0,0 +1,118 @@
+import { createHash } from 'crypto';
+import { clickhouseClient } from './clickhouseClient';
+import { CLICKHOUSE_CONFIG } from '../config/database';
+import { MIGRATIONS, type ClickHouseMigration } from '../migrations';
+
+export type MigrationState = 'applied' | 'pending' | 'modified';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: MigrationState; // 'modified' means the file changed after it was applied
+  appliedAt: Date | null;
+}
+
+interface AppliedMigration {
+  version: number;
+  checksum: string;
+  appliedAt: Date;
+}
+
+function statementsOf(migration: ClickHouseMigration): string[] {
+  return migration.up(CLICKHOUSE_CONFIG.database);
+}
+
+function checksumOf(migration: ClickHouseMigration): string {
+  return createHash('sha256').update(statementsOf(migration).join(';\n')).digest('hex');
+}
+
+// Create the database and the schema_migrations bookkeeping table
+export async function ensureMigrationsTable() {
+  await clickhouseClient.exec({
+    query: `CREATE DATABASE IF NOT EXISTS ${CLICKHOUSE_CONFIG.database}`,
+  });
+  await clickhouseClient.exec({
+    query: `
+      CREATE TABLE IF NOT EXISTS ${CLICKHOUSE_CONFIG.database}.schema_migrations (
+        version UInt32,
+        name String,
+        checksum String,
+        applied_at DateTime
+      ) ENGINE = ReplacingMergeTree(applied_at)
+      ORDER BY version
+    `,
+  });
+}
+
+async function getAppliedMigrations(): Promise<Map<number, AppliedMigration>> {
+  const result = await clickhouseClient.query({
+    query: `
+      SELECT version, argMax(checksum, applied_at) AS checksum, toUnixTimestamp(max(applied_at)) AS applied_at
+      FROM ${CLICKHOUSE_CONFIG.database}.schema_migrations
+      GROUP BY version
+    `,
+    format: 'JSONEachRow',
+  });
+  const rows = await result.json<any>();
+
+  return new Map(rows.map(row => [Number(row.version), {
+    version: Number(row.version),
+    checksum: row.checksum,
+    appliedAt: new Date(Number(row.applied_at) * 1000)
+  }]));
+}
+
+// Status of every known migration, oldest first
+export async function getMigrationStatus(): Promise<MigrationStatus[]> {
+  await ensureMigrationsTable();
+  const applied = await getAppliedMigrations();
+
+  return MIGRATIONS.map(migration => {
+    const record = applied.get(migration.version);
+    let state: MigrationState = 'pending';
+    if (record) {
+      state = record.checksum === checksumOf(migration) ? 'applied' : 'modified';
+    }
+    return { version: migration.version, name: migration.name, state, appliedAt: record?.appliedAt || null };
+  });
+}
+
+// Versions that still have to be applied before the server may write
+export async function getPendingMigrations(): Promise<ClickHouseMigration[]> {
+  const status = await getMigrationStatus();
+  const pending = new Set(status.filter(migration => migration.state === 'pending').map(migration => migration.version));
+  return MIGRATIONS.filter(migration => pending.has(migration.version));
+}
+
+// Apply pending migrations in order. With dryRun, only log the statements that would run.
+export async function applyMigrations(options: { dryRun?: boolean } = {}): Promise<ClickHouseMigration[]> {
+  const pending = await getPendingMigrations();
+
+  for (const migration of pending) {
+    console.log(`[${new Date().toISOString()}] ${options.dryRun ? 'Would apply' : 'Applying'} migration ${migration.version} (${migration.name})`);
+
+    for (const statement of statementsOf(migration)) {
+      if (options.dryRun) {
+        console.log(statement.trim().replace(/^\s+/gm, '  ') + ';');
+        continue;
+      }
+      await clickhouseClient.exec({ query: statement });
+    }
+
+    if (!options.dryRun) {
+      // Recorded only after every statement succeeded, so a failed migration is retried next run
+      await clickhouseClient.insert({
+        table: `${CLICKHOUSE_CONFIG.database}.schema_migrations`,
+        values: [{
+          version: migration.version,
+          name: migration.name,
+          checksum: checksumOf(migration),
+          applied_at: Math.floor(Date.now() / 1000)
+        }],
+        format: 'JSONEachRow',
+      });
+    }
+  }
+
+  return pending;
+}
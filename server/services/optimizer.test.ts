@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_COMBINATIONS, backtestSegment, expandParameterSpace, walkForwardWindows } from './optimizer';
+import { backtestOptionsSchema, type BacktestBar } from './backtest';
+import { defaultStrategyParams, getStrategy, type Strategy } from './strategies';
+import type { MarketData, TradingSignal } from './ai-strategies';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+const neuroScalp = getStrategy('neuro-scalp')!;
+const defaults = defaultStrategyParams(neuroScalp);
+
+const day = (index: number) => new Date(START + index * DAY_MS);
+
+const expand = (space: Parameters<typeof expandParameterSpace>[1], method: 'grid' | 'random' = 'grid', samples = 50) => {
+  const result = expandParameterSpace(neuroScalp, space, defaults, method, samples);
+  if ('error' in result) throw new Error(result.error);
+  return result;
+};
+
+describe('walkForwardWindows', () => {
+  it('tiles the period with out-of-sample windows after in-sample ones of the requested ratio', () => {
+    const windows = walkForwardWindows(day(0), day(700), 4, 0.75);
+
+    // 700 days = 300 in sample + 4 x 100 out of sample
+    expect(windows).toEqual([0, 1, 2, 3].map(i => ({
+      inSample: { from: day(i * 100), to: day(i * 100 + 300) },
+      outOfSample: { from: day(i * 100 + 300), to: day(i * 100 + 400) }
+    })));
+  });
+
+  it('ends the last window at the end of the period', () => {
+    const from = day(0);
+    const to = new Date(START + 1000 * DAY_MS + 7);
+    const windows = walkForwardWindows(from, to, 3, 0.6);
+
+    expect(windows[0].inSample.from).toEqual(from);
+    expect(windows[2].outOfSample.to).toEqual(to);
+    windows.forEach((window, i) => {
+      expect(window.outOfSample.from).toEqual(window.inSample.to);
+      if (i > 0) expect(window.outOfSample.from).toEqual(windows[i - 1].outOfSample.to);
+
+      const inSample = window.inSample.to.getTime() - window.inSample.from.getTime();
+      const outOfSample = window.outOfSample.to.getTime() - window.outOfSample.from.getTime();
+      expect(inSample / (inSample + outOfSample)).toBeCloseTo(0.6, 6);
+    });
+  });
+});
+
+describe('expandParameterSpace', () => {
+  it('builds every combination of a grid, leaving other parameters at their base value', () => {
+    const { space, combinations } = expand({ rsiPeriod: [10, 14], bbPeriod: { min: 10, max: 30, step: 10 } });
+
+    expect(space).toEqual({ rsiPeriod: [10, 14], bbPeriod: [10, 20, 30] });
+    expect(combinations).toHaveLength(6);
+    expect(combinations).toContainEqual({ ...defaults, rsiPeriod: 14, bbPeriod: 30 });
+  });
+
+  it(`allows a grid of ${MAX_COMBINATIONS} combinations and no more`, () => {
+    expect(expand({ rsiPeriod: { min: 2, max: 21 }, bbPeriod: { min: 5, max: 29 } }).combinations).toHaveLength(MAX_COMBINATIONS);
+
+    expect(expandParameterSpace(neuroScalp, { rsiPeriod: { min: 2, max: 21 }, bbPeriod: { min: 5, max: 30 } }, defaults, 'grid', 50))
+      .toEqual({ error: `Grid has 520 combinations, the limit is ${MAX_COMBINATIONS}; narrow the ranges or use a random search` });
+  });
+
+  it('draws distinct combinations at random from a grid too large to search', () => {
+    const { combinations } = expand({ rsiPeriod: { min: 2, max: 50 }, bbPeriod: { min: 5, max: 100 } }, 'random', 200);
+
+    expect(combinations).toHaveLength(200);
+    expect(new Set(combinations.map(params => JSON.stringify(params))).size).toBe(200);
+    combinations.forEach(params => {
+      expect(params.rsiPeriod).toBeGreaterThanOrEqual(2);
+      expect(params.bbPeriod).toBeLessThanOrEqual(100);
+    });
+  });
+
+  it('searches the whole grid when asked for more samples than it has', () => {
+    expect(expand({ rsiPeriod: [10, 14, 20] }, 'random', 50).combinations.map(params => params.rsiPeriod).sort()).toEqual([10, 14, 20]);
+  });
+
+  it('steps fractional ranges to values that match the combinations exactly', () => {
+    const { space, combinations } = expand({ bbStdDev: { min: 1, max: 2, step: 0.1 }, oversold: { min: 20, max: 30, step: 5 } });
+
+    expect(space.bbStdDev).toEqual([1, 1.1, 1.2, 1.3, 1.4, 1.5, 1.6, 1.7, 1.8, 1.9, 2]);
+    // The optimizer page keys its heatmap cells on the values of `space`
+    const cells = space.bbStdDev.flatMap(x => space.oversold.map(y => `${x}|${y}`));
+    expect(combinations.map(params => `${params.bbStdDev}|${params.oversold}`).sort()).toEqual(cells.sort());
+  });
+
+  it('uses the parameter step and stops at the last step within the range', () => {
+    expect(expand({ bbStdDev: { min: 0.5, max: 1 } }).space.bbStdDev).toEqual([0.5, 0.6, 0.7, 0.8, 0.9, 1]);
+    expect(expand({ bbStdDev: { min: 0.5, max: 1, step: 0.3 } }).space.bbStdDev).toEqual([0.5, 0.8]);
+  });
+
+  it('leaves out combinations the strategy rules reject', () => {
+    const deepMomentum = getStrategy('deep-momentum')!;
+    const result = expandParameterSpace(deepMomentum, { fastEma: [10, 20, 30], slowEma: [20, 40] }, defaultStrategyParams(deepMomentum), 'grid', 50);
+    if ('error' in result) throw new Error(result.error);
+
+    expect(result.combinations.map(params => [params.fastEma, params.slowEma])).toEqual([[10, 20], [10, 40], [20, 40], [30, 40]]);
+  });
+
+  it('draws only usable combinations at random', () => {
+    const deepMomentum = getStrategy('deep-momentum')!;
+    const result = expandParameterSpace(deepMomentum, { fastEma: { min: 2, max: 100 }, slowEma: { min: 5, max: 100 } }, defaultStrategyParams(deepMomentum), 'random', 100);
+    if ('error' in result) throw new Error(result.error);
+
+    expect(result.combinations).toHaveLength(100);
+    result.combinations.forEach(params => expect(params.fastEma).toBeLessThan(params.slowEma));
+  });
+
+  it('fails when no combination is usable', () => {
+    const deepMomentum = getStrategy('deep-momentum')!;
+
+    expect(expandParameterSpace(deepMomentum, { fastEma: [50, 60], slowEma: [20, 40] }, defaultStrategyParams(deepMomentum), 'grid', 50))
+      .toEqual({ error: 'No combination in the space is valid for deep-momentum' });
+  });
+
+  it.each([
+    ['an unknown parameter', { nope: [1] }, 'Unknown parameter for neuro-scalp: nope'],
+    ['an inverted range', { rsiPeriod: { min: 20, max: 10 } }, 'Invalid range for rsiPeriod: min is above max'],
+    ['a range with too many values', { bbStdDev: { min: 0.5, max: 4, step: 0.01 } }, 'Range for bbStdDev expands to more than 100 values'],
+    ['a value outside the schema', { rsiPeriod: [1] }, 'Invalid rsiPeriod, expected an integer from 2 to 50']
+  ])('rejects %s', (_, space, error) => {
+    expect(expandParameterSpace(neuroScalp, space, defaults, 'grid', 50)).toEqual({ error });
+  });
+});
+
+describe('backtestSegment', () => {
+  // Daily bars with an open of 100 + i, and a strategy reading 4 closes that buys on the bars of `buyOn`
+  const bars: BacktestBar[] = Array.from({ length: 20 }, (_, i) => ({ date: day(i), open: 100 + i, high: 102 + i, low: 99 + i, close: 101 + i, volume: 1000 }));
+
+  function buyingOn(buyOn: number[], seen: MarketData[] = []): Strategy {
+    return {
+      id: 'scripted',
+      name: 'Scripted',
+      description: 'Buys on fixed bars',
+      parameters: [],
+      lookback: () => 4,
+      evaluate: marketData => {
+        seen.push(marketData);
+        const bar = Math.round((marketData.timestamp - START) / DAY_MS);
+        return { action: buyOn.includes(bar) ? 'BUY' : 'HOLD', confidence: 80, reason: `bar ${bar}`, timestamp: marketData.timestamp } as TradingSignal;
+      }
+    };
+  }
+
+  const options = backtestOptionsSchema.parse({ commissionBps: 0, slippageBps: 0 });
+  const segment = { from: day(10), to: day(15) };
+
+  it('feeds the bars before the segment as history without trading or measuring them', () => {
+    const seen: MarketData[] = [];
+    const metrics = backtestSegment(buyingOn([7, 8, 9], seen), {}, 'TEST', bars, segment, false, options);
+
+    expect(metrics).toMatchObject({ trades: 0, exposurePercent: 0, totalReturnPercent: 0 });
+    // Evaluated from the first segment bar on, with the three warm-up closes before it
+    expect(seen[0].timestamp).toBe(day(10).getTime());
+    expect(seen[0].historicalPrices).toEqual([108, 109, 110, 111]);
+  });
+
+  it('trades and measures the bars of the segment', () => {
+    const metrics = backtestSegment(buyingOn([10]), {}, 'TEST', bars, segment, false, options);
+
+    // Bought at the open of day 11, closed at the close of day 14; in the market 4 of the 5 bars
+    expect(metrics).toMatchObject({ trades: 1, exposurePercent: 80, finalEquity: Math.round(10_000 / 111 * 115 * 100) / 100 });
+  });
+
+  it('includes the bar at the end of the last segment only when asked', () => {
+    const exclusive = backtestSegment(buyingOn([10]), {}, 'TEST', bars, segment, false, options);
+    const inclusive = backtestSegment(buyingOn([10]), {}, 'TEST', bars, segment, true, options);
+
+    expect(inclusive!.finalEquity).toBe(Math.round(10_000 / 111 * 116 * 100) / 100);
+    expect(inclusive!.finalEquity).toBeGreaterThan(exclusive!.finalEquity);
+  });
+
+  it('skips segments too short to trade', () => {
+    expect(backtestSegment(buyingOn([]), {}, 'TEST', bars, { from: day(10), to: day(11) }, false, options)).toBeNull();
+    expect(backtestSegment(buyingOn([]), {}, 'TEST', bars, { from: day(30), to: day(40) }, false, options)).toBeNull();
+  });
+});
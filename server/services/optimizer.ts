@@ -0,0 +1,328 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { resolveStrategyParams, type Strategy, type StrategyParams } from './strategies';
+import { runBacktest, type BacktestBar, type BacktestMetrics, type BacktestOptions } from './backtest';
+
+// Most parameter combinations one optimization may evaluate
+export const MAX_COMBINATIONS = 500;
+// Most backtests one optimization may run (combinations x symbols x folds x in/out of sample)
+export const MAX_BACKTESTS = 10000;
+// Most values a single parameter range may expand to
+const MAX_RANGE_VALUES = 100;
+
+export const OPTIMIZATION_OBJECTIVES = ['sharpe', 'sortino', 'totalReturnPercent', 'cagrPercent'] as const;
+export type OptimizationObjective = typeof OPTIMIZATION_OBJECTIVES[number];
+
+// Values to search for one parameter: an explicit list, or a range stepped by `step`
+// (by default the parameter's own step, 1 for integers or a tenth of the range otherwise)
+export const parameterRangeSchema = z.union([
+  z.array(z.number()).min(1),
+  z.object({ min: z.number(), max: z.number(), step: z.number().positive().optional() }),
+]);
+
+export type ParameterRange = z.infer<typeof parameterRangeSchema>;
+
+export interface OptimizationConfig {
+  method: 'grid' | 'random';
+  samples: number; // combinations drawn by random search
+  folds: number; // walk-forward windows
+  inSampleRatio: number; // share of each window the parameters are fitted on
+  objective: OptimizationObjective;
+  options: BacktestOptions;
+}
+
+// Backtest metrics of one parameter combination, averaged over symbols and folds
+export interface OptimizationCombination {
+  params: StrategyParams;
+  inSampleScore: number | null;
+  outOfSampleScore: number | null;
+  inSample: BacktestMetrics | null;
+  outOfSample: BacktestMetrics | null;
+}
+
+// One walk-forward window: the combination fitted on its in-sample part and how it did out of sample
+export interface OptimizationFold {
+  index: number;
+  inSample: { from: Date; to: Date };
+  outOfSample: { from: Date; to: Date };
+  bestParams: StrategyParams | null; // null when no combination could be scored in sample
+  inSampleScore: number | null;
+  outOfSampleScore: number | null;
+  outOfSampleMetrics: BacktestMetrics | null;
+}
+
+export interface OptimizationResult {
+  id: string;
+  strategy: string;
+  symbols: string[];
+  interval: string;
+  from: Date;
+  to: Date;
+  method: OptimizationConfig['method'];
+  objective: OptimizationObjective;
+  folds: number;
+  inSampleRatio: number;
+  options: BacktestOptions;
+  space: Record<string, number[]>; // values searched per parameter
+  // Combination with the best mean in-sample score
+  bestParams: StrategyParams | null;
+  inSampleScore: number | null;
+  // Walk-forward estimate: mean out-of-sample score of each fold's in-sample winner
+  outOfSampleScore: number | null;
+  outOfSampleMetrics: BacktestMetrics | null;
+  foldResults: OptimizationFold[];
+  combinations: OptimizationCombination[]; // best in-sample score first
+  createdAt: Date;
+  durationMs: number;
+}
+
+function round(value: number, decimals: number = 4): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+// Field-by-field mean of backtest metrics, skipping missing runs and null fields
+function averageMetrics(metrics: (BacktestMetrics | null)[]): BacktestMetrics | null {
+  const defined = metrics.filter((entry): entry is BacktestMetrics => entry !== null);
+  if (defined.length === 0) return null;
+
+  const keys = Object.keys(defined[0]) as (keyof BacktestMetrics)[];
+  return Object.fromEntries(keys.map(key => {
+    const average = mean(defined.map(entry => entry[key]).filter((value): value is number => value !== null));
+    return [key, average === null ? null : round(average)];
+  })) as unknown as BacktestMetrics;
+}
+
+function score(metrics: BacktestMetrics | null, objective: OptimizationObjective): number | null {
+  return metrics ? metrics[objective] : null;
+}
+
+// Higher scores first, unscored last
+function compareScores(a: number | null, b: number | null): number {
+  if (a === null || b === null) return a === null ? (b === null ? 0 : 1) : -1;
+  return b - a;
+}
+
+// Values a range expands to for a parameter
+function rangeValues(strategy: Strategy, name: string, range: ParameterRange): { error: string } | { values: number[] } {
+  const parameter = strategy.parameters.find(candidate => candidate.name === name);
+  if (!parameter) {
+    return { error: `Unknown parameter for ${strategy.id}: ${name}` };
+  }
+  if (Array.isArray(range)) {
+    return { values: Array.from(new Set(range)) };
+  }
+  if (range.min > range.max) {
+    return { error: `Invalid range for ${name}: min is above max` };
+  }
+
+  const step = range.step ?? parameter.step ?? (parameter.type === 'integer' ? 1 : (range.max - range.min) / 10);
+  if (step <= 0 || (range.max - range.min) / step + 1 > MAX_RANGE_VALUES) {
+    return { error: `Range for ${name} expands to more than ${MAX_RANGE_VALUES} values` };
+  }
+  const values: number[] = [];
+  for (let value = range.min; value <= range.max + step * 1e-9; value += step) {
+    values.push(round(value, 6));
+  }
+  return { values };
+}
+
+// Expand a parameter space into the combinations to evaluate: every combination for a grid search,
+// `samples` distinct ones drawn at random for a random search. Parameters outside the space stay at
+// `base`, and every combination is checked against the strategy's parameter schema. Combinations the
+// strategy's own rules reject (e.g. a fast EMA at or above the slow one) are left out.
+export function expandParameterSpace(
+  strategy: Strategy,
+  space: Record<string, ParameterRange>,
+  base: StrategyParams,
+  method: OptimizationConfig['method'],
+  samples: number
+): { error: string } | { space: Record<string, number[]>; combinations: StrategyParams[] } {
+  const expanded: Record<string, number[]> = {};
+  for (const [name, range] of Object.entries(space)) {
+    const result = rangeValues(strategy, name, range);
+    if ('error' in result) return result;
+    expanded[name] = result.values;
+  }
+
+  const names = Object.keys(expanded);
+  const gridSize = names.reduce((size, name) => size * expanded[name].length, 1);
+  if (method === 'grid' && gridSize > MAX_COMBINATIONS) {
+    return { error: `Grid has ${gridSize} combinations, the limit is ${MAX_COMBINATIONS}; narrow the ranges or use a random search` };
+  }
+
+  // Decode a mixed-radix index into one value per parameter, so random draws never build the whole grid
+  const combinationAt = (index: number): StrategyParams => {
+    const combination: StrategyParams = { ...base };
+    for (const name of names) {
+      const values = expanded[name];
+      combination[name] = values[index % values.length];
+      index = Math.floor(index / values.length);
+    }
+    return combination;
+  };
+
+  const usable = (combination: StrategyParams) => !strategy.validate?.(combination);
+
+  let indexes: number[];
+  if (method === 'grid' || samples >= gridSize) {
+    indexes = Array.from({ length: gridSize }, (_, i) => i);
+  } else {
+    // Draw until `samples` usable combinations are found or the grid is exhausted
+    const drawn = new Set<number>();
+    indexes = [];
+    while (indexes.length < samples && drawn.size < gridSize) {
+      const index = Math.floor(Math.random() * gridSize);
+      if (drawn.has(index)) continue;
+      drawn.add(index);
+      if (usable(combinationAt(index))) indexes.push(index);
+    }
+  }
+
+  const combinations: StrategyParams[] = [];
+  for (const index of indexes) {
+    const combination = combinationAt(index);
+    if (!usable(combination)) continue;
+    const resolved = resolveStrategyParams(strategy, combination);
+    if ('error' in resolved) return resolved;
+    combinations.push(resolved.params);
+  }
+  if (combinations.length === 0) {
+    return { error: `No combination in the space is valid for ${strategy.id}` };
+  }
+  return { space: expanded, combinations };
+}
+
+// Split [from, to] into rolling walk-forward windows whose out-of-sample parts tile the end of the period
+export function walkForwardWindows(from: Date, to: Date, folds: number, inSampleRatio: number) {
+  const span = to.getTime() - from.getTime();
+  const outOfSample = span / (inSampleRatio / (1 - inSampleRatio) + folds);
+  const inSample = span - folds * outOfSample;
+
+  return Array.from({ length: folds }, (_, i) => {
+    const start = from.getTime() + i * outOfSample;
+    return {
+      inSample: { from: new Date(start), to: new Date(start + inSample) },
+      outOfSample: { from: new Date(start + inSample), to: new Date(i === folds - 1 ? to.getTime() : start + inSample + outOfSample) },
+    };
+  });
+}
+
+// Backtest a time segment of a symbol's bars, with up to the strategy's lookback of earlier bars as
+// warm-up; null when the segment is too short to trade
+export function backtestSegment(
+  strategy: Strategy,
+  params: StrategyParams,
+  symbol: string,
+  bars: BacktestBar[],
+  segment: { from: Date; to: Date },
+  inclusiveEnd: boolean,
+  options: BacktestOptions
+): BacktestMetrics | null {
+  const start = bars.findIndex(bar => bar.date >= segment.from);
+  if (start === -1) return null;
+  let end = start;
+  while (end < bars.length && (bars[end].date < segment.to || (inclusiveEnd && bars[end].date.getTime() === segment.to.getTime()))) end++;
+
+  const warmup = Math.min(start, strategy.lookback(params) - 1);
+  const slice = bars.slice(start - warmup, end);
+  if (slice.length < Math.max(strategy.lookback(params), warmup) + 2) return null;
+
+  return runBacktest(strategy, params, symbol, slice, options, warmup).metrics;
+}
+
+// Walk-forward optimization of a strategy over the given combinations and bars of one or more symbols.
+// Yields to the event loop between combinations so price streaming keeps up during long searches.
+export async function runOptimization(
+  strategy: Strategy,
+  space: Record<string, number[]>,
+  combinations: StrategyParams[],
+  barsBySymbol: Map<string, BacktestBar[]>,
+  interval: string,
+  config: OptimizationConfig
+): Promise<OptimizationResult> {
+  const startedAt = Date.now();
+  const symbols = Array.from(barsBySymbol.keys());
+  const series = Array.from(barsBySymbol.values()).filter(bars => bars.length > 0);
+  if (series.length === 0) {
+    throw new Error('No bars to optimize over');
+  }
+
+  const from = new Date(Math.min(...series.map(bars => bars[0].date.getTime())));
+  const to = new Date(Math.max(...series.map(bars => bars[bars.length - 1].date.getTime())));
+  const windows = walkForwardWindows(from, to, config.folds, config.inSampleRatio);
+
+  // Metrics per combination and fold, averaged over symbols
+  const perFold: { inSample: BacktestMetrics | null; outOfSample: BacktestMetrics | null }[][] = [];
+  for (const params of combinations) {
+    perFold.push(windows.map((window, fold) => ({
+      inSample: averageMetrics(symbols.map(symbol =>
+        backtestSegment(strategy, params, symbol, barsBySymbol.get(symbol)!, window.inSample, false, config.options))),
+      outOfSample: averageMetrics(symbols.map(symbol =>
+        backtestSegment(strategy, params, symbol, barsBySymbol.get(symbol)!, window.outOfSample, fold === windows.length - 1, config.options))),
+    })));
+    await new Promise(resolve => setImmediate(resolve));
+  }
+
+  const foldResults: OptimizationFold[] = windows.map((window, fold) => {
+    let best = -1;
+    combinations.forEach((_, i) => {
+      const candidate = score(perFold[i][fold].inSample, config.objective);
+      if (candidate !== null && (best === -1 || compareScores(candidate, score(perFold[best][fold].inSample, config.objective)) < 0)) {
+        best = i;
+      }
+    });
+    const outOfSampleMetrics = best === -1 ? null : perFold[best][fold].outOfSample;
+    return {
+      index: fold,
+      inSample: window.inSample,
+      outOfSample: window.outOfSample,
+      bestParams: best === -1 ? null : combinations[best],
+      inSampleScore: best === -1 ? null : score(perFold[best][fold].inSample, config.objective),
+      outOfSampleScore: score(outOfSampleMetrics, config.objective),
+      outOfSampleMetrics,
+    };
+  });
+
+  const ranked: OptimizationCombination[] = combinations.map((params, i) => {
+    const inSample = averageMetrics(perFold[i].map(fold => fold.inSample));
+    const outOfSample = averageMetrics(perFold[i].map(fold => fold.outOfSample));
+    return {
+      params,
+      inSampleScore: score(inSample, config.objective),
+      outOfSampleScore: score(outOfSample, config.objective),
+      inSample,
+      outOfSample,
+    };
+  }).sort((a, b) => compareScores(a.inSampleScore, b.inSampleScore));
+
+  const best = ranked[0]?.inSampleScore !== null ? ranked[0] : undefined;
+  const walkForwardScore = mean(foldResults.map(fold => fold.outOfSampleScore).filter((value): value is number => value !== null));
+
+  return {
+    id: randomUUID(),
+    strategy: strategy.id,
+    symbols,
+    interval,
+    from,
+    to,
+    method: config.method,
+    objective: config.objective,
+    folds: config.folds,
+    inSampleRatio: config.inSampleRatio,
+    options: config.options,
+    space,
+    bestParams: best ? best.params : null,
+    inSampleScore: best ? best.inSampleScore : null,
+    outOfSampleScore: walkForwardScore === null ? null : round(walkForwardScore),
+    outOfSampleMetrics: averageMetrics(foldResults.map(fold => fold.outOfSampleMetrics)),
+    foldResults,
+    combinations: ranked,
+    createdAt: new Date(),
+    durationMs: Date.now() - startedAt,
+  };
+}
@@ -0,0 +1,279 @@
+import { promises as fs } from 'fs';
+import { describe, expect, it, vi } from 'vitest';
+import { PaperTradingEngine, type NewPaperOrder, type PaperTradingOptions } from './paperTrading';
+import { SubscriptionRegistry } from '../websocket/subscriptions';
+import { LastValueCache } from '../websocket/lastValueCache';
+import { PAPER_TRADING_CONFIG } from '../config/paperTrading';
+import type { StockQuote } from './marketData';
+import { useTempDir } from '../testing/tempDir';
+
+const tmp = useTempDir('paper-trading-');
+
+// An engine without slippage or commission unless `options` says otherwise, saving to the test's temp dir
+function createEngine(options: Partial<PaperTradingOptions> = {}, subscriptions = new SubscriptionRegistry(5000)) {
+  const engine = new PaperTradingEngine(subscriptions, new LastValueCache(), {
+    ...PAPER_TRADING_CONFIG,
+    initialCash: 10_000,
+    slippageBps: 0,
+    impactBps: 0,
+    commissionPerOrder: 0,
+    commissionBps: 0,
+    allowShort: false,
+    stateFile: tmp.join('paper-trading.json'),
+    ...options
+  });
+  tmp.onCleanup(() => engine.settled());
+  return engine;
+}
+
+function quote(price: number): StockQuote {
+  return {
+    symbol: 'AAPL',
+    name: 'Apple',
+    price,
+    change: 0,
+    changePercent: 0,
+    volume: 1_000_000,
+    marketCap: 0,
+    peRatio: 0,
+    dayHigh: 0,
+    dayLow: 0,
+    previousClose: 100,
+    currency: 'USD'
+  };
+}
+
+const later = (ms: number) => new Date(Date.now() + ms);
+
+let clock = 0;
+
+// Place an order and feed quotes until it is no longer open; every quote arrives a second after the last
+function trade(engine: PaperTradingEngine, order: NewPaperOrder, ...prices: number[]) {
+  const result = engine.placeOrder(order);
+  if ('error' in result) throw new Error(result.error);
+  for (const price of prices) {
+    engine.onQuote(quote(price), later(++clock * 1000));
+  }
+  return engine.getOrder(result.order.id)!;
+}
+
+const buy = (quantity: number, limitPrice?: number): NewPaperOrder =>
+  ({ symbol: 'AAPL', side: 'buy', type: limitPrice === undefined ? 'market' : 'limit', quantity, limitPrice });
+const sell = (quantity: number, limitPrice?: number): NewPaperOrder =>
+  ({ symbol: 'AAPL', side: 'sell', type: limitPrice === undefined ? 'market' : 'limit', quantity, limitPrice });
+
+const position = (engine: PaperTradingEngine) => engine.getAccount().positions.find(candidate => candidate.symbol === 'AAPL');
+
+describe('PaperTradingEngine.onQuote', () => {
+  it.each([
+    ['zero', 0],
+    ['negative', -5],
+    ['NaN', NaN],
+    ['infinite', Infinity]
+  ])('does not fill orders on a %s price', (_, price) => {
+    const engine = createEngine();
+    const result = engine.placeOrder({ symbol: 'AAPL', side: 'buy', type: 'market', quantity: 10 });
+    if ('error' in result) throw new Error(result.error);
+
+    engine.onQuote(quote(price), later(1000));
+    expect(engine.getOrder(result.order.id)?.status).toBe('open');
+    expect(engine.getFills()).toHaveLength(0);
+
+    engine.onQuote(quote(100), later(2000));
+    expect(engine.getOrder(result.order.id)?.status).toBe('filled');
+    expect(engine.getFills()[0].price).toBe(100);
+  });
+
+  it('keeps marking positions at the last valid price', () => {
+    const engine = createEngine();
+    engine.placeOrder({ symbol: 'AAPL', side: 'buy', type: 'market', quantity: 10 });
+    engine.onQuote(quote(100), later(1000));
+    engine.onQuote(quote(110), later(2000));
+
+    engine.onQuote(quote(0), later(3000));
+    engine.onQuote(quote(NaN), later(4000));
+
+    const account = engine.getAccount();
+    expect(account.marketValue).toBe(1100);
+    expect(account.unrealizedPnl).toBe(100);
+    expect(account.equity).toBe(10_100);
+  });
+});
+
+describe('PaperTradingEngine positions', () => {
+  it('averages the price when adding to a position', () => {
+    const engine = createEngine();
+    trade(engine, buy(10), 100);
+    trade(engine, buy(30), 120);
+
+    expect(position(engine)).toMatchObject({ quantity: 40, avgPrice: 115, realizedPnl: 0 });
+    expect(engine.getAccount().cash).toBe(5400);
+  });
+
+  it('realizes the gain on the closed part of a partial close', () => {
+    const engine = createEngine();
+    trade(engine, buy(10), 100);
+    trade(engine, buy(30), 120);
+    trade(engine, sell(15), 130);
+
+    expect(position(engine)).toMatchObject({ quantity: 25, avgPrice: 115, realizedPnl: 225 });
+    expect(engine.getFills()[0].realizedPnl).toBe(225);
+    const account = engine.getAccount();
+    expect(account.realizedPnl).toBe(225);
+    expect(account.cash).toBe(7350);
+    expect(account.equity).toBe(7350 + 25 * 130);
+  });
+
+  it('closes a position completely', () => {
+    const engine = createEngine();
+    trade(engine, buy(10), 100);
+    trade(engine, sell(10), 90);
+
+    expect(position(engine)).toBeUndefined();
+    expect(engine.getAccount()).toMatchObject({ cash: 9900, realizedPnl: -100, equity: 9900, marketValue: 0 });
+  });
+
+  it('flips a long position to a short one at the fill price, and back', () => {
+    const engine = createEngine({ allowShort: true });
+    trade(engine, buy(10), 100);
+
+    trade(engine, sell(25), 90);
+    expect(position(engine)).toMatchObject({ quantity: -15, avgPrice: 90, realizedPnl: -100 });
+    expect(engine.getAccount().cash).toBe(11_250);
+
+    trade(engine, buy(20), 80);
+    // The 15 short covered at 80 gain 10 each; the 5 left over are a new long at 80
+    expect(position(engine)).toMatchObject({ quantity: 5, avgPrice: 80, realizedPnl: 50 });
+    expect(engine.getAccount()).toMatchObject({ cash: 9650, realizedPnl: 50, equity: 10_050 });
+  });
+
+  it('marks a short position down as the price rises', () => {
+    const engine = createEngine({ allowShort: true });
+    trade(engine, sell(10), 100, 110);
+
+    expect(position(engine)).toMatchObject({ quantity: -10, marketValue: -1100, unrealizedPnl: -100 });
+    expect(engine.getAccount().equity).toBe(9900);
+  });
+
+  it('charges slippage and commission against the trader on both sides', () => {
+    const engine = createEngine({ slippageBps: 50, commissionPerOrder: 1, commissionBps: 10, allowShort: true });
+    trade(engine, buy(10), 100);
+    // 100 * (1 + 0.005), plus 1 + 10 * 100.5 * 0.001
+    expect(engine.getFills()[0]).toMatchObject({ price: 100.5, slippageBps: 50, commission: 2.005 });
+
+    trade(engine, sell(20), 100);
+    expect(engine.getFills()[0]).toMatchObject({ price: 99.5, commission: 1 + 20 * 99.5 * 0.001 });
+    // 10000 - 1005 - 2.005 + 1990 - 2.99, rounded to cents
+    expect(engine.getAccount().cash).toBe(10_980.01);
+    expect(engine.getAccount().commissions).toBeCloseTo(4.995, 2);
+  });
+});
+
+describe('PaperTradingEngine limit orders', () => {
+  it('fills a buy limit only at or below the limit, never above it', () => {
+    const engine = createEngine({ slippageBps: 50 });
+    const order = trade(engine, buy(10, 95), 96, 95.5);
+    expect(order.status).toBe('open');
+
+    engine.onQuote(quote(95), later(++clock * 1000));
+    expect(order.status).toBe('filled');
+    // 95 * 1.005 would be above the limit
+    expect(engine.getFills()[0]).toMatchObject({ price: 95, quotePrice: 95 });
+  });
+
+  it('fills a sell limit only at or above the limit', () => {
+    const engine = createEngine({ slippageBps: 50 });
+    trade(engine, buy(10), 100);
+
+    const capped = trade(engine, sell(5, 105), 104, 105);
+    expect(capped.status).toBe('filled');
+    expect(engine.getFills()[0].price).toBe(105);
+
+    const through = trade(engine, sell(5, 105), 110);
+    expect(through.status).toBe('filled');
+    expect(engine.getFills()[0].price).toBe(109.45);
+  });
+});
+
+describe('PaperTradingEngine rejections at fill time', () => {
+  it('rejects a buy the cash no longer covers', () => {
+    const engine = createEngine();
+    // Without a known price neither order reserves cash when placed
+    const first = engine.placeOrder(buy(60));
+    const second = engine.placeOrder(buy(60));
+    if ('error' in first || 'error' in second) throw new Error('order not placed');
+
+    engine.onQuote(quote(100), later(++clock * 1000));
+
+    expect(engine.getOrder(first.order.id)?.status).toBe('filled');
+    expect(engine.getOrder(second.order.id)).toMatchObject({ status: 'rejected', rejectReason: 'Insufficient cash' });
+    expect(engine.getAccount().cash).toBe(4000);
+  });
+
+  it('rejects a sell beyond the holdings once short selling is disabled', async () => {
+    const shorting = createEngine({ allowShort: true });
+    trade(shorting, buy(10), 100);
+    const open = trade(shorting, sell(20, 200), 100);
+    await shorting.settled();
+
+    const engine = createEngine({ allowShort: false });
+    await engine.start();
+    engine.onQuote(quote(200), later(++clock * 1000));
+
+    expect(engine.getOrder(open.id)).toMatchObject({ status: 'rejected', rejectReason: 'Only 10 held and short selling is disabled' });
+    expect(position(engine)).toMatchObject({ quantity: 10 });
+  });
+});
+
+describe('PaperTradingEngine.start', () => {
+  it('restores the saved account', async () => {
+    const first = createEngine();
+    trade(first, buy(10), 100);
+    trade(first, buy(30), 120);
+    trade(first, sell(15), 130);
+    const open = trade(first, buy(1, 50), 130);
+    await first.settled();
+
+    const engine = createEngine();
+    await engine.start();
+
+    expect(engine.getAccount()).toEqual(first.getAccount());
+    expect(position(engine)).toMatchObject({ quantity: 25, avgPrice: 115, realizedPnl: 225, lastPrice: 130 });
+    expect(position(engine)!.openedAt).toBeInstanceOf(Date);
+    expect(engine.getFills()).toEqual(first.getFills());
+    expect(engine.getOrder(open.id)).toMatchObject({ status: 'open', limitPrice: 50 });
+    expect(engine.getOrder(open.id)!.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('moves a corrupt state file aside before saving a new account', async () => {
+    await fs.writeFile(tmp.join('paper-trading.json'), '{"cash": 12');
+    const subscriptions = new SubscriptionRegistry(5000);
+    const replace = vi.spyOn(subscriptions, 'replace');
+    const engine = createEngine({}, subscriptions);
+
+    await engine.start();
+    await engine.settled();
+
+    const names = await fs.readdir(tmp.path);
+    const aside = names.find(name => /^paper-trading\.json\.corrupt-\d+$/.test(name));
+    expect(aside).toBeDefined();
+    expect(await fs.readFile(tmp.join(aside!), 'utf8')).toBe('{"cash": 12');
+    expect(JSON.parse(await fs.readFile(tmp.join('paper-trading.json'), 'utf8'))).toMatchObject({ cash: 10_000, positions: [] });
+    expect(engine.getAccount().cash).toBe(10_000);
+    expect(replace).toHaveBeenCalled();
+  });
+
+  it('keeps the account in memory when a bad state file cannot be moved', async () => {
+    await fs.writeFile(tmp.join('paper-trading.json'), 'not json');
+    const rename = vi.spyOn(fs, 'rename').mockRejectedValueOnce(new Error('EACCES'));
+    const engine = createEngine();
+
+    await engine.start();
+    engine.placeOrder({ symbol: 'AAPL', side: 'buy', type: 'market', quantity: 1 });
+    await engine.settled();
+    rename.mockRestore();
+
+    expect(await fs.readFile(tmp.join('paper-trading.json'), 'utf8')).toBe('not json');
+    expect(engine.getOrders()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,461 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { StockQuote } from './marketData';
+import type { SubscriptionRegistry, Subscriber } from '../websocket/subscriptions';
+import { normalizeSymbols, isValidSymbol } from '../websocket/subscriptions';
+import type { LastValueCache } from '../websocket/lastValueCache';
+import { PAPER_TRADING_CONFIG } from '../config/paperTrading';
+
+export type PaperTradingOptions = typeof PAPER_TRADING_CONFIG;
+
+export type OrderSide = 'buy' | 'sell';
+export type OrderType = 'market' | 'limit';
+export type OrderStatus = 'open' | 'filled' | 'cancelled' | 'rejected';
+
+export interface PaperOrder {
+  id: string;
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  quantity: number;
+  limitPrice: number | null;
+  status: OrderStatus;
+  reason: string | null; // why the order was placed, e.g. the strategy signal
+  rejectReason: string | null;
+  fillId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PaperFill {
+  id: string;
+  orderId: string;
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  price: number; // after slippage
+  quotePrice: number; // the quote the order filled against
+  slippageBps: number;
+  commission: number;
+  realizedPnl: number; // closed quantity's gain or loss, net of this fill's commission
+  timestamp: Date;
+}
+
+// A holding: negative quantities are shorts; `avgPrice` is the average fill price of the open quantity
+interface PositionState {
+  symbol: string;
+  quantity: number;
+  avgPrice: number;
+  realizedPnl: number;
+  openedAt: Date;
+}
+
+export interface PaperPosition extends PositionState {
+  lastPrice: number;
+  marketValue: number;
+  unrealizedPnl: number;
+  unrealizedPnlPercent: number;
+}
+
+export interface PaperAccount {
+  initialCash: number;
+  cash: number;
+  marketValue: number; // of all positions, at their last quotes
+  equity: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  totalReturnPercent: number;
+  commissions: number;
+  positions: PaperPosition[];
+  openOrders: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface NewPaperOrder {
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  quantity: number;
+  limitPrice?: number;
+  reason?: string;
+}
+
+// Everything persisted to the state file
+interface AccountState {
+  initialCash: number;
+  cash: number;
+  realizedPnl: number;
+  commissions: number;
+  positions: PositionState[];
+  orders: PaperOrder[]; // oldest first
+  fills: PaperFill[]; // oldest first
+  lastPrices: Record<string, number>; // latest quote of symbols with positions, for marking to market
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Quantities below this are treated as zero
+const QUANTITY_EPSILON = 1e-9;
+
+function round(value: number, decimals: number = 4): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// Providers report a missing price as 0; such quotes can neither fill orders nor mark positions
+function isTradablePrice(price: unknown): price is number {
+  return typeof price === 'number' && Number.isFinite(price) && price > 0;
+}
+
+function newAccount(initialCash: number): AccountState {
+  const now = new Date();
+  return { initialCash, cash: initialCash, realizedPnl: 0, commissions: 0, positions: [], orders: [], fills: [], lastPrices: {}, createdAt: now, updatedAt: now };
+}
+
+// Dates are ISO strings in the state file
+function reviveState(raw: any): AccountState {
+  return {
+    ...raw,
+    positions: raw.positions.map((position: any) => ({ ...position, openedAt: new Date(position.openedAt) })),
+    orders: raw.orders.map((order: any) => ({ ...order, createdAt: new Date(order.createdAt), updatedAt: new Date(order.updatedAt) })),
+    fills: raw.fills.map((fill: any) => ({ ...fill, timestamp: new Date(fill.timestamp) })),
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+  };
+}
+
+// A paper trading account filled against the live quote stream.
+// Market orders fill on the first quote of their symbol received after they were placed, limit orders on
+// the first quote at or through their limit, both with slippage (a fixed part plus square-root market impact
+// of the order's share of the day's volume) and commission. Positions are marked to market on every quote;
+// quotes without a positive price (a provider's placeholder for a missing one) are ignored.
+// The engine subscribes to the symbols of its positions and open orders so they are polled without any
+// client watching them, and saves the account to a JSON state file after every change.
+export class PaperTradingEngine {
+  private state: AccountState;
+  private subscriptions: SubscriptionRegistry;
+  private cache: LastValueCache;
+  private options: PaperTradingOptions;
+  private subscriber: Subscriber = {};
+  private saving: Promise<void> = Promise.resolve();
+  private persistent = true; // false when an unreadable state file could not be moved out of the way
+
+  constructor(subscriptions: SubscriptionRegistry, cache: LastValueCache, options: PaperTradingOptions = PAPER_TRADING_CONFIG) {
+    this.subscriptions = subscriptions;
+    this.cache = cache;
+    this.options = options;
+    this.state = newAccount(options.initialCash);
+  }
+
+  // Load the saved account, or open a new one when there is no state file yet.
+  // An unreadable or corrupt state file is moved aside first so the new account never overwrites it.
+  async start() {
+    try {
+      this.state = reviveState(JSON.parse(await fs.readFile(this.options.stateFile, 'utf8')));
+      console.log(`[${new Date().toISOString()}] Paper trading account loaded: ${this.state.positions.length} position(s), ${this.openOrders().length} open order(s)`);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        console.log(`[${new Date().toISOString()}] Paper trading account opened with $${this.state.initialCash}`);
+        this.save();
+      } else {
+        await this.setAsideStateFile(error);
+      }
+    }
+    this.syncSubscriptions();
+  }
+
+  getAccount(): PaperAccount {
+    const positions = this.state.positions.map(position => {
+      const lastPrice = this.state.lastPrices[position.symbol] ?? position.avgPrice;
+      const unrealizedPnl = (lastPrice - position.avgPrice) * position.quantity;
+      return {
+        ...position,
+        quantity: round(position.quantity, 6),
+        avgPrice: round(position.avgPrice),
+        realizedPnl: round(position.realizedPnl, 2),
+        lastPrice,
+        marketValue: round(position.quantity * lastPrice, 2),
+        unrealizedPnl: round(unrealizedPnl, 2),
+        unrealizedPnlPercent: round((unrealizedPnl / Math.abs(position.quantity * position.avgPrice)) * 100),
+      };
+    });
+    const marketValue = positions.reduce((sum, position) => sum + position.marketValue, 0);
+    const equity = this.state.cash + marketValue;
+
+    return {
+      initialCash: this.state.initialCash,
+      cash: round(this.state.cash, 2),
+      marketValue: round(marketValue, 2),
+      equity: round(equity, 2),
+      realizedPnl: round(this.state.realizedPnl, 2),
+      unrealizedPnl: round(positions.reduce((sum, position) => sum + position.unrealizedPnl, 0), 2),
+      totalReturnPercent: round((equity / this.state.initialCash - 1) * 100),
+      commissions: round(this.state.commissions, 2),
+      positions,
+      openOrders: this.openOrders().length,
+      createdAt: this.state.createdAt,
+      updatedAt: this.state.updatedAt,
+    };
+  }
+
+  // Orders, newest first, optionally with one status
+  getOrders(status?: OrderStatus, limit: number = 100): PaperOrder[] {
+    return this.state.orders.filter(order => !status || order.status === status).slice(-limit).reverse();
+  }
+
+  getOrder(id: string): PaperOrder | undefined {
+    return this.state.orders.find(order => order.id === id);
+  }
+
+  // Fills, newest first
+  getFills(limit: number = 100): PaperFill[] {
+    return this.state.fills.slice(-limit).reverse();
+  }
+
+  // Queue an order for the quote stream, after checking it against the account's cash and holdings
+  placeOrder(input: NewPaperOrder): { error: string } | { order: PaperOrder } {
+    const [symbol] = normalizeSymbols([input.symbol]);
+    if (!symbol || !isValidSymbol(symbol)) {
+      return { error: `Invalid symbol: ${input.symbol}` };
+    }
+    if (input.type === 'limit' && !input.limitPrice) {
+      return { error: 'Limit orders need a limitPrice' };
+    }
+    const quantity = round(input.quantity, 6);
+    if (quantity <= 0) {
+      return { error: 'Quantity must be positive' };
+    }
+
+    if (input.side === 'sell' && !this.options.allowShort) {
+      const available = this.heldQuantity(symbol) - this.openQuantity(symbol, 'sell');
+      if (quantity > available + QUANTITY_EPSILON) {
+        return { error: `Cannot sell ${quantity} ${symbol}: ${round(Math.max(available, 0), 6)} available and short selling is disabled` };
+      }
+    }
+    if (input.side === 'buy') {
+      const cached = this.cache.getPrices([symbol])[0]?.price;
+      const price = input.limitPrice ?? (isTradablePrice(cached) ? cached : this.state.lastPrices[symbol]);
+      const reserved = this.openOrders()
+        .filter(order => order.side === 'buy')
+        .reduce((sum, order) => sum + order.quantity * (order.limitPrice ?? this.state.lastPrices[order.symbol] ?? 0), 0);
+      if (price !== undefined && quantity * price > this.state.cash - reserved) {
+        return { error: `Insufficient cash for ${quantity} ${symbol} at about $${price.toFixed(2)}` };
+      }
+    }
+
+    const now = new Date();
+    const order: PaperOrder = {
+      id: randomUUID(),
+      symbol,
+      side: input.side,
+      type: input.type,
+      quantity,
+      limitPrice: input.type === 'limit' ? input.limitPrice! : null,
+      status: 'open',
+      reason: input.reason || null,
+      rejectReason: null,
+      fillId: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.state.orders.push(order);
+    console.log(`[${new Date().toISOString()}] Paper order placed: ${order.side.toUpperCase()} ${quantity} ${symbol} ${order.type}${order.limitPrice ? ` @ ${order.limitPrice}` : ''}`);
+
+    this.changed();
+    return { order };
+  }
+
+  // Cancel an open order; null when it is no longer open
+  cancelOrder(id: string): PaperOrder | null {
+    const order = this.getOrder(id);
+    if (!order || order.status !== 'open') return null;
+
+    order.status = 'cancelled';
+    order.updatedAt = new Date();
+    this.changed();
+    return order;
+  }
+
+  // Start over with a new account, dropping positions, orders and fills
+  reset(initialCash: number = this.options.initialCash): PaperAccount {
+    this.state = newAccount(initialCash);
+    console.log(`[${new Date().toISOString()}] Paper trading account reset to $${initialCash}`);
+    this.changed();
+    return this.getAccount();
+  }
+
+  // Mark positions to market and fill the symbol's open orders the quote reaches
+  onQuote(quote: StockQuote, receivedAt: Date) {
+    if (!isTradablePrice(quote.price)) return;
+
+    const hasPosition = this.state.positions.some(position => position.symbol === quote.symbol);
+    const due = this.openOrders().filter(order => order.symbol === quote.symbol && order.createdAt < receivedAt);
+    if (!hasPosition && due.length === 0) return;
+
+    this.state.lastPrices[quote.symbol] = quote.price;
+
+    let filled = false;
+    for (const order of due) {
+      if (order.type === 'limit' && (order.side === 'buy' ? quote.price > order.limitPrice! : quote.price < order.limitPrice!)) continue;
+      this.fill(order, quote, receivedAt);
+      filled = true;
+    }
+    if (filled) this.changed();
+  }
+
+  private fill(order: PaperOrder, quote: StockQuote, timestamp: Date) {
+    const direction = order.side === 'buy' ? 1 : -1;
+    const participationPercent = quote.volume > 0 ? (order.quantity / quote.volume) * 100 : 0;
+    const slippageBps = this.options.slippageBps + this.options.impactBps * Math.sqrt(participationPercent);
+    let price = quote.price * (1 + direction * slippageBps / 10000);
+    if (order.limitPrice !== null) {
+      price = direction > 0 ? Math.min(price, order.limitPrice) : Math.max(price, order.limitPrice);
+    }
+    const commission = this.options.commissionPerOrder + order.quantity * price * (this.options.commissionBps / 10000);
+
+    // Holdings and cash may have changed since the order was placed
+    const held = this.heldQuantity(order.symbol);
+    const rejectReason = direction < 0 && !this.options.allowShort && order.quantity > held + QUANTITY_EPSILON
+      ? `Only ${round(Math.max(held, 0), 6)} held and short selling is disabled`
+      : direction > 0 && order.quantity * price + commission > this.state.cash
+        ? 'Insufficient cash'
+        : null;
+    order.updatedAt = timestamp;
+    if (rejectReason) {
+      order.status = 'rejected';
+      order.rejectReason = rejectReason;
+      console.warn(`[${new Date().toISOString()}] Paper order rejected: ${order.side.toUpperCase()} ${order.quantity} ${order.symbol}: ${rejectReason}`);
+      return;
+    }
+
+    const realizedPnl = this.applyToPosition(order.symbol, direction * order.quantity, price, timestamp) - commission;
+    this.state.cash -= direction * order.quantity * price + commission;
+    this.state.realizedPnl += realizedPnl;
+    this.state.commissions += commission;
+
+    const fill: PaperFill = {
+      id: randomUUID(),
+      orderId: order.id,
+      symbol: order.symbol,
+      side: order.side,
+      quantity: order.quantity,
+      price: round(price),
+      quotePrice: quote.price,
+      slippageBps: round(slippageBps, 2),
+      commission: round(commission),
+      realizedPnl: round(realizedPnl, 2),
+      timestamp,
+    };
+    this.state.fills.push(fill);
+    order.status = 'filled';
+    order.fillId = fill.id;
+    console.log(`[${new Date().toISOString()}] Paper fill: ${order.side.toUpperCase()} ${order.quantity} ${order.symbol} @ ${fill.price} (quote ${quote.price}, ${fill.slippageBps} bps slippage)`);
+  }
+
+  // Add a signed quantity to a position; returns the gain or loss realized on the quantity it closes
+  private applyToPosition(symbol: string, delta: number, price: number, timestamp: Date): number {
+    const position = this.state.positions.find(candidate => candidate.symbol === symbol);
+    if (!position) {
+      this.state.positions.push({ symbol, quantity: delta, avgPrice: price, realizedPnl: 0, openedAt: timestamp });
+      return 0;
+    }
+
+    const held = position.quantity;
+    let realized = 0;
+    if (Math.sign(held) === Math.sign(delta)) {
+      position.avgPrice = (Math.abs(held) * position.avgPrice + Math.abs(delta) * price) / (Math.abs(held) + Math.abs(delta));
+    } else {
+      const closed = Math.min(Math.abs(delta), Math.abs(held));
+      realized = closed * (price - position.avgPrice) * Math.sign(held);
+    }
+    position.quantity = held + delta;
+    position.realizedPnl += realized;
+
+    if (Math.abs(position.quantity) < QUANTITY_EPSILON) {
+      this.state.positions = this.state.positions.filter(candidate => candidate !== position);
+      delete this.state.lastPrices[symbol];
+    } else if (Math.sign(position.quantity) !== Math.sign(held)) {
+      // Flipped from long to short or back: what is left was opened at this fill
+      position.avgPrice = price;
+      position.openedAt = timestamp;
+    }
+    return realized;
+  }
+
+  private openOrders(): PaperOrder[] {
+    return this.state.orders.filter(order => order.status === 'open');
+  }
+
+  private heldQuantity(symbol: string): number {
+    return this.state.positions.find(position => position.symbol === symbol)?.quantity ?? 0;
+  }
+
+  private openQuantity(symbol: string, side: OrderSide): number {
+    return this.openOrders()
+      .filter(order => order.symbol === symbol && order.side === side)
+      .reduce((sum, order) => sum + order.quantity, 0);
+  }
+
+  // Bookkeeping after every change: trim history, re-subscribe and save
+  private changed() {
+    this.state.updatedAt = new Date();
+
+    const closed = this.state.orders.filter(order => order.status !== 'open');
+    if (closed.length > this.options.maxHistory) {
+      const dropped = new Set(closed.slice(0, closed.length - this.options.maxHistory));
+      this.state.orders = this.state.orders.filter(order => !dropped.has(order));
+    }
+    this.state.fills = this.state.fills.slice(-this.options.maxHistory);
+
+    this.syncSubscriptions();
+    this.save();
+  }
+
+  // Keep the symbols of positions and open orders in the polled universe
+  private syncSubscriptions() {
+    this.subscriptions.replace(this.subscriber, [
+      ...this.state.positions.map(position => position.symbol),
+      ...this.openOrders().map(order => order.symbol),
+    ]);
+  }
+
+  // Keep a state file that failed to load as <stateFile>.corrupt-<time> and start over with a new account;
+  // if it cannot be moved, the account is not saved at all rather than saved over it
+  private async setAsideStateFile(error: Error) {
+    const file = this.options.stateFile;
+    const aside = `${file}.corrupt-${Date.now()}`;
+    this.state = newAccount(this.options.initialCash);
+    try {
+      await fs.rename(file, aside);
+    } catch (renameError: any) {
+      this.persistent = false;
+      console.error(`[${new Date().toISOString()}] Failed to load the paper trading account from ${file} (${error.message}) and to move it aside (${renameError.message}); the new account is kept in memory only`);
+      return;
+    }
+    console.error(`[${new Date().toISOString()}] Failed to load the paper trading account (${error.message}); moved ${file} to ${aside} and opened a new one with $${this.state.initialCash}`);
+    this.save();
+  }
+
+  // Wait for the state file saves in flight
+  async settled() {
+    await this.saving;
+  }
+
+  // Write the state file atomically; saves are queued so an older state never overwrites a newer one
+  private save() {
+    if (!this.persistent) return;
+    const snapshot = JSON.stringify(this.state);
+    const file = this.options.stateFile;
+    this.saving = this.saving
+      .then(async () => {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(`${file}.tmp`, snapshot);
+        await fs.rename(`${file}.tmp`, file);
+      })
+      .catch(error => {
+        console.error(`[${new Date().toISOString()}] Failed to save the paper trading account:`, error.message);
+      });
+  }
+}
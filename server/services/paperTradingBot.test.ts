@@ -0,0 +1,166 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { TradingSignal } from './ai-strategies';
+import type { StockQuote } from './marketData';
+import { useTempDir } from '../testing/tempDir';
+
+const getHistoricalData = vi.fn();
+const getMarketMovers = vi.fn();
+
+vi.mock('./marketData', () => ({ getHistoricalData, getMarketMovers }));
+
+vi.mock('./strategies', async importOriginal => ({
+  ...await importOriginal<typeof import('./strategies')>(),
+  generateAISignal: vi.fn()
+}));
+
+const { generateAISignal } = await import('./strategies');
+const { PaperTradingEngine } = await import('./paperTrading');
+const { PaperTradingBot } = await import('./paperTradingBot');
+const { SubscriptionRegistry } = await import('../websocket/subscriptions');
+const { LastValueCache } = await import('../websocket/lastValueCache');
+const { PAPER_TRADING_CONFIG, PAPER_BOT_CONFIG } = await import('../config/paperTrading');
+
+const signal = vi.mocked(generateAISignal);
+
+const tmp = useTempDir('paper-trading-bot-');
+
+const mover = (symbol: string, price: number) =>
+  ({ symbol, name: symbol, price, change: '+1.00%', changePercent: 1, volume: 1_000_000, currency: 'USD' });
+
+const quote = (symbol: string, price: number): StockQuote => ({
+  ...mover(symbol, price),
+  change: 0,
+  marketCap: 0,
+  peRatio: 0,
+  dayHigh: 0,
+  dayLow: 0,
+  previousClose: price
+});
+
+const respond = (action: TradingSignal['action'], confidence: number) =>
+  signal.mockReturnValueOnce({ action, confidence, reason: 'test', timestamp: Date.now() } as TradingSignal);
+
+// A bot over an empty account without slippage or commission, trading the streamed `movers`
+function createBot(movers = [mover('AAPL', 100)]) {
+  const engine = new PaperTradingEngine(new SubscriptionRegistry(5000), new LastValueCache(), {
+    ...PAPER_TRADING_CONFIG,
+    initialCash: 10_000,
+    slippageBps: 0,
+    impactBps: 0,
+    commissionPerOrder: 0,
+    commissionBps: 0,
+    stateFile: tmp.join('paper-trading.json')
+  });
+  tmp.onCleanup(() => engine.settled());
+
+  const cache = new LastValueCache();
+  cache.setMovers({ type: 'market_movers_update', gainers: movers, losers: [], timestamp: Date.now() });
+  const bot = new PaperTradingBot(engine, cache, { ...PAPER_BOT_CONFIG, enabled: true, strategy: 'neuro-scalp' });
+  return { engine, bot };
+}
+
+beforeEach(() => {
+  signal.mockReset();
+  getHistoricalData.mockReset();
+  getHistoricalData.mockResolvedValue([100, 101, 102].map(close => ({ date: new Date(), open: close, high: close, low: close, close, volume: 1000 })));
+  getMarketMovers.mockReset();
+});
+
+describe('PaperTradingBot.scan', () => {
+  it('evaluates the strategy on the bar closes without a sentiment input', async () => {
+    const { bot } = createBot();
+    respond('HOLD', 50);
+
+    await bot.scan();
+
+    expect(getHistoricalData).toHaveBeenCalledWith('AAPL', expect.any(Date), expect.any(Date), '5m');
+    const [marketData, strategy] = signal.mock.calls[0];
+    expect(marketData).toMatchObject({ symbol: 'AAPL', price: 100, historicalPrices: [100, 101, 102] });
+    expect(marketData).not.toHaveProperty('sentimentScore');
+    expect(strategy).toBe('neuro-scalp');
+  });
+
+  it.each([
+    [80, 1],
+    [85, 1.5],
+    [95, 2.5]
+  ])('buys a share of equity by confidence (%d%%)', async (confidence, riskPercent) => {
+    const { engine, bot } = createBot();
+    respond('BUY', confidence);
+
+    const decision = await bot.scan();
+
+    expect(decision).toMatchObject({ action: 'BUY', riskPercent, order: `BUY ${riskPercent} @ MKT` });
+    expect(engine.getOrders('open')).toMatchObject([{ symbol: 'AAPL', side: 'buy', type: 'market', quantity: riskPercent }]);
+  });
+
+  it('sells the held position and nothing when there is none', async () => {
+    const { engine, bot } = createBot();
+    respond('SELL', 90);
+    expect(await bot.scan()).toMatchObject({ order: 'NO POSITION TO SELL' });
+
+    respond('BUY', 95);
+    await bot.scan();
+    engine.onQuote(quote('AAPL', 100), new Date(Date.now() + 1000));
+    respond('SELL', 90);
+    expect(await bot.scan()).toMatchObject({ order: 'SELL 2.5 @ MKT', riskPercent: null });
+  });
+
+  it('only logs holds and signals at or below the minimum confidence', async () => {
+    const { engine, bot } = createBot();
+    respond('BUY', 75);
+    respond('HOLD', 99);
+
+    expect(await bot.scan()).toMatchObject({ action: 'BUY', order: null });
+    expect(await bot.scan()).toMatchObject({ action: 'HOLD', order: null });
+    expect(engine.getOrders()).toEqual([]);
+    expect(bot.getStatus().decisions).toHaveLength(2);
+  });
+
+  it('does not stack a second order on a symbol with one open', async () => {
+    const { engine, bot } = createBot();
+    respond('BUY', 95);
+    respond('BUY', 95);
+
+    await bot.scan();
+    expect(await bot.scan()).toMatchObject({ order: 'ORDER PENDING' });
+    expect(engine.getOrders()).toHaveLength(1);
+  });
+
+  it('takes the movers in turn', async () => {
+    const { bot } = createBot([mover('AAPL', 100), mover('MSFT', 200), mover('NVDA', 300)]);
+    signal.mockReturnValue({ action: 'HOLD', confidence: 0, reason: 'test', timestamp: Date.now() } as TradingSignal);
+
+    for (let i = 0; i < 4; i++) await bot.scan();
+
+    expect(signal.mock.calls.map(([marketData]) => marketData.symbol)).toEqual(['AAPL', 'MSFT', 'NVDA', 'AAPL']);
+  });
+
+  it('does nothing while paused', async () => {
+    const { bot } = createBot();
+    bot.configure({ enabled: false });
+
+    expect(await bot.scan()).toBeNull();
+    expect(signal).not.toHaveBeenCalled();
+  });
+});
+
+describe('PaperTradingBot.configure', () => {
+  it('switches to the defaults of a new strategy, overridden by the given parameters', () => {
+    const { bot } = createBot();
+    const result = bot.configure({ strategy: 'deep-momentum', params: { fastEma: 10 } });
+    if ('error' in result) throw new Error(result.error);
+
+    expect(result.status).toMatchObject({ strategy: 'deep-momentum', params: { fastEma: 10, slowEma: 50, rsiPeriod: 14 } });
+    expect(bot.getStatus().params).toEqual(result.status.params);
+  });
+
+  it('rejects unknown strategies and invalid parameters without changing anything', () => {
+    const { bot } = createBot();
+    const before = bot.getStatus();
+
+    expect(bot.configure({ strategy: 'nope' })).toEqual({ error: 'Unknown strategy: nope' });
+    expect(bot.configure({ params: { rsiPeriod: 'x' } })).toHaveProperty('error');
+    expect(bot.getStatus()).toEqual(before);
+  });
+});
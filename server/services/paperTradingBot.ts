@@ -0,0 +1,197 @@
+import { getHistoricalData, getMarketMovers, type MarketMover } from './marketData';
+import { defaultStrategyParams, generateAISignal, getStrategy, resolveStrategyParams, type StrategyParams } from './strategies';
+import type { PaperTradingEngine } from './paperTrading';
+import type { LastValueCache } from '../websocket/lastValueCache';
+import { PAPER_BOT_CONFIG } from '../config/paperTrading';
+
+export type PaperBotOptions = typeof PAPER_BOT_CONFIG;
+
+// One evaluated signal and what the bot did with it
+export interface BotDecision {
+  id: number;
+  symbol: string;
+  action: 'BUY' | 'SELL' | 'HOLD';
+  confidence: number;
+  reason: string;
+  riskPercent: number | null; // share of equity a BUY was sized to
+  order: string | null; // the order placed for the signal, or why none was
+  timestamp: Date;
+}
+
+export interface BotStatus {
+  enabled: boolean;
+  strategy: string;
+  params: StrategyParams;
+  intervalMs: number;
+  minConfidence: number;
+  decisions: BotDecision[]; // newest first
+}
+
+export interface BotSettings {
+  enabled?: boolean;
+  strategy?: string;
+  params?: Record<string, unknown>; // of the (new) strategy; unspecified parameters take their defaults
+}
+
+// Share of equity bought on a signal of this confidence
+function riskPercentFor(confidence: number): number {
+  return confidence > 90 ? 2.5 : confidence > 80 ? 1.5 : 1;
+}
+
+// Trades the selected strategy's signals on the market movers into the paper account, one mover per
+// interval in turn: a BUY above `minConfidence` buys 1-2.5% of equity, a SELL closes the held position.
+// It runs on the server so it trades whether or not a dashboard is open, and only once however many are.
+export class PaperTradingBot {
+  private engine: PaperTradingEngine;
+  private cache: LastValueCache;
+  private options: PaperBotOptions;
+  private enabled: boolean;
+  private strategy: string;
+  private params: StrategyParams;
+  private decisions: BotDecision[] = [];
+  private intervalId: NodeJS.Timeout | null = null;
+  private scanInProgress = false;
+  private cursor = 0;
+  private nextDecisionId = 1;
+  private fetchedMovers: { movers: MarketMover[]; at: number } | null = null;
+
+  constructor(engine: PaperTradingEngine, cache: LastValueCache, options: PaperBotOptions = PAPER_BOT_CONFIG) {
+    this.engine = engine;
+    this.cache = cache;
+    this.options = options;
+    this.enabled = options.enabled;
+
+    const strategy = getStrategy(options.strategy);
+    if (!strategy) {
+      throw new Error(`Unknown paper trading bot strategy: ${options.strategy}`);
+    }
+    this.strategy = strategy.id;
+    this.params = defaultStrategyParams(strategy);
+  }
+
+  start() {
+    this.intervalId = setInterval(() => {
+      this.scan().catch(error => console.error(`[${new Date().toISOString()}] Paper trading bot scan failed:`, error.message));
+    }, this.options.intervalMs);
+    console.log(`[${new Date().toISOString()}] Paper trading bot ${this.enabled ? 'running' : 'paused'} with ${this.strategy}`);
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  getStatus(): BotStatus {
+    return {
+      enabled: this.enabled,
+      strategy: this.strategy,
+      params: { ...this.params },
+      intervalMs: this.options.intervalMs,
+      minConfidence: this.options.minConfidence,
+      decisions: [...this.decisions],
+    };
+  }
+
+  // Pause or resume the bot, or switch its strategy or parameters
+  configure(settings: BotSettings): { error: string } | { status: BotStatus } {
+    const strategy = getStrategy(settings.strategy ?? this.strategy);
+    if (!strategy) {
+      return { error: `Unknown strategy: ${settings.strategy}` };
+    }
+    if (settings.params !== undefined || strategy.id !== this.strategy) {
+      const resolved = resolveStrategyParams(strategy, settings.params);
+      if ('error' in resolved) return resolved;
+      this.params = resolved.params;
+    }
+    this.strategy = strategy.id;
+    if (settings.enabled !== undefined) this.enabled = settings.enabled;
+
+    console.log(`[${new Date().toISOString()}] Paper trading bot ${this.enabled ? 'running' : 'paused'} with ${this.strategy} ${JSON.stringify(this.params)}`);
+    return { status: this.getStatus() };
+  }
+
+  // Evaluate the next mover and trade its signal; a slow scan makes the next interval skip
+  async scan(): Promise<BotDecision | null> {
+    if (!this.enabled || this.scanInProgress) return null;
+    this.scanInProgress = true;
+    try {
+      const movers = await this.movers();
+      if (movers.length === 0) return null;
+      const mover = movers[this.cursor++ % movers.length];
+      return await this.evaluate(mover);
+    } finally {
+      this.scanInProgress = false;
+    }
+  }
+
+  // The streamed movers, or while no client keeps them fresh, the provider's, re-fetched every moversRefreshMs
+  private async movers(): Promise<MarketMover[]> {
+    const streamed = this.cache.getMovers();
+    if (streamed) return [...streamed.gainers, ...streamed.losers];
+
+    if (!this.fetchedMovers || Date.now() - this.fetchedMovers.at >= this.options.moversRefreshMs) {
+      const [gainers, losers] = await Promise.all([getMarketMovers('gainers', 20), getMarketMovers('losers', 20)]);
+      this.fetchedMovers = { movers: [...gainers, ...losers], at: Date.now() };
+    }
+    return this.fetchedMovers.movers;
+  }
+
+  private async evaluate(mover: MarketMover): Promise<BotDecision> {
+    const now = new Date();
+    const bars = await getHistoricalData(mover.symbol, new Date(now.getTime() - this.options.historyDays * 24 * 60 * 60 * 1000), now, '5m');
+    const signal = generateAISignal({
+      symbol: mover.symbol,
+      price: mover.price,
+      volume: mover.volume,
+      historicalPrices: bars.map(bar => bar.close),
+      timestamp: now.getTime(),
+    }, this.strategy, this.params);
+
+    let order: string | null = null;
+    let riskPercent: number | null = null;
+    if (signal.confidence > this.options.minConfidence && signal.action !== 'HOLD') {
+      riskPercent = signal.action === 'BUY' ? riskPercentFor(signal.confidence) : null;
+      order = this.trade(mover, signal.action, signal.confidence, signal.reason, riskPercent);
+    }
+
+    const decision: BotDecision = {
+      id: this.nextDecisionId++,
+      symbol: mover.symbol,
+      action: signal.action,
+      confidence: Math.round(signal.confidence * 100) / 100,
+      reason: signal.reason,
+      riskPercent,
+      order,
+      timestamp: now,
+    };
+    this.decisions = [decision, ...this.decisions].slice(0, this.options.maxDecisions);
+    return decision;
+  }
+
+  // Place the order for a signal; returns what was done for the decision log
+  private trade(mover: MarketMover, action: 'BUY' | 'SELL', confidence: number, reason: string, riskPercent: number | null): string {
+    if (this.engine.getOrders('open').some(order => order.symbol === mover.symbol)) {
+      return 'ORDER PENDING';
+    }
+
+    const account = this.engine.getAccount();
+    const held = account.positions.find(position => position.symbol === mover.symbol)?.quantity ?? 0;
+    const quantity = action === 'BUY'
+      ? Math.floor((account.equity * (riskPercent! / 100) / mover.price) * 10000) / 10000
+      : Math.max(held, 0);
+    if (quantity <= 0 || !Number.isFinite(quantity)) {
+      return action === 'SELL' ? 'NO POSITION TO SELL' : 'PRICE TOO HIGH FOR RISK BUDGET';
+    }
+
+    const result = this.engine.placeOrder({
+      symbol: mover.symbol,
+      side: action === 'BUY' ? 'buy' : 'sell',
+      type: 'market',
+      quantity,
+      reason: `${this.strategy} ${confidence.toFixed(0)}%: ${reason}`,
+    });
+    return 'error' in result ? `REJECTED: ${result.error}` : `${action} ${quantity} @ MKT`;
+  }
+}
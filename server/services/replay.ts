@@ -0,0 +1,238 @@
+import fs from 'fs';
+import path from 'path';
+import type {
+  MarketDataProvider,
+  StockQuote,
+  MarketMover,
+  HistoricalBar,
+  SymbolSearchResult,
+  StockProfile,
+  Interval
+} from './marketData';
+
+// Session files are JSON Lines: a header line followed by one line per provider response
+const SESSION_VERSION = 1;
+
+interface SessionHeader {
+  version: number;
+  provider: string;
+  startedAt: number;
+}
+
+interface SessionEntry {
+  at: number; // milliseconds since the recording started
+  key: string;
+  result?: unknown;
+  error?: string;
+}
+
+export type ReplaySpeed = number | 'max';
+
+// Session keys shared by the recorder and the replayer
+function quoteKey(symbol: string) {
+  return `quote:${symbol.toUpperCase()}`;
+}
+
+function moversKey(type: 'gainers' | 'losers', count: number) {
+  return `movers:${type}:${count}`;
+}
+
+// Historical requests are keyed without their dates, which change from run to run
+function historicalKey(symbol: string, interval: Interval) {
+  return `historical:${symbol.toUpperCase()}:${interval}`;
+}
+
+function searchKey(query: string, count: number) {
+  return `search:${query.trim().toLowerCase()}:${count}`;
+}
+
+function profileKey(symbol: string) {
+  return `profile:${symbol.toUpperCase()}`;
+}
+
+// Parse a replay speed such as '1', '10' or 'max'
+export function parseReplaySpeed(value: string): ReplaySpeed {
+  if (value === 'max') return 'max';
+  const speed = parseFloat(value);
+  if (!Number.isFinite(speed) || speed <= 0) {
+    throw new Error(`Invalid replay speed: ${value} (expected a positive number or 'max')`);
+  }
+  return speed;
+}
+
+// Wraps a provider and appends every response it returns to a session file
+export class RecordingProvider implements MarketDataProvider {
+  readonly name: string;
+  private inner: MarketDataProvider;
+  private sessionPath: string;
+  private startedAt: number;
+
+  constructor(inner: MarketDataProvider, sessionPath: string) {
+    this.inner = inner;
+    this.name = `${inner.name}+recording`;
+    this.sessionPath = sessionPath;
+    this.startedAt = Date.now();
+
+    fs.mkdirSync(path.dirname(sessionPath), { recursive: true });
+    const header: SessionHeader = { version: SESSION_VERSION, provider: inner.name, startedAt: this.startedAt };
+    fs.writeFileSync(sessionPath, JSON.stringify(header) + '\n');
+    console.log(`[${new Date().toISOString()}] Recording market data session to ${sessionPath}`);
+  }
+
+  getQuote(symbol: string): Promise<StockQuote> {
+    return this.record(quoteKey(symbol), () => this.inner.getQuote(symbol));
+  }
+
+  // Batch responses are split into per-symbol entries so either call style can replay them
+  async getQuotes(symbols: string[]): Promise<StockQuote[]> {
+    try {
+      const quotes = await this.inner.getQuotes(symbols);
+      const at = Date.now() - this.startedAt;
+      quotes.forEach((quote) => this.append({ at, key: quoteKey(quote.symbol), result: quote }));
+      return quotes;
+    } catch (error: any) {
+      const at = Date.now() - this.startedAt;
+      symbols.forEach((symbol) => this.append({ at, key: quoteKey(symbol), error: error?.message || String(error) }));
+      throw error;
+    }
+  }
+
+  getMarketMovers(type: 'gainers' | 'losers', count: number): Promise<MarketMover[]> {
+    return this.record(moversKey(type, count), () => this.inner.getMarketMovers(type, count));
+  }
+
+  getHistoricalData(symbol: string, period1: Date, period2: Date, interval: Interval): Promise<HistoricalBar[]> {
+    return this.record(historicalKey(symbol, interval), () => this.inner.getHistoricalData(symbol, period1, period2, interval));
+  }
+
+  search(query: string, count: number): Promise<SymbolSearchResult[]> {
+    return this.record(searchKey(query, count), () => this.inner.search(query, count));
+  }
+
+  getProfile(symbol: string): Promise<StockProfile> {
+    return this.record(profileKey(symbol), () => this.inner.getProfile(symbol));
+  }
+
+  private async record<T>(key: string, fetch: () => Promise<T>): Promise<T> {
+    try {
+      const result = await fetch();
+      this.append({ at: Date.now() - this.startedAt, key, result });
+      return result;
+    } catch (error: any) {
+      this.append({ at: Date.now() - this.startedAt, key, error: error?.message || String(error) });
+      throw error;
+    }
+  }
+
+  private append(entry: SessionEntry) {
+    fs.appendFile(this.sessionPath, JSON.stringify(entry) + '\n', (error) => {
+      if (error) {
+        console.error(`[${new Date().toISOString()}] Failed to write session entry for ${entry.key}:`, error.message);
+      }
+    });
+  }
+}
+
+// Serves the responses of a recorded session back, following the session's own clock.
+// At a numeric speed each request gets the latest response recorded at or before the
+// scaled elapsed time; at 'max' speed every request advances to the next response.
+export class ReplayProvider implements MarketDataProvider {
+  readonly name = 'replay';
+  private entries = new Map<string, SessionEntry[]>();
+  private cursors = new Map<string, number>();
+  private speed: ReplaySpeed;
+  private startedAt: number;
+  private duration = 0;
+  private finished = false;
+
+  constructor(sessionPath: string, speed: ReplaySpeed = 1) {
+    this.speed = speed;
+
+    const lines = fs.readFileSync(sessionPath, 'utf-8').split('\n').filter((line) => line.trim());
+    const header = JSON.parse(lines[0] || '{}') as SessionHeader;
+    if (header.version !== SESSION_VERSION) {
+      throw new Error(`Unsupported session file version in ${sessionPath}: ${header.version}`);
+    }
+
+    for (const line of lines.slice(1)) {
+      const entry = JSON.parse(line) as SessionEntry;
+      const list = this.entries.get(entry.key) || [];
+      list.push(entry);
+      this.entries.set(entry.key, list);
+      this.duration = Math.max(this.duration, entry.at);
+    }
+    this.entries.forEach((list) => list.sort((a, b) => a.at - b.at));
+
+    this.startedAt = Date.now();
+    console.log(`[${new Date().toISOString()}] Replaying ${lines.length - 1} recorded responses from ${sessionPath} (${header.provider}, speed ${speed})`);
+  }
+
+  async getQuote(symbol: string): Promise<StockQuote> {
+    return this.next<StockQuote>(quoteKey(symbol));
+  }
+
+  async getQuotes(symbols: string[]): Promise<StockQuote[]> {
+    return symbols
+      .filter((symbol) => this.entries.has(quoteKey(symbol)))
+      .map((symbol) => this.next<StockQuote>(quoteKey(symbol)));
+  }
+
+  async getMarketMovers(type: 'gainers' | 'losers', count: number): Promise<MarketMover[]> {
+    return this.next<MarketMover[]>(moversKey(type, count));
+  }
+
+  async getHistoricalData(symbol: string, _period1: Date, _period2: Date, interval: Interval): Promise<HistoricalBar[]> {
+    const bars = this.next<any[]>(historicalKey(symbol, interval));
+    return bars.map((bar) => ({ ...bar, date: new Date(bar.date) }));
+  }
+
+  async search(query: string, count: number): Promise<SymbolSearchResult[]> {
+    return this.next<SymbolSearchResult[]>(searchKey(query, count));
+  }
+
+  async getProfile(symbol: string): Promise<StockProfile> {
+    return this.next<StockProfile>(profileKey(symbol));
+  }
+
+  private next<T>(key: string): T {
+    const list = this.entries.get(key);
+    if (!list || list.length === 0) {
+      throw new Error(`No recorded response for ${key}`);
+    }
+
+    const entry = this.speed === 'max' ? this.advanceCursor(key, list) : this.entryAtElapsed(list);
+    if (entry.error) {
+      throw new Error(entry.error);
+    }
+    return entry.result as T;
+  }
+
+  private advanceCursor(key: string, list: SessionEntry[]): SessionEntry {
+    const cursor = this.cursors.get(key) || 0;
+    this.cursors.set(key, Math.min(cursor + 1, list.length - 1));
+    return list[cursor];
+  }
+
+  private entryAtElapsed(list: SessionEntry[]): SessionEntry {
+    const elapsed = (Date.now() - this.startedAt) * (this.speed as number);
+    if (elapsed > this.duration && !this.finished) {
+      this.finished = true;
+      console.log(`[${new Date().toISOString()}] Replay session finished, serving the last recorded responses`);
+    }
+
+    // Latest entry recorded at or before the elapsed session time
+    let low = 0;
+    let high = list.length - 1;
+    let found = 0;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (list[mid].at <= elapsed) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return list[found];
+  }
+}
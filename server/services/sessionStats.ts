@@ -0,0 +1,247 @@
+import { getBars, getAverageVolumeAtTime, isSchemaReady } from './clickhouse';
+import { SESSION_CONFIG } from '../config/session';
+import { getStockQuote, type StockQuote } from './marketData';
+
+const MINUTE_MS = 60 * 1000;
+
+// Intraday statistics of a symbol's current session
+export interface SessionStats {
+  symbol: string;
+  sessionDate: string; // YYYY-MM-DD in the session timezone
+  open: number | null; // first price of the session
+  vwap: number | null;
+  sessionVolume: number;
+  averageVolumeAtTime: number | null; // average cumulative volume by this time of day over the previous sessions
+  relativeVolume: number | null;
+  openingRange: { high: number; low: number; complete: boolean } | null;
+  gapPercent: number | null; // open vs previous close, in percent
+  updatedAt: Date;
+}
+
+interface SessionState {
+  day: string;
+  sessionOpen: Date;
+  firstTickAt: Date;
+  open: number | null;
+  previousClose: number;
+  priceVolume: number; // sum of price x volume traded, for the VWAP
+  vwapVolume: number;
+  lastVolume: number | null;
+  sessionVolume: number;
+  rangeHigh: number | null;
+  rangeLow: number | null;
+  averageVolumeAtTime: number | null;
+  averageVolumeCheckedAt: number;
+  pending: Promise<void>[]; // backfill and average volume queries in flight
+  updatedAt: Date;
+}
+
+function parseOpenMinute(time: string): number {
+  const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+  return hours * 60 + (minutes || 0);
+}
+
+const OPEN_MINUTE = parseOpenMinute(SESSION_CONFIG.openTime);
+
+const clockFormat = new Intl.DateTimeFormat('en-CA', {
+  timeZone: SESSION_CONFIG.timezone,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+  hourCycle: 'h23',
+});
+
+// Calendar day and time of day of `at` in the session timezone
+function sessionClock(at: Date): { day: string; minuteOfDay: number; second: number } {
+  const parts: Record<string, string> = {};
+  clockFormat.formatToParts(at).forEach(part => {
+    parts[part.type] = part.value;
+  });
+  return {
+    day: `${parts.year}-${parts.month}-${parts.day}`,
+    minuteOfDay: parseInt(parts.hour, 10) * 60 + parseInt(parts.minute, 10),
+    second: parseInt(parts.second, 10),
+  };
+}
+
+function round(value: number, decimals: number = 4): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// Tracks VWAP, relative volume, opening range and gap per symbol from the broadcast ticks.
+// A session that was already running when the server started is backfilled from the stored 1-minute bars.
+export class SessionStatsTracker {
+  private states = new Map<string, SessionState>();
+
+  // Feed a polled quote; returns the statistics, or null before the session opens (pre-market)
+  record(quote: StockQuote, at: Date = new Date()): SessionStats | null {
+    const clock = sessionClock(at);
+    if (clock.minuteOfDay < OPEN_MINUTE) return null;
+
+    let state = this.states.get(quote.symbol);
+    if (!state || state.day !== clock.day) {
+      state = this.startSession(quote.symbol, clock, at);
+    }
+
+    // Quote volume is cumulative for the day; a drop means it was reset
+    if (state.lastVolume !== null) {
+      const traded = quote.volume >= state.lastVolume ? quote.volume - state.lastVolume : quote.volume;
+      state.priceVolume += quote.price * traded;
+      state.vwapVolume += traded;
+    }
+    state.lastVolume = quote.volume;
+    state.sessionVolume = quote.volume;
+    state.previousClose = quote.previousClose;
+    if (state.open === null) state.open = quote.price;
+
+    if (at.getTime() < this.openingRangeEnd(state)) {
+      state.rangeHigh = Math.max(state.rangeHigh ?? quote.price, quote.price);
+      state.rangeLow = Math.min(state.rangeLow ?? quote.price, quote.price);
+    }
+
+    state.updatedAt = at;
+    this.refreshAverageVolume(quote.symbol, state, at);
+    return this.toStats(quote.symbol, state, at);
+  }
+
+  // Latest statistics of a symbol in today's session, if it has ticked
+  get(symbol: string, now: Date = new Date()): SessionStats | null {
+    const state = this.states.get(symbol);
+    if (!state || state.day !== sessionClock(now).day) return null;
+    return this.toStats(symbol, state, now);
+  }
+
+  // Wait for the stored data a new session is being filled in from
+  async settled(symbol: string) {
+    await Promise.all(this.states.get(symbol)?.pending || []);
+  }
+
+  // Forget symbols nobody subscribes to any more
+  retainOnly(symbols: string[]) {
+    const keep = new Set(symbols);
+    Array.from(this.states.keys()).forEach(symbol => {
+      if (!keep.has(symbol)) this.states.delete(symbol);
+    });
+  }
+
+  private startSession(symbol: string, clock: { day: string; minuteOfDay: number; second: number }, at: Date): SessionState {
+    const elapsedMs = ((clock.minuteOfDay - OPEN_MINUTE) * 60 + clock.second) * 1000 + at.getMilliseconds();
+    const state: SessionState = {
+      day: clock.day,
+      sessionOpen: new Date(at.getTime() - elapsedMs),
+      firstTickAt: at,
+      open: null,
+      previousClose: 0,
+      priceVolume: 0,
+      vwapVolume: 0,
+      lastVolume: null,
+      sessionVolume: 0,
+      rangeHigh: null,
+      rangeLow: null,
+      averageVolumeAtTime: null,
+      averageVolumeCheckedAt: 0,
+      pending: [],
+      updatedAt: at,
+    };
+    this.states.set(symbol, state);
+
+    if (elapsedMs >= MINUTE_MS && isSchemaReady()) {
+      this.track(state, this.backfill(symbol, state).catch((error: any) => {
+        console.debug(`[${new Date().toISOString()}] Session backfill failed for ${symbol} (non-critical):`, error.message);
+      }));
+    }
+    return state;
+  }
+
+  // Add the stored bars from the session open up to the minute of the first tick
+  private async backfill(symbol: string, state: SessionState) {
+    const firstTickMinute = Math.floor(state.firstTickAt.getTime() / MINUTE_MS) * MINUTE_MS;
+    const bars = await getBars(symbol, '1m', state.sessionOpen, new Date(firstTickMinute - 1000));
+    if (bars.length === 0 || this.states.get(symbol) !== state) return;
+
+    const rangeEnd = this.openingRangeEnd(state);
+    for (const bar of bars) {
+      state.priceVolume += ((bar.high + bar.low + bar.close) / 3) * bar.volume;
+      state.vwapVolume += bar.volume;
+      if (bar.start.getTime() < rangeEnd) {
+        state.rangeHigh = Math.max(state.rangeHigh ?? bar.high, bar.high);
+        state.rangeLow = Math.min(state.rangeLow ?? bar.low, bar.low);
+      }
+    }
+    state.open = bars[0].open;
+    console.log(`[${new Date().toISOString()}] Backfilled ${symbol} session statistics from ${bars.length} stored bar(s)`);
+  }
+
+  // Re-query the average cumulative volume at this time of day in the previous sessions, at most every relativeVolumeRefreshMs
+  private refreshAverageVolume(symbol: string, state: SessionState, at: Date) {
+    if (!isSchemaReady() || at.getTime() - state.averageVolumeCheckedAt < SESSION_CONFIG.relativeVolumeRefreshMs) return;
+    state.averageVolumeCheckedAt = at.getTime();
+
+    const elapsedSeconds = (at.getTime() - state.sessionOpen.getTime()) / 1000;
+    const session = { date: state.day, timezone: SESSION_CONFIG.timezone, openSecond: OPEN_MINUTE * 60 };
+    this.track(state, getAverageVolumeAtTime(symbol, session, elapsedSeconds, SESSION_CONFIG.relativeVolumeDays)
+      .then(average => {
+        state.averageVolumeAtTime = average;
+      })
+      .catch((error: any) => {
+        console.debug(`[${new Date().toISOString()}] Average volume query failed for ${symbol} (non-critical):`, error.message);
+      }));
+  }
+
+  private track(state: SessionState, request: Promise<void>) {
+    state.pending.push(request);
+    request.finally(() => {
+      state.pending = state.pending.filter(pending => pending !== request);
+    });
+  }
+
+  private openingRangeEnd(state: SessionState): number {
+    return state.sessionOpen.getTime() + SESSION_CONFIG.openingRangeMinutes * MINUTE_MS;
+  }
+
+  private toStats(symbol: string, state: SessionState, now: Date): SessionStats {
+    const hasRange = state.rangeHigh !== null && state.rangeLow !== null;
+    return {
+      symbol,
+      sessionDate: state.day,
+      open: state.open,
+      vwap: state.vwapVolume > 0 ? round(state.priceVolume / state.vwapVolume) : null,
+      sessionVolume: state.sessionVolume,
+      averageVolumeAtTime: state.averageVolumeAtTime,
+      relativeVolume: state.averageVolumeAtTime ? round(state.sessionVolume / state.averageVolumeAtTime, 2) : null,
+      openingRange: hasRange
+        ? { high: state.rangeHigh!, low: state.rangeLow!, complete: now.getTime() >= this.openingRangeEnd(state) }
+        : null,
+      gapPercent: state.open !== null && state.previousClose > 0
+        ? round(((state.open - state.previousClose) / state.previousClose) * 100)
+        : null,
+      updatedAt: state.updatedAt,
+    };
+  }
+}
+
+const tracker = new SessionStatsTracker();
+
+// Feed a broadcast quote into the session statistics
+export function recordSessionQuote(quote: StockQuote, at: Date = new Date()): SessionStats | null {
+  return tracker.record(quote, at);
+}
+
+// Session statistics for the REST API; symbols the broadcaster does not poll are quoted on demand
+export async function getSessionStats(symbol: string): Promise<SessionStats | null> {
+  const key = symbol.toUpperCase();
+  if (!tracker.get(key)) {
+    tracker.record(await getStockQuote(key));
+    await tracker.settled(key);
+  }
+  return tracker.get(key);
+}
+
+// Drop session state of symbols that are no longer polled
+export function retainSessionStats(symbols: string[]) {
+  tracker.retainOnly(symbols);
+}
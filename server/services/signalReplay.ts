@@ -0,0 +1,132 @@
+import { generateAISignal, type Strategy, type StrategyParams } from './strategies';
+import { getHistoricalData, type HistoricalBar, type Interval } from './marketData';
+import { INDICATOR_LOOKBACK_MS } from './indicators';
+
+// Width of the confidence buckets the hit rate is reported for
+const CONFIDENCE_BUCKET_WIDTH = 10;
+
+// A strategy signal on one historical bar, with what the price did over the next `horizon` bars
+export interface ReplayedSignal {
+  date: Date;
+  price: number;
+  action: 'BUY' | 'SELL' | 'HOLD';
+  confidence: number;
+  reason: string;
+  forwardReturnPercent: number | null; // null for the last `horizon` bars
+  hit: boolean | null; // BUY followed by a rise or SELL by a fall; null for HOLD or without a forward return
+}
+
+// Hit rate of BUY and SELL signals whose confidence falls in [min, max)
+export interface ConfidenceBucketStats {
+  min: number;
+  max: number;
+  signals: number; // signals with a forward return
+  hits: number;
+  hitRatePercent: number | null;
+  avgForwardReturnPercent: number | null; // in the signal's direction, so positive means the signal was right
+}
+
+export interface SignalReplay {
+  symbol: string;
+  strategy: string;
+  params: StrategyParams;
+  interval: Interval;
+  horizon: number;
+  signals: ReplayedSignal[];
+  buckets: ConfidenceBucketStats[];
+  summary: { buy: number; sell: number; hold: number; hitRatePercent: number | null };
+}
+
+function round(value: number, decimals: number = 4): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function hitRate(signals: ReplayedSignal[]): number | null {
+  const scored = signals.filter(signal => signal.hit !== null);
+  return scored.length > 0 ? round((scored.filter(signal => signal.hit).length / scored.length) * 100, 2) : null;
+}
+
+// Walk a strategy bar by bar over historical bars, from the first bar with its full lookback
+export function replaySignals(strategy: Strategy, params: StrategyParams, symbol: string, bars: HistoricalBar[], horizon: number) {
+  const lookback = strategy.lookback(params);
+  const closes = bars.map(bar => bar.close);
+  const signals: ReplayedSignal[] = [];
+
+  for (let i = lookback - 1; i < bars.length; i++) {
+    const signal = generateAISignal({
+      symbol,
+      price: closes[i],
+      volume: bars[i].volume,
+      historicalPrices: closes.slice(i + 1 - lookback, i + 1),
+      timestamp: bars[i].date.getTime(),
+    }, strategy.id, params);
+
+    const forward = i + horizon < bars.length ? (closes[i + horizon] / closes[i] - 1) * 100 : null;
+    signals.push({
+      date: bars[i].date,
+      price: closes[i],
+      action: signal.action,
+      confidence: round(signal.confidence, 2),
+      reason: signal.reason,
+      forwardReturnPercent: forward === null ? null : round(forward),
+      hit: forward === null || signal.action === 'HOLD' ? null : signal.action === 'BUY' ? forward > 0 : forward < 0,
+    });
+  }
+
+  return signals;
+}
+
+// Hit rate and direction-adjusted forward return of BUY/SELL signals per confidence bucket
+export function bucketByConfidence(signals: ReplayedSignal[]): ConfidenceBucketStats[] {
+  const buckets: ConfidenceBucketStats[] = [];
+  for (let min = 0; min < 100; min += CONFIDENCE_BUCKET_WIDTH) {
+    const max = min + CONFIDENCE_BUCKET_WIDTH;
+    const inBucket = signals.filter(signal => signal.hit !== null
+      && signal.confidence >= min && (signal.confidence < max || (max === 100 && signal.confidence <= 100)));
+    if (inBucket.length === 0) continue;
+
+    const directed = inBucket.map(signal => (signal.action === 'SELL' ? -1 : 1) * signal.forwardReturnPercent!);
+    buckets.push({
+      min,
+      max,
+      signals: inBucket.length,
+      hits: inBucket.filter(signal => signal.hit).length,
+      hitRatePercent: hitRate(inBucket),
+      avgForwardReturnPercent: round(directed.reduce((sum, value) => sum + value, 0) / directed.length),
+    });
+  }
+  return buckets;
+}
+
+// Replay a strategy over a symbol's provider history; null when there are fewer bars than its lookback
+export async function getSignalReplay(
+  symbol: string,
+  strategy: Strategy,
+  params: StrategyParams,
+  interval: Interval = '1d',
+  horizon: number = 5
+): Promise<SignalReplay | null> {
+  const to = new Date();
+  const from = new Date(to.getTime() - (INDICATOR_LOOKBACK_MS[interval] || INDICATOR_LOOKBACK_MS['1d']!));
+  const bars = (await getHistoricalData(symbol, from, to, interval)).filter(bar => bar.close > 0);
+  if (bars.length < strategy.lookback(params)) return null;
+
+  const key = symbol.toUpperCase();
+  const signals = replaySignals(strategy, params, key, bars, horizon);
+  return {
+    symbol: key,
+    strategy: strategy.id,
+    params,
+    interval,
+    horizon,
+    signals,
+    buckets: bucketByConfidence(signals),
+    summary: {
+      buy: signals.filter(signal => signal.action === 'BUY').length,
+      sell: signals.filter(signal => signal.action === 'SELL').length,
+      hold: signals.filter(signal => signal.action === 'HOLD').length,
+      hitRatePercent: hitRate(signals),
+    },
+  };
+}
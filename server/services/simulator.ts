@@ -0,0 +1,446 @@
+import type {
+  MarketDataProvider,
+  StockQuote,
+  MarketMover,
+  HistoricalBar,
+  SymbolSearchResult,
+  StockProfile,
+  Interval
+} from './marketData';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ANCHOR_DAY = Math.floor(Date.UTC(2025, 0, 1) / DAY_MS); // base prices are quoted at this day's open
+const DAILY_VOLATILITY = 0.015;
+const DAILY_DRIFT = 0.0002;
+const PATH_CACHE_SIZE = 128;
+
+// Salts keep the independent random streams of a symbol apart
+const SALT_DAILY_RETURN = 1;
+const SALT_TICK = 3;
+const SALT_VOLUME = 5;
+const SALT_RANGE = 7;
+const SALT_PROFILE = 11;
+
+interface SimulatedSymbol {
+  symbol: string;
+  name: string;
+  basePrice: number;
+  exchange: string;
+  sector: string;
+  industry: string;
+}
+
+// Symbols the simulator knows by name; anything else gets a generated profile
+const UNIVERSE: SimulatedSymbol[] = [
+  { symbol: 'AAPL', name: 'Apple Inc.', basePrice: 243.85, exchange: 'NMS', sector: 'Technology', industry: 'Consumer Electronics' },
+  { symbol: 'MSFT', name: 'Microsoft Corp.', basePrice: 421.50, exchange: 'NMS', sector: 'Technology', industry: 'Software—Infrastructure' },
+  { symbol: 'GOOGL', name: 'Alphabet Inc.', basePrice: 189.43, exchange: 'NMS', sector: 'Communication Services', industry: 'Internet Content & Information' },
+  { symbol: 'GOOG', name: 'Alphabet Inc.', basePrice: 190.44, exchange: 'NMS', sector: 'Communication Services', industry: 'Internet Content & Information' },
+  { symbol: 'AMZN', name: 'Amazon.com Inc.', basePrice: 219.39, exchange: 'NMS', sector: 'Consumer Cyclical', industry: 'Internet Retail' },
+  { symbol: 'META', name: 'Meta Platforms Inc.', basePrice: 585.51, exchange: 'NMS', sector: 'Communication Services', industry: 'Internet Content & Information' },
+  { symbol: 'NFLX', name: 'Netflix Inc.', basePrice: 891.32, exchange: 'NMS', sector: 'Communication Services', industry: 'Entertainment' },
+  { symbol: 'NVDA', name: 'NVIDIA Corp', basePrice: 134.29, exchange: 'NMS', sector: 'Technology', industry: 'Semiconductors' },
+  { symbol: 'TSLA', name: 'Tesla Inc', basePrice: 403.84, exchange: 'NMS', sector: 'Consumer Cyclical', industry: 'Auto Manufacturers' },
+  { symbol: 'AMD', name: 'Adv Micro Dev', basePrice: 120.63, exchange: 'NMS', sector: 'Technology', industry: 'Semiconductors' },
+  { symbol: 'PLTR', name: 'Palantir Tech', basePrice: 75.63, exchange: 'NMS', sector: 'Technology', industry: 'Software—Infrastructure' },
+  { symbol: 'COIN', name: 'Coinbase Global', basePrice: 248.30, exchange: 'NMS', sector: 'Financial Services', industry: 'Financial Data & Stock Exchanges' },
+  { symbol: 'MARA', name: 'Marathon Digital', basePrice: 16.77, exchange: 'NCM', sector: 'Financial Services', industry: 'Capital Markets' },
+  { symbol: 'MSTR', name: 'MicroStrategy', basePrice: 289.62, exchange: 'NMS', sector: 'Technology', industry: 'Software—Application' },
+  { symbol: 'RIOT', name: 'Riot Platforms', basePrice: 10.21, exchange: 'NCM', sector: 'Financial Services', industry: 'Capital Markets' },
+  { symbol: 'HOOD', name: 'Robinhood', basePrice: 37.26, exchange: 'NMS', sector: 'Financial Services', industry: 'Capital Markets' },
+  { symbol: 'DKNG', name: 'DraftKings', basePrice: 37.20, exchange: 'NMS', sector: 'Consumer Cyclical', industry: 'Gambling' },
+  { symbol: 'ARM', name: 'Arm Holdings', basePrice: 123.36, exchange: 'NMS', sector: 'Technology', industry: 'Semiconductors' },
+  { symbol: 'SMCI', name: 'Super Micro', basePrice: 30.48, exchange: 'NMS', sector: 'Technology', industry: 'Computer Hardware' },
+  { symbol: 'NET', name: 'Cloudflare', basePrice: 107.68, exchange: 'NYQ', sector: 'Technology', industry: 'Software—Infrastructure' },
+  { symbol: 'UBER', name: 'Uber Tech', basePrice: 60.32, exchange: 'NYQ', sector: 'Technology', industry: 'Software—Application' },
+  { symbol: 'ABNB', name: 'Airbnb Inc', basePrice: 131.41, exchange: 'NMS', sector: 'Consumer Cyclical', industry: 'Travel Services' },
+  { symbol: 'DASH', name: 'DoorDash', basePrice: 167.75, exchange: 'NMS', sector: 'Communication Services', industry: 'Internet Content & Information' },
+  { symbol: 'SHOP', name: 'Shopify Inc', basePrice: 106.33, exchange: 'NYQ', sector: 'Technology', industry: 'Software—Application' },
+  { symbol: 'SQ', name: 'Block Inc', basePrice: 84.99, exchange: 'NYQ', sector: 'Technology', industry: 'Software—Infrastructure' },
+  { symbol: 'SOFI', name: 'SoFi Tech', basePrice: 15.40, exchange: 'NMS', sector: 'Financial Services', industry: 'Credit Services' },
+  { symbol: 'INTC', name: 'Intel Corp', basePrice: 20.05, exchange: 'NMS', sector: 'Technology', industry: 'Semiconductors' },
+  { symbol: 'WBA', name: 'Walgreens Boots', basePrice: 9.33, exchange: 'NMS', sector: 'Healthcare', industry: 'Pharmaceutical Retailers' },
+  { symbol: 'LULU', name: 'Lululemon', basePrice: 382.41, exchange: 'NMS', sector: 'Consumer Cyclical', industry: 'Apparel Retail' },
+  { symbol: 'NKE', name: 'Nike Inc', basePrice: 75.67, exchange: 'NYQ', sector: 'Consumer Cyclical', industry: 'Footwear & Accessories' },
+  { symbol: 'BA', name: 'Boeing Co', basePrice: 177.00, exchange: 'NYQ', sector: 'Industrials', industry: 'Aerospace & Defense' },
+  { symbol: 'T', name: 'AT&T Inc', basePrice: 22.77, exchange: 'NYQ', sector: 'Communication Services', industry: 'Telecom Services' },
+  { symbol: 'VZ', name: 'Verizon', basePrice: 39.99, exchange: 'NYQ', sector: 'Communication Services', industry: 'Telecom Services' },
+  { symbol: 'DIS', name: 'Disney', basePrice: 111.35, exchange: 'NYQ', sector: 'Communication Services', industry: 'Entertainment' },
+  { symbol: 'PFE', name: 'Pfizer', basePrice: 26.53, exchange: 'NYQ', sector: 'Healthcare', industry: 'Drug Manufacturers—General' },
+  { symbol: 'XOM', name: 'Exxon Mobil', basePrice: 107.57, exchange: 'NYQ', sector: 'Energy', industry: 'Oil & Gas Integrated' },
+  { symbol: 'JNJ', name: 'Johnson & Johnson', basePrice: 144.62, exchange: 'NYQ', sector: 'Healthcare', industry: 'Drug Manufacturers—General' },
+  { symbol: 'KO', name: 'Coca-Cola', basePrice: 62.26, exchange: 'NYQ', sector: 'Consumer Defensive', industry: 'Beverages—Non-Alcoholic' },
+  { symbol: 'PEP', name: 'PepsiCo', basePrice: 152.06, exchange: 'NMS', sector: 'Consumer Defensive', industry: 'Beverages—Non-Alcoholic' },
+  { symbol: 'MCD', name: "McDonald's", basePrice: 289.89, exchange: 'NYQ', sector: 'Consumer Cyclical', industry: 'Restaurants' },
+  { symbol: 'SBUX', name: 'Starbucks', basePrice: 91.25, exchange: 'NMS', sector: 'Consumer Cyclical', industry: 'Restaurants' },
+  { symbol: 'WMT', name: 'Walmart', basePrice: 90.35, exchange: 'NYQ', sector: 'Consumer Defensive', industry: 'Discount Stores' },
+  { symbol: 'TGT', name: 'Target', basePrice: 135.18, exchange: 'NYQ', sector: 'Consumer Defensive', industry: 'Discount Stores' },
+  { symbol: 'COST', name: 'Costco', basePrice: 916.27, exchange: 'NMS', sector: 'Consumer Defensive', industry: 'Discount Stores' },
+  { symbol: 'PG', name: 'Procter & Gamble', basePrice: 167.65, exchange: 'NYQ', sector: 'Consumer Defensive', industry: 'Household & Personal Products' },
+  { symbol: 'CVX', name: 'Chevron', basePrice: 144.84, exchange: 'NYQ', sector: 'Energy', industry: 'Oil & Gas Integrated' },
+];
+
+// Generated profiles are spread over the sectors of the known universe
+const GENERATED_SECTORS = Array.from(new Set(UNIVERSE.map((entry) => entry.sector)));
+
+const INTRADAY_INTERVAL_MS: Partial<Record<Interval, number>> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+};
+
+// FNV-1a string hash
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Stateless uniform random number in [0, 1) for a (seed, index, salt) triple
+function uniform(seed: number, index: number, salt: number): number {
+  let t = (seed ^ Math.imul(index, 0x9e3779b1) ^ Math.imul(salt, 0x85ebca6b)) >>> 0;
+  t = Math.imul(t ^ (t >>> 16), 0x7feb352d);
+  t = Math.imul(t ^ (t >>> 15), 0x846ca68b);
+  t ^= t >>> 16;
+  return (t >>> 0) / 4294967296;
+}
+
+// Standard normal random number (Box-Muller)
+function gaussian(seed: number, index: number, salt: number): number {
+  const u1 = uniform(seed, index, salt) || 1e-12;
+  const u2 = uniform(seed, index, salt + 1);
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+interface SymbolState {
+  profile: SimulatedSymbol;
+  seed: number;
+  shares: number;
+  peRatio: number;
+  dailyVolume: number;
+  openLogs: Map<number, number>; // day index -> log of the day's opening price
+}
+
+interface DayPath {
+  prices: Float32Array;
+  cumulativeVolume: Float32Array;
+}
+
+export interface SimulatorOptions {
+  seed: number;
+  tickMs: number;
+}
+
+// Deterministic offline market: every price is a pure function of (seed, symbol, time).
+// Daily opens follow a seeded random walk and each day's ticks are a Brownian bridge
+// between consecutive opens, so quotes, intraday bars and daily bars all agree.
+export class SimulatedMarketProvider implements MarketDataProvider {
+  readonly name = 'simulator';
+  private seed: number;
+  private tickMs: number;
+  private stepsPerDay: number;
+  private symbols = new Map<string, SymbolState>();
+  private paths = new Map<string, DayPath>();
+
+  constructor(options: SimulatorOptions) {
+    this.seed = options.seed;
+    this.tickMs = Math.max(1000, options.tickMs);
+    this.stepsPerDay = Math.floor(DAY_MS / this.tickMs);
+  }
+
+  async getQuote(symbol: string): Promise<StockQuote> {
+    return this.quoteAt(symbol.toUpperCase(), Date.now());
+  }
+
+  async getQuotes(symbols: string[]): Promise<StockQuote[]> {
+    const now = Date.now();
+    return symbols.map((symbol) => this.quoteAt(symbol.toUpperCase(), now));
+  }
+
+  async getMarketMovers(type: 'gainers' | 'losers', count: number): Promise<MarketMover[]> {
+    const now = Date.now();
+    const quotes = UNIVERSE.map((entry) => this.quoteAt(entry.symbol, now))
+      .filter((quote) => type === 'gainers' ? quote.changePercent > 0 : quote.changePercent < 0)
+      .sort((a, b) => type === 'gainers' ? b.changePercent - a.changePercent : a.changePercent - b.changePercent);
+
+    return quotes.slice(0, count).map((quote) => ({
+      symbol: quote.symbol,
+      name: quote.name,
+      price: quote.price,
+      changePercent: quote.changePercent,
+      volume: quote.volume,
+      currency: quote.currency
+    }));
+  }
+
+  async getHistoricalData(symbol: string, period1: Date, period2: Date, interval: Interval): Promise<HistoricalBar[]> {
+    const state = this.getSymbolState(symbol.toUpperCase());
+    const from = period1.getTime();
+    const to = Math.min(period2.getTime(), Date.now()); // the simulator has no future
+
+    const intervalMs = INTRADAY_INTERVAL_MS[interval];
+    if (intervalMs) {
+      return this.intradayBars(state, from, to, intervalMs);
+    }
+
+    const dailyBars = this.dailyBars(state, from, to);
+    if (interval === '1d') {
+      return dailyBars;
+    }
+    return groupBars(dailyBars, (date) => interval === '1wk' ? weekStart(date) : monthStart(date));
+  }
+
+  async search(query: string, count: number): Promise<SymbolSearchResult[]> {
+    const needle = query.trim().toUpperCase();
+    if (!needle) return [];
+
+    return UNIVERSE
+      .filter((entry) => entry.symbol.startsWith(needle) || entry.name.toUpperCase().includes(needle))
+      .slice(0, count)
+      .map((entry) => ({
+        symbol: entry.symbol,
+        name: entry.name,
+        exchange: entry.exchange,
+        type: 'EQUITY'
+      }));
+  }
+
+  async getProfile(symbol: string): Promise<StockProfile> {
+    const { profile } = this.getSymbolState(symbol.toUpperCase());
+    return {
+      symbol: profile.symbol,
+      name: profile.name,
+      sector: profile.sector,
+      industry: profile.industry,
+      country: 'United States',
+      exchange: profile.exchange
+    };
+  }
+
+  private quoteAt(symbol: string, time: number): StockQuote {
+    const state = this.getSymbolState(symbol);
+    const day = Math.floor(time / DAY_MS);
+    const step = this.stepOf(time);
+    const path = this.getDayPath(state, day);
+
+    let dayHigh = path.prices[0];
+    let dayLow = path.prices[0];
+    for (let i = 1; i <= step; i++) {
+      dayHigh = Math.max(dayHigh, path.prices[i]);
+      dayLow = Math.min(dayLow, path.prices[i]);
+    }
+
+    const price = round(path.prices[step]);
+    const previousClose = round(Math.exp(this.openLog(state, day)));
+    const change = price - previousClose;
+
+    return {
+      symbol,
+      name: state.profile.name,
+      price,
+      change: round(change),
+      changePercent: round((change / previousClose) * 100, 4),
+      volume: Math.round(path.cumulativeVolume[step]),
+      marketCap: Math.round(price * state.shares),
+      peRatio: state.peRatio,
+      dayHigh: round(dayHigh),
+      dayLow: round(dayLow),
+      previousClose,
+      currency: 'USD'
+    };
+  }
+
+  // Intraday bars aggregate the simulated ticks, so they match the quotes exactly
+  private intradayBars(state: SymbolState, from: number, to: number, intervalMs: number): HistoricalBar[] {
+    const bars: HistoricalBar[] = [];
+
+    for (let start = Math.floor(from / intervalMs) * intervalMs; start < to; start += intervalMs) {
+      const day = Math.floor(start / DAY_MS);
+      const path = this.getDayPath(state, day);
+      const first = this.stepOf(start);
+      const last = Math.max(first, this.stepOf(Math.min(start + intervalMs - 1, to)));
+
+      let high = path.prices[first];
+      let low = path.prices[first];
+      for (let i = first + 1; i <= last; i++) {
+        high = Math.max(high, path.prices[i]);
+        low = Math.min(low, path.prices[i]);
+      }
+      const volumeBefore = first > 0 ? path.cumulativeVolume[first - 1] : 0;
+
+      bars.push({
+        date: new Date(start),
+        open: round(path.prices[first]),
+        high: round(high),
+        low: round(low),
+        close: round(path.prices[last]),
+        volume: Math.round(path.cumulativeVolume[last] - volumeBefore)
+      });
+    }
+
+    return bars;
+  }
+
+  // Daily bars come straight from the open-to-open walk so long ranges stay cheap
+  private dailyBars(state: SymbolState, from: number, to: number): HistoricalBar[] {
+    const bars: HistoricalBar[] = [];
+    const today = Math.floor(Date.now() / DAY_MS);
+
+    for (let day = Math.floor(from / DAY_MS); day * DAY_MS < to; day++) {
+      const open = Math.exp(this.openLog(state, day));
+      const close = day === today
+        ? this.quoteAt(state.profile.symbol, Date.now()).price
+        : Math.exp(this.openLog(state, day + 1));
+      const range = Math.abs(gaussian(state.seed, day, SALT_RANGE)) * DAILY_VOLATILITY / 2;
+
+      bars.push({
+        date: new Date(day * DAY_MS),
+        open: round(open),
+        high: round(Math.max(open, close) * (1 + range)),
+        low: round(Math.min(open, close) * (1 - range)),
+        close: round(close),
+        volume: Math.round(state.dailyVolume * (0.5 + uniform(state.seed, day, SALT_VOLUME)))
+      });
+    }
+
+    return bars;
+  }
+
+  private stepOf(time: number): number {
+    const offset = time - Math.floor(time / DAY_MS) * DAY_MS;
+    return Math.min(this.stepsPerDay - 1, Math.floor(offset / this.tickMs));
+  }
+
+  private getSymbolState(symbol: string): SymbolState {
+    let state = this.symbols.get(symbol);
+    if (!state) {
+      const seed = hashString(`${this.seed}:${symbol}`);
+      const profile = UNIVERSE.find((entry) => entry.symbol === symbol) || {
+        symbol,
+        name: symbol,
+        basePrice: round(10 + uniform(seed, 0, SALT_PROFILE) * 490),
+        exchange: 'NMS',
+        sector: GENERATED_SECTORS[Math.floor(uniform(seed, 4, SALT_PROFILE) * GENERATED_SECTORS.length)],
+        industry: ''
+      };
+      state = {
+        profile,
+        seed,
+        shares: Math.round(1e8 + uniform(seed, 1, SALT_PROFILE) * 9.9e9),
+        peRatio: round(8 + uniform(seed, 2, SALT_PROFILE) * 52),
+        dailyVolume: Math.round(1e6 + uniform(seed, 3, SALT_PROFILE) * 5e7),
+        openLogs: new Map([[ANCHOR_DAY, Math.log(profile.basePrice)]])
+      };
+      this.symbols.set(symbol, state);
+    }
+    return state;
+  }
+
+  private dailyReturn(state: SymbolState, day: number): number {
+    return DAILY_DRIFT + gaussian(state.seed, day, SALT_DAILY_RETURN) * DAILY_VOLATILITY;
+  }
+
+  // Log opening price of a day, walked outwards from the anchor day and memoized
+  private openLog(state: SymbolState, day: number): number {
+    const cached = state.openLogs.get(day);
+    if (cached !== undefined) return cached;
+
+    const direction = day > ANCHOR_DAY ? 1 : -1;
+    let current = day - direction;
+    while (!state.openLogs.has(current)) current -= direction;
+
+    let value = state.openLogs.get(current)!;
+    while (current !== day) {
+      if (direction > 0) {
+        value += this.dailyReturn(state, current);
+        current++;
+      } else {
+        current--;
+        value -= this.dailyReturn(state, current);
+      }
+      state.openLogs.set(current, value);
+    }
+    return value;
+  }
+
+  // Tick-level prices for one day: a Brownian bridge from this day's open to the next
+  private getDayPath(state: SymbolState, day: number): DayPath {
+    const key = `${state.profile.symbol}:${day}`;
+    const cached = this.paths.get(key);
+    if (cached) {
+      // Refresh LRU position
+      this.paths.delete(key);
+      this.paths.set(key, cached);
+      return cached;
+    }
+
+    const steps = this.stepsPerDay;
+    const stepVolatility = DAILY_VOLATILITY / Math.sqrt(steps);
+    const daySeed = hashString(`${state.seed}:${day}`);
+    const open = this.openLog(state, day);
+    const dayReturn = this.openLog(state, day + 1) - open;
+
+    const walk = new Float64Array(steps);
+    for (let i = 1; i < steps; i++) {
+      walk[i] = walk[i - 1] + gaussian(daySeed, i, SALT_TICK) * stepVolatility;
+    }
+    const walkEnd = walk[steps - 1] + gaussian(daySeed, steps, SALT_TICK) * stepVolatility;
+
+    const prices = new Float32Array(steps);
+    const cumulativeVolume = new Float32Array(steps);
+    const stepVolume = state.dailyVolume / steps;
+    let volume = 0;
+    for (let i = 0; i < steps; i++) {
+      const fraction = i / steps;
+      prices[i] = Math.exp(open + fraction * dayReturn + walk[i] - fraction * walkEnd);
+      volume += stepVolume * (0.5 + uniform(daySeed, i, SALT_VOLUME));
+      cumulativeVolume[i] = volume;
+    }
+
+    const path = { prices, cumulativeVolume };
+    this.paths.set(key, path);
+    if (this.paths.size > PATH_CACHE_SIZE) {
+      this.paths.delete(this.paths.keys().next().value!);
+    }
+    return path;
+  }
+}
+
+function round(value: number, decimals: number = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function weekStart(date: Date): number {
+  const day = Math.floor(date.getTime() / DAY_MS);
+  return (day - ((day + 3) % 7)) * DAY_MS; // day 0 (1970-01-01) was a Thursday
+}
+
+function monthStart(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+// Merge consecutive bars that share a bucket key
+function groupBars(bars: HistoricalBar[], bucketOf: (date: Date) => number): HistoricalBar[] {
+  const grouped: HistoricalBar[] = [];
+  let currentBucket: number | null = null;
+
+  for (const bar of bars) {
+    const bucket = bucketOf(bar.date);
+    const last = grouped[grouped.length - 1];
+    if (bucket === currentBucket && last) {
+      last.high = Math.max(last.high, bar.high);
+      last.low = Math.min(last.low, bar.low);
+      last.close = bar.close;
+      last.volume += bar.volume;
+    } else {
+      currentBucket = bucket;
+      grouped.push({ ...bar, date: new Date(bucket) });
+    }
+  }
+
+  return grouped;
+}
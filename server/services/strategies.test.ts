@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { defaultStrategyParams, generateAISignal, getStrategy, resolveStrategyParams } from './strategies';
+
+const deepMomentum = getStrategy('deep-momentum')!;
+
+describe('resolveStrategyParams', () => {
+  it('merges the given parameters over the defaults', () => {
+    expect(resolveStrategyParams(deepMomentum, { fastEma: '10' })).toEqual({ params: { ...defaultStrategyParams(deepMomentum), fastEma: 10 } });
+  });
+
+  it.each([
+    [{ nope: 1 }, 'Unknown parameter for deep-momentum: nope'],
+    [{ fastEma: 1 }, 'Invalid fastEma, expected an integer from 2 to 100'],
+    [{ fastEma: 10.5 }, 'Invalid fastEma, expected an integer from 2 to 100']
+  ])('rejects %j against the schema', (input, error) => {
+    expect(resolveStrategyParams(deepMomentum, input)).toEqual({ error });
+  });
+
+  it.each([
+    [{ fastEma: 50 }, 'fastEma (50) must be below slowEma (50)'],
+    [{ fastEma: 30, slowEma: 20 }, 'fastEma (30) must be below slowEma (20)']
+  ])('rejects %j by the strategy rules', (input, error) => {
+    expect(resolveStrategyParams(deepMomentum, input)).toEqual({ error });
+  });
+});
+
+describe('neuro-scalp', () => {
+  const marketData = (historicalPrices: number[]) =>
+    ({ symbol: 'TEST', price: historicalPrices[historicalPrices.length - 1], volume: 1000, historicalPrices, timestamp: 0 });
+
+  it('reports the simple average of the last 50 prices as sma50', () => {
+    const prices = Array.from({ length: 60 }, (_, i) => 100 + i);
+
+    const signal = generateAISignal(marketData(prices), 'neuro-scalp');
+
+    // 110 through 159
+    expect(signal.technicalIndicators.movingAverages?.sma50).toBe(134.5);
+  });
+
+  it('leaves sma50 out with fewer than 50 prices', () => {
+    const signal = generateAISignal(marketData(Array.from({ length: 40 }, (_, i) => 100 + i)), 'neuro-scalp');
+
+    expect(signal.technicalIndicators.movingAverages?.sma50).toBeUndefined();
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  neuroScalpStrategy,
+  deepMomentumStrategy,
+  sentimentFlowStrategy,
+  MACD_LOOKBACK,
+  type MarketData,
+  type TradingSignal,
+  type NeuroScalpParams,
+  type DeepMomentumParams,
+  type SentimentFlowParams,
+} from './ai-strategies';
+
+// A numeric strategy parameter, as rendered by the client's parameter controls
+export interface StrategyParameter {
+  name: string;
+  label: string;
+  description: string;
+  type: 'integer' | 'number';
+  default: number;
+  min: number;
+  max: number;
+  step?: number;
+}
+
+export type StrategyParams = Record<string, number>;
+
+// A trading strategy: its parameters, how much price history it needs and the signal it produces
+export interface Strategy<P = StrategyParams> {
+  id: string;
+  name: string;
+  description: string;
+  parameters: StrategyParameter[];
+  // Historical prices the strategy reads with these parameters
+  lookback(params: P): number;
+  // Why a combination of in-range parameters cannot be used, or null if it can
+  validate?(params: P): string | null;
+  evaluate(marketData: MarketData, params: P): TradingSignal;
+}
+
+const registry = new Map<string, Strategy<any>>();
+
+// Add a strategy; ids must be unique
+export function registerStrategy<P>(strategy: Strategy<P>) {
+  if (registry.has(strategy.id)) {
+    throw new Error(`Strategy already registered: ${strategy.id}`);
+  }
+  registry.set(strategy.id, strategy);
+}
+
+export function getStrategy(id: string): Strategy | undefined {
+  return registry.get(id);
+}
+
+// Registered strategies, in registration order
+export function listStrategies(): Strategy[] {
+  return Array.from(registry.values());
+}
+
+// Parameter defaults of a strategy
+export function defaultStrategyParams(strategy: Strategy): StrategyParams {
+  return Object.fromEntries(strategy.parameters.map(parameter => [parameter.name, parameter.default]));
+}
+
+// Merge requested parameters over the defaults, checking names, types and ranges against the schema,
+// then the combination against the strategy's own rules
+export function resolveStrategyParams(strategy: Strategy, input: Record<string, unknown> = {}): { error: string } | { params: StrategyParams } {
+  const params = defaultStrategyParams(strategy);
+
+  for (const [name, raw] of Object.entries(input)) {
+    const parameter = strategy.parameters.find(candidate => candidate.name === name);
+    if (!parameter) {
+      return { error: `Unknown parameter for ${strategy.id}: ${name}` };
+    }
+    const value = typeof raw === 'string' ? parseFloat(raw) : raw;
+    if (typeof value !== 'number' || !Number.isFinite(value)
+      || (parameter.type === 'integer' && !Number.isInteger(value))
+      || value < parameter.min || value > parameter.max) {
+      return { error: `Invalid ${name}, expected ${parameter.type === 'integer' ? 'an integer' : 'a number'} from ${parameter.min} to ${parameter.max}` };
+    }
+    params[name] = value;
+  }
+
+  const invalid = strategy.validate?.(params);
+  if (invalid) {
+    return { error: invalid };
+  }
+  return { params };
+}
+
+// Generate a signal with a registered strategy; throws for unknown strategy ids
+export function generateAISignal(marketData: MarketData, strategyId: string, params?: StrategyParams): TradingSignal {
+  const strategy = getStrategy(strategyId);
+  if (!strategy) {
+    throw new Error(`Unknown strategy: ${strategyId}`);
+  }
+  return strategy.evaluate(marketData, { ...defaultStrategyParams(strategy), ...params });
+}
+
+const rsiPeriodParameter: StrategyParameter = {
+  name: 'rsiPeriod',
+  label: 'RSI Period',
+  description: 'Lookback of the Wilder RSI',
+  type: 'integer',
+  default: 14,
+  min: 2,
+  max: 50,
+};
+
+const bbPeriodParameter: StrategyParameter = {
+  name: 'bbPeriod',
+  label: 'Bollinger Period',
+  description: 'Lookback of the Bollinger Bands moving average',
+  type: 'integer',
+  default: 20,
+  min: 5,
+  max: 100,
+};
+
+registerStrategy<NeuroScalpParams>({
+  id: 'neuro-scalp',
+  name: 'Neuro-Scalp',
+  description: 'High frequency mean reversion: buys oversold closes below the lower Bollinger Band once the MACD histogram turns up, sells the mirror image',
+  parameters: [
+    rsiPeriodParameter,
+    bbPeriodParameter,
+    { name: 'bbStdDev', label: 'Bollinger Std Dev', description: 'Width of the bands in standard deviations', type: 'number', default: 2, min: 0.5, max: 4, step: 0.1 },
+    { name: 'oversold', label: 'Oversold RSI', description: 'RSI below which a close is oversold', type: 'number', default: 30, min: 5, max: 50 },
+    { name: 'overbought', label: 'Overbought RSI', description: 'RSI above which a close is overbought', type: 'number', default: 70, min: 50, max: 95 },
+  ],
+  lookback: params => Math.max(params.bbPeriod, params.rsiPeriod + 1, MACD_LOOKBACK),
+  evaluate: neuroScalpStrategy,
+});
+
+registerStrategy<DeepMomentumParams>({
+  id: 'deep-momentum',
+  name: 'Deep-Momentum',
+  description: 'Trend following: buys when price is above a rising fast EMA over the slow EMA with a bullish MACD and RSI above 50, sells the reverse',
+  parameters: [
+    { name: 'fastEma', label: 'Fast EMA', description: 'Period of the fast moving average', type: 'integer', default: 20, min: 2, max: 100 },
+    { name: 'slowEma', label: 'Slow EMA', description: 'Period of the slow moving average', type: 'integer', default: 50, min: 5, max: 250 },
+    rsiPeriodParameter,
+  ],
+  lookback: params => Math.max(params.slowEma, params.rsiPeriod + 1, MACD_LOOKBACK),
+  validate: params => params.fastEma >= params.slowEma ? `fastEma (${params.fastEma}) must be below slowEma (${params.slowEma})` : null,
+  evaluate: deepMomentumStrategy,
+});
+
+registerStrategy<SentimentFlowParams>({
+  id: 'sentiment-flow',
+  name: 'Sentiment-Flow',
+  description: 'News and social sentiment: follows sentiment spikes beyond the threshold when price is on the same side of the Bollinger midline',
+  parameters: [
+    { name: 'threshold', label: 'Sentiment Threshold', description: 'Absolute sentiment score (0 to 1) that counts as a spike', type: 'number', default: 0.7, min: 0.1, max: 1, step: 0.05 },
+    rsiPeriodParameter,
+    bbPeriodParameter,
+  ],
+  lookback: params => Math.max(params.bbPeriod, params.rsiPeriod + 1, MACD_LOOKBACK),
+  evaluate: sentimentFlowStrategy,
+});
@@ -1,96 +1,143 @@
 import yahooFinance from 'yahoo-finance2';
+import type {
+  MarketDataProvider,
+  StockQuote,
+  MarketMover,
+  HistoricalBar,
+  SymbolSearchResult,
+  StockProfile,
+  Interval
+} from './marketData';
 
 // Initialize Yahoo Finance API
 export const yahooFinanceInstance = new yahooFinance();
 
-// Stock quote interface
-export interface StockQuote {
-  symbol: string;
-  name: string;
-  price: number;
-  change: number;
-  changePercent: number;
-  volume: number;
-  marketCap: number;
-  peRatio: number;
-  dayHigh: number;
-  dayLow: number;
-  previousClose: number;
-  currency: string;
+function formatQuote(quote: any): StockQuote {
+  return {
+    symbol: quote.symbol,
+    name: quote.shortName || quote.longName || '',
+    price: quote.regularMarketPrice || 0,
+    change: quote.regularMarketChange || 0,
+    changePercent: quote.regularMarketChangePercent || 0,
+    volume: quote.regularMarketVolume || 0,
+    marketCap: quote.marketCap || 0,
+    peRatio: quote.trailingPE || 0,
+    dayHigh: quote.regularMarketDayHigh || 0,
+    dayLow: quote.regularMarketDayLow || 0,
+    previousClose: quote.regularMarketPreviousClose || 0,
+    currency: quote.currency || 'USD'
+  };
 }
 
-// Market mover interface
-export interface MarketMover {
-  symbol: string;
-  name: string;
-  price: number;
-  changePercent: number;
-  volume: number;
-  currency: string;
-}
+// Market data provider backed by the Yahoo Finance API
+export class YahooFinanceProvider implements MarketDataProvider {
+  readonly name = 'yahoo';
+
+  // Get stock quote
+  async getQuote(symbol: string): Promise<StockQuote> {
+    try {
+      const quote: any = await yahooFinanceInstance.quote(symbol);
 
-// Get stock quote
-export async function getStockQuote(symbol: string): Promise<StockQuote> {
-  try {
-    const quote: any = await yahooFinanceInstance.quote(symbol);
+      if (!quote) {
+        throw new Error(`No quote found for symbol: ${symbol}`);
+      }
 
-    if (!quote) {
-      throw new Error(`No quote found for symbol: ${symbol}`);
+      return formatQuote(quote);
+    } catch (error) {
+      console.error(`Error fetching stock quote for ${symbol}:`, error);
+      throw error;
     }
+  }
+
+  // Get quotes for several symbols with a single API request
+  async getQuotes(symbols: string[]): Promise<StockQuote[]> {
+    if (symbols.length === 0) return [];
 
-    return {
-      symbol: quote.symbol,
-      name: quote.shortName || quote.longName || '',
-      price: quote.regularMarketPrice || 0,
-      change: quote.regularMarketChange || 0,
-      changePercent: quote.regularMarketChangePercent || 0,
-      volume: quote.regularMarketVolume || 0,
-      marketCap: quote.marketCap || 0,
-      peRatio: quote.trailingPE || 0,
-      dayHigh: quote.regularMarketDayHigh || 0,
-      dayLow: quote.regularMarketDayLow || 0,
-      previousClose: quote.regularMarketPreviousClose || 0,
-      currency: quote.currency || 'USD'
-    };
-  } catch (error) {
-    console.error(`Error fetching stock quote for ${symbol}:`, error);
-    throw error;
+    try {
+      const quotes: any[] = await yahooFinanceInstance.quote(symbols);
+      return (quotes || []).filter((quote) => quote?.symbol).map(formatQuote);
+    } catch (error) {
+      console.error(`Error fetching stock quotes for ${symbols.join(', ')}:`, error);
+      throw error;
+    }
   }
-}
 
-// Get market movers (gainers or losers)
-export async function getMarketMovers(type: 'gainers' | 'losers', count: number = 20): Promise<MarketMover[]> {
-  try {
-    const scrId = type === 'gainers' ? 'day_gainers' : 'day_losers';
-    const screen = await yahooFinanceInstance.screener({ scrIds: scrId, count });
+  // Get market movers (gainers or losers)
+  async getMarketMovers(type: 'gainers' | 'losers', count: number): Promise<MarketMover[]> {
+    try {
+      const scrId = type === 'gainers' ? 'day_gainers' : 'day_losers';
+      const screen = await yahooFinanceInstance.screener({ scrIds: scrId, count });
 
-    return screen?.quotes?.map((quote: any) => ({
-      symbol: quote.symbol,
-      name: quote.shortName || quote.longName || '',
-      price: quote.regularMarketPrice || 0,
-      changePercent: quote.regularMarketChangePercent || 0,
-      volume: quote.regularMarketVolume || 0,
-      currency: quote.currency || 'USD'
-    })) || [];
-  } catch (error) {
-    console.error(`Error fetching market movers for ${type}:`, error);
-    throw error;
+      return screen?.quotes?.map((quote: any) => ({
+        symbol: quote.symbol,
+        name: quote.shortName || quote.longName || '',
+        price: quote.regularMarketPrice || 0,
+        changePercent: quote.regularMarketChangePercent || 0,
+        volume: quote.regularMarketVolume || 0,
+        currency: quote.currency || 'USD'
+      })) || [];
+    } catch (error) {
+      console.error(`Error fetching market movers for ${type}:`, error);
+      throw error;
+    }
   }
-}
 
-// Get historical data
-export type Interval = '1m' | '5m' | '15m' | '1d' | '1wk' | '1mo';
-export async function getHistoricalData(symbol: string, period1?: Date, period2?: Date, interval: Interval = '5m') {
-  const queryOptions = {
-    period1: period1 || new Date(Date.now() - 24 * 60 * 60 * 1000), // 24 hours ago
-    period2: period2 || new Date(),
-    interval: interval,
-  };
+  // Get historical data (the chart module also covers intraday intervals)
+  async getHistoricalData(symbol: string, period1: Date, period2: Date, interval: Interval): Promise<HistoricalBar[]> {
+    try {
+      const chart = await yahooFinanceInstance.chart(symbol, { period1, period2, interval });
+
+      return chart.quotes
+        .filter((quote) => quote.close !== null)
+        .map((quote) => ({
+          date: quote.date,
+          open: quote.open ?? quote.close!,
+          high: quote.high ?? quote.close!,
+          low: quote.low ?? quote.close!,
+          close: quote.close!,
+          volume: quote.volume ?? 0
+        }));
+    } catch (error) {
+      console.error(`Error fetching historical data for ${symbol}:`, error);
+      throw error;
+    }
+  }
+
+  // Search symbols by ticker or company name
+  async search(query: string, count: number): Promise<SymbolSearchResult[]> {
+    try {
+      const result: any = await yahooFinanceInstance.search(query, { quotesCount: count, newsCount: 0 });
 
-  try {
-    return await yahooFinanceInstance.historical(symbol, queryOptions);
-  } catch (error) {
-    console.error(`Error fetching historical data for ${symbol}:`, error);
-    throw error;
+      return (result?.quotes || [])
+        .filter((quote: any) => quote.isYahooFinance && quote.symbol)
+        .slice(0, count)
+        .map((quote: any) => ({
+          symbol: quote.symbol,
+          name: quote.shortname || quote.longname || '',
+          exchange: quote.exchDisp || quote.exchange || '',
+          type: quote.quoteType || ''
+        }));
+    } catch (error) {
+      console.error(`Error searching symbols for ${query}:`, error);
+      throw error;
+    }
+  }
+  // Get company profile (sector, industry, country) from the quote summary
+  async getProfile(symbol: string): Promise<StockProfile> {
+    try {
+      const summary: any = await yahooFinanceInstance.quoteSummary(symbol, { modules: ['assetProfile', 'price'] });
+
+      return {
+        symbol: summary?.price?.symbol || symbol.toUpperCase(),
+        name: summary?.price?.longName || summary?.price?.shortName || '',
+        sector: summary?.assetProfile?.sector || '',
+        industry: summary?.assetProfile?.industry || '',
+        country: summary?.assetProfile?.country || '',
+        exchange: summary?.price?.exchangeName || summary?.price?.exchange || ''
+      };
+    } catch (error) {
+      console.error(`Error fetching profile for ${symbol}:`, error);
+      throw error;
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach } from 'vitest';
+
+export interface TempDir {
+  readonly path: string;
+  join(...segments: string[]): string;
+  // Run before the directory is removed, e.g. to stop a writer or wait for pending saves
+  onCleanup(callback: () => unknown): void;
+}
+
+// Give every test of the calling file a fresh directory under the OS temp dir, removed after the test
+export function useTempDir(prefix: string): TempDir {
+  let current = '';
+  let cleanups: (() => unknown)[] = [];
+
+  beforeEach(async () => {
+    current = await fs.mkdtemp(path.join(os.tmpdir(), prefix));
+    cleanups = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(cleanups.map(callback => callback()));
+    await fs.rm(current, { recursive: true, force: true });
+  });
+
+  return {
+    get path() {
+      return current;
+    },
+    join: (...segments) => path.join(current, ...segments),
+    onCleanup: callback => {
+      cleanups.push(callback);
+    }
+  };
+}
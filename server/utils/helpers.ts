@@ -8,4 +8,46 @@ export function log(message: string, source: string = 'server') {
     second: '2-digit'
   });
   console.log(`${timestamp} [${source}] ${message}`);
-}
\ No newline at end of file
+}
+
+const DURATION_UNIT_SECONDS: Record<string, number> = { s: 1, m: 60, h: 60 * 60, d: 24 * 60 * 60 };
+
+// Parse a duration such as '30s', '5m', '1h' or '1d' into seconds; null if it is not one
+export function parseDurationSeconds(value: string): number | null {
+  const match = /^(\d+)([smhd])$/.exec(value.trim());
+  if (!match || parseInt(match[1], 10) === 0) return null;
+  return parseInt(match[1], 10) * DURATION_UNIT_SECONDS[match[2]];
+}
+
+// Split an array into chunks of at most `size` items
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Map over items with at most `limit` promises in flight, settling every item
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await fn(items[index]) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
@@ -1,21 +1,46 @@
-import { ExtendedWebSocket, PriceUpdateMessage, MarketMoversUpdateMessage } from './types';
-import { getStockQuote, getMarketMovers } from '../services/yahooFinance';
+import { ExtendedWebSocket, PriceUpdateMessage, MarketMoversUpdateMessage, MarketMover, formatChangePercent } from './types';
+import { getStockQuotes, getMarketMovers, type StockQuote, type MarketMover as ServiceMarketMover } from '../services/marketData';
 import { storeStockQuote, storeMarketMovers } from '../services/clickhouse';
+import { recordTick, flushCompletedBars } from '../services/bars';
+import { withSectors } from '../services/metadata';
+import { recordSessionQuote, retainSessionStats } from '../services/sessionStats';
+import type { PaperTradingEngine } from '../services/paperTrading';
+import { BROADCASTER_CONFIG } from '../config/broadcaster';
+import { chunk, mapWithConcurrency } from '../utils/helpers';
+import { SubscriptionRegistry } from './subscriptions';
+import { deliver, flushPending, isCongested } from './delivery';
+import { encodeDeltaFrame } from './delta';
+import { LastValueCache } from './lastValueCache';
+import { SseHub } from './sse';
+
+// Service movers plus the display-formatted change the protocol carries
+function toProtocolMover(mover: ServiceMarketMover & { sector?: string }): MarketMover {
+  return { ...mover, change: formatChangePercent(mover.changePercent) };
+}
 
 // Broadcast real-time price updates and market movers
 export class PriceBroadcaster {
   private clients: Set<ExtendedWebSocket>;
+  private subscriptions: SubscriptionRegistry;
+  private cache: LastValueCache;
+  private sse: SseHub;
+  private paperTrading: PaperTradingEngine;
   private updateCounter: number = 0;
   private intervalId: NodeJS.Timeout | null = null;
+  private cycleInProgress: boolean = false;
 
-  constructor(clients: Set<ExtendedWebSocket>) {
+  constructor(clients: Set<ExtendedWebSocket>, subscriptions: SubscriptionRegistry, cache: LastValueCache, sse: SseHub, paperTrading: PaperTradingEngine) {
     this.clients = clients;
+    this.subscriptions = subscriptions;
+    this.cache = cache;
+    this.sse = sse;
+    this.paperTrading = paperTrading;
   }
 
   start() {
     this.intervalId = setInterval(async () => {
       await this.broadcastUpdates();
-    }, 5000); // Update every 5 seconds
+    }, BROADCASTER_CONFIG.tickIntervalMs);
   }
 
   stop() {
@@ -26,79 +51,111 @@ export class PriceBroadcaster {
   }
 
   private async broadcastUpdates() {
-    if (this.clients.size === 0) {
-      console.log(`[${new Date().toISOString()}] No WebSocket clients connected, skipping updates`);
+    // Paper trading keeps its symbols subscribed, so their quotes keep flowing without clients
+    if (this.clients.size === 0 && this.sse.size === 0 && this.subscriptions.getSymbols().length === 0) {
+      console.log(`[${new Date().toISOString()}] No WebSocket or SSE clients connected and no paper trading symbols, skipping updates`);
       return;
     }
 
-    console.log(`[${new Date().toISOString()}] Broadcasting updates to ${this.clients.size} client(s)`);
+    // Never let ticks overlap: a slow cycle skips the next one instead of piling up
+    if (this.cycleInProgress) {
+      console.warn(`[${new Date().toISOString()}] Previous update cycle still running, skipping this tick`);
+      return;
+    }
+    this.cycleInProgress = true;
+
+    console.log(`[${new Date().toISOString()}] Broadcasting updates to ${this.clients.size} WebSocket and ${this.sse.size} SSE client(s)`);
+
+    // Slow clients that drained since the last tick get their coalesced updates first
+    this.clients.forEach(flushPending);
 
     try {
-      // Get popular symbols for individual price updates (every 5 seconds)
-      const popularSymbols = ['AAPL', 'GOOGL', 'MSFT', 'TSLA', 'NVDA', 'AMZN'];
+      // Only symbols whose poll interval has elapsed are fetched this tick
+      const symbols = this.subscriptions.getDueSymbols();
+      this.subscriptions.markPolled(symbols);
+      this.cache.retainOnly(this.subscriptions.getSymbols());
+      retainSessionStats(this.subscriptions.getSymbols());
+      const batches = chunk(symbols, BROADCASTER_CONFIG.quoteBatchSize);
       let updateCount = 0;
 
-      // Send individual price updates for popular symbols
-      for (const symbol of popularSymbols) {
-        try {
-          const quote = await getStockQuote(symbol);
-          const update: PriceUpdateMessage = {
-            type: 'price_update',
-            symbol: quote.symbol,
-            price: quote.price,
-            change: quote.change,
-            changePercent: quote.changePercent,
-            volume: quote.volume,
-            timestamp: Date.now()
-          };
-
-          // Send to all clients subscribed to this symbol
-          let sentCount = 0;
-          this.clients.forEach(client => {
-            if (client.readyState === WebSocket.OPEN &&
-                (!client.symbols || client.symbols.includes(symbol))) {
-              client.send(JSON.stringify(update));
-              sentCount++;
-            }
-          });
+      const results = await mapWithConcurrency(batches, BROADCASTER_CONFIG.quoteConcurrency, getStockQuotes);
 
+      results.forEach((result, index) => {
+        if (result.status === 'rejected') {
+          console.error(`[${new Date().toISOString()}] Error updating ${batches[index].join(', ')}:`, result.reason?.message);
+          return;
+        }
+
+        for (const quote of result.value) {
+          this.broadcastQuote(quote);
           updateCount++;
-          console.log(`[${new Date().toISOString()}] Updated ${symbol}: $${quote.price?.toFixed(2)} (${quote.changePercent?.toFixed(2)}%) - sent to ${sentCount} client(s)`);
-
-          // Store stock quote in ClickHouse (non-blocking)
-          storeStockQuote({
-            symbol: quote.symbol,
-            price: quote.price || 0,
-            change: quote.change || 0,
-            changePercent: quote.changePercent || 0,
-            volume: quote.volume || 0,
-            marketCap: quote.marketCap || null,
-            peRatio: quote.peRatio || null,
-            timestamp: new Date()
-          }).catch((storageError: any) => {
-            // Silently fail if ClickHouse is not available
-            console.debug(`[${new Date().toISOString()}] ClickHouse storage failed for ${symbol} (non-critical):`, storageError.message);
-          });
-
-        } catch (error: any) {
-          console.error(`[${new Date().toISOString()}] Error updating ${symbol}:`, error.message);
         }
-      }
+      });
+
+      // Bars of symbols that stopped ticking still close when their minute ends
+      flushCompletedBars();
 
       // Update market movers every 30 seconds (every 6th update)
       this.updateCounter++;
-      if (this.updateCounter >= 6) {
+      if (this.updateCounter >= BROADCASTER_CONFIG.moversEveryTicks) {
         this.updateCounter = 0;
         await this.broadcastMarketMovers();
       }
 
-      console.log(`[${new Date().toISOString()}] Update cycle completed: ${updateCount}/${popularSymbols.length} symbols updated`);
+      console.log(`[${new Date().toISOString()}] Update cycle completed: ${updateCount}/${symbols.length} due symbols updated in ${batches.length} batch(es), ${this.subscriptions.getSymbols().length} subscribed`);
 
     } catch (error) {
       console.error(`[${new Date().toISOString()}] Error in update broadcast:`, error);
+    } finally {
+      this.cycleInProgress = false;
     }
   }
 
+  private broadcastQuote(quote: StockQuote) {
+    const receivedAt = new Date();
+    const stats = recordSessionQuote(quote, receivedAt);
+    const update: PriceUpdateMessage = {
+      type: 'price_update',
+      symbol: quote.symbol,
+      price: quote.price,
+      change: quote.change,
+      changePercent: quote.changePercent,
+      volume: quote.volume,
+      // Session statistics are left out until they are known
+      vwap: stats?.vwap ?? undefined,
+      relativeVolume: stats?.relativeVolume ?? undefined,
+      gapPercent: stats?.gapPercent ?? undefined,
+      openingRangeHigh: stats?.openingRange?.high,
+      openingRangeLow: stats?.openingRange?.low,
+      timestamp: receivedAt.getTime()
+    };
+
+    this.cache.setPrice(update);
+    this.paperTrading.onQuote(quote, receivedAt);
+
+    // Send to all clients subscribed to this symbol
+    const message = JSON.stringify(update);
+    this.clients.forEach(client => {
+      if (!client.symbols?.includes(quote.symbol)) return;
+
+      if (client.streamMode === 'delta') {
+        // Coalesced frames replace each other, so congested clients get keyframes rather than deltas
+        const frame = encodeDeltaFrame(client, update, isCongested(client));
+        if (frame) deliver(client, `price:${quote.symbol}`, frame);
+      } else {
+        deliver(client, `price:${quote.symbol}`, message);
+      }
+    });
+    this.sse.publishPrice(quote.symbol, message);
+
+    // Store stock quote and build 1-minute bars in ClickHouse (non-blocking)
+    recordTick(quote.symbol, quote.price, quote.volume, receivedAt);
+    storeStockQuote({ ...quote, timestamp: receivedAt }).catch((storageError: any) => {
+      // Silently fail if ClickHouse is not available
+      console.debug(`[${new Date().toISOString()}] ClickHouse storage failed for ${quote.symbol} (non-critical):`, storageError.message);
+    });
+  }
+
   private async broadcastMarketMovers() {
     try {
       console.log(`[${new Date().toISOString()}] Fetching market movers...`);
@@ -108,23 +165,28 @@ export class PriceBroadcaster {
         getMarketMovers('losers', 20)
       ]);
 
+      // Profiles are cached after the first lookup, so this only fetches symbols new to the lists
+      const [gainersWithSector, losersWithSector] = await Promise.all([withSectors(gainers), withSectors(losers)]);
+
       const marketMoversUpdate: MarketMoversUpdateMessage = {
         type: 'market_movers_update',
-        gainers,
-        losers,
+        gainers: gainersWithSector.map(toProtocolMover),
+        losers: losersWithSector.map(toProtocolMover),
         timestamp: Date.now()
       };
 
       // Send market movers to all connected clients
+      this.cache.setMovers(marketMoversUpdate);
+      const message = JSON.stringify(marketMoversUpdate);
       let moversSentCount = 0;
       this.clients.forEach(client => {
-        if (client.readyState === WebSocket.OPEN) {
-          client.send(JSON.stringify(marketMoversUpdate));
+        if (deliver(client, 'market_movers', message)) {
           moversSentCount++;
         }
       });
+      this.sse.publishMovers(message);
 
-      console.log(`[${new Date().toISOString()}] Market movers updated: ${gainers.length} gainers, ${losers.length} losers - sent to ${moversSentCount} client(s)`);
+      console.log(`[${new Date().toISOString()}] Market movers updated: ${gainers.length} gainers, ${losers.length} losers - sent to ${moversSentCount} WebSocket and ${this.sse.size} SSE client(s)`);
 
       // Store market movers in ClickHouse (non-blocking)
       Promise.all([
@@ -0,0 +1,38 @@
+import { WebSocket } from 'ws';
+import { ExtendedWebSocket } from './types';
+import { WEBSOCKET_CONFIG } from '../config/websocket';
+
+// Backpressure for slow consumers.
+// While a client's socket buffer is above the limit, frames are not queued behind it; only the latest
+// frame per key (a symbol, or the movers snapshot) is kept and sent once the buffer drains.
+
+export function isCongested(ws: ExtendedWebSocket): boolean {
+  return ws.bufferedAmount > WEBSOCKET_CONFIG.maxBufferedBytes;
+}
+
+// Send a serialized frame, coalescing it under `key` if the client is congested
+export function deliver(ws: ExtendedWebSocket, key: string, frame: string): boolean {
+  if (ws.readyState !== WebSocket.OPEN) return false;
+
+  if (isCongested(ws)) {
+    if (!ws.pendingFrames) ws.pendingFrames = new Map();
+    ws.pendingFrames.set(key, frame);
+    return false;
+  }
+
+  // Coalesced frames go first; delta frames may depend on them
+  flushPending(ws);
+  ws.send(frame);
+  return true;
+}
+
+// Send coalesced frames once the client has drained its buffer
+export function flushPending(ws: ExtendedWebSocket) {
+  if (!ws.pendingFrames || ws.pendingFrames.size === 0) return;
+  if (ws.readyState !== WebSocket.OPEN || isCongested(ws)) return;
+
+  const frames = Array.from(ws.pendingFrames.values());
+  ws.pendingFrames.clear();
+  frames.forEach(frame => ws.send(frame));
+  console.log(`[${new Date().toISOString()}] Flushed ${frames.length} coalesced update(s) to a slow client`);
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { encodeDeltaFrame } from './delta';
+import type { ExtendedWebSocket, PriceUpdateMessage } from './types';
+
+const update = (fields: Partial<PriceUpdateMessage> = {}): PriceUpdateMessage => ({
+  type: 'price_update',
+  symbol: 'AAPL',
+  price: 189.5,
+  change: 2.25,
+  changePercent: 1.2,
+  volume: 52_000_000,
+  vwap: 188.9,
+  relativeVolume: 1.4,
+  timestamp: 1_700_000_000_000,
+  ...fields
+});
+
+const deltaClient = () => ({ streamMode: 'delta' } as ExtendedWebSocket);
+
+describe('encodeDeltaFrame', () => {
+  it('sends a keyframe first, then only the fields that changed', () => {
+    const ws = deltaClient();
+
+    expect(JSON.parse(encodeDeltaFrame(ws, update())!)).toEqual(update());
+    expect(JSON.parse(encodeDeltaFrame(ws, update({ price: 190, timestamp: 1 }))!))
+      .toEqual({ type: 'price_delta', symbol: 'AAPL', price: 190, timestamp: 1 });
+    expect(encodeDeltaFrame(ws, update({ price: 190, timestamp: 2 }))).toBeNull();
+  });
+
+  it('sends null for a statistic that is no longer present', () => {
+    const ws = deltaClient();
+    encodeDeltaFrame(ws, update());
+
+    const { vwap, ...withoutVwap } = update({ timestamp: 1 });
+    expect(JSON.parse(encodeDeltaFrame(ws, withoutVwap)!)).toEqual({ type: 'price_delta', symbol: 'AAPL', vwap: null, timestamp: 1 });
+
+    // The cleared field is the new baseline, so it is not sent again
+    expect(encodeDeltaFrame(ws, { ...withoutVwap, timestamp: 2 })).toBeNull();
+    expect(JSON.parse(encodeDeltaFrame(ws, update({ vwap: 189, timestamp: 3 }))!)).toEqual({ type: 'price_delta', symbol: 'AAPL', vwap: 189, timestamp: 3 });
+  });
+});
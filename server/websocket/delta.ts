@@ -0,0 +1,68 @@
+import { ExtendedWebSocket, PriceUpdateMessage, PriceDeltaMessage } from './types';
+import { WEBSOCKET_CONFIG } from '../config/websocket';
+
+const DELTA_FIELDS = [
+  'price',
+  'change',
+  'changePercent',
+  'volume'
+] as const;
+
+// Session statistics can become unavailable again (e.g. at a new session); a delta sends null for those
+const CLEARABLE_DELTA_FIELDS = [
+  'vwap',
+  'relativeVolume',
+  'gapPercent',
+  'openingRangeHigh',
+  'openingRangeLow'
+] as const;
+
+// Encode a price update for a delta-mode client.
+// Returns a full price_update keyframe for the first frame of a symbol, every `deltaKeyframeEvery`
+// polls, or when forced; otherwise a price_delta with the changed fields, or null if nothing changed.
+// A field that is no longer present is sent as null so the client clears it.
+export function encodeDeltaFrame(ws: ExtendedWebSocket, update: PriceUpdateMessage, forceKeyframe: boolean = false): string | null {
+  if (!ws.deltaState) ws.deltaState = new Map();
+  const state = ws.deltaState.get(update.symbol);
+
+  if (!state || forceKeyframe || state.framesSinceKeyframe + 1 >= WEBSOCKET_CONFIG.deltaKeyframeEvery) {
+    ws.deltaState.set(update.symbol, { last: update, framesSinceKeyframe: 0 });
+    return JSON.stringify(update);
+  }
+
+  state.framesSinceKeyframe++;
+  const delta: PriceDeltaMessage = { type: 'price_delta', symbol: update.symbol, timestamp: update.timestamp };
+  let changed = false;
+  for (const field of DELTA_FIELDS) {
+    if (update[field] !== state.last[field]) {
+      delta[field] = update[field];
+      changed = true;
+    }
+  }
+  for (const field of CLEARABLE_DELTA_FIELDS) {
+    if (update[field] !== state.last[field]) {
+      delta[field] = update[field] ?? null;
+      changed = true;
+    }
+  }
+  if (!changed) return null;
+
+  state.last = update;
+  return JSON.stringify(delta);
+}
+
+// Record full updates the client received some other way (e.g. a snapshot) as its new baseline
+export function resetDeltaState(ws: ExtendedWebSocket, updates: PriceUpdateMessage[]) {
+  if (ws.streamMode !== 'delta') return;
+  if (!ws.deltaState) ws.deltaState = new Map();
+  updates.forEach(update => ws.deltaState!.set(update.symbol, { last: update, framesSinceKeyframe: 0 }));
+}
+
+// Forget baselines of symbols the client no longer subscribes to, so a resubscribe starts with a keyframe
+export function pruneDeltaState(ws: ExtendedWebSocket) {
+  if (!ws.deltaState) return;
+  const symbols = ws.symbols || [];
+  Array.from(ws.deltaState.keys()).forEach(symbol => {
+    if (!symbols.includes(symbol)) ws.deltaState!.delete(symbol);
+  });
+}
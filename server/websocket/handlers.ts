@@ -1,32 +1,158 @@
-import { ExtendedWebSocket, SubscribeMessage } from './types';
+import { WebSocket } from 'ws';
+import {
+  ExtendedWebSocket,
+  ClientMessage,
+  ServerMessage,
+  ErrorCode,
+  PROTOCOL_VERSION,
+  LEGACY_PROTOCOL_VERSION,
+  SERVER_CAPABILITIES,
+  decodeClientMessage
+} from './types';
+import { SubscriptionRegistry, normalizeSymbols, isValidSymbol } from './subscriptions';
+import { trackHeartbeat } from './heartbeat';
+import { LastValueCache } from './lastValueCache';
+import { resetDeltaState, pruneDeltaState } from './delta';
+import { WEBSOCKET_CONFIG } from '../config/websocket';
+
+function send(ws: ExtendedWebSocket, message: ServerMessage) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+}
+
+function sendError(ws: ExtendedWebSocket, code: ErrorCode, message: string, requestId?: string, symbols?: string[]) {
+  send(ws, { type: 'error', code, message, requestId, symbols, timestamp: Date.now() });
+}
+
+function sendAck(ws: ExtendedWebSocket, action: ClientMessage['type'], requestId?: string) {
+  // Legacy clients do not understand acks
+  if ((ws.protocolVersion || LEGACY_PROTOCOL_VERSION) < PROTOCOL_VERSION) return;
+  send(ws, { type: 'ack', requestId, action, symbols: ws.symbols || [], mode: ws.streamMode || 'full', timestamp: Date.now() });
+}
+
+// Split requested symbols into valid and invalid ones, reporting the invalid ones to the client
+function validateSymbols(ws: ExtendedWebSocket, symbols: string[], requestId?: string): string[] {
+  const normalized = normalizeSymbols(symbols);
+  const invalid = normalized.filter(symbol => !isValidSymbol(symbol));
+  if (invalid.length > 0) {
+    sendError(ws, 'INVALID_SYMBOL', `Invalid symbol(s): ${invalid.join(', ')}`, requestId, invalid);
+  }
+  return normalized.filter(isValidSymbol);
+}
+
+// Keep a subscription within the per-connection limit, rejecting the symbols that do not fit.
+// `kept` are the symbols the client keeps regardless of this request.
+function enforceSymbolLimit(ws: ExtendedWebSocket, kept: string[], requested: string[], requestId?: string): string[] {
+  const added = requested.filter(symbol => !kept.includes(symbol));
+  const capacity = Math.max(0, WEBSOCKET_CONFIG.maxSymbolsPerConnection - kept.length);
+  if (added.length <= capacity) return requested;
+
+  const rejected = added.slice(capacity);
+  sendError(ws, 'SUBSCRIPTION_LIMIT', `Subscription limit of ${WEBSOCKET_CONFIG.maxSymbolsPerConnection} symbols reached, rejected: ${rejected.join(', ')}`, requestId, rejected);
+  return requested.filter(symbol => !rejected.includes(symbol));
+}
+
+// Send the cached state for just-subscribed symbols, plus the latest movers
+function sendSnapshot(ws: ExtendedWebSocket, symbols: string[], cache: LastValueCache, requestId?: string) {
+  const prices = cache.getPrices(symbols);
+  const movers = cache.getMovers();
+  if (prices.length === 0 && !movers) return;
+
+  send(ws, { type: 'snapshot', requestId, prices, movers, timestamp: Date.now() });
+  resetDeltaState(ws, prices);
+}
+
+function handleMessage(ws: ExtendedWebSocket, data: ClientMessage, subscriptions: SubscriptionRegistry, cache: LastValueCache) {
+  switch (data.type) {
+    case 'hello': {
+      if (data.protocolVersion > PROTOCOL_VERSION) {
+        sendError(ws, 'UNSUPPORTED_VERSION', `Server supports protocol version ${PROTOCOL_VERSION} or lower`, data.requestId);
+        return;
+      }
+      ws.protocolVersion = data.protocolVersion;
+      console.log(`Client negotiated protocol version ${ws.protocolVersion}`);
+      sendAck(ws, 'hello', data.requestId);
+      return;
+    }
+
+    case 'subscribe': {
+      const symbols = validateSymbols(ws, data.symbols, data.requestId);
+
+      // Switching stream mode drops delta baselines, so the next frame per symbol is a keyframe
+      if (data.mode && data.mode !== (ws.streamMode || 'full')) {
+        ws.streamMode = data.mode;
+        ws.deltaState = undefined;
+        console.log(`Client switched to ${data.mode} streaming`);
+      }
+
+      // Version 1 subscriptions replace the whole list, later versions are incremental
+      let accepted: string[];
+      if ((ws.protocolVersion || LEGACY_PROTOCOL_VERSION) < PROTOCOL_VERSION) {
+        accepted = enforceSymbolLimit(ws, [], symbols, data.requestId);
+        subscriptions.replace(ws, accepted);
+      } else {
+        accepted = enforceSymbolLimit(ws, ws.symbols || [], symbols, data.requestId);
+        subscriptions.add(ws, accepted);
+      }
+      pruneDeltaState(ws);
+      console.log(`Client subscribed to: ${ws.symbols!.join(', ')}`);
+      sendAck(ws, 'subscribe', data.requestId);
+      sendSnapshot(ws, accepted, cache, data.requestId);
+      return;
+    }
+
+    case 'unsubscribe': {
+      const symbols = validateSymbols(ws, data.symbols, data.requestId);
+
+      subscriptions.remove(ws, symbols);
+      pruneDeltaState(ws);
+      console.log(`Client unsubscribed from: ${symbols.join(', ')}`);
+      sendAck(ws, 'unsubscribe', data.requestId);
+      return;
+    }
+  }
+}
 
 // Handle WebSocket connection
-export function handleConnection(ws: ExtendedWebSocket, clients: Set<ExtendedWebSocket>) {
+export function handleConnection(ws: ExtendedWebSocket, clients: Set<ExtendedWebSocket>, subscriptions: SubscriptionRegistry, cache: LastValueCache) {
   console.log('Client connected');
   clients.add(ws);
+  ws.protocolVersion = LEGACY_PROTOCOL_VERSION;
+  trackHeartbeat(ws);
+
+  // Advertise the protocol; legacy clients simply ignore this message
+  send(ws, {
+    type: 'hello',
+    protocolVersion: PROTOCOL_VERSION,
+    capabilities: SERVER_CAPABILITIES,
+    timestamp: Date.now()
+  });
 
   // Handle incoming messages
   ws.on('message', (message) => {
-    try {
-      const data = JSON.parse(message.toString()) as SubscribeMessage;
-      if (data.type === 'subscribe' && data.symbols) {
-        ws.symbols = data.symbols;
-        console.log(`Client subscribed to: ${data.symbols.join(', ')}`);
-      }
-    } catch (error) {
-      console.error('WebSocket message error:', error);
+    // Every frame is validated against the shared protocol schemas
+    const result = decodeClientMessage(message.toString());
+    if (!result.success) {
+      console.error(`WebSocket message error (${result.code}): ${result.error}`);
+      sendError(ws, result.code, result.error);
+      return;
     }
+
+    handleMessage(ws, result.message, subscriptions, cache);
   });
 
   // Handle disconnection
   ws.on('close', () => {
     console.log('Client disconnected');
     clients.delete(ws);
+    subscriptions.removeClient(ws);
   });
 
   // Handle errors
   ws.on('error', (error) => {
     console.error('WebSocket error:', error);
     clients.delete(ws);
+    subscriptions.removeClient(ws);
   });
-}
\ No newline at end of file
+}
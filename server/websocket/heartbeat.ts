@@ -0,0 +1,55 @@
+import { ExtendedWebSocket } from './types';
+
+// Mark a newly connected client alive and track its pongs
+export function trackHeartbeat(ws: ExtendedWebSocket) {
+  ws.isAlive = true;
+  ws.on('pong', () => {
+    ws.isAlive = true;
+  });
+}
+
+// Ping every client periodically and terminate the ones that missed the previous ping
+export class HeartbeatMonitor {
+  private clients: Set<ExtendedWebSocket>;
+  private intervalMs: number;
+  private intervalId: NodeJS.Timeout | null = null;
+
+  constructor(clients: Set<ExtendedWebSocket>, intervalMs: number) {
+    this.clients = clients;
+    this.intervalMs = intervalMs;
+  }
+
+  start() {
+    this.intervalId = setInterval(() => this.sweep(), this.intervalMs);
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  private sweep() {
+    let terminated = 0;
+    this.clients.forEach(client => {
+      if (client.isAlive === false) {
+        // terminate() emits 'close', whose handler drops the client and its subscriptions
+        client.terminate();
+        terminated++;
+        return;
+      }
+
+      client.isAlive = false;
+      try {
+        client.ping();
+      } catch (error: any) {
+        console.debug(`[${new Date().toISOString()}] Ping failed (client will be reaped next sweep):`, error.message);
+      }
+    });
+
+    if (terminated > 0) {
+      console.log(`[${new Date().toISOString()}] Terminated ${terminated} unresponsive client(s), ${this.clients.size - terminated} remaining`);
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { PriceUpdateMessage, MarketMoversUpdateMessage } from './types';
+
+// Latest broadcast value per symbol and latest movers lists, used to snapshot newly subscribed clients
+export class LastValueCache {
+  private prices = new Map<string, PriceUpdateMessage>();
+  private movers: MarketMoversUpdateMessage | null = null;
+
+  setPrice(update: PriceUpdateMessage) {
+    this.prices.set(update.symbol, update);
+  }
+
+  getPrices(symbols: string[]): PriceUpdateMessage[] {
+    return symbols
+      .map(symbol => this.prices.get(symbol))
+      .filter((update): update is PriceUpdateMessage => update !== undefined);
+  }
+
+  setMovers(update: MarketMoversUpdateMessage) {
+    this.movers = update;
+  }
+
+  getMovers(): MarketMoversUpdateMessage | null {
+    return this.movers;
+  }
+
+  // Forget symbols nobody subscribes to any more so the cache stays bounded by the polled universe
+  retainOnly(symbols: string[]) {
+    const keep = new Set(symbols);
+    Array.from(this.prices.keys()).forEach(symbol => {
+      if (!keep.has(symbol)) this.prices.delete(symbol);
+    });
+  }
+}
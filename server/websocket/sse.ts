@@ -0,0 +1,103 @@
+import { Response } from 'express';
+import { SubscriptionRegistry } from './subscriptions';
+import { LastValueCache } from './lastValueCache';
+import { WEBSOCKET_CONFIG } from '../config/websocket';
+
+// A Server-Sent Events connection with a fixed symbol list
+export interface SseClient {
+  res: Response;
+  symbols?: string[];
+  pendingFrames: Map<string, string>; // latest frame per key while the response buffer is full
+}
+
+// Server-Sent Events fallback for clients whose WebSocket upgrades are blocked.
+// Carries the same price_update and market_movers_update payloads as the WebSocket, as unnamed
+// `data:` events, and shares the subscription registry so SSE symbols are polled too.
+export class SseHub {
+  private clients = new Set<SseClient>();
+  private subscriptions: SubscriptionRegistry;
+  private cache: LastValueCache;
+  private intervalId: NodeJS.Timeout | null = null;
+
+  constructor(subscriptions: SubscriptionRegistry, cache: LastValueCache) {
+    this.subscriptions = subscriptions;
+    this.cache = cache;
+  }
+
+  get size(): number {
+    return this.clients.size;
+  }
+
+  // Keep idle streams open through proxies with a periodic comment line
+  start() {
+    this.intervalId = setInterval(() => {
+      this.clients.forEach(client => client.res.write(': ping\n\n'));
+    }, WEBSOCKET_CONFIG.heartbeatIntervalMs);
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.clients.forEach(client => client.res.end());
+    this.clients.clear();
+  }
+
+  // Start streaming `symbols` on an SSE response; the stream ends when the client disconnects
+  open(res: Response, symbols: string[]) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no', // disable nginx response buffering
+    });
+    res.flushHeaders();
+
+    const client: SseClient = { res, pendingFrames: new Map() };
+    this.clients.add(client);
+    this.subscriptions.replace(client, symbols);
+    console.log(`[${new Date().toISOString()}] SSE client connected for ${symbols.join(', ')} (${this.clients.size} SSE client(s))`);
+
+    res.on('drain', () => this.flushPending(client));
+    res.on('close', () => {
+      this.clients.delete(client);
+      this.subscriptions.removeClient(client);
+      console.log(`[${new Date().toISOString()}] SSE client disconnected (${this.clients.size} SSE client(s))`);
+    });
+
+    // Same initial state a WebSocket subscriber gets in its snapshot
+    this.cache.getPrices(symbols).forEach(update => this.send(client, `price:${update.symbol}`, JSON.stringify(update)));
+    const movers = this.cache.getMovers();
+    if (movers) {
+      this.send(client, 'market_movers', JSON.stringify(movers));
+    }
+  }
+
+  publishPrice(symbol: string, frame: string) {
+    this.clients.forEach(client => {
+      if (client.symbols?.includes(symbol)) {
+        this.send(client, `price:${symbol}`, frame);
+      }
+    });
+  }
+
+  publishMovers(frame: string) {
+    this.clients.forEach(client => this.send(client, 'market_movers', frame));
+  }
+
+  // Write an event, coalescing it under `key` while the response buffer is above the limit
+  private send(client: SseClient, key: string, frame: string) {
+    if (client.res.writableLength > WEBSOCKET_CONFIG.maxBufferedBytes) {
+      client.pendingFrames.set(key, frame);
+      return;
+    }
+    client.res.write(`data: ${frame}\n\n`);
+  }
+
+  private flushPending(client: SseClient) {
+    const frames = Array.from(client.pendingFrames.values());
+    client.pendingFrames.clear();
+    frames.forEach(frame => client.res.write(`data: ${frame}\n\n`));
+  }
+}
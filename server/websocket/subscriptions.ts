@@ -0,0 +1,127 @@
+// Anything holding a symbol subscription: WebSocket connections and SSE streams
+export interface Subscriber {
+  symbols?: string[];
+}
+
+// Normalize client-supplied symbols: trimmed, upper-case, no duplicates
+export function normalizeSymbols(symbols: string[]): string[] {
+  return Array.from(new Set(symbols.map(symbol => symbol.trim().toUpperCase()).filter(Boolean)));
+}
+
+// Ticker format accepted from clients: AAPL, BRK-B, BRK.B, ^GSPC, EURUSD=X, ...
+const SYMBOL_PATTERN = /^\^?[A-Z0-9][A-Z0-9.\-=]{0,14}$/;
+
+export function isValidSymbol(symbol: string): boolean {
+  return SYMBOL_PATTERN.test(symbol);
+}
+
+// Reference-counted union of every client's subscribed symbols.
+// A symbol enters the polled universe with its first subscriber and leaves with its last.
+export class SubscriptionRegistry {
+  private refCounts = new Map<string, number>();
+  private lastPolled = new Map<string, number>();
+  private defaultIntervalMs: number;
+  private pollIntervals: Map<string, number>;
+
+  constructor(defaultIntervalMs: number, pollIntervals: Map<string, number> = new Map()) {
+    this.defaultIntervalMs = defaultIntervalMs;
+    this.pollIntervals = pollIntervals;
+  }
+
+  // Replace a client's subscription with a new symbol list
+  replace(client: Subscriber, symbols: string[]) {
+    const next = normalizeSymbols(symbols);
+    const previous = client.symbols || [];
+
+    next.filter(symbol => !previous.includes(symbol)).forEach(symbol => this.retain(symbol));
+    previous.filter(symbol => !next.includes(symbol)).forEach(symbol => this.release(symbol));
+    client.symbols = next;
+  }
+
+  // Add symbols to a client's subscription
+  add(client: Subscriber, symbols: string[]) {
+    const current = client.symbols || [];
+    const added = normalizeSymbols(symbols).filter(symbol => !current.includes(symbol));
+
+    added.forEach(symbol => this.retain(symbol));
+    client.symbols = [...current, ...added];
+  }
+
+  // Remove symbols from a client's subscription
+  remove(client: Subscriber, symbols: string[]) {
+    const current = client.symbols || [];
+    const removed = normalizeSymbols(symbols).filter(symbol => current.includes(symbol));
+
+    removed.forEach(symbol => this.release(symbol));
+    client.symbols = current.filter(symbol => !removed.includes(symbol));
+  }
+
+  // Drop every subscription held by a disconnected client
+  removeClient(client: Subscriber) {
+    (client.symbols || []).forEach(symbol => this.release(symbol));
+    client.symbols = [];
+  }
+
+  getSymbols(): string[] {
+    return Array.from(this.refCounts.keys());
+  }
+
+  getSubscriberCount(symbol: string): number {
+    return this.refCounts.get(symbol) || 0;
+  }
+
+  getPollInterval(symbol: string): number {
+    return this.pollIntervals.get(symbol) || this.defaultIntervalMs;
+  }
+
+  // Symbols whose poll interval has elapsed since they were last polled
+  getDueSymbols(now: number = Date.now()): string[] {
+    return this.getSymbols().filter(symbol => {
+      const last = this.lastPolled.get(symbol);
+      // Allow a little timer jitter so a 5s interval still fires on every 5s tick
+      return last === undefined || now - last >= this.getPollInterval(symbol) - 100;
+    });
+  }
+
+  markPolled(symbols: string[], now: number = Date.now()) {
+    symbols.forEach(symbol => {
+      if (this.refCounts.has(symbol)) {
+        this.lastPolled.set(symbol, now);
+      }
+    });
+  }
+
+  private retain(symbol: string) {
+    const count = this.refCounts.get(symbol) || 0;
+    this.refCounts.set(symbol, count + 1);
+    if (count === 0) {
+      console.log(`[${new Date().toISOString()}] Symbol ${symbol} added to polled universe (${this.refCounts.size} symbols)`);
+    }
+  }
+
+  private release(symbol: string) {
+    const count = this.refCounts.get(symbol) || 0;
+    if (count <= 1) {
+      this.refCounts.delete(symbol);
+      this.lastPolled.delete(symbol);
+      console.log(`[${new Date().toISOString()}] Symbol ${symbol} dropped from polled universe (${this.refCounts.size} symbols)`);
+    } else {
+      this.refCounts.set(symbol, count - 1);
+    }
+  }
+}
+
+// Parse per-symbol poll intervals such as "AAPL:5000,BRK-B:60000"
+export function parsePollIntervals(value: string): Map<string, number> {
+  const intervals = new Map<string, number>();
+  value.split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const [symbol, ms] = entry.split(':');
+    const interval = parseInt(ms, 10);
+    if (symbol && Number.isFinite(interval) && interval > 0) {
+      intervals.set(symbol.trim().toUpperCase(), interval);
+    } else {
+      console.warn(`[${new Date().toISOString()}] Ignoring invalid poll interval entry: ${entry}`);
+    }
+  });
+  return intervals;
+}
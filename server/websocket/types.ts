@@ -1,39 +1,45 @@
 import { WebSocket } from "ws";
+import type { PriceUpdateMessage, StreamMode } from "@shared/protocol";
 
-// WebSocket message types
-export interface SubscribeMessage {
-  type: 'subscribe';
-  symbols: string[];
-}
-
-export interface PriceUpdateMessage {
-  type: 'price_update';
-  symbol: string;
-  price: number;
-  change: number;
-  changePercent: number;
-  volume: number;
-  timestamp: number;
-}
-
-export interface MarketMoversUpdateMessage {
-  type: 'market_movers_update';
-  gainers: MarketMover[];
-  losers: MarketMover[];
-  timestamp: number;
-}
-
-export interface MarketMover {
-  symbol: string;
-  name: string;
-  price: number;
-  change: string;
-  changePercent: number;
-}
-
-export type WebSocketMessage = SubscribeMessage | PriceUpdateMessage | MarketMoversUpdateMessage;
+// The wire protocol lives in shared/protocol.ts so the client hook uses the same schemas
+export {
+  PROTOCOL_VERSION,
+  LEGACY_PROTOCOL_VERSION,
+  SERVER_CAPABILITIES,
+  decodeClientMessage,
+  formatChangePercent,
+} from "@shared/protocol";
+export type {
+  ServerCapability,
+  ErrorCode,
+  ClientHelloMessage,
+  StreamMode,
+  SubscribeMessage,
+  UnsubscribeMessage,
+  ClientMessage,
+  ServerHelloMessage,
+  AckMessage,
+  ErrorMessage,
+  PriceUpdateMessage,
+  PriceDeltaMessage,
+  MarketMover,
+  MarketMoversUpdateMessage,
+  SnapshotMessage,
+  ServerMessage,
+  WebSocketMessage,
+} from "@shared/protocol";
 
 // Extended WebSocket interface with symbols property
 export interface ExtendedWebSocket extends WebSocket {
   symbols?: string[];
-}
\ No newline at end of file
+  protocolVersion?: number;
+  isAlive?: boolean; // cleared on every heartbeat ping, set again by the pong
+  pendingFrames?: Map<string, string>; // latest frame per key while the client is congested
+  streamMode?: StreamMode;
+  deltaState?: Map<string, DeltaState>; // per symbol, what a delta-mode client last received
+}
+
+export interface DeltaState {
+  last: PriceUpdateMessage;
+  framesSinceKeyframe: number;
+}
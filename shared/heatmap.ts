@@ -0,0 +1,85 @@
+// Market heatmap tree shared by the /api/market/heatmap endpoint and the client heatmap page,
+// which rebuilds it from live price updates.
+
+// A symbol tile: size is market cap, color is the change percentage
+export interface HeatmapSymbol {
+  symbol: string;
+  name: string;
+  sector: string;
+  industry: string;
+  price: number;
+  changePercent: number; // percent, e.g. 1.5 means +1.5%
+  volume: number;
+  marketCap: number;
+}
+
+// Aggregate of a sector or an industry
+export interface HeatmapGroup {
+  name: string;
+  marketCap: number;
+  volume: number;
+  changePercent: number; // market-cap weighted
+  symbolCount: number;
+}
+
+export interface HeatmapIndustry extends HeatmapGroup {
+  symbols: HeatmapSymbol[];
+}
+
+export interface HeatmapSector extends HeatmapGroup {
+  industries: HeatmapIndustry[];
+}
+
+export interface MarketHeatmap {
+  sectors: HeatmapSector[];
+  timestamp: number;
+}
+
+export const UNCLASSIFIED = "Unclassified";
+
+function aggregate(name: string, symbols: HeatmapSymbol[]): HeatmapGroup {
+  const marketCap = symbols.reduce((sum, tile) => sum + tile.marketCap, 0);
+  const volume = symbols.reduce((sum, tile) => sum + tile.volume, 0);
+  // Symbols without a market cap still count, equally weighted, when no symbol has one
+  const changePercent = marketCap > 0
+    ? symbols.reduce((sum, tile) => sum + tile.changePercent * tile.marketCap, 0) / marketCap
+    : symbols.reduce((sum, tile) => sum + tile.changePercent, 0) / Math.max(1, symbols.length);
+
+  return { name, marketCap, volume, changePercent, symbolCount: symbols.length };
+}
+
+function groupBy(symbols: HeatmapSymbol[], key: (tile: HeatmapSymbol) => string): Map<string, HeatmapSymbol[]> {
+  const groups = new Map<string, HeatmapSymbol[]>();
+  for (const tile of symbols) {
+    const name = key(tile) || UNCLASSIFIED;
+    const group = groups.get(name);
+    if (group) {
+      group.push(tile);
+    } else {
+      groups.set(name, [tile]);
+    }
+  }
+  return groups;
+}
+
+const byMarketCap = (a: { marketCap: number }, b: { marketCap: number }) => b.marketCap - a.marketCap;
+
+// Group symbol tiles into sectors and industries, largest first
+export function buildHeatmap(symbols: HeatmapSymbol[]): HeatmapSector[] {
+  return Array.from(groupBy(symbols, (tile) => tile.sector).entries())
+    .map(([sector, sectorSymbols]) => ({
+      ...aggregate(sector, sectorSymbols),
+      industries: Array.from(groupBy(sectorSymbols, (tile) => tile.industry).entries())
+        .map(([industry, industrySymbols]) => ({
+          ...aggregate(industry, industrySymbols),
+          symbols: [...industrySymbols].sort(byMarketCap),
+        }))
+        .sort(byMarketCap),
+    }))
+    .sort(byMarketCap);
+}
+
+// Every symbol tile of a heatmap tree
+export function flattenHeatmap(sectors: HeatmapSector[]): HeatmapSymbol[] {
+  return sectors.flatMap((sector) => sector.industries.flatMap((industry) => industry.symbols));
+}
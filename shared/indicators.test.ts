@@ -0,0 +1,295 @@
+import { describe, expect, it } from "vitest";
+import {
+  adx,
+  atr,
+  bollinger,
+  ema,
+  lastValue,
+  macd,
+  obv,
+  rsi,
+  sma,
+  stochastic,
+  trueRange,
+  vwap,
+  type IndicatorBar,
+  type Series,
+} from "./indicators";
+
+// Compare a series with expected values: nulls must match exactly, numbers to `digits` decimals
+function expectSeries(actual: Series, expected: Series, digits: number = 4) {
+  expect(actual).toHaveLength(expected.length);
+  expected.forEach((value, i) => {
+    if (value === null) {
+      expect(actual[i], `index ${i}`).toBeNull();
+    } else {
+      expect(actual[i], `index ${i}`).not.toBeNull();
+      expect(actual[i]!, `index ${i}`).toBeCloseTo(value, digits);
+    }
+  });
+}
+
+// Wilder's RSI sample as published by StockCharts, with closes rounded to cents
+const WILDER_CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28,
+  46.00, 46.03, 46.41, 46.22, 45.64, 46.21, 46.25, 45.71, 46.45, 45.78, 45.35, 44.03, 44.18, 44.22, 44.57,
+  43.42, 42.66, 43.13,
+];
+
+// RSI(14) of the rounded closes, from bar 14
+const WILDER_RSI = [
+  70.46, 66.25, 66.48, 69.35, 66.29, 57.92, 62.88, 63.21, 56.01, 62.34, 54.67, 50.39, 40.02, 41.49, 41.90,
+  45.50, 37.32, 33.09, 37.79,
+];
+
+// StockCharts' values, computed from the unrounded closes
+const STOCKCHARTS_RSI = [
+  70.53, 66.32, 66.55, 69.41, 66.36, 57.97, 62.93, 63.26, 56.06, 62.38, 54.71, 50.42, 39.99, 41.46, 41.87,
+  45.46, 37.30, 33.08, 37.77,
+];
+
+// True ranges 2, 2, 3, 1, 3.5 and typical prices 9, 10, 32/3, 31.5/3, 38/3
+const BARS: IndicatorBar[] = [
+  { high: 10, low: 8, close: 9, volume: 100 },
+  { high: 11, low: 9, close: 10, volume: 200 },
+  { high: 12, low: 9, close: 11, volume: 150 },
+  { high: 11, low: 10, close: 10.5, volume: 300 },
+  { high: 14, low: 11, close: 13, volume: 250 },
+];
+
+// Each bar one higher than the last, with a constant range of 2: +DM 1, -DM 0, TR 2
+const UPTREND: IndicatorBar[] = Array.from({ length: 40 }, (_, i) => ({ high: i + 2, low: i, close: i + 1, volume: 1000 }));
+
+const ramp = (length: number) => Array.from({ length }, (_, i) => i + 1);
+
+describe("lastValue", () => {
+  it("returns the last defined value", () => {
+    expect(lastValue([null, 1, 2, null])).toBe(2);
+    expect(lastValue([null, null])).toBeNull();
+    expect(lastValue([])).toBeNull();
+  });
+});
+
+describe("sma", () => {
+  it("averages the last `period` values", () => {
+    expectSeries(sma([1, 2, 3, 4, 5, 6], 3), [null, null, 2, 3, 4, 5]);
+    expectSeries(sma([2, 4, 4, 4, 5, 5, 7, 9], 8), [null, null, null, null, null, null, null, 5]);
+  });
+
+  it("is the input itself for period 1", () => {
+    expectSeries(sma([3, 1, 4], 1), [3, 1, 4]);
+  });
+
+  it("is all null for inputs shorter than the period", () => {
+    expectSeries(sma([1, 2], 3), [null, null]);
+    expect(sma([], 3)).toEqual([]);
+  });
+});
+
+describe("ema", () => {
+  it("is seeded with the SMA of the first `period` values", () => {
+    // Multiplier 2 / (3 + 1) = 0.5; a linear ramp settles one step behind the price
+    expectSeries(ema(ramp(6), 3), [null, null, 2, 3, 4, 5]);
+  });
+
+  it("weights recent values with 2 / (period + 1)", () => {
+    // Seed 10.5, then 10.5 + (13 - 10.5) * 2/3 and so on
+    expectSeries(ema([10, 11, 13, 12, 15, 14], 2), [null, 10.5, 12.1667, 12.0556, 14.0185, 14.0062]);
+  });
+
+  it("lags a linear ramp by (period - 1) / 2", () => {
+    const series = ema(ramp(60), 20);
+    expect(series[18]).toBeNull();
+    for (let i = 19; i < 60; i++) expect(series[i]!).toBeCloseTo(i + 1 - 9.5, 8);
+  });
+
+  it("is all null for inputs shorter than the period", () => {
+    expectSeries(ema([1, 2], 3), [null, null]);
+    expect(ema([], 3)).toEqual([]);
+  });
+});
+
+describe("rsi", () => {
+  it("matches Wilder's 14-period sample", () => {
+    const series = rsi(WILDER_CLOSES, 14);
+    expectSeries(series, [...new Array(14).fill(null), ...WILDER_RSI], 2);
+    expect(series[14]!.toFixed(2)).toBe("70.46");
+  });
+
+  it("stays within 0.1 of the values from unrounded closes", () => {
+    const series = rsi(WILDER_CLOSES, 14).slice(14) as number[];
+    series.forEach((value, i) => expect(Math.abs(value - STOCKCHARTS_RSI[i])).toBeLessThan(0.1));
+  });
+
+  it("is 100 without losses, 0 without gains and 50 when flat", () => {
+    expect(lastValue(rsi(ramp(20), 14))).toBe(100);
+    expect(lastValue(rsi(ramp(20).reverse(), 14))).toBe(0);
+    expect(lastValue(rsi(new Array(20).fill(5), 14))).toBe(50);
+  });
+
+  it("needs more than `period` closes", () => {
+    expectSeries(rsi(ramp(14), 14), new Array(14).fill(null));
+    expectSeries(rsi(ramp(15), 14), [...new Array(14).fill(null), 100]);
+    expect(rsi([], 14)).toEqual([]);
+  });
+});
+
+describe("macd", () => {
+  it("computes the line, signal and histogram", () => {
+    const result = macd([10, 11, 13, 12, 15, 14], 2, 3, 2);
+    expectSeries(result.macd, [null, null, 0.8333, 0.3889, 0.6852, 0.3395]);
+    // The signal line is an EMA over the defined MACD values, so it starts signalPeriod - 1 bars later
+    expectSeries(result.signal, [null, null, null, 0.6111, 0.6605, 0.4465]);
+    expectSeries(result.histogram, [null, null, null, -0.2222, 0.0247, -0.107]);
+  });
+
+  it("settles at the difference of the EMA lags on a linear ramp", () => {
+    // 12- and 26-period EMAs lag a ramp by 5.5 and 12.5
+    const result = macd(ramp(50));
+    expect(result.macd[24]).toBeNull();
+    expect(result.macd[25]!).toBeCloseTo(7, 8);
+    expect(result.signal[32]).toBeNull();
+    expect(result.signal[33]!).toBeCloseTo(7, 8);
+    expect(result.histogram[33]!).toBeCloseTo(0, 8);
+    expect(lastValue(result.histogram)!).toBeCloseTo(0, 8);
+  });
+
+  it("is all null before the slow EMA has a value", () => {
+    const result = macd(ramp(25));
+    expect(result.macd.every(value => value === null)).toBe(true);
+    expect(result.signal.every(value => value === null)).toBe(true);
+    expect(result.histogram.every(value => value === null)).toBe(true);
+  });
+});
+
+describe("bollinger", () => {
+  it("spans `stdDev` population standard deviations around the SMA", () => {
+    // Mean 5, population standard deviation 2
+    const bands = bollinger([2, 4, 4, 4, 5, 5, 7, 9], 8, 2);
+    expect(bands.middle[7]).toBe(5);
+    expect(bands.upper[7]).toBeCloseTo(9, 10);
+    expect(bands.lower[7]).toBeCloseTo(1, 10);
+    expect(bands.upper[6]).toBeNull();
+    expect(bands.lower[6]).toBeNull();
+  });
+
+  it("collapses onto the SMA for constant prices", () => {
+    const bands = bollinger(new Array(5).fill(7), 3, 2);
+    expectSeries(bands.upper, [null, null, 7, 7, 7]);
+    expectSeries(bands.lower, [null, null, 7, 7, 7]);
+  });
+
+  it("is all null for inputs shorter than the period", () => {
+    const bands = bollinger([1, 2], 3);
+    expectSeries(bands.middle, [null, null]);
+    expectSeries(bands.upper, [null, null]);
+  });
+});
+
+describe("trueRange and atr", () => {
+  it("takes gaps from the previous close into the true range", () => {
+    expect(trueRange(BARS)).toEqual([2, 2, 3, 1, 3.5]);
+  });
+
+  it("averages true ranges from bar 1 and smooths them Wilder's way", () => {
+    // First value at bar 3: (2 + 3 + 1) / 3; then (2 * 2 + 3.5) / 3
+    expectSeries(atr(BARS, 3), [null, null, null, 2, 2.5]);
+  });
+
+  it("needs more than `period` bars", () => {
+    expectSeries(atr(BARS.slice(0, 3), 3), [null, null, null]);
+    expect(atr([], 14)).toEqual([]);
+  });
+});
+
+describe("stochastic", () => {
+  it("places the close in the high-low range of the last `kPeriod` bars", () => {
+    const result = stochastic(BARS, 3, 2);
+    expectSeries(result.k, [null, null, 75, 50, 80]);
+    expectSeries(result.d, [null, null, null, 62.5, 65]);
+  });
+
+  it("smooths %K before taking %D", () => {
+    const result = stochastic(BARS, 3, 2, 2);
+    expectSeries(result.k, [null, null, null, 62.5, 65]);
+    expectSeries(result.d, [null, null, null, null, 63.75]);
+  });
+
+  it("is 50 when the range is flat", () => {
+    const flat = new Array(4).fill({ high: 5, low: 5, close: 5, volume: 0 });
+    expectSeries(stochastic(flat, 3, 1).k, [null, null, 50, 50]);
+  });
+
+  it("is all null for fewer bars than `kPeriod`", () => {
+    const result = stochastic(BARS.slice(0, 2), 3, 2);
+    expectSeries(result.k, [null, null]);
+    expectSeries(result.d, [null, null]);
+  });
+});
+
+describe("obv", () => {
+  it("adds volume on up closes and subtracts it on down closes", () => {
+    expect(obv(BARS)).toEqual([0, 200, 350, 50, 300]);
+  });
+
+  it("leaves the total unchanged on unchanged closes", () => {
+    expect(obv([{ high: 1, low: 1, close: 1, volume: 10 }, { high: 1, low: 1, close: 1, volume: 20 }])).toEqual([0, 0]);
+    expect(obv([])).toEqual([]);
+  });
+});
+
+describe("adx", () => {
+  it("reads a steady uptrend as +DI 50, -DI 0 and ADX 100", () => {
+    const result = adx(UPTREND, 14);
+    // DI starts at bar `period`, ADX at bar 2 * period - 1
+    expect(result.plusDI[13]).toBeNull();
+    expect(result.plusDI[14]!).toBeCloseTo(50, 10);
+    expect(result.minusDI[14]).toBe(0);
+    expect(result.adx[26]).toBeNull();
+    expect(result.adx[27]!).toBeCloseTo(100, 10);
+    expect(lastValue(result.adx)!).toBeCloseTo(100, 10);
+  });
+
+  it("reads a downtrend as -DI 50", () => {
+    const downtrend = [...UPTREND].reverse();
+    const result = adx(downtrend, 14);
+    expect(lastValue(result.minusDI)!).toBeCloseTo(50, 10);
+    expect(lastValue(result.plusDI)).toBe(0);
+    expect(lastValue(result.adx)!).toBeCloseTo(100, 10);
+  });
+
+  it("is 0 without directional movement", () => {
+    const flat = new Array(30).fill({ high: 11, low: 9, close: 10, volume: 0 });
+    const result = adx(flat, 14);
+    expect(lastValue(result.plusDI)).toBe(0);
+    expect(lastValue(result.minusDI)).toBe(0);
+    expect(lastValue(result.adx)).toBe(0);
+  });
+
+  it("is all null for too few bars", () => {
+    const result = adx(UPTREND.slice(0, 14), 14);
+    expect(result.plusDI.every(value => value === null)).toBe(true);
+    expect(result.adx.every(value => value === null)).toBe(true);
+  });
+});
+
+describe("vwap", () => {
+  it("accumulates typical price times volume from the first bar", () => {
+    // (9 * 100 + 10 * 200) / 300, then adding 32/3 * 150
+    expectSeries(vwap(BARS).slice(0, 3), [9, 9.6667, 10]);
+  });
+
+  it("restarts whenever the session key changes", () => {
+    const sessions = ["a", "a", "b", "b", "b"];
+    const series = vwap(BARS.map((bar, i) => ({ ...bar, session: sessions[i] })), bar => bar.session);
+    expectSeries(series.slice(0, 3), [9, 9.6667, 10.6667]);
+    // (32/3 * 150 + 31.5/3 * 300) / 450
+    expect(series[3]!).toBeCloseTo((32 / 3 * 150 + 10.5 * 300) / 450, 10);
+  });
+
+  it("is null until there is volume", () => {
+    const bars = [{ high: 2, low: 1, close: 1.5, volume: 0 }, { high: 2, low: 1, close: 1.5, volume: 10 }];
+    expectSeries(vwap(bars), [null, 1.5]);
+    expect(vwap([])).toEqual([]);
+  });
+});
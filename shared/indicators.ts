@@ -0,0 +1,236 @@
+// Technical indicators over full price series, shared by the server's strategies, indicator
+// endpoint and backtests and by client charts.
+//
+// Every function returns series aligned with its input: index i holds the value as of bar i,
+// and bars before the indicator's warm-up window are null.
+
+export type Series = (number | null)[];
+
+// The price fields the bar-based indicators read
+export interface IndicatorBar {
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// Last defined value of a series
+export function lastValue(series: Series): number | null {
+  for (let i = series.length - 1; i >= 0; i--) {
+    const value = series[i];
+    if (value !== null) return value;
+  }
+  return null;
+}
+
+// Run `compute` over the defined tail of a series (indicators of indicators, e.g. the MACD signal)
+function overDefined(series: Series, compute: (values: number[]) => Series): Series {
+  const start = series.findIndex(value => value !== null);
+  if (start === -1) return series.map(() => null);
+  const tail = compute(series.slice(start) as number[]);
+  return [...new Array(start).fill(null), ...tail];
+}
+
+// Simple moving average
+export function sma(values: number[], period: number): Series {
+  const result: Series = new Array(values.length).fill(null);
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) sum -= values[i - period];
+    if (i >= period - 1) result[i] = sum / period;
+  }
+  return result;
+}
+
+// Exponential moving average, seeded with the SMA of the first `period` values
+export function ema(values: number[], period: number): Series {
+  const result: Series = new Array(values.length).fill(null);
+  if (values.length < period) return result;
+
+  const multiplier = 2 / (period + 1);
+  let current = values.slice(0, period).reduce((sum, value) => sum + value, 0) / period;
+  result[period - 1] = current;
+  for (let i = period; i < values.length; i++) {
+    current = (values[i] - current) * multiplier + current;
+    result[i] = current;
+  }
+  return result;
+}
+
+// Wilder's smoothing (an EMA with alpha 1/period), seeded with the average of values[first..first+period)
+function wilderSmooth(values: number[], period: number, first: number = 0): Series {
+  const result: Series = new Array(values.length).fill(null);
+  if (values.length - first < period) return result;
+
+  let current = values.slice(first, first + period).reduce((sum, value) => sum + value, 0) / period;
+  result[first + period - 1] = current;
+  for (let i = first + period; i < values.length; i++) {
+    current = (current * (period - 1) + values[i]) / period;
+    result[i] = current;
+  }
+  return result;
+}
+
+// Relative Strength Index with Wilder's smoothing; the first value is at bar `period`
+export function rsi(closes: number[], period: number = 14): Series {
+  const result: Series = new Array(closes.length).fill(null);
+  if (closes.length <= period) return result;
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = closes[i] - closes[i - 1];
+    avgGain += Math.max(change, 0) / period;
+    avgLoss += Math.max(-change, 0) / period;
+  }
+
+  const toRsi = () => avgLoss === 0 ? (avgGain === 0 ? 50 : 100) : 100 - 100 / (1 + avgGain / avgLoss);
+  result[period] = toRsi();
+  for (let i = period + 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = toRsi();
+  }
+  return result;
+}
+
+export interface MacdSeries {
+  macd: Series;
+  signal: Series; // EMA of the MACD line
+  histogram: Series;
+}
+
+// Moving Average Convergence Divergence: fast EMA minus slow EMA, with an EMA signal line over it
+export function macd(closes: number[], fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9): MacdSeries {
+  const fast = ema(closes, fastPeriod);
+  const slow = ema(closes, slowPeriod);
+  const line: Series = closes.map((_, i) => fast[i] !== null && slow[i] !== null ? fast[i]! - slow[i]! : null);
+  const signal = overDefined(line, values => ema(values, signalPeriod));
+  const histogram: Series = line.map((value, i) => value !== null && signal[i] !== null ? value - signal[i]! : null);
+  return { macd: line, signal, histogram };
+}
+
+export interface BollingerSeries {
+  upper: Series;
+  middle: Series;
+  lower: Series;
+}
+
+// Bollinger Bands: SMA plus and minus `stdDev` population standard deviations
+export function bollinger(closes: number[], period: number = 20, stdDev: number = 2): BollingerSeries {
+  const middle = sma(closes, period);
+  const upper: Series = new Array(closes.length).fill(null);
+  const lower: Series = new Array(closes.length).fill(null);
+  for (let i = period - 1; i < closes.length; i++) {
+    const mean = middle[i]!;
+    const variance = closes.slice(i - period + 1, i + 1).reduce((sum, close) => sum + (close - mean) ** 2, 0) / period;
+    const width = stdDev * Math.sqrt(variance);
+    upper[i] = mean + width;
+    lower[i] = mean - width;
+  }
+  return { upper, middle, lower };
+}
+
+// True range of each bar; the first bar has no previous close, so it is just its high-low range
+export function trueRange(bars: IndicatorBar[]): number[] {
+  return bars.map((bar, i) => i === 0
+    ? bar.high - bar.low
+    : Math.max(bar.high - bar.low, Math.abs(bar.high - bars[i - 1].close), Math.abs(bar.low - bars[i - 1].close)));
+}
+
+// Wilder's Average True Range over the true ranges of bars 1..n; the first value is at bar `period`
+export function atr(bars: IndicatorBar[], period: number = 14): Series {
+  return wilderSmooth(trueRange(bars), period, 1);
+}
+
+export interface StochasticSeries {
+  k: Series;
+  d: Series; // SMA of %K
+}
+
+// Stochastic oscillator: where the close sits in the high-low range of the last `kPeriod` bars,
+// optionally smoothed (slow stochastic) before %D is taken
+export function stochastic(bars: IndicatorBar[], kPeriod: number = 14, dPeriod: number = 3, smoothing: number = 1): StochasticSeries {
+  const raw: Series = bars.map((bar, i) => {
+    if (i < kPeriod - 1) return null;
+    const window = bars.slice(i - kPeriod + 1, i + 1);
+    const highest = Math.max(...window.map(candle => candle.high));
+    const lowest = Math.min(...window.map(candle => candle.low));
+    return highest === lowest ? 50 : ((bar.close - lowest) / (highest - lowest)) * 100;
+  });
+  const k = smoothing > 1 ? overDefined(raw, values => sma(values, smoothing)) : raw;
+  const d = overDefined(k, values => sma(values, dPeriod));
+  return { k, d };
+}
+
+// On-Balance Volume, starting from 0 at the first bar
+export function obv(bars: IndicatorBar[]): number[] {
+  let total = 0;
+  return bars.map((bar, i) => {
+    if (i > 0) {
+      if (bar.close > bars[i - 1].close) total += bar.volume;
+      else if (bar.close < bars[i - 1].close) total -= bar.volume;
+    }
+    return total;
+  });
+}
+
+export interface AdxSeries {
+  adx: Series;
+  plusDI: Series;
+  minusDI: Series;
+}
+
+// Wilder's Average Directional Index with the +DI/-DI lines; DI starts at bar `period`, ADX at bar 2 * period - 1
+export function adx(bars: IndicatorBar[], period: number = 14): AdxSeries {
+  const plusDM = bars.map((bar, i) => {
+    if (i === 0) return 0;
+    const up = bar.high - bars[i - 1].high;
+    const down = bars[i - 1].low - bar.low;
+    return up > down && up > 0 ? up : 0;
+  });
+  const minusDM = bars.map((bar, i) => {
+    if (i === 0) return 0;
+    const up = bar.high - bars[i - 1].high;
+    const down = bars[i - 1].low - bar.low;
+    return down > up && down > 0 ? down : 0;
+  });
+
+  // Averages rather than Wilder's running sums; the ratios, and so DI and ADX, are identical
+  const ranges = wilderSmooth(trueRange(bars), period, 1);
+  const plus = wilderSmooth(plusDM, period, 1);
+  const minus = wilderSmooth(minusDM, period, 1);
+
+  const plusDI: Series = ranges.map((range, i) => range ? (plus[i]! / range) * 100 : range === 0 ? 0 : null);
+  const minusDI: Series = ranges.map((range, i) => range ? (minus[i]! / range) * 100 : range === 0 ? 0 : null);
+  const dx: Series = plusDI.map((up, i) => {
+    const down = minusDI[i];
+    if (up === null || down === null) return null;
+    return up + down === 0 ? 0 : (Math.abs(up - down) / (up + down)) * 100;
+  });
+
+  return { adx: overDefined(dx, values => wilderSmooth(values, period)), plusDI, minusDI };
+}
+
+// Volume Weighted Average Price of the typical price (high + low + close) / 3, cumulative from the
+// first bar or, with `sessionOf`, restarting whenever the session key of a bar changes
+export function vwap<T extends IndicatorBar>(bars: T[], sessionOf?: (bar: T) => string | number): Series {
+  let priceVolume = 0;
+  let volume = 0;
+  let session: string | number | undefined;
+  return bars.map(bar => {
+    if (sessionOf) {
+      const key = sessionOf(bar);
+      if (key !== session) {
+        session = key;
+        priceVolume = 0;
+        volume = 0;
+      }
+    }
+    priceVolume += ((bar.high + bar.low + bar.close) / 3) * bar.volume;
+    volume += bar.volume;
+    return volume > 0 ? priceVolume / volume : null;
+  });
+}
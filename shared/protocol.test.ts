@@ -0,0 +1,189 @@
+import { describe, expect, it } from "vitest";
+import {
+  PROTOCOL_VERSION,
+  SERVER_CAPABILITIES,
+  applyPriceDelta,
+  decodeClientMessage,
+  decodeServerMessage,
+  formatChangePercent,
+  type ClientMessage,
+  type PriceDeltaMessage,
+  type PriceUpdateMessage,
+  type ServerMessage,
+} from "./protocol";
+
+const TIMESTAMP = 1_700_000_000_000;
+
+const priceUpdate: PriceUpdateMessage = {
+  type: "price_update",
+  symbol: "AAPL",
+  price: 189.5,
+  change: 2.25,
+  changePercent: 1.2,
+  volume: 52_000_000,
+  vwap: 188.9,
+  relativeVolume: 1.4,
+  gapPercent: 0.35,
+  openingRangeHigh: 190.1,
+  openingRangeLow: 187.2,
+  timestamp: TIMESTAMP,
+};
+
+const moversUpdate = {
+  type: "market_movers_update" as const,
+  gainers: [{ symbol: "NVDA", name: "NVIDIA", price: 950, change: "+4.10%", changePercent: 4.1, volume: 1_000_000, currency: "USD", sector: "Technology" }],
+  losers: [{ symbol: "PEP", name: "PepsiCo", price: 165.4, change: "-1.70%", changePercent: -1.7, volume: 500_000, currency: "USD" }],
+  timestamp: TIMESTAMP,
+};
+
+const clientMessages: ClientMessage[] = [
+  { type: "hello", protocolVersion: PROTOCOL_VERSION },
+  { type: "hello", protocolVersion: 1, requestId: "h1" },
+  { type: "subscribe", symbols: ["AAPL", "MSFT"] },
+  { type: "subscribe", symbols: ["TSLA"], mode: "delta", requestId: "s1" },
+  { type: "subscribe", symbols: [], mode: "full" },
+  { type: "unsubscribe", symbols: ["AAPL"] },
+  { type: "unsubscribe", symbols: ["MSFT"], requestId: "u1" },
+];
+
+const serverMessages: ServerMessage[] = [
+  { type: "hello", protocolVersion: PROTOCOL_VERSION, capabilities: SERVER_CAPABILITIES, timestamp: TIMESTAMP },
+  { type: "ack", action: "hello", symbols: [], timestamp: TIMESTAMP },
+  { type: "ack", requestId: "s1", action: "subscribe", symbols: ["AAPL", "TSLA"], mode: "delta", timestamp: TIMESTAMP },
+  { type: "ack", action: "unsubscribe", symbols: ["TSLA"], timestamp: TIMESTAMP },
+  { type: "error", code: "INVALID_JSON", message: "Message is not valid JSON", timestamp: TIMESTAMP },
+  { type: "error", code: "INVALID_SYMBOL", message: "Invalid symbol(s): $$$", requestId: "s2", symbols: ["$$$"], timestamp: TIMESTAMP },
+  { type: "error", code: "SUBSCRIPTION_LIMIT", message: "At most 100 symbols", timestamp: TIMESTAMP },
+  { type: "error", code: "UNSUPPORTED_VERSION", message: "Unsupported protocol version", timestamp: TIMESTAMP },
+  { type: "error", code: "INVALID_MESSAGE", message: "type: Invalid discriminator value", timestamp: TIMESTAMP },
+  priceUpdate,
+  { type: "price_update", symbol: "MSFT", price: 410, change: -1, changePercent: -0.24, volume: 10, timestamp: TIMESTAMP },
+  { type: "price_delta", symbol: "AAPL", price: 189.75, timestamp: TIMESTAMP + 5000 },
+  { type: "price_delta", symbol: "AAPL", volume: 52_100_000, vwap: 189, relativeVolume: 1.5, timestamp: TIMESTAMP + 10000 },
+  { type: "price_delta", symbol: "AAPL", vwap: null, gapPercent: null, openingRangeHigh: null, timestamp: TIMESTAMP + 15000 },
+  moversUpdate,
+  { type: "snapshot", requestId: "s1", prices: [priceUpdate], movers: moversUpdate, timestamp: TIMESTAMP },
+  { type: "snapshot", prices: [], movers: null, timestamp: TIMESTAMP },
+];
+
+describe("decodeClientMessage", () => {
+  it.each(clientMessages.map(message => [`${message.type} ${JSON.stringify(message)}`, message] as const))("round-trips %s", (_, message) => {
+    expect(decodeClientMessage(JSON.stringify(message))).toEqual({ success: true, message });
+  });
+
+  it("rejects malformed JSON with INVALID_JSON", () => {
+    for (const raw of ["", "{", "not json", "{\"type\": \"hello\",}"]) {
+      const result = decodeClientMessage(raw);
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.code).toBe("INVALID_JSON");
+    }
+  });
+
+  it.each([
+    ["an unknown type", { type: "ping" }],
+    ["a missing type", { symbols: ["AAPL"] }],
+    ["a non-array symbol list", { type: "subscribe", symbols: "AAPL" }],
+    ["an unknown stream mode", { type: "subscribe", symbols: ["AAPL"], mode: "compressed" }],
+    ["a fractional protocol version", { type: "hello", protocolVersion: 1.5 }],
+    ["a protocol version below 1", { type: "hello", protocolVersion: 0 }],
+    ["a server message", { type: "ack", action: "subscribe", symbols: [], timestamp: TIMESTAMP }],
+    ["a non-object frame", [1, 2, 3]],
+    ["null", null],
+  ])("rejects %s with INVALID_MESSAGE", (_, frame) => {
+    const result = decodeClientMessage(JSON.stringify(frame));
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.code).toBe("INVALID_MESSAGE");
+  });
+
+  it("names the offending field in the error", () => {
+    const result = decodeClientMessage(JSON.stringify({ type: "subscribe", symbols: [1] }));
+    expect(result).toMatchObject({ success: false, code: "INVALID_MESSAGE" });
+    if (!result.success) expect(result.error).toMatch(/^symbols\.0: /);
+  });
+});
+
+describe("decodeServerMessage", () => {
+  it.each(serverMessages.map(message => [`${message.type} ${JSON.stringify(message).slice(0, 60)}`, message] as const))("round-trips %s", (_, message) => {
+    expect(decodeServerMessage(JSON.stringify(message))).toEqual({ success: true, message });
+  });
+
+  it("rejects malformed JSON with INVALID_JSON", () => {
+    const result = decodeServerMessage("{\"type\":\"price_update\"");
+    expect(result).toMatchObject({ success: false, code: "INVALID_JSON" });
+  });
+
+  it.each([
+    ["a price_update without a price", { ...priceUpdate, price: undefined }],
+    ["a price_update with a string price", { ...priceUpdate, price: "189.5" }],
+    ["a price_delta without a timestamp", { type: "price_delta", symbol: "AAPL", price: 1 }],
+    ["a price_delta clearing the price", { type: "price_delta", symbol: "AAPL", price: null, timestamp: TIMESTAMP }],
+    ["an unknown error code", { type: "error", code: "TEAPOT", message: "", timestamp: TIMESTAMP }],
+    ["an unknown capability", { type: "hello", protocolVersion: 2, capabilities: ["telepathy"], timestamp: TIMESTAMP }],
+    ["an unknown ack action", { type: "ack", action: "ping", symbols: [], timestamp: TIMESTAMP }],
+    ["a mover without a currency", { ...moversUpdate, gainers: [{ ...moversUpdate.gainers[0], currency: undefined }] }],
+    ["a snapshot without movers", { type: "snapshot", prices: [], timestamp: TIMESTAMP }],
+    ["a client message", { type: "subscribe", symbols: ["AAPL"] }],
+  ])("rejects %s with INVALID_MESSAGE", (_, frame) => {
+    const result = decodeServerMessage(JSON.stringify(frame));
+    expect(result).toMatchObject({ success: false, code: "INVALID_MESSAGE" });
+  });
+});
+
+describe("applyPriceDelta", () => {
+  it("keeps every field the delta leaves out", () => {
+    const delta: PriceDeltaMessage = { type: "price_delta", symbol: "AAPL", timestamp: TIMESTAMP + 5000 };
+    expect(applyPriceDelta(priceUpdate, delta)).toEqual({ ...priceUpdate, timestamp: TIMESTAMP + 5000 });
+  });
+
+  it("overwrites the fields the delta carries", () => {
+    const delta: PriceDeltaMessage = {
+      type: "price_delta",
+      symbol: "AAPL",
+      price: 190,
+      change: 2.75,
+      changePercent: 1.47,
+      volume: 53_000_000,
+      vwap: 189.1,
+      relativeVolume: 1.5,
+      gapPercent: 0.4,
+      openingRangeHigh: 190.5,
+      openingRangeLow: 187,
+      timestamp: TIMESTAMP + 5000,
+    };
+    const { type, ...fields } = delta;
+    expect(applyPriceDelta(priceUpdate, delta)).toEqual({ ...fields, type: "price_update" });
+  });
+
+  it("applies zero values rather than treating them as missing", () => {
+    const delta: PriceDeltaMessage = { type: "price_delta", symbol: "AAPL", change: 0, changePercent: 0, timestamp: TIMESTAMP + 5000 };
+    expect(applyPriceDelta(priceUpdate, delta)).toMatchObject({ change: 0, changePercent: 0, price: priceUpdate.price });
+  });
+
+  it("clears the statistics the delta sets to null", () => {
+    const delta: PriceDeltaMessage = { type: "price_delta", symbol: "AAPL", vwap: null, openingRangeHigh: null, openingRangeLow: null, timestamp: TIMESTAMP + 5000 };
+    const merged = applyPriceDelta(priceUpdate, delta);
+
+    expect(merged).toEqual({ ...priceUpdate, vwap: undefined, openingRangeHigh: undefined, openingRangeLow: undefined, timestamp: TIMESTAMP + 5000 });
+    expect(decodeServerMessage(JSON.stringify(merged))).toMatchObject({ success: true, message: { relativeVolume: 1.4, gapPercent: 0.35 } });
+    expect(JSON.stringify(merged)).not.toContain("vwap");
+  });
+
+  it("keeps the base symbol and produces a valid price_update", () => {
+    const merged = applyPriceDelta(priceUpdate, { type: "price_delta", symbol: "AAPL", price: 191, timestamp: TIMESTAMP + 5000 });
+    expect(merged.symbol).toBe("AAPL");
+    expect(decodeServerMessage(JSON.stringify(merged))).toEqual({ success: true, message: merged });
+  });
+});
+
+describe("formatChangePercent", () => {
+  it.each([
+    [1.5, "+1.50%"],
+    [0, "+0.00%"],
+    [-0.004, "-0.00%"],
+    [-2.345, "-2.35%"],
+    [12.3456, "+12.35%"],
+    [-100, "-100.00%"],
+  ])("formats %s as %s", (value, expected) => {
+    expect(formatChangePercent(value)).toBe(expected);
+  });
+});
@@ -0,0 +1,232 @@
+import { z } from "zod";
+
+// WebSocket protocol shared by server/websocket and the client useWebSocket hook.
+//
+// Protocol version 1 is the original unversioned protocol where `subscribe` replaces the
+// whole symbol list. Clients opt into version 2 (incremental subscriptions, acks and
+// typed errors) by answering the server's `hello` with their own.
+export const PROTOCOL_VERSION = 2;
+export const LEGACY_PROTOCOL_VERSION = 1;
+
+export const serverCapabilitySchema = z.enum(["subscribe", "unsubscribe", "ack", "error", "snapshot", "delta"]);
+
+export const SERVER_CAPABILITIES: ServerCapability[] = ["subscribe", "unsubscribe", "ack", "error", "snapshot", "delta"];
+
+export const errorCodeSchema = z.enum([
+  "INVALID_JSON",
+  "INVALID_MESSAGE",
+  "INVALID_SYMBOL",
+  "UNSUPPORTED_VERSION",
+  "SUBSCRIPTION_LIMIT",
+]);
+
+// Client -> server messages
+export const clientHelloMessageSchema = z.object({
+  type: z.literal("hello"),
+  protocolVersion: z.number().int().min(LEGACY_PROTOCOL_VERSION),
+  requestId: z.string().optional(),
+});
+
+// "full" sends every price_update; "delta" sends only changed fields as price_delta,
+// with a full price_update as a periodic keyframe. The mode applies to the whole connection.
+export const streamModeSchema = z.enum(["full", "delta"]);
+
+export const subscribeMessageSchema = z.object({
+  type: z.literal("subscribe"),
+  symbols: z.array(z.string()),
+  mode: streamModeSchema.optional(),
+  requestId: z.string().optional(),
+});
+
+export const unsubscribeMessageSchema = z.object({
+  type: z.literal("unsubscribe"),
+  symbols: z.array(z.string()),
+  requestId: z.string().optional(),
+});
+
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  clientHelloMessageSchema,
+  subscribeMessageSchema,
+  unsubscribeMessageSchema,
+]);
+
+// Server -> client messages
+export const serverHelloMessageSchema = z.object({
+  type: z.literal("hello"),
+  protocolVersion: z.number().int(),
+  capabilities: z.array(serverCapabilitySchema),
+  timestamp: z.number(),
+});
+
+export const ackMessageSchema = z.object({
+  type: z.literal("ack"),
+  requestId: z.string().optional(),
+  action: z.enum(["hello", "subscribe", "unsubscribe"]),
+  symbols: z.array(z.string()), // the client's full subscription after the request
+  mode: streamModeSchema.optional(), // the connection's stream mode after the request
+  timestamp: z.number(),
+});
+
+export const errorMessageSchema = z.object({
+  type: z.literal("error"),
+  code: errorCodeSchema,
+  message: z.string(),
+  requestId: z.string().optional(),
+  symbols: z.array(z.string()).optional(),
+  timestamp: z.number(),
+});
+
+// Intraday session statistics carried by price frames; absent until they can be computed
+const sessionStatsFields = {
+  vwap: z.number().optional(),
+  relativeVolume: z.number().optional(), // session volume / 20-day average at the same time of day
+  gapPercent: z.number().optional(), // session open vs previous close, in percent
+  openingRangeHigh: z.number().optional(),
+  openingRangeLow: z.number().optional(),
+};
+
+// The same statistics in a price_delta, where null clears one that is no longer available
+const sessionStatsDeltaFields = {
+  vwap: z.number().nullable().optional(),
+  relativeVolume: z.number().nullable().optional(),
+  gapPercent: z.number().nullable().optional(),
+  openingRangeHigh: z.number().nullable().optional(),
+  openingRangeLow: z.number().nullable().optional(),
+};
+
+export const priceUpdateMessageSchema = z.object({
+  type: z.literal("price_update"),
+  symbol: z.string(),
+  price: z.number(),
+  change: z.number(),
+  changePercent: z.number(), // in percent (1.5 means +1.5%), as reported by Yahoo Finance
+  volume: z.number(),
+  ...sessionStatsFields,
+  timestamp: z.number(),
+});
+
+// Only the fields that changed since the previous frame for this symbol are present
+export const priceDeltaMessageSchema = z.object({
+  type: z.literal("price_delta"),
+  symbol: z.string(),
+  price: z.number().optional(),
+  change: z.number().optional(),
+  changePercent: z.number().optional(),
+  volume: z.number().optional(),
+  ...sessionStatsDeltaFields,
+  timestamp: z.number(),
+});
+
+export const marketMoverSchema = z.object({
+  symbol: z.string(),
+  name: z.string(),
+  price: z.number(),
+  change: z.string(), // changePercent formatted for display, e.g. "+1.50%"
+  changePercent: z.number(),
+  volume: z.number(),
+  currency: z.string(),
+  sector: z.string().optional(), // from stock_metadata, once the symbol's profile has been synced
+});
+
+export const marketMoversUpdateMessageSchema = z.object({
+  type: z.literal("market_movers_update"),
+  gainers: z.array(marketMoverSchema),
+  losers: z.array(marketMoverSchema),
+  timestamp: z.number(),
+});
+
+// Cached state sent right after a subscribe so clients need not wait for the next broadcast
+export const snapshotMessageSchema = z.object({
+  type: z.literal("snapshot"),
+  requestId: z.string().optional(),
+  prices: z.array(priceUpdateMessageSchema), // latest update per subscribed symbol, where known
+  movers: marketMoversUpdateMessageSchema.nullable(),
+  timestamp: z.number(),
+});
+
+export const serverMessageSchema = z.discriminatedUnion("type", [
+  serverHelloMessageSchema,
+  ackMessageSchema,
+  errorMessageSchema,
+  priceUpdateMessageSchema,
+  priceDeltaMessageSchema,
+  marketMoversUpdateMessageSchema,
+  snapshotMessageSchema,
+]);
+
+export type ServerCapability = z.infer<typeof serverCapabilitySchema>;
+export type ErrorCode = z.infer<typeof errorCodeSchema>;
+export type ClientHelloMessage = z.infer<typeof clientHelloMessageSchema>;
+export type StreamMode = z.infer<typeof streamModeSchema>;
+export type SubscribeMessage = z.infer<typeof subscribeMessageSchema>;
+export type UnsubscribeMessage = z.infer<typeof unsubscribeMessageSchema>;
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+export type ServerHelloMessage = z.infer<typeof serverHelloMessageSchema>;
+export type AckMessage = z.infer<typeof ackMessageSchema>;
+export type ErrorMessage = z.infer<typeof errorMessageSchema>;
+export type PriceUpdateMessage = z.infer<typeof priceUpdateMessageSchema>;
+export type PriceDeltaMessage = z.infer<typeof priceDeltaMessageSchema>;
+export type MarketMover = z.infer<typeof marketMoverSchema>;
+export type MarketMoversUpdateMessage = z.infer<typeof marketMoversUpdateMessageSchema>;
+export type SnapshotMessage = z.infer<typeof snapshotMessageSchema>;
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+export type WebSocketMessage = ClientMessage | ServerMessage;
+
+export type DecodeResult<T> =
+  | { success: true; message: T }
+  | { success: false; code: "INVALID_JSON" | "INVALID_MESSAGE"; error: string };
+
+function decode<T>(raw: string, schema: z.ZodType<T>): DecodeResult<T> {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { success: false, code: "INVALID_JSON", error: "Message is not valid JSON" };
+  }
+
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+    return { success: false, code: "INVALID_MESSAGE", error: `${path}${issue.message}` };
+  }
+  return { success: true, message: result.data };
+}
+
+// Parse and validate a frame received by the server
+export function decodeClientMessage(raw: string): DecodeResult<ClientMessage> {
+  return decode(raw, clientMessageSchema);
+}
+
+// Parse and validate a frame received by the client
+export function decodeServerMessage(raw: string): DecodeResult<ServerMessage> {
+  return decode(raw, serverMessageSchema);
+}
+
+// A statistic from a price_delta: absent keeps the base value, null clears it
+function patchStat(value: number | null | undefined, base: number | undefined): number | undefined {
+  return value === null ? undefined : value ?? base;
+}
+
+// Apply a price_delta to the last known full update for its symbol
+export function applyPriceDelta(base: PriceUpdateMessage, delta: PriceDeltaMessage): PriceUpdateMessage {
+  return {
+    type: "price_update",
+    symbol: base.symbol,
+    price: delta.price ?? base.price,
+    change: delta.change ?? base.change,
+    changePercent: delta.changePercent ?? base.changePercent,
+    volume: delta.volume ?? base.volume,
+    vwap: patchStat(delta.vwap, base.vwap),
+    relativeVolume: patchStat(delta.relativeVolume, base.relativeVolume),
+    gapPercent: patchStat(delta.gapPercent, base.gapPercent),
+    openingRangeHigh: patchStat(delta.openingRangeHigh, base.openingRangeHigh),
+    openingRangeLow: patchStat(delta.openingRangeLow, base.openingRangeLow),
+    timestamp: delta.timestamp,
+  };
+}
+
+// Format a percent change for display, e.g. 1.5 -> "+1.50%"
+export function formatChangePercent(changePercent: number): string {
+  return `${changePercent >= 0 ? "+" : ""}${changePercent.toFixed(2)}%`;
+}